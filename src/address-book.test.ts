@@ -0,0 +1,87 @@
+// Tests for contact collection, ranking and name matching.
+
+import { expect, test } from 'vitest'
+import {
+  collectContacts,
+  mergeSavedContacts,
+  rankContacts,
+  resolveContact,
+  searchContacts,
+  type ContactSighting,
+} from './address-book.js'
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = Date.UTC(2026, 2, 1)
+
+const sightings: ContactSighting[] = [
+  { address: 'Alice.Smith@example.com', name: 'Alice', date: NOW - 90 * DAY, role: 'received' },
+  { address: 'alice.smith@example.com', name: '"Alice Smith"', date: NOW - 2 * DAY, role: 'sent' },
+  { address: 'alice.smith@example.com', date: NOW - DAY, role: 'received' },
+  { address: 'alicia@example.org', name: 'Alicia Keys', date: NOW - 300 * DAY, role: 'seen' },
+  { address: 'bob@example.com', name: 'Bob Jones', date: NOW - 5 * DAY, role: 'sent' },
+  { address: 'me@example.com', name: 'Me', date: NOW, role: 'seen' },
+]
+
+test('collects one contact per address, newest name, without self', () => {
+  const contacts = collectContacts(sightings, ['ME@example.com'])
+  expect(contacts.map((c) => [c.address, c.name, c.sent, c.received, c.seen])).toEqual([
+    ['alice.smith@example.com', 'Alice Smith', 1, 2, 0],
+    ['alicia@example.org', 'Alicia Keys', 0, 0, 1],
+    ['bob@example.com', 'Bob Jones', 1, 0, 0],
+  ])
+  expect(rankContacts(contacts, NOW).map((c) => c.address)).toEqual([
+    'alice.smith@example.com',
+    'bob@example.com',
+    'alicia@example.org',
+  ])
+})
+
+test('matches names fuzzily and resolves unambiguous ones', () => {
+  const contacts = collectContacts(sightings, ['me@example.com'])
+  expect(searchContacts(contacts, 'ali', NOW).map((c) => c.address)).toEqual(['alice.smith@example.com', 'alicia@example.org'])
+  expect(searchContacts(contacts, 'bjones', NOW).map((c) => c.address)).toEqual(['bob@example.com'])
+  expect(searchContacts(contacts, 'alice smith', NOW).map((c) => c.address)).toEqual(['alice.smith@example.com'])
+
+  // "alice" is a whole name word for Alice Smith but only a prefix match elsewhere
+  expect(resolveContact(contacts, 'alice', NOW)).toMatchObject({ contact: { address: 'alice.smith@example.com' } })
+  expect(resolveContact(contacts, 'nobody', NOW)).toEqual({ candidates: [] })
+
+  const twins = collectContacts(
+    [
+      { address: 'sam@a.com', name: 'Sam A', date: NOW, role: 'sent' },
+      { address: 'sam@b.com', name: 'Sam B', date: NOW, role: 'sent' },
+    ],
+    [],
+  )
+  expect('candidates' in resolveContact(twins, 'sam', NOW)).toBe(true)
+})
+
+test('only picks exact, word or prefix matches on its own', () => {
+  const contacts = collectContacts(sightings, ['me@example.com'])
+  // Prefix of a single contact
+  expect(resolveContact(contacts, 'bo', NOW)).toMatchObject({ contact: { address: 'bob@example.com' } })
+  // Substring ("ones" in Jones) and subsequence ("bjones") matches are offered, not picked
+  expect(resolveContact(contacts, 'ones', NOW)).toMatchObject({ candidates: [{ address: 'bob@example.com' }] })
+  expect(resolveContact(contacts, 'bjones', NOW)).toMatchObject({ candidates: [{ address: 'bob@example.com' }] })
+})
+
+test('address book names win and saved contacts resolve without mail', () => {
+  const contacts = mergeSavedContacts(collectContacts(sightings, ['me@example.com']), [
+    { address: 'Bob@example.com', name: 'Robert Jones' },
+    { address: 'carol@example.net', name: 'Carol Danvers' },
+  ])
+  expect(contacts.find((c) => c.address === 'bob@example.com')).toMatchObject({ name: 'Robert Jones', sent: 1, saved: true })
+  expect(resolveContact(contacts, 'carol', NOW)).toMatchObject({ contact: { address: 'carol@example.net', saved: true } })
+  expect(rankContacts(contacts, NOW).map((c) => c.address)).toEqual([
+    'alice.smith@example.com',
+    'bob@example.com',
+    'carol@example.net',
+    'alicia@example.org',
+  ])
+
+  const twins = mergeSavedContacts([], [
+    { address: 'sam@a.com', name: 'Sam A' },
+    { address: 'sam@b.com', name: 'Sam B' },
+  ])
+  expect('candidates' in resolveContact(twins, 'sam', NOW)).toBe(true)
+})
@@ -0,0 +1,171 @@
+// Contact ranking and matching for the local address book (`zele contacts`,
+// names in --to/--cc/--bcc). Addresses are collected from mail headers as
+// sightings; collectContacts() folds them into one contact per address and
+// contacts are ranked by how often and how recently mail was exchanged.
+// Contacts saved in the CardDAV address book are merged in with
+// mergeSavedContacts(): their names win and they rank even without mail.
+// Pure functions; collection from the caches lives in contacts.ts.
+
+export interface ContactSighting {
+  address: string
+  name?: string
+  /** Message date in ms */
+  date: number
+  /** sent: we wrote to them; received: they wrote to us; seen: also on a message we got */
+  role: 'sent' | 'received' | 'seen'
+}
+
+export interface Contact {
+  address: string
+  name: string
+  sent: number
+  received: number
+  seen: number
+  lastSeen: Date
+  /** In the account's CardDAV address book */
+  saved?: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * One contact per address (case-insensitive). The name is the most recent
+ * non-empty display name; `self` addresses are left out.
+ */
+export function collectContacts(sightings: Iterable<ContactSighting>, self: Iterable<string>): Contact[] {
+  const skip = new Set([...self].map((a) => a.toLowerCase()))
+  const byAddress = new Map<string, Contact & { nameDate: number }>()
+
+  for (const s of sightings) {
+    const address = s.address.trim().toLowerCase()
+    if (!address.includes('@') || skip.has(address)) continue
+    const date = Number.isFinite(s.date) ? s.date : 0
+
+    let contact = byAddress.get(address)
+    if (!contact) {
+      contact = { address, name: '', sent: 0, received: 0, seen: 0, lastSeen: new Date(0), nameDate: -1 }
+      byAddress.set(address, contact)
+    }
+    contact[s.role]++
+    if (date > contact.lastSeen.getTime()) contact.lastSeen = new Date(date)
+
+    const name = s.name?.replace(/^["']|["']$/g, '').trim()
+    if (name && name.toLowerCase() !== address && date >= contact.nameDate) {
+      contact.name = name
+      contact.nameDate = date
+    }
+  }
+
+  return [...byAddress.values()].map(({ nameDate: _, ...contact }) => contact)
+}
+
+/**
+ * Add address book entries to contacts collected from mail. A saved name
+ * replaces the one from mail headers; saved addresses never seen in mail are
+ * added with no counts.
+ */
+export function mergeSavedContacts(contacts: Contact[], saved: Array<{ address: string; name: string }>): Contact[] {
+  const byAddress = new Map(contacts.map((c) => [c.address, { ...c }]))
+  for (const s of saved) {
+    const address = s.address.trim().toLowerCase()
+    if (!address.includes('@')) continue
+    const contact = byAddress.get(address)
+    if (contact) {
+      contact.saved = true
+      if (s.name) contact.name = s.name
+    } else {
+      byAddress.set(address, { address, name: s.name, sent: 0, received: 0, seen: 0, lastSeen: new Date(0), saved: true })
+    }
+  }
+  return [...byAddress.values()]
+}
+
+/**
+ * Rank by exchanged mail, decayed by age: mail we sent counts most, then mail
+ * they sent us, then being copied on the same message. A contact last seen a
+ * month ago counts half as much as one seen today. Being in the address book
+ * is worth one recent message received.
+ */
+export function contactScore(contact: Contact, now = Date.now()): number {
+  const weight = 3 * contact.sent + 2 * contact.received + 0.5 * contact.seen
+  const ageDays = Math.max(0, (now - contact.lastSeen.getTime()) / DAY_MS)
+  return weight / (1 + ageDays / 30) + (contact.saved ? 2 : 0)
+}
+
+export function rankContacts(contacts: Contact[], now = Date.now()): Contact[] {
+  return [...contacts].sort((a, b) => contactScore(b, now) - contactScore(a, now) || a.address.localeCompare(b.address))
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/**
+ * How well `query` names this contact, 0 for no match. Exact address and
+ * name beat a whole name word, which beats a prefix, a substring and finally
+ * an in-order subsequence ("jsmth" → "John Smith").
+ */
+export function matchQuality(contact: Contact, query: string): number {
+  const q = query.trim().toLowerCase()
+  if (!q) return 0
+  const name = contact.name.toLowerCase()
+  const local = contact.address.split('@')[0]!
+  const words = [...name.split(/[\s,]+/), ...local.split(/[._+-]+/)].filter(Boolean)
+
+  if (contact.address === q) return 100
+  if (name === q) return 90
+  const parts = q.split(/\s+/)
+  if (parts.length > 1) {
+    return parts.every((p) => words.some((w) => w.startsWith(p))) ? 70 : 0
+  }
+  if (words.includes(q) || local === q) return 80
+  if (words.some((w) => w.startsWith(q)) || local.startsWith(q)) return 60
+  if (name.includes(q) || contact.address.includes(q)) return 40
+  if (q.length >= 3 && (isSubsequence(q, name) || isSubsequence(q, local))) return 20
+  return 0
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+  let i = 0
+  for (const ch of haystack) {
+    if (ch === needle[i]) i++
+    if (i === needle.length) return true
+  }
+  return false
+}
+
+/** Contacts matching `query`, best match first, then by rank. */
+export function searchContacts(contacts: Contact[], query: string, now = Date.now()): Contact[] {
+  return contacts
+    .map((contact) => ({ contact, quality: matchQuality(contact, query), score: contactScore(contact, now) }))
+    .filter((m) => m.quality > 0)
+    .sort((a, b) => b.quality - a.quality || b.score - a.score)
+    .map((m) => m.contact)
+}
+
+/** Weakest match quality resolveContact() picks on its own: a name or address prefix. */
+const MIN_RESOLVE_QUALITY = 60
+
+/**
+ * Pick the contact a name refers to. Only an exact, whole-word or prefix
+ * match is picked on its own, and only if it is the single such match or
+ * clearly ahead (a better kind of match, or ranked three times higher);
+ * otherwise the candidates are returned so the caller can ask. A substring
+ * or subsequence match is never picked, even when it is the only one.
+ */
+export function resolveContact(
+  contacts: Contact[],
+  query: string,
+  now = Date.now(),
+): { contact: Contact } | { candidates: Contact[] } {
+  const matches = searchContacts(contacts, query, now)
+  const [first, second] = matches
+  if (!first) return { candidates: [] }
+  const q1 = matchQuality(first, query)
+  if (q1 < MIN_RESOLVE_QUALITY) return { candidates: matches.slice(0, 5) }
+  if (!second) return { contact: first }
+
+  const q2 = matchQuality(second, query)
+  if (q1 > q2 || contactScore(first, now) >= 3 * contactScore(second, now)) return { contact: first }
+  return { candidates: matches.slice(0, 5) }
+}
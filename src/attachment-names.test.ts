@@ -0,0 +1,29 @@
+// Tests for attachment filename templates, type filters and sanitizing.
+
+import { expect, test } from 'vitest'
+import { attachmentDate, formatAttachmentName, matchesAttachmentType, sanitizeFilename, unknownNameFields } from './attachment-names.js'
+
+test('fills filename templates without adding directories', () => {
+  const values = {
+    date: attachmentDate('Fri, 5 Jan 2024 09:05:00 +0000'),
+    from: 'billing@example.com',
+    filename: 'invoice.pdf',
+    subject: 'Invoice 01/2024',
+    account: 'me@example.com',
+    message_id: '18c1',
+    thread_id: '18c0',
+  }
+  expect(formatAttachmentName('{date}-{from}-{filename}', values)).toBe('2024-01-05-billing@example.com-invoice.pdf')
+  expect(sanitizeFilename(formatAttachmentName('{subject} {filename}', values), 'x')).toBe('Invoice 01_2024 invoice.pdf')
+  expect(sanitizeFilename('../../etc/passwd', 'x')).toBe('passwd')
+  expect(attachmentDate('not a date')).toBe('undated')
+  expect(unknownNameFields('{date}-{sender}-{filename}')).toEqual(['sender'])
+})
+
+test('filters by extension, MIME type or top-level type', () => {
+  expect(matchesAttachmentType([], 'a.bin', 'application/octet-stream')).toBe(true)
+  expect(matchesAttachmentType(['pdf'], 'Invoice.PDF', 'application/octet-stream')).toBe(true)
+  expect(matchesAttachmentType(['.csv'], 'data.csv', 'text/csv')).toBe(true)
+  expect(matchesAttachmentType(['image'], 'scan', 'image/png')).toBe(true)
+  expect(matchesAttachmentType(['text/csv', 'pdf'], 'notes.txt', 'text/plain')).toBe(false)
+})
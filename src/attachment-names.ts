@@ -0,0 +1,83 @@
+// Naming and filtering of downloaded attachments for `zele attachment get`
+// and `zele attachment download`: filename sanitizing, --name templates like
+// "{date}-{from}-{filename}" and --type filters ("pdf", "image", "text/csv").
+
+import path from 'node:path'
+
+/** Placeholders a --name template can use. */
+export const ATTACHMENT_NAME_FIELDS = ['date', 'from', 'filename', 'subject', 'account', 'message_id', 'thread_id'] as const
+
+export type AttachmentNameField = (typeof ATTACHMENT_NAME_FIELDS)[number]
+
+/** Placeholders in a template that aren't ATTACHMENT_NAME_FIELDS, to report before downloading. */
+export function unknownNameFields(template: string): string[] {
+  const fields = [...template.matchAll(/\{([^}]*)\}/g)].map((m) => m[1]!)
+  return fields.filter((f) => !(ATTACHMENT_NAME_FIELDS as readonly string[]).includes(f))
+}
+
+/**
+ * Fill a --name template. Values can't add directories (slashes become "_");
+ * the result still goes through sanitizeFilename().
+ */
+export function formatAttachmentName(template: string, values: Record<AttachmentNameField, string>): string {
+  return template.replace(/\{([a-z_]+)\}/g, (match, field: string) => {
+    const value = values[field as AttachmentNameField]
+    return value === undefined ? match : value.replace(/[/\\]/g, '_')
+  })
+}
+
+/** YYYY-MM-DD (UTC) for a message Date header, "undated" if it doesn't parse. */
+export function attachmentDate(date: string): string {
+  const parsed = new Date(date)
+  return Number.isNaN(parsed.getTime()) ? 'undated' : parsed.toISOString().slice(0, 10)
+}
+
+/**
+ * Whether an attachment matches any of the --type filters: a file extension
+ * ("pdf"), a MIME type ("text/csv") or a top-level type ("image").
+ */
+export function matchesAttachmentType(types: string[], filename: string, mimeType: string): boolean {
+  if (types.length === 0) return true
+  const ext = path.extname(filename).slice(1).toLowerCase()
+  const mime = mimeType.toLowerCase()
+  return types.some((t) => {
+    const type = t.trim().toLowerCase().replace(/^\./, '')
+    return type === ext || type === mime || mime.startsWith(`${type}/`)
+  })
+}
+
+/**
+ * Sanitize a filename to prevent path traversal and filesystem issues.
+ * - Strips directory components (path traversal prevention)
+ * - Removes null bytes and control characters
+ * - Replaces characters problematic on Windows/macOS/Linux
+ * - Handles Windows reserved names
+ * - Limits length to 255 characters
+ */
+export function sanitizeFilename(name: string | undefined, fallback: string): string {
+  if (!name || name.trim().length === 0) return fallback
+
+  let sanitized = name
+    // Strip directory components (critical for path traversal prevention)
+    .split(/[/\\]/).pop() || ''
+    // Remove null bytes and control characters
+    .replace(/[\x00-\x1f]/g, '')
+    // Replace characters problematic across filesystems: < > : " / \ | ? *
+    .replace(/[<>:"/\\|?*]/g, '_')
+    // Trim leading/trailing spaces and dots (problematic on Windows)
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+
+  // Handle Windows reserved names (CON, PRN, AUX, NUL, COM1-9, LPT1-9)
+  if (/^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])$/i.test(sanitized)) {
+    sanitized = `_${sanitized}`
+  }
+
+  // Limit length (255 is common filesystem limit)
+  if (sanitized.length > 255) {
+    const ext = path.extname(sanitized)
+    const base = sanitized.slice(0, 255 - ext.length)
+    sanitized = base + ext
+  }
+
+  return sanitized.length > 0 ? sanitized : fallback
+}
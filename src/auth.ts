@@ -15,9 +15,12 @@ import pc from 'picocolors'
 import { getPrisma } from './db.js'
 import { GmailClient } from './gmail-client.js'
 import { CalendarClient } from './calendar-client.js'
+import { CardDavClient, GOOGLE_CARDDAV_URL } from './carddav-client.js'
 import * as errore from 'errore'
 import { AuthError, ApiError, UnsupportedError } from './api-utils.js'
 import { ImapSmtpClient } from './imap-smtp-client.js'
+import { SieveClient } from './sieve-client.js'
+import { clearSearchIndex } from './search-index.js'
 
 // ---------------------------------------------------------------------------
 // Account types
@@ -43,10 +46,18 @@ export interface SmtpCredentials {
   tls: boolean
 }
 
+/** Optional address book server for imap_smtp accounts (`zele contacts sync`). */
+export interface CardDavCredentials {
+  url: string
+  user: string
+  password: string
+}
+
 /** Stored in the `tokens` column for imap_smtp accounts. */
 export interface ImapSmtpCredentials {
   imap?: ImapCredentials
   smtp?: SmtpCredentials
+  carddav?: CardDavCredentials
 }
 
 /** Capabilities an account can have. */
@@ -102,9 +113,17 @@ const CLIENT_ID =
 const CLIENT_SECRET =
   process.env.ZELE_CLIENT_SECRET ?? ACTIVE_CLIENT.clientSecret
 
+/** Google enforces this narrower scope for filter writes; https://mail.google.com/ only covers reading them. */
+export const GMAIL_SETTINGS_SCOPE = 'https://www.googleapis.com/auth/gmail.settings.basic'
+
+/** Google Contacts over CardDAV (`zele contacts sync/add/edit/delete`). */
+export const GOOGLE_CARDDAV_SCOPE = 'https://www.googleapis.com/auth/carddav'
+
 const SCOPES = [
-  'https://mail.google.com/',                       // Gmail (full — covers settings, filters, etc.)
+  'https://mail.google.com/',                       // Gmail (full — covers settings, reading filters, etc.)
+  GMAIL_SETTINGS_SCOPE,                             // Creating/deleting filters
   'https://www.googleapis.com/auth/calendar',       // Calendar (full)
+  GOOGLE_CARDDAV_SCOPE,                             // Contacts via CardDAV
   'https://www.googleapis.com/auth/userinfo.email', // Email identity
 ]
 
@@ -616,6 +635,9 @@ export interface LoginImapOptions {
   smtpUser?: string
   smtpPassword?: string
   tls?: boolean
+  carddavUrl?: string
+  carddavUser?: string
+  carddavPassword?: string
 }
 
 /**
@@ -637,6 +659,9 @@ export async function loginImap(
     smtpUser,
     smtpPassword,
     tls = true,
+    carddavUrl,
+    carddavUser,
+    carddavPassword,
   } = options
 
   const imapPass = imapPassword ?? password
@@ -708,6 +733,26 @@ export async function loginImap(
     capabilities.push('smtp')
   }
 
+  // Configure CardDAV if provided (defaults to the IMAP login)
+  if (carddavUrl) {
+    credentials.carddav = {
+      url: carddavUrl,
+      user: carddavUser ?? imapUser ?? email,
+      password: carddavPassword ?? imapPass,
+    }
+
+    // Test CardDAV by locating the address book
+    const carddavTest = await new CardDavClient({
+      email,
+      appId: IMAP_SMTP_APP_ID,
+      serverUrl: carddavUrl,
+      headers: basicAuthHeaders(credentials.carddav),
+    }).getAddressBook()
+    if (carddavTest instanceof Error) {
+      return new AuthError({ email, reason: `CardDAV connection failed: ${carddavTest.message}` })
+    }
+  }
+
   // Save to DB
   const prisma = await getPrisma()
   const upsertResult = await errore.tryAsync({
@@ -749,6 +794,8 @@ export async function logout(email: string): Promise<void | Error> {
     catch: (err) => new Error(`Failed to remove credentials for ${email}`, { cause: err }),
   })
   if (result instanceof Error) return result
+  // The FTS index has no foreign key to Account, so it doesn't cascade
+  await clearSearchIndex(email)
 }
 
 // ---------------------------------------------------------------------------
@@ -886,6 +933,56 @@ export async function getClient(
   )
 }
 
+/** An IMAP-only feature, named in the UnsupportedError for Google accounts with a hint at what they use instead. */
+export interface ImapOnlyFeature {
+  feature: string
+  hint: string
+}
+
+/** The IMAP/SMTP accounts among `accounts`; errors if there are none. */
+export function imapAccounts<T extends { accountType: AccountType }>(
+  accounts: T[],
+  { feature, hint }: ImapOnlyFeature,
+): T[] | UnsupportedError {
+  const imap = accounts.filter((a) => a.accountType === 'imap_smtp')
+  if (imap.length === 0) return new UnsupportedError({ feature, accountType: 'Google', hint })
+  return imap
+}
+
+/**
+ * Get the client of a single IMAP account. Errors if none of the matched
+ * accounts is IMAP, or several are and no --account filter was provided.
+ */
+export async function getImapClient(
+  accounts: string[] | undefined,
+  feature: ImapOnlyFeature,
+): Promise<ClientEntry & { client: ImapSmtpClient }> {
+  const clients = imapAccounts(await getClients(accounts), feature)
+  if (clients instanceof Error) throw clients
+  return onlyAccount(clients) as ClientEntry & { client: ImapSmtpClient }
+}
+
+/** The one account left after filtering; errors listing them when --account is needed to pick. */
+function onlyAccount<T extends { email: string }>(accounts: T[]): T {
+  if (accounts.length === 1) return accounts[0]!
+  const emails = accounts.map((a) => a.email).join('\n  ')
+  throw new Error(`Multiple accounts matched. Specify --account:\n  ${emails}`)
+}
+
+/**
+ * Scopes granted to a Google account's stored tokens, or null when the
+ * tokens don't record them (then only an API call can tell).
+ */
+export async function getGrantedScopes(account: Pick<AccountId, 'email' | 'appId'>): Promise<string[] | null> {
+  const prisma = await getPrisma()
+  const row = await prisma.account.findUnique({
+    where: { email_appId: { email: account.email, appId: account.appId } },
+  })
+  if (!row || row.accountType !== 'google') return null
+  const tokens: Credentials = JSON.parse(row.tokens)
+  return tokens.scope ? tokens.scope.split(' ') : null
+}
+
 /**
  * Get a single authenticated GmailClient. Errors if account is not a Google account.
  * Use this for commands that require Gmail-specific features.
@@ -969,6 +1066,137 @@ export async function getCalendarClient(
   )
 }
 
+// ---------------------------------------------------------------------------
+// CardDAV client helpers
+// ---------------------------------------------------------------------------
+
+function basicAuthHeaders({ user, password }: CardDavCredentials): Record<string, string> {
+  return { Authorization: `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}` }
+}
+
+/**
+ * Get CardDavClient instances for accounts with an address book: Google
+ * accounts (Google Contacts) and IMAP/SMTP accounts logged in with
+ * --carddav-url. Throws UnsupportedError when none of the matched accounts has one.
+ */
+export async function getCardDavClients(
+  accounts?: string[],
+): Promise<Array<{ email: string; appId: string; client: CardDavClient }>> {
+  const allAccounts = await listAccounts()
+  if (allAccounts.length === 0) {
+    throw new Error('No accounts registered. Run: zele login')
+  }
+
+  const filtered = accounts && accounts.length > 0
+    ? allAccounts.filter((a) => accounts.includes(a.email))
+    : allAccounts
+
+  if (filtered.length === 0) {
+    const available = allAccounts.map((a) => a.email).join(', ')
+    throw new Error(`No matching accounts. Available: ${available}`)
+  }
+
+  const prisma = await getPrisma()
+  const results = await Promise.all(
+    filtered.map(async (account) => {
+      if (account.accountType === 'imap_smtp') {
+        const row = await prisma.account.findUnique({
+          where: { email_appId: { email: account.email, appId: account.appId } },
+        })
+        const credentials: ImapSmtpCredentials = row ? JSON.parse(row.tokens) : {}
+        if (!credentials.carddav) return null
+        const client = new CardDavClient({
+          email: account.email,
+          appId: account.appId,
+          serverUrl: credentials.carddav.url,
+          headers: basicAuthHeaders(credentials.carddav),
+        })
+        return { email: account.email, appId: account.appId, client }
+      }
+
+      const auth = await authenticateAccount(account)
+      const { token } = await auth.getAccessToken()
+      if (!token) throw new Error(`Failed to get access token for ${account.email}`)
+      const client = new CardDavClient({
+        email: account.email,
+        appId: account.appId,
+        serverUrl: GOOGLE_CARDDAV_URL,
+        homeUrl: `${GOOGLE_CARDDAV_URL}${account.email}/lists/`,
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      return { email: account.email, appId: account.appId, client }
+    }),
+  )
+
+  const clients = results.filter((r) => r !== null)
+  if (clients.length === 0) {
+    throw new UnsupportedError({
+      feature: 'Contacts sync',
+      accountType: 'IMAP/SMTP',
+      hint: 'Add an address book server with: zele login imap ... --carddav-url <url>',
+    })
+  }
+  return clients
+}
+
+/**
+ * Get a single CardDavClient. Errors if several accounts have an address book
+ * and no --account filter was provided.
+ */
+export async function getCardDavClient(
+  accounts?: string[],
+): Promise<{ email: string; appId: string; client: CardDavClient }> {
+  const clients = await getCardDavClients(accounts)
+  if (clients.length === 1) {
+    return clients[0]!
+  }
+
+  const emails = clients.map((c) => c.email).join('\n  ')
+  throw new Error(
+    `Multiple accounts matched. Specify --account:\n  ${emails}`,
+  )
+}
+
+// ---------------------------------------------------------------------------
+// ManageSieve client helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Get a SieveClient for one IMAP account, using its stored IMAP credentials.
+ * `host` and `port` override the server (default: the IMAP host, port 4190).
+ * Errors if several IMAP accounts match and no --account filter was provided.
+ */
+export async function getSieveClient(
+  accounts?: string[],
+  { host, port }: { host?: string; port?: number } = {},
+): Promise<{ email: string; appId: string; client: SieveClient }> {
+  const allAccounts = await listAccounts()
+  if (allAccounts.length === 0) {
+    throw new Error('No accounts registered. Run: zele login')
+  }
+
+  const filtered = imapAccounts(
+    accounts && accounts.length > 0 ? allAccounts.filter((a) => accounts.includes(a.email)) : allAccounts,
+    { feature: 'Sieve', hint: 'Sieve scripts run on IMAP servers. For Gmail use: zele mail filter' },
+  )
+  if (filtered instanceof Error) throw filtered
+
+  const account = onlyAccount(filtered)
+  const prisma = await getPrisma()
+  const row = await prisma.account.findUnique({
+    where: { email_appId: { email: account.email, appId: account.appId } },
+  })
+  const credentials: ImapSmtpCredentials = row ? JSON.parse(row.tokens) : {}
+  if (!credentials.imap) {
+    throw new UnsupportedError({ feature: 'Sieve', accountType: 'SMTP-only', hint: 'Add IMAP with: zele login imap --email ... --imap-host ...' })
+  }
+  return {
+    email: account.email,
+    appId: account.appId,
+    client: new SieveClient({ email: account.email, credentials: credentials.imap, host, port }),
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Auth status (for auth status command)
 // ---------------------------------------------------------------------------
@@ -1,7 +1,7 @@
 // Tests for calendar time range resolution logic.
 
 import { expect, test, describe } from 'vitest'
-import { resolveTimeRange, parseTimeExpression, isDateOnly } from './calendar-time.js'
+import { resolveTimeRange, parseTimeExpression, parseFutureTime, isDateOnly } from './calendar-time.js'
 
 const tz = 'America/New_York'
 
@@ -33,3 +33,32 @@ describe('resolveTimeRange', () => {
     expect(range.timeMax).toMatch(/^2026-03-14/)
   })
 })
+
+describe('parseTimeExpression', () => {
+  test('date with a time of day', () => {
+    expect(parseTimeExpression('2026-03-12 9am', tz)).toBe('2026-03-12T09:00:00-04:00')
+    expect(parseTimeExpression('2026-03-12 at 14:30', tz)).toBe('2026-03-12T14:30:00-04:00')
+    expect(parseTimeExpression('2026-03-12 12pm', tz)).toBe('2026-03-12T12:00:00-04:00')
+  })
+
+  test('relative day with a time of day', () => {
+    expect(parseTimeExpression('tomorrow 9am', tz)).toMatch(/T09:00:00[+-]\d{2}:\d{2}$/)
+    expect(parseTimeExpression('next friday 5:15pm', tz)).toMatch(/T17:15:00[+-]\d{2}:\d{2}$/)
+  })
+
+  test('bare numbers and invalid times are not times of day', () => {
+    expect(() => parseTimeExpression('tomorrow 9', tz)).toThrow('Cannot parse time expression')
+    expect(() => parseTimeExpression('tomorrow 13pm', tz)).toThrow('Cannot parse time expression')
+  })
+})
+
+describe('parseFutureTime', () => {
+  test('accepts future times, rejects past and unreadable ones', () => {
+    const now = new Date()
+    expect(parseFutureTime('+2h', '--at', now)).toBeInstanceOf(Date)
+    expect(String(parseFutureTime('2020-01-01', '--until', now))).toMatch(/^ValidationError: Invalid --until: 2020-01-01T.* is in the past$/)
+    expect(String(parseFutureTime('someday', '--at', now))).toMatchInlineSnapshot(
+      `"ValidationError: Invalid --at: can't read "someday" (try "tomorrow 9am", "friday 14:00" or "+2h")"`,
+    )
+  })
+})
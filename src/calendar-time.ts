@@ -1,8 +1,12 @@
 // Time parsing utilities for calendar commands.
-// Resolves human-friendly time expressions (today, tomorrow, monday, +1h)
-// into RFC3339 timestamps in the user's calendar timezone.
+// Resolves human-friendly time expressions (today, tomorrow, monday, +1h,
+// "tomorrow 9am") into RFC3339 timestamps in the user's calendar timezone.
+// Also used by `--at` scheduled sending and `mail snooze --until`, with the
+// system timezone (parseFutureTime).
 // All relative expressions are resolved against the calendar timezone, not system time.
 
+import { ValidationError } from './api-utils.js'
+
 // ---------------------------------------------------------------------------
 // Weekday lookup
 // ---------------------------------------------------------------------------
@@ -88,7 +92,8 @@ function getTimezoneOffset(utcDate: Date, tz: string): number {
     hour: '2-digit',
     minute: '2-digit',
     second: '2-digit',
-    hour12: false,
+    // h23, not hour12: false: the latter formats midnight as "24" and skews the offset by a day
+    hourCycle: 'h23',
   }).formatToParts(utcDate)
 
   const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0)
@@ -133,10 +138,56 @@ export function isDateOnly(input: string): boolean {
   return /^\d{4}-\d{2}-\d{2}$/.test(input)
 }
 
+/** Day words a time of day can follow ("tomorrow 9am", "next monday 14:30", "2026-03-12 9:00") */
+const DAY_WITH_TIME_RE = /^(?:(today|tomorrow|yesterday|(?:next\s+)?[a-z]+day|\d{4}-\d{2}-\d{2})\s+)?(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/
+
+/** Split "tomorrow 9am" into its day expression and 24h time. A bare number
+ *  ("9") isn't a time of day: it needs a colon or am/pm. */
+function parseDayWithTime(trimmed: string): { day: string; hour: number; minute: number } | null {
+  const match = DAY_WITH_TIME_RE.exec(trimmed)
+  if (!match || (match[3] === undefined && match[4] === undefined)) return null
+  let hour = Number(match[2])
+  const minute = Number(match[3] ?? 0)
+  const meridiem = match[4]
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0)
+  }
+  if (hour > 23 || minute > 59) return null
+  return { day: match[1] ?? 'today', hour, minute }
+}
+
+/** Parse a time expression for an option that must name a moment in the future
+ *  (`--at`, `--until`), in the system timezone. */
+export function parseFutureTime(value: string, field: string, now = new Date()): Date | ValidationError {
+  const tz = Intl.DateTimeFormat().resolvedOptions().timeZone
+  let time: Date
+  try {
+    time = new Date(parseTimeExpression(value, tz))
+  } catch {
+    return new ValidationError({ field, reason: `can't read "${value}" (try "tomorrow 9am", "friday 14:00" or "+2h")` })
+  }
+  if (Number.isNaN(time.getTime())) {
+    return new ValidationError({ field, reason: `can't read "${value}"` })
+  }
+  if (time.getTime() <= now.getTime()) {
+    return new ValidationError({ field, reason: `${time.toISOString()} is in the past` })
+  }
+  return time
+}
+
 /** Parse a time expression into an RFC3339 string */
 export function parseTimeExpression(input: string, tz: string): string {
   const trimmed = input.trim().toLowerCase()
 
+  // Day plus time of day: "tomorrow 9am", "monday 14:30", "2026-03-12 9:00", "5pm" (today)
+  const dayWithTime = parseDayWithTime(trimmed)
+  if (dayWithTime) {
+    const dayStart = parseTimeExpression(dayWithTime.day, tz)
+    const [year, month, day] = dayStart.slice(0, 10).split('-').map(Number)
+    return dateToRfc3339(year!, month!, day!, dayWithTime.hour, dayWithTime.minute, tz)
+  }
+
   // Already RFC3339
   if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(input)) {
     // If it has timezone offset, use as-is
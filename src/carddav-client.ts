@@ -0,0 +1,224 @@
+// CardDAV address book client (`zele contacts sync/add/edit/delete`).
+// Uses tsdav like calendar-client.ts, with vCard parse/generate in vcard.ts.
+// Google accounts pass a Bearer token to Google's CardDAV endpoint; IMAP/SMTP
+// accounts use the server given to `zele login imap --carddav-url` (any RFC 6352
+// server: Fastmail, Nextcloud, iCloud, Radicale...) with basic auth.
+// The account's address book is mirrored into the ContactCard table with each
+// card's raw vCard and etag, so recipient resolution and `mail list` read it
+// without network. Writes go to the server first (If-Match on the etag, so a
+// card edited elsewhere since the last sync is not overwritten) and update the
+// mirror once the server accepts them.
+
+import {
+  createAccount,
+  fetchAddressBooks,
+  fetchVCards,
+  createVCard,
+  updateVCard,
+  deleteVCard,
+  type DAVAccount,
+  type DAVAddressBook,
+} from 'tsdav'
+import crypto from 'node:crypto'
+import * as errore from 'errore'
+import { getPrisma } from './db.js'
+import { AuthError, isAuthLikeError, ApiError, NotFoundError, ParseError } from './api-utils.js'
+import { buildVCard, cardFromVCard, type Card } from './vcard.js'
+
+/** Boundary helper: wrap a tsdav/CardDAV call, converting auth-like errors to AuthError values.
+ *  Same contract as caldavBoundary in calendar-client.ts. */
+function carddavBoundary<T>(email: string, fn: () => Promise<T>) {
+  return errore.tryAsync({
+    try: fn,
+    catch: (err) => isAuthLikeError(err)
+      ? new AuthError({ email, reason: String(err) })
+      : new ApiError({ reason: String(err), cause: err }),
+  })
+}
+
+/** tsdav returns the raw Response for writes; turn non-2xx answers into error values. */
+function checkResponse(email: string, res: Response): AuthError | ApiError | null {
+  if (res.ok) return null
+  if (res.status === 401 || res.status === 403) {
+    return new AuthError({ email, reason: `CardDAV server answered ${res.status} ${res.statusText}` })
+  }
+  if (res.status === 412) {
+    return new ApiError({ reason: 'the contact was changed on the server since the last sync. Run zele contacts sync and try again' })
+  }
+  return new ApiError({ reason: `CardDAV server answered ${res.status} ${res.statusText}` })
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CardEntry extends Card {
+  email: string
+  appId: string
+  /** vCard resource URL on the server */
+  url: string
+  etag: string
+}
+
+/** Google's CardDAV principal collection; the address book is <email>/lists/default/. */
+export const GOOGLE_CARDDAV_URL = 'https://www.googleapis.com/carddav/v1/principals/'
+
+export function cardEntryFromRow(row: { email: string; appId: string; url: string; etag: string; data: string }): CardEntry | ParseError {
+  const card = cardFromVCard(row.data)
+  if (card instanceof ParseError) return card
+  return { ...card, email: row.email, appId: row.appId, url: row.url, etag: row.etag }
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+export class CardDavClient {
+  private headers: Record<string, string>
+  private email: string
+  private appId: string
+  private serverUrl: string
+  private homeUrl: string | undefined
+  private addressBookCache: DAVAddressBook | null = null
+
+  /**
+   * serverUrl is the CardDAV server (discovered via /.well-known/carddav and
+   * the principal's addressbook-home-set), unless homeUrl is known up front
+   * as it is for Google.
+   */
+  constructor({ email, appId, serverUrl, homeUrl, headers }: {
+    email: string
+    appId: string
+    serverUrl: string
+    homeUrl?: string
+    headers: Record<string, string>
+  }) {
+    this.email = email
+    this.appId = appId
+    this.serverUrl = serverUrl
+    this.homeUrl = homeUrl
+    this.headers = headers
+  }
+
+  private get account() {
+    return { email: this.email, appId: this.appId }
+  }
+
+  /** The account's address book: Google's "default" list, or the first one the server lists. */
+  async getAddressBook(): Promise<DAVAddressBook | AuthError | ApiError | NotFoundError> {
+    if (this.addressBookCache) return this.addressBookCache
+
+    const account = this.homeUrl
+      ? { serverUrl: this.serverUrl, rootUrl: this.serverUrl, homeUrl: this.homeUrl, accountType: 'carddav' as const }
+      : await carddavBoundary(this.email, () =>
+          createAccount({
+            account: { serverUrl: this.serverUrl, accountType: 'carddav' },
+            headers: this.headers,
+            loadCollections: false,
+          }),
+        )
+    if (account instanceof Error) return account
+
+    const books = await carddavBoundary(this.email, () =>
+      fetchAddressBooks({ account: account as DAVAccount, headers: this.headers }),
+    )
+    if (books instanceof Error) return books
+
+    const book = books.find((b) => /\/default\/?$/.test(b.url)) ?? books[0]
+    if (!book) {
+      return new NotFoundError({ resource: `CardDAV address book for ${this.email} (check the server URL and credentials)` })
+    }
+    this.addressBookCache = book
+    return book
+  }
+
+  /** Fetch every card from the server and replace the account's mirror. Returns the card count. */
+  async sync(): Promise<number | AuthError | ApiError | NotFoundError> {
+    const book = await this.getAddressBook()
+    if (book instanceof Error) return book
+
+    const vcards = await carddavBoundary(this.email, () =>
+      fetchVCards({ addressBook: book, headers: this.headers }),
+    )
+    if (vcards instanceof Error) return vcards
+
+    const prisma = await getPrisma()
+    const syncedAt = new Date()
+    const rows = vcards
+      .filter((v) => typeof v.data === 'string' && v.data.trim())
+      .map((v) => ({ ...this.account, url: v.url, etag: v.etag ?? '', data: v.data as string, syncedAt }))
+    await prisma.$transaction([
+      prisma.contactCard.deleteMany({ where: this.account }),
+      prisma.contactCard.createMany({ data: rows }),
+    ])
+    return rows.length
+  }
+
+  async createCard(fields: Omit<Card, 'uid'>): Promise<CardEntry | AuthError | ApiError | NotFoundError | ParseError> {
+    const book = await this.getAddressBook()
+    if (book instanceof Error) return book
+
+    const uid = crypto.randomUUID()
+    const vCardString = buildVCard({ uid, ...fields })
+    if (vCardString instanceof ParseError) return vCardString
+    const filename = `${uid}.vcf`
+
+    const res = await carddavBoundary(this.email, () =>
+      createVCard({ addressBook: book, vCardString, filename, headers: this.headers }),
+    )
+    if (res instanceof Error) return res
+    const failed = checkResponse(this.email, res)
+    if (failed) return failed
+
+    // Some servers (Google) store the card under a URL of their own and say so in Location
+    const url = new URL(res.headers.get('location') ?? filename, book.url).href
+    const etag = res.headers.get('etag') ?? ''
+    await this.saveRow(url, etag, vCardString)
+    return { ...this.account, uid, ...fields, url, etag }
+  }
+
+  /** Rewrite a card's fields, keeping everything else other clients stored on it. */
+  async updateCard(entry: CardEntry, fields: Card): Promise<CardEntry | AuthError | ApiError | NotFoundError | ParseError> {
+    const prisma = await getPrisma()
+    const row = await prisma.contactCard.findUnique({
+      where: { email_appId_url: { ...this.account, url: entry.url } },
+    })
+    if (!row) return new NotFoundError({ resource: `Contact ${entry.name || entry.url}` })
+
+    const data = buildVCard(fields, row.data)
+    if (data instanceof ParseError) return data
+
+    const res = await carddavBoundary(this.email, () =>
+      updateVCard({ vCard: { url: entry.url, data, etag: row.etag || undefined }, headers: this.headers }),
+    )
+    if (res instanceof Error) return res
+    const failed = checkResponse(this.email, res)
+    if (failed) return failed
+
+    const etag = res.headers.get('etag') ?? ''
+    await this.saveRow(entry.url, etag, data)
+    return { ...this.account, ...fields, url: entry.url, etag }
+  }
+
+  async deleteCard(entry: CardEntry): Promise<void | AuthError | ApiError> {
+    const res = await carddavBoundary(this.email, () =>
+      deleteVCard({ vCard: { url: entry.url, etag: entry.etag || undefined }, headers: this.headers }),
+    )
+    if (res instanceof Error) return res
+    // Already gone on the server: still drop it from the mirror
+    const failed = res.status === 404 ? null : checkResponse(this.email, res)
+    if (failed) return failed
+
+    const prisma = await getPrisma()
+    await prisma.contactCard.deleteMany({ where: { ...this.account, url: entry.url } })
+  }
+
+  private async saveRow(url: string, etag: string, data: string) {
+    const prisma = await getPrisma()
+    await prisma.contactCard.upsert({
+      where: { email_appId_url: { ...this.account, url } },
+      create: { ...this.account, url, etag, data, syncedAt: new Date() },
+      update: { etag, data, syncedAt: new Date() },
+    })
+  }
+}
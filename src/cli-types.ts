@@ -4,5 +4,6 @@
 // `./cli.js` (which itself imports every command module).
 
 import type { Goke } from 'goke'
+import type { OutputFormat } from './output.js'
 
-export type ZeleCli = Goke<{ account?: string[] }>
+export type ZeleCli = Goke<{ account?: string[]; format?: OutputFormat }>
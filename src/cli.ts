@@ -1,7 +1,8 @@
 #!/usr/bin/env bun
 
 // zele — Gmail CLI built on goke.
-// Entry point: registers all commands, global options, help, and version.
+// Entry point: registers all commands, global options (--account, --format),
+// help, and version.
 // Uses goke for command parsing with zod schemas for type-safe options.
 
 import { createRequire } from 'node:module'
@@ -15,17 +16,33 @@ import { registerMailCommands } from './commands/mail.js'
 import { registerMailActionCommands } from './commands/mail-actions.js'
 import { registerDraftCommands } from './commands/draft.js'
 import { registerLabelCommands } from './commands/label.js'
+import { registerFolderCommands } from './commands/folder.js'
 import { registerAttachmentCommands } from './commands/attachment.js'
 import { registerProfileCommands } from './commands/profile.js'
 import { registerCalendarCommands } from './commands/calendar.js'
 import { registerWatchCommands } from './commands/watch.js'
 import { registerFilterCommands } from './commands/filter.js'
-import { handleCommandError } from './output.js'
+import { registerSyncCommands } from './commands/sync.js'
+import { registerOutboxCommands } from './commands/outbox.js'
+import { registerSnoozeCommands } from './commands/snooze.js'
+import { registerFollowupCommands } from './commands/followups.js'
+import { registerTemplateCommands } from './commands/template.js'
+import { registerMergeCommands } from './commands/merge.js'
+import { registerSignatureCommands } from './commands/signature.js'
+import { registerContactsCommands } from './commands/contacts.js'
+import { registerExportCommands } from './commands/export.js'
+import { registerImportCommands } from './commands/import.js'
+import { registerRsvpCommands } from './commands/rsvp.js'
+import { registerRulesCommands } from './commands/rules.js'
+import { registerSieveCommands } from './commands/sieve.js'
+import { handleCommandError, setOutputFormat, OUTPUT_FORMATS } from './output.js'
 
-const cli: ZeleCli = goke('zele').option(
-  '--account <account>',
-  z.array(z.string()).describe('Filter by email account (repeatable)'),
-)
+const cli: ZeleCli = goke('zele')
+  .option('--account <account>', z.array(z.string()).describe('Filter by email account (repeatable)'))
+  .option(
+    '--format <format>',
+    z.enum(OUTPUT_FORMATS).default('yaml').describe('Output format: yaml, json, ndjson (one record per line) or csv'),
+  )
 
 // ---------------------------------------------------------------------------
 // Default command (TUI)
@@ -73,10 +90,24 @@ registerMailCommands(cli)
 registerMailActionCommands(cli)
 registerDraftCommands(cli)
 registerLabelCommands(cli)
+registerFolderCommands(cli)
 registerAttachmentCommands(cli)
 registerCalendarCommands(cli)
 registerWatchCommands(cli)
 registerFilterCommands(cli)
+registerSyncCommands(cli)
+registerOutboxCommands(cli)
+registerSnoozeCommands(cli)
+registerFollowupCommands(cli)
+registerTemplateCommands(cli)
+registerMergeCommands(cli)
+registerSignatureCommands(cli)
+registerContactsCommands(cli)
+registerExportCommands(cli)
+registerImportCommands(cli)
+registerRsvpCommands(cli)
+registerRulesCommands(cli)
+registerSieveCommands(cli)
 
 // ---------------------------------------------------------------------------
 // Help & version
@@ -91,4 +122,7 @@ cli.version(version)
 // Parse & run
 // ---------------------------------------------------------------------------
 
-cli.parse()
+// Parse first so the output format is set before the command prints anything
+const { options } = cli.parse(undefined, { run: false })
+setOutputFormat(options.format ?? 'yaml')
+cli.runMatchedCommand()
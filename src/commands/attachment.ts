@@ -1,14 +1,28 @@
-// Attachment commands: list, get (download).
+// Attachment commands: list, get (download), download (bulk by search).
 // Lists attachments for a thread and downloads them to disk.
 // Skips re-download if file already exists with same size (like gogcli).
+// Bulk downloads (get --thread, download --query) name files from a --name
+// template, filter with --type and skip content already saved in --out-dir.
 
 import type { ZeleCli } from '../cli-types.js'
 import { z } from 'zod'
+import crypto from 'node:crypto'
 import fs from 'node:fs'
 import path from 'node:path'
-import { getClient } from '../auth.js'
+import { getClient, getClients, type ClientEntry } from '../auth.js'
+import { AuthError, ValidationError } from '../api-utils.js'
+import type { AttachmentMeta, ParsedMessage } from '../gmail-client.js'
+import {
+  ATTACHMENT_NAME_FIELDS,
+  attachmentDate,
+  formatAttachmentName,
+  matchesAttachmentType,
+  sanitizeFilename,
+  unknownNameFields,
+} from '../attachment-names.js'
 import * as out from '../output.js'
 import { handleCommandError } from '../output.js'
+import { queryThreadIds } from '../thread-query.js'
 
 export function registerAttachmentCommands(cli: ZeleCli) {
   // =========================================================================
@@ -38,7 +52,7 @@ export function registerAttachmentCommands(cli: ZeleCli) {
       }
 
       out.printList(attachments, { summary: `${attachments.length} attachment(s)` })
-      out.hint('Use: zele attachment get <messageId> <attachmentId>')
+      out.hint('Use: zele attachment get <messageId> <attachmentId>, or zele attachment get --thread <threadId> for all')
     })
 
   // =========================================================================
@@ -46,10 +60,30 @@ export function registerAttachmentCommands(cli: ZeleCli) {
   // =========================================================================
 
   cli
-    .command('attachment get <messageId> <attachmentId>', 'Download an attachment')
+    .command('attachment get [messageId] [attachmentId]', 'Download an attachment, or every attachment of a thread with --thread')
+    .option('--thread <thread>', z.string().describe('Download every attachment in this thread'))
     .option('--out-dir <outDir>', z.string().default('.').describe('Output directory'))
     .option('--filename <filename>', z.string().describe('Override filename'))
+    .option('--name <name>', z.string().default('{filename}').describe(`Filename template for --thread (${nameFieldList()})`))
+    .option('--type <type>', z.string().describe('Only attachments of these types with --thread: extension, MIME type or top-level type (comma-separated: pdf,image)'))
     .action(async (messageId, attachmentId, options) => {
+      if (options.thread) {
+        if (messageId || options.filename) {
+          out.error('--thread downloads every attachment of the thread; use --name instead of IDs or --filename')
+          process.exit(1)
+        }
+        const entry = await getClient(options.account)
+        const bulk = bulkOptions(options)
+        if (bulk instanceof Error) handleCommandError(bulk)
+        await downloadAll([entry], () => [options.thread!], bulk)
+        return
+      }
+
+      if (!messageId || !attachmentId) {
+        out.error('Pass <messageId> <attachmentId>, or --thread <threadId>')
+        process.exit(1)
+      }
+
       const { client } = await getClient(options.account)
 
       // Get attachment metadata first
@@ -66,22 +100,18 @@ export function registerAttachmentCommands(cli: ZeleCli) {
       const filename = sanitizeFilename(rawFilename, fallbackFilename)
 
       const outDir = path.resolve(options.outDir)
-      const outPath = path.join(outDir, filename)
-
-      // Security: verify the resolved path is within the output directory
-      if (!outPath.startsWith(outDir + path.sep) && outPath !== outDir) {
+      const outPath = outputPath(outDir, filename)
+      if (!outPath) {
         out.error(`Security error: filename "${rawFilename}" would write outside output directory`)
         process.exit(1)
       }
 
       // Check if file already exists with same size (skip re-download)
-      if (fs.existsSync(outPath) && meta) {
+      if (meta && isCached(outPath, meta)) {
         const stat = fs.statSync(outPath)
-        if (stat.size === meta.size) {
-          out.printYaml({ path: outPath, cached: true, size: stat.size })
-          out.hint(`Cached: ${outPath}`)
-          return
-        }
+        out.printYaml({ path: outPath, cached: true, size: stat.size })
+        out.hint(`Cached: ${outPath}`)
+        return
       }
 
       // Download
@@ -89,17 +119,33 @@ export function registerAttachmentCommands(cli: ZeleCli) {
       if (base64Data instanceof Error) return handleCommandError(base64Data)
       const buffer = Buffer.from(base64Data, 'base64')
 
-      // Ensure output directory exists
-      const dir = path.dirname(outPath)
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true })
-      }
-
-      fs.writeFileSync(outPath, buffer)
+      writeFile(outPath, buffer)
 
       out.printYaml({ path: outPath, cached: false, size: buffer.length })
       out.success(`Saved: ${outPath} (${formatSize(buffer.length)})`)
     })
+
+  // =========================================================================
+  // attachment download
+  // =========================================================================
+
+  cli
+    .command('attachment download', 'Download every attachment of the threads matching a search, across accounts')
+    .option('--query <query>', z.string().describe('Search (Gmail query syntax), e.g. "has:attachment from:billing newer_than:30d"'))
+    .option('--out-dir <outDir>', z.string().default('.').describe('Output directory'))
+    .option('--name <name>', z.string().default('{filename}').describe(`Filename template (${nameFieldList()})`))
+    .option('--type <type>', z.string().describe('Only attachments of these types: extension, MIME type or top-level type (comma-separated: pdf,image)'))
+    .action(async (options) => {
+      if (!options.query) {
+        out.error('--query is required')
+        process.exit(1)
+      }
+      const bulk = bulkOptions(options)
+      if (bulk instanceof Error) handleCommandError(bulk)
+
+      const clients = await getClients(options.account)
+      await downloadAll(clients, (entry) => queryThreadIds(entry, options.query!), bulk)
+    })
 }
 
 // ---------------------------------------------------------------------------
@@ -112,38 +158,166 @@ function formatSize(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
 }
 
+function nameFieldList(): string {
+  return ATTACHMENT_NAME_FIELDS.map((f) => `{${f}}`).join(' ')
+}
+
+/** Resolve a filename inside outDir, or null if it would land outside it. */
+function outputPath(outDir: string, filename: string): string | null {
+  const outPath = path.join(outDir, filename)
+  // Security: verify the resolved path is within the output directory
+  if (!outPath.startsWith(outDir + path.sep) && outPath !== outDir) return null
+  return outPath
+}
+
+/** A file already exists with the attachment's size: treat it as downloaded. */
+function isCached(outPath: string, meta: AttachmentMeta): boolean {
+  return fs.existsSync(outPath) && fs.statSync(outPath).size === meta.size
+}
+
+function writeFile(outPath: string, data: Buffer): void {
+  // Ensure output directory exists
+  const dir = path.dirname(outPath)
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+  fs.writeFileSync(outPath, data)
+}
+
+interface BulkOptions {
+  outDir: string
+  name: string
+  types: string[]
+}
+
+function bulkOptions(options: { outDir: string; name: string; type?: string }): BulkOptions | ValidationError {
+  const unknown = unknownNameFields(options.name)
+  if (unknown.length > 0) {
+    return new ValidationError({ field: '--name', reason: `unknown placeholder ${unknown.map((f) => `{${f}}`).join(', ')}; use ${nameFieldList()}` })
+  }
+  const types = (options.type ?? '').split(',').map((t) => t.trim()).filter(Boolean)
+  return { outDir: path.resolve(options.outDir), name: options.name, types }
+}
+
 /**
- * Sanitize a filename to prevent path traversal and filesystem issues.
- * - Strips directory components (path traversal prevention)
- * - Removes null bytes and control characters
- * - Replaces characters problematic on Windows/macOS/Linux
- * - Handles Windows reserved names
- * - Limits length to 255 characters
+ * Content hashes of the files in the output directory, so an attachment
+ * already saved under any name (another thread, an earlier run) isn't
+ * written twice. Existing files are only hashed when their size matches.
  */
-function sanitizeFilename(name: string | undefined, fallback: string): string {
-  if (!name || name.trim().length === 0) return fallback
-
-  let sanitized = name
-    // Strip directory components (critical for path traversal prevention)
-    .split(/[/\\]/).pop() || ''
-    // Remove null bytes and control characters
-    .replace(/[\x00-\x1f]/g, '')
-    // Replace characters problematic across filesystems: < > : " / \ | ? *
-    .replace(/[<>:"/\\|?*]/g, '_')
-    // Trim leading/trailing spaces and dots (problematic on Windows)
-    .replace(/^[\s.]+|[\s.]+$/g, '')
-
-  // Handle Windows reserved names (CON, PRN, AUX, NUL, COM1-9, LPT1-9)
-  if (/^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])$/i.test(sanitized)) {
-    sanitized = `_${sanitized}`
+function contentIndex(outDir: string) {
+  const hashes = new Map<string, string>()
+  const unhashed = new Map<number, string[]>()
+  const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex')
+
+  if (fs.existsSync(outDir)) {
+    for (const name of fs.readdirSync(outDir)) {
+      const file = path.join(outDir, name)
+      const stat = fs.statSync(file)
+      if (stat.isFile()) unhashed.set(stat.size, [...(unhashed.get(stat.size) ?? []), file])
+    }
+  }
+
+  return {
+    /** Path of a saved file with the same content, if any. */
+    find(data: Buffer): string | undefined {
+      for (const file of unhashed.get(data.length) ?? []) hashes.set(sha256(fs.readFileSync(file)), file)
+      unhashed.delete(data.length)
+      return hashes.get(sha256(data))
+    },
+    add(file: string, data: Buffer) {
+      hashes.set(sha256(data), file)
+    },
   }
+}
+
+/** "invoice.pdf" → "invoice-2.pdf", "invoice-3.pdf", … until the name is free. */
+function freePath(outPath: string): string {
+  const ext = path.extname(outPath)
+  const base = outPath.slice(0, outPath.length - ext.length)
+  let n = 2
+  while (fs.existsSync(`${base}-${n}${ext}`)) n++
+  return `${base}-${n}${ext}`
+}
+
+/** Download the attachments of every thread each account yields, printing one row per attachment. */
+async function downloadAll(
+  clients: ClientEntry[],
+  threadIds: (entry: ClientEntry) => Iterable<string | Error> | AsyncIterable<string | Error>,
+  options: BulkOptions,
+): Promise<void> {
+  const showAccount = clients.length > 1
+  const index = contentIndex(options.outDir)
+  const counts = { saved: 0, cached: 0, duplicate: 0, failed: 0 }
 
-  // Limit length (255 is common filesystem limit)
-  if (sanitized.length > 255) {
-    const ext = path.extname(sanitized)
-    const base = sanitized.slice(0, 255 - ext.length)
-    sanitized = base + ext
+  for (const entry of clients) {
+    const account = showAccount ? { account: entry.email } : {}
+
+    for await (const threadId of threadIds(entry)) {
+      if (threadId instanceof Error) {
+        if (threadId instanceof AuthError) handleCommandError(threadId)
+        counts.failed++
+        out.error(`Failed to search ${entry.email}: ${threadId.message}`)
+        break
+      }
+
+      const thread = await entry.client.getThread({ threadId }).then(
+        (result) => result.parsed,
+        (err: unknown) => new Error(String(err)),
+      )
+      if (thread instanceof Error) {
+        counts.failed++
+        out.printList([{ ...account, thread_id: threadId, status: 'failed', error: thread.message }])
+        continue
+      }
+
+      for (const message of thread.messages) {
+        for (const meta of message.attachments) {
+          if (!matchesAttachmentType(options.types, meta.filename, meta.mimeType)) continue
+          const row = { ...account, thread_id: threadId, message_id: message.id, filename: meta.filename }
+          const result = await downloadOne(entry, message, meta, options, index)
+          counts[result.status]++
+          out.printList([{ ...row, ...result }])
+        }
+      }
+    }
   }
 
-  return sanitized.length > 0 ? sanitized : fallback
+  out.hint(`${counts.saved} saved, ${counts.cached} already downloaded, ${counts.duplicate} duplicates, ${counts.failed} failed. Directory: ${options.outDir}`)
+  if (counts.failed > 0) process.exit(1)
+}
+
+async function downloadOne(
+  { email, client }: ClientEntry,
+  message: ParsedMessage,
+  meta: AttachmentMeta,
+  options: BulkOptions,
+  index: ReturnType<typeof contentIndex>,
+): Promise<{ status: 'saved' | 'cached' | 'duplicate' | 'failed'; path?: string; size?: string; error?: string }> {
+  const name = formatAttachmentName(options.name, {
+    date: attachmentDate(message.date),
+    from: message.from.email,
+    filename: meta.filename,
+    subject: message.subject,
+    account: email,
+    message_id: message.id,
+    thread_id: message.threadId,
+  })
+  const outPath = outputPath(options.outDir, sanitizeFilename(name, `${message.id}_${meta.attachmentId.slice(0, 8)}`))
+  if (!outPath) return { status: 'failed', error: `filename "${name}" would write outside output directory` }
+
+  if (isCached(outPath, meta)) return { status: 'cached', path: outPath, size: formatSize(meta.size) }
+
+  const base64Data = await client.getAttachment({ messageId: message.id, attachmentId: meta.attachmentId })
+  if (base64Data instanceof AuthError) handleCommandError(base64Data)
+  if (base64Data instanceof Error) return { status: 'failed', error: base64Data.message }
+  const buffer = Buffer.from(base64Data, 'base64')
+
+  const existing = index.find(buffer)
+  if (existing) return { status: 'duplicate', path: existing, size: formatSize(buffer.length) }
+
+  // Same name, different content (e.g. "invoice.pdf" from two senders)
+  const target = fs.existsSync(outPath) ? freePath(outPath) : outPath
+  writeFile(target, buffer)
+  index.add(target, buffer)
+  return { status: 'saved', path: target, size: formatSize(buffer.length) }
 }
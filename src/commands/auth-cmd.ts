@@ -99,6 +99,9 @@ export function registerAuthCommands(cli: ZeleCli) {
     .option('--imap-password <imapPassword>', z.string().describe('IMAP password (overrides --password)'))
     .option('--smtp-user <smtpUser>', z.string().describe('SMTP username (defaults to --email)'))
     .option('--smtp-password <smtpPassword>', z.string().describe('SMTP password (overrides --password)'))
+    .option('--carddav-url <carddavUrl>', z.string().describe('CardDAV server URL for zele contacts sync (optional)'))
+    .option('--carddav-user <carddavUser>', z.string().describe('CardDAV username (defaults to the IMAP username)'))
+    .option('--carddav-password <carddavPassword>', z.string().describe('CardDAV password (defaults to the IMAP password)'))
     .option('--no-tls', 'Disable TLS (not recommended)')
     .action(async (options) => {
       if (!options.email) {
@@ -128,10 +131,13 @@ export function registerAuthCommands(cli: ZeleCli) {
         smtpUser: options.smtpUser,
         smtpPassword: options.smtpPassword,
         tls: options.noTls !== true,
+        carddavUrl: options.carddavUrl,
+        carddavUser: options.carddavUser,
+        carddavPassword: options.carddavPassword,
       })
       if (result instanceof Error) handleCommandError(result)
 
-      const caps = options.smtpHost ? 'IMAP + SMTP' : 'IMAP only'
+      const caps = [options.smtpHost ? 'IMAP + SMTP' : 'IMAP only', options.carddavUrl ? 'CardDAV' : ''].filter(Boolean).join(' + ')
       out.success(`Authenticated ${result.email} (${caps})`)
       await closePrisma()
       process.exit(0)
@@ -0,0 +1,301 @@
+// Contacts commands: list, search, show, sync, add, edit, delete.
+// Address book collected from cached and mirrored mail (see contacts.ts), ranked
+// by how often and how recently mail was exchanged, plus the cards of the
+// account's CardDAV address book (Google Contacts or an RFC 6352 server, see
+// carddav-client.ts). The same contacts resolve names given to --to/--cc/--bcc
+// ("--to alice"); `contacts search` prints matches in the order that
+// resolution uses, for shell completion scripts.
+// sync/add/edit/delete work on the CardDAV address book and write to the server.
+// Multi-account: lists contacts of all accounts (or --account).
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import * as clack from '@clack/prompts'
+import { getClients, getCardDavClients, getCardDavClient, getGrantedScopes, login, GOOGLE_CARDDAV_SCOPE } from '../auth.js'
+import { AuthError, NotFoundError, ValidationError } from '../api-utils.js'
+import { findContacts, listCards, listContacts, type ContactEntry } from '../contacts.js'
+import type { CardDavClient, CardEntry } from '../carddav-client.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+export function registerContactsCommands(cli: ZeleCli) {
+  // =========================================================================
+  // contacts list
+  // =========================================================================
+
+  cli
+    .command('contacts list', 'List contacts, most frequent and recent first')
+    .option('--limit <limit>', z.number().default(50).describe('Max contacts'))
+    .option('--refresh', 'Rebuild the address book from cached mail first')
+    .option('--saved', 'Only contacts in the CardDAV address book')
+    .action(async (options) => {
+      const clients = await getClients(options.account)
+      const all = await listContacts(clients, { refresh: options.refresh })
+      const contacts = options.saved ? all.filter((c) => c.saved) : all
+
+      out.printList(contacts.slice(0, options.limit).map(formatContact), {
+        summary: contacts.length === 0
+          ? 'No contacts yet. They are collected from cached mail; run zele sync to collect from the whole mailbox'
+          : `${Math.min(options.limit, contacts.length)} of ${contacts.length} contacts`,
+      })
+    })
+
+  // =========================================================================
+  // contacts search
+  // =========================================================================
+
+  cli
+    .command('contacts search <query>', 'Find contacts by name or address (fuzzy)')
+    .option('--limit <limit>', z.number().default(10).describe('Max contacts'))
+    .action(async (query, options) => {
+      const clients = await getClients(options.account)
+      const contacts = await findContacts(clients, query)
+
+      out.printList(contacts.slice(0, options.limit).map(formatContact), {
+        summary: contacts.length === 0 ? `No contacts match "${query}"` : undefined,
+      })
+    })
+
+  // =========================================================================
+  // contacts show
+  // =========================================================================
+
+  cli
+    .command('contacts show <contact>', 'Show a contact by address or name')
+    .action(async (contact, options) => {
+      const clients = await getClients(options.account)
+      const matches = contact.includes('@')
+        ? (await listContacts(clients)).filter((c) => c.address === contact.toLowerCase())
+        : await findContacts(clients, contact)
+      if (matches.length === 0) handleCommandError(new NotFoundError({ resource: `Contact ${contact}` }))
+
+      // One contact, possibly known to several accounts
+      const address = matches[0]!.address
+      const entries = matches.filter((c) => c.address === address)
+      const card = (await listCards(clients)).find((c) => c.emails.some((e) => e.toLowerCase() === address))
+      out.printYaml({
+        name: entries.find((c) => c.name)?.name ?? null,
+        address,
+        ...(card ? formatCard(card) : {}),
+        accounts: entries.map((c) => ({
+          account: c.email,
+          saved: c.saved ?? false,
+          sent: c.sent,
+          received: c.received,
+          copied: c.seen,
+          last_seen: c.lastSeen.getTime() > 0 ? c.lastSeen.toISOString() : null,
+        })),
+      })
+      if (matches.length > entries.length) out.hint(`${new Set(matches.map((c) => c.address)).size - 1} other contact(s) also match "${contact}"`)
+      out.hint(`Mail with them: zele mail search "from:${address} OR to:${address}"`)
+    })
+
+  // =========================================================================
+  // contacts sync
+  // =========================================================================
+
+  cli
+    .command('contacts sync', 'Download the CardDAV address book (Google Contacts or --carddav-url) into the local database')
+    .action(async (options) => {
+      const clients = await getCardDavClients(options.account)
+      let failed = false
+
+      for (const entry of clients) {
+        const { email } = entry
+        const client = await scopedClient(entry)
+        if (client instanceof Error) {
+          failed = true
+          out.error(`${client.message}. Try: zele login`)
+          continue
+        }
+        const count = await client.sync()
+        if (count instanceof AuthError) {
+          failed = true
+          out.error(`${count.message}. Try: zele login`)
+          continue
+        }
+        if (count instanceof Error) {
+          failed = true
+          out.error(`Failed to sync ${email}: ${count.message}`)
+          continue
+        }
+        out.printList([{ account: email, cards: count }])
+      }
+      if (failed) process.exit(1)
+    })
+
+  // =========================================================================
+  // contacts add
+  // =========================================================================
+
+  cli
+    .command('contacts add <name>', 'Add a contact to the CardDAV address book')
+    .option('--email <email>', z.string().describe('Email address(es), comma-separated'))
+    .option('--phone <phone>', z.string().describe('Phone number(s), comma-separated'))
+    .option('--org <org>', z.string().describe('Organization'))
+    .option('--note <note>', z.string().describe('Note'))
+    .action(async (name, options) => {
+      const entry = await getCardDavClient(options.account)
+      const { email } = entry
+      const client = await scopedClient(entry)
+      if (client instanceof Error) handleCommandError(client)
+      const emails = splitList(options.email)
+      const invalid = emails.find((e) => !e.includes('@'))
+      if (invalid) handleCommandError(new ValidationError({ field: '--email', reason: `"${invalid}" is not an email address` }))
+
+      const card = await client.createCard({
+        name,
+        emails,
+        phones: splitList(options.phone),
+        org: options.org ?? '',
+        note: options.note ?? '',
+      })
+      if (card instanceof Error) handleCommandError(card)
+
+      out.printYaml({ account: email, name: card.name, ...formatCard(card) })
+      out.success(`Added ${card.name}`)
+    })
+
+  // =========================================================================
+  // contacts edit
+  // =========================================================================
+
+  cli
+    .command('contacts edit <contact>', 'Change a contact in the CardDAV address book')
+    .option('--name <name>', z.string().describe('New name'))
+    .option('--email <email>', z.string().describe('Replace the email addresses (comma-separated)'))
+    .option('--phone <phone>', z.string().describe('Replace the phone numbers (comma-separated)'))
+    .option('--org <org>', z.string().describe('Organization ("" to clear)'))
+    .option('--note <note>', z.string().describe('Note ("" to clear)'))
+    .action(async (contact, options) => {
+      const entry = await getCardDavClient(options.account)
+      const { email, appId } = entry
+      const client = await scopedClient(entry)
+      if (client instanceof Error) handleCommandError(client)
+      const card = await findCard({ email, appId }, contact)
+      if (card instanceof Error) handleCommandError(card)
+
+      const emails = options.email !== undefined ? splitList(options.email) : card.emails
+      const invalid = emails.find((e) => !e.includes('@'))
+      if (invalid) handleCommandError(new ValidationError({ field: '--email', reason: `"${invalid}" is not an email address` }))
+
+      const updated = await client.updateCard(card, {
+        uid: card.uid,
+        name: options.name ?? card.name,
+        emails,
+        phones: options.phone !== undefined ? splitList(options.phone) : card.phones,
+        org: options.org ?? card.org,
+        note: options.note ?? card.note,
+      })
+      if (updated instanceof Error) handleCommandError(updated)
+
+      out.printYaml({ account: email, name: updated.name, ...formatCard(updated) })
+      out.success(`Updated ${updated.name}`)
+    })
+
+  // =========================================================================
+  // contacts delete
+  // =========================================================================
+
+  cli
+    .command('contacts delete <contact>', 'Delete a contact from the CardDAV address book')
+    .option('--force', 'Skip confirmation')
+    .action(async (contact, options) => {
+      const entry = await getCardDavClient(options.account)
+      const { email, appId } = entry
+      const client = await scopedClient(entry)
+      if (client instanceof Error) handleCommandError(client)
+      const card = await findCard({ email, appId }, contact)
+      if (card instanceof Error) handleCommandError(card)
+
+      if (!options.force && process.stdin.isTTY) {
+        const confirmed = await clack.confirm({
+          message: `Delete ${card.name || card.emails[0] || 'this contact'} from the address book of ${email}?`,
+          initialValue: false,
+        })
+
+        if (clack.isCancel(confirmed) || !confirmed) {
+          out.hint('Cancelled')
+          return
+        }
+      }
+
+      const deleted = await client.deleteCard(card)
+      if (deleted instanceof Error) handleCommandError(deleted)
+
+      out.printYaml({ account: email, name: card.name, deleted: true })
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * The account's CardDAV client if its login granted the carddav scope. Google
+ * logins from before contacts sync lack it: offer to log in again.
+ */
+async function scopedClient(entry: { email: string; appId: string; client: CardDavClient }): Promise<CardDavClient | Error> {
+  const scopes = await getGrantedScopes(entry)
+  if (!scopes || scopes.includes(GOOGLE_CARDDAV_SCOPE)) return entry.client
+
+  const missing = new AuthError({ email: entry.email, reason: 'the login is missing the carddav permission needed for Google Contacts' })
+  if (!process.stdin.isTTY) return missing
+
+  const confirmed = await clack.confirm({
+    message: `Google Contacts needs the carddav permission, which ${entry.email} hasn't granted. Log in again to grant it?`,
+    initialValue: true,
+  })
+  if (clack.isCancel(confirmed) || !confirmed) return missing
+
+  const result = await login(entry.appId)
+  if (result instanceof Error) return result
+  if (result.email !== entry.email) {
+    return new AuthError({ email: entry.email, reason: `logged in as ${result.email} instead` })
+  }
+  return (await getCardDavClient([entry.email])).client
+}
+
+function formatContact(c: ContactEntry) {
+  return {
+    name: c.name || null,
+    address: c.address,
+    account: c.email,
+    ...(c.saved ? { saved: true } : {}),
+    sent: c.sent,
+    received: c.received,
+    last_seen: c.lastSeen.getTime() > 0 ? out.formatDate(c.lastSeen.toISOString()) : null,
+  }
+}
+
+function formatCard(card: CardEntry) {
+  return {
+    emails: card.emails,
+    ...(card.phones.length > 0 ? { phones: card.phones } : {}),
+    ...(card.org ? { org: card.org } : {}),
+    ...(card.note ? { note: card.note } : {}),
+  }
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((v) => v.trim()).filter(Boolean)
+}
+
+/** The card `query` names: an exact address, name or UID, else a single partial match. */
+async function findCard(account: { email: string; appId: string }, query: string): Promise<CardEntry | NotFoundError | ValidationError> {
+  const cards = await listCards([account])
+  if (cards.length === 0) out.hint(`No cards stored for ${account.email}. Download the address book first: zele contacts sync`)
+
+  const q = query.trim().toLowerCase()
+  const exact = cards.filter((c) => c.uid === query || c.name.toLowerCase() === q || c.emails.some((e) => e.toLowerCase() === q))
+  const matches = exact.length > 0
+    ? exact
+    : cards.filter((c) => c.name.toLowerCase().includes(q) || c.emails.some((e) => e.toLowerCase().includes(q)))
+
+  if (matches.length === 0) return new NotFoundError({ resource: `Contact ${query}` })
+  if (matches.length > 1) {
+    const options = matches.slice(0, 5).map((c) => (c.emails[0] ? `${c.name} <${c.emails[0]}>` : c.name)).join(', ')
+    return new ValidationError({ field: 'contact', reason: `"${query}" matches several contacts: ${options}. Use the address` })
+  }
+  return matches[0]!
+}
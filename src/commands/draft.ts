@@ -11,6 +11,12 @@ import { getClients, getClient } from '../auth.js'
 import type { GmailClient } from '../gmail-client.js'
 import type { ImapSmtpClient } from '../imap-smtp-client.js'
 import { AuthError } from '../api-utils.js'
+import { markdownToHtml } from '../markdown-html.js'
+import { printScheduled } from '../outbox.js'
+import { parseFutureTime } from '../calendar-time.js'
+import { renderTemplateOption } from '../templates.js'
+import { senderVariables } from '../mail-template.js'
+import { resolveRecipients } from '../contacts.js'
 import * as out from '../output.js'
 import { handleCommandError } from '../output.js'
 import pc from 'picocolors'
@@ -93,6 +99,18 @@ export function registerDraftCommands(cli: ZeleCli) {
       const fmtRecipients = (list: Array<{ name?: string; email: string }>) =>
         list.map((r) => r.name && r.name !== r.email ? `${r.name} <${r.email}>` : r.email).join(', ')
 
+      if (out.getOutputFormat() !== 'yaml') {
+        out.printYaml({
+          id: draft.id,
+          subject: draft.message.subject,
+          to: fmtRecipients(draft.to),
+          cc: fmtRecipients(draft.cc),
+          bcc: fmtRecipients(draft.bcc),
+          body: out.renderEmailBody(draft.message.body, draft.message.mimeType),
+        })
+        return
+      }
+
       console.log(pc.bold(`Draft: ${draft.message.subject}`))
       console.log(pc.dim(`Draft ID: ${draft.id}`))
       console.log(`To: ${fmtRecipients(draft.to) || '(none)'}`)
@@ -114,7 +132,7 @@ export function registerDraftCommands(cli: ZeleCli) {
 
   cli
     .command('draft create', 'Create a new draft')
-    .option('--to <to>', z.string().describe('Recipient email(s), comma-separated'))
+    .option('--to <to>', z.string().describe('Recipient email(s) or contact names, comma-separated'))
     .option('--subject <subject>', z.string().describe('Email subject'))
     .option('--body <body>', z.string().describe('Draft body text'))
     .option('--body-file <bodyFile>', z.string().describe('Read body from file (use - for stdin)'))
@@ -122,12 +140,16 @@ export function registerDraftCommands(cli: ZeleCli) {
     .option('--bcc <bcc>', z.string().describe('BCC recipients (comma-separated)'))
     .option('--thread <thread>', z.string().describe('Thread ID to associate with'))
     .option('--from <from>', z.string().describe('Send-as alias email'))
+    .option('--markdown', 'Write the body in Markdown: sends it with an HTML version (multipart/alternative)')
+    .option('--no-signature', "Don't append the stored signature (zele signature)")
+    .option('--template <template>', z.string().describe('Start from a saved template (subject, body, cc/bcc, attachments)'))
+    .option('--var <var>', z.array(z.string()).describe('Template variable as key=value (repeatable)'))
     .action(async (options) => {
       if (!options.to) {
         out.error('--to is required')
         process.exit(1)
       }
-      if (!options.subject) {
+      if (!options.subject && !options.template) {
         out.error('--subject is required')
         process.exit(1)
       }
@@ -145,19 +167,34 @@ export function registerDraftCommands(cli: ZeleCli) {
         }
       }
 
-      const parseEmails = (str: string) =>
-        str.split(',').map((e) => e.trim()).filter(Boolean).map((email) => ({ email }))
+      const account = await getClient(options.account)
+      const { client } = account
 
-      const { client } = await getClient(options.account)
+      // Names ("--to alice") are looked up in zele contacts
+      const to = await resolveRecipients(account, options.to, '--to')
+      if (to instanceof Error) handleCommandError(to)
+      const cc = options.cc ? await resolveRecipients(account, options.cc, '--cc') : undefined
+      if (cc instanceof Error) handleCommandError(cc)
+      const bcc = options.bcc ? await resolveRecipients(account, options.bcc, '--bcc') : undefined
+      if (bcc instanceof Error) handleCommandError(bcc)
+
+      const template = options.template
+        ? await renderTemplateOption(options.template, options.var, to[0] ? senderVariables(to[0]) : {})
+        : undefined
+      if (template instanceof Error) handleCommandError(template)
+      if (!body && template) body = template.body
 
       const result = await client.createDraft({
-        to: parseEmails(options.to),
-        subject: options.subject,
+        to,
+        subject: options.subject ?? template?.subject ?? '',
         body,
-        cc: options.cc ? parseEmails(options.cc) : undefined,
-        bcc: options.bcc ? parseEmails(options.bcc) : undefined,
+        html: options.markdown ? markdownToHtml(body) : undefined,
+        cc: cc ?? (template?.cc.length ? template.cc : undefined),
+        bcc: bcc ?? (template?.bcc.length ? template.bcc : undefined),
+        attachments: template?.attachments.length ? template.attachments : undefined,
         threadId: options.thread,
         fromEmail: options.from,
+        signature: !options.noSignature,
       })
       if (result instanceof Error) handleCommandError(result)
 
@@ -179,7 +216,8 @@ export function registerDraftCommands(cli: ZeleCli) {
     .option('--bcc <bcc>', z.string().describe('New BCC recipients (comma-separated)'))
     .option('--from <from>', z.string().describe('Send-as alias email'))
     .action(async (draftId, options) => {
-      const { client } = await getClient(options.account)
+      const account = await getClient(options.account)
+      const { client } = account
 
       // Fetch existing draft to merge unchanged fields
       const existing = await client.getDraft({ draftId })
@@ -198,16 +236,20 @@ export function registerDraftCommands(cli: ZeleCli) {
         }
       }
 
-      const parseEmails = (str: string) =>
-        str.split(',').map((e) => e.trim()).filter(Boolean).map((email) => ({ email }))
+      const to = options.to ? await resolveRecipients(account, options.to, '--to') : existing.to
+      if (to instanceof Error) handleCommandError(to)
+      const cc = options.cc ? await resolveRecipients(account, options.cc, '--cc') : existing.cc
+      if (cc instanceof Error) handleCommandError(cc)
+      const bcc = options.bcc ? await resolveRecipients(account, options.bcc, '--bcc') : existing.bcc
+      if (bcc instanceof Error) handleCommandError(bcc)
 
       const result = await client.updateDraft({
         draftId,
-        to: options.to ? parseEmails(options.to) : existing.to,
+        to,
         subject: options.subject ?? existing.message.subject,
         body: body ?? existing.message.body,
-        cc: options.cc ? parseEmails(options.cc) : existing.cc,
-        bcc: options.bcc ? parseEmails(options.bcc) : existing.bcc,
+        cc,
+        bcc,
         threadId: existing.message.threadId || undefined,
         fromEmail: options.from ?? existing.message.from.email,
       })
@@ -223,11 +265,16 @@ export function registerDraftCommands(cli: ZeleCli) {
 
   cli
     .command('draft send <draftId>', 'Send a draft')
+    .option('--at <at>', z.string().describe('Schedule for later instead of sending now ("tomorrow 9am", "friday 17:00", "+2h"). Delivered by zele outbox run'))
     .action(async (draftId, options) => {
+      const sendAt = options.at ? parseFutureTime(options.at, '--at') : undefined
+      if (sendAt instanceof Error) handleCommandError(sendAt)
+
       const { client } = await getClient(options.account)
-      const result = await client.sendDraft({ draftId })
+      const result = await client.sendDraft({ draftId, sendAt })
       if (result instanceof Error) handleCommandError(result)
 
+      if (printScheduled(result)) return
       out.printYaml(result)
       out.success('Draft sent')
     })
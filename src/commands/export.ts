@@ -0,0 +1,162 @@
+// Mail export command: mail export [threadIds...] | --query <query>.
+// Writes the raw RFC 822 source of every message (getRawMessageBytes, both
+// providers) byte for byte as an mbox file, a Maildir, or a directory of .eml
+// files (see mail-export.ts). Read/starred/draft/trash state is kept as Maildir flags or
+// Status/X-Status headers. Each written message is recorded in an NDJSON
+// export log, so rerunning the same export only adds new messages.
+// Thread IDs export from one account; --query searches all accounts (or --account).
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import fs from 'node:fs'
+import path from 'node:path'
+import { getClient, getClients } from '../auth.js'
+import { AuthError, ValidationError } from '../api-utils.js'
+import type { ParsedMessage } from '../gmail-client.js'
+import {
+  EXPORT_FORMATS,
+  emlName,
+  maildirInfo,
+  maildirName,
+  mboxEntry,
+  readExportLog,
+  withStatusHeaders,
+  type ExportFlags,
+  type ExportFormat,
+  type ExportLogEntry,
+} from '../mail-export.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+import { queryThreadIds } from '../thread-query.js'
+
+export function registerExportCommands(cli: ZeleCli) {
+  cli
+    .command('mail export [...threadIds]', 'Export messages as mbox, Maildir or .eml files (raw source, flags kept)')
+    .option('--query <query>', z.string().describe('Export every thread matching a search (Gmail query syntax) instead of thread IDs'))
+    .option('--as <as>', z.enum(['mbox', 'maildir', 'eml']).default('mbox').describe('mbox file, Maildir directory, or directory of .eml files'))
+    .option('--out <out>', z.string().describe('Output mbox file or directory'))
+    .option('--log <log>', z.string().describe('Export log (default: <out>.export-log for mbox, <out>/.export-log otherwise)'))
+    .action(async (threadIds, options) => {
+      if (!options.out) {
+        out.error('--out is required')
+        process.exit(1)
+      }
+      if (threadIds.length === 0 && !options.query) {
+        out.error('Pass thread IDs or --query')
+        process.exit(1)
+      }
+      if (threadIds.length > 0 && options.query) {
+        out.error('Pass either thread IDs or --query, not both')
+        process.exit(1)
+      }
+
+      const format = options.as as ExportFormat
+      const target = prepareTarget(options.out, format)
+      if (target instanceof Error) handleCommandError(target)
+
+      const logPath = options.log ?? (format === 'mbox' ? `${options.out}.export-log` : path.join(options.out, '.export-log'))
+      const done = fs.existsSync(logPath) ? readExportLog(fs.readFileSync(logPath, 'utf-8')) : new Set<string>()
+
+      const clients = options.query ? await getClients(options.account) : [await getClient(options.account)]
+      const showAccount = clients.length > 1
+      const counts = { exported: 0, skipped: 0, failed: 0 }
+
+      for (const entry of clients) {
+        for await (const threadId of options.query ? queryThreadIds(entry, options.query) : threadIds) {
+          if (threadId instanceof Error) {
+            if (threadId instanceof AuthError) handleCommandError(threadId)
+            counts.failed++
+            out.error(`Failed to search ${entry.email}: ${threadId.message}`)
+            break
+          }
+
+          const thread = await entry.client.getThread({ threadId }).then(
+            (result) => result.parsed,
+            (err: unknown) => new Error(String(err)),
+          )
+          if (thread instanceof Error) {
+            counts.failed++
+            out.printList([{ ...(showAccount ? { account: entry.email } : {}), thread_id: threadId, status: 'failed', error: thread.message }])
+            continue
+          }
+
+          for (const message of thread.messages) {
+            const key = `${entry.email}/${message.id}`
+            if (done.has(key)) {
+              counts.skipped++
+              continue
+            }
+
+            const raw = await entry.client.getRawMessageBytes({ messageId: message.id })
+            if (raw instanceof AuthError) handleCommandError(raw)
+            if (raw instanceof Error) {
+              counts.failed++
+              out.printList([{ ...(showAccount ? { account: entry.email } : {}), thread_id: threadId, message_id: message.id, status: 'failed', error: raw.message }])
+              continue
+            }
+
+            const file = writeMessage(options.out, format, key, raw.toString('latin1'), message)
+            fs.appendFileSync(logPath, JSON.stringify({ key, file, at: new Date().toISOString() } satisfies ExportLogEntry) + '\n')
+            done.add(key)
+            counts.exported++
+            out.printList([{
+              ...(showAccount ? { account: entry.email } : {}),
+              thread_id: threadId,
+              message_id: message.id,
+              subject: message.subject,
+              file,
+            }])
+          }
+        }
+      }
+
+      out.hint(`${counts.exported} exported, ${counts.skipped} already exported, ${counts.failed} failed. Export log: ${logPath}`)
+      if (counts.failed > 0) process.exit(1)
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Check the output path fits the format and create directories (Maildir: cur/new/tmp). */
+function prepareTarget(outPath: string, format: ExportFormat): void | ValidationError {
+  const stat = fs.existsSync(outPath) ? fs.statSync(outPath) : null
+  if (format === 'mbox') {
+    if (stat?.isDirectory()) return new ValidationError({ field: '--out', reason: `${outPath} is a directory; mbox exports to a file` })
+    fs.mkdirSync(path.dirname(path.resolve(outPath)), { recursive: true })
+    return
+  }
+  if (stat && !stat.isDirectory()) {
+    return new ValidationError({ field: '--out', reason: `${outPath} is a file; ${format} exports to a directory (formats: ${EXPORT_FORMATS.join(', ')})` })
+  }
+  const dirs = format === 'maildir' ? ['cur', 'new', 'tmp'].map((d) => path.join(outPath, d)) : [outPath]
+  for (const dir of dirs) fs.mkdirSync(dir, { recursive: true })
+}
+
+/** Write one message (a latin1 string, so every byte is kept) and return the file it went to. */
+function writeMessage(outPath: string, format: ExportFormat, key: string, raw: string, message: ParsedMessage): string {
+  const flags: ExportFlags = {
+    read: !message.unread,
+    flagged: message.starred,
+    draft: message.isDraft,
+    trashed: message.labelIds.includes('TRASH'),
+  }
+  const date = new Date(message.date)
+
+  if (format === 'mbox') {
+    fs.appendFileSync(outPath, mboxEntry(raw, flags, date), 'latin1')
+    return outPath
+  }
+  if (format === 'maildir') {
+    // Deliver through tmp/ so a reader never sees a partial file
+    const name = maildirName(key, date)
+    const file = path.join(outPath, 'cur', name + maildirInfo(flags))
+    fs.writeFileSync(path.join(outPath, 'tmp', name), raw, 'latin1')
+    fs.renameSync(path.join(outPath, 'tmp', name), file)
+    return file
+  }
+  const file = path.join(outPath, emlName(key, date, message.subject))
+  fs.writeFileSync(file, withStatusHeaders(raw, flags), 'latin1')
+  return file
+}
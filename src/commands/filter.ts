@@ -1,10 +1,27 @@
-// Filter commands: list, create, delete Gmail filters.
+// Filter commands: list, create, delete, export and apply Gmail filters.
 // Multi-account support via getClients/getClient like label.ts.
+// export/apply keep filters in a YAML file (see gmail-filters.ts). Writes
+// need the gmail.settings.basic scope; older logins are offered a re-login.
 
 import type { ZeleCli } from '../cli-types.js'
-import { getClients } from '../auth.js'
-import { AuthError, UnsupportedError, isScopeError } from '../api-utils.js'
+import { z } from 'zod'
+import fs from 'node:fs'
+import * as clack from '@clack/prompts'
+import type { gmail_v1 } from '@googleapis/gmail'
+import { getClients, getGmailClient, getGrantedScopes, login, GMAIL_SETTINGS_SCOPE } from '../auth.js'
+import { AuthError, NotFoundError, UnsupportedError, ValidationError, isScopeError } from '../api-utils.js'
 import type { GmailClient } from '../gmail-client.js'
+import {
+  dumpFilters,
+  filterToSpec,
+  hasAction,
+  hasCriteria,
+  parseFilterFile,
+  planFilterSync,
+  specToFilter,
+  type FilterSpec,
+} from '../gmail-filters.js'
+import { sizeInBytes } from '../gmail-query.js'
 import * as out from '../output.js'
 import { handleCommandError } from '../output.js'
 
@@ -19,7 +36,7 @@ export function registerFilterCommands(cli: ZeleCli) {
       const clients = await getClients(options.account)
       const googleClients = clients.filter((c) => c.accountType === 'google')
       if (googleClients.length === 0) {
-        handleCommandError(new UnsupportedError({ feature: 'Filters', accountType: 'IMAP/SMTP', hint: 'Filters are a Gmail-specific feature.' }))
+        handleCommandError(new UnsupportedError({ feature: 'Filters', accountType: 'IMAP/SMTP', hint: 'Filters are a Gmail-specific feature; IMAP accounts can use local rules (zele rules list).' }))
       }
 
       const results = await Promise.all(
@@ -65,10 +82,265 @@ export function registerFilterCommands(cli: ZeleCli) {
       out.hint(`${merged.length} filter(s)`)
     })
 
-  // TODO: add `mail filter create` and `mail filter delete` commands once
-  // gmail.settings.basic scope is added to the GCP OAuth consent screen.
-  // The https://mail.google.com/ scope covers reading filters but Google
-  // enforces the narrower scope for write operations (create/delete).
-  // The gmail-client.ts methods (createFilter, deleteFilter, resolveLabel)
-  // are already implemented and ready to use.
+  // =========================================================================
+  // filter create
+  // =========================================================================
+
+  cli
+    .command('mail filter create', 'Create a Gmail filter')
+    .option('--from <from>', z.string().describe('Match sender'))
+    .option('--to <to>', z.string().describe('Match recipient'))
+    .option('--subject <subject>', z.string().describe('Match subject'))
+    .option('--query <query>', z.string().describe('Match a Gmail search query ("has the words")'))
+    .option('--negated-query <negatedQuery>', z.string().describe("Exclude a Gmail search query (\"doesn't have\")"))
+    .option('--has-attachment', 'Match messages with attachments')
+    .option('--exclude-chats', "Don't match chats")
+    .option('--larger-than <largerThan>', z.string().describe('Match messages larger than this size (bytes, or 500K, 5M)'))
+    .option('--smaller-than <smallerThan>', z.string().describe('Match messages smaller than this size'))
+    .option('--label <label>', z.string().describe('Apply labels (comma-separated names, created if missing)'))
+    .option('--remove-label <removeLabel>', z.string().describe('Remove labels (comma-separated names or IDs)'))
+    .option('--archive', 'Skip the inbox')
+    .option('--mark-read', 'Mark as read')
+    .option('--star', 'Star it')
+    .option('--trash', 'Delete it')
+    .option('--never-spam', 'Never send it to spam')
+    .option('--important', 'Always mark it as important')
+    .option('--forward <forward>', z.string().describe('Forward to this address (must be a verified forwarding address)'))
+    .action(async (options) => {
+      const sizes = { larger_than: options.largerThan, smaller_than: options.smallerThan }
+      for (const [name, value] of Object.entries(sizes)) {
+        if (value !== undefined && sizeInBytes(value) === null) {
+          handleCommandError(new ValidationError({ field: `--${name.replace('_', '-')}`, reason: 'expected bytes or a size like 500K or 5M' }))
+        }
+      }
+
+      const spec: FilterSpec = {
+        ...(options.from ? { from: options.from } : {}),
+        ...(options.to ? { to: options.to } : {}),
+        ...(options.subject ? { subject: options.subject } : {}),
+        ...(options.query ? { query: options.query } : {}),
+        ...(options.negatedQuery ? { negated_query: options.negatedQuery } : {}),
+        ...(options.hasAttachment ? { has_attachment: true } : {}),
+        ...(options.excludeChats ? { exclude_chats: true } : {}),
+        ...(options.largerThan ? { larger_than: sizeInBytes(options.largerThan)! } : {}),
+        ...(options.smallerThan ? { smaller_than: sizeInBytes(options.smallerThan)! } : {}),
+      }
+      const addLabels = [
+        ...splitList(options.label),
+        ...(options.star ? ['STARRED'] : []),
+        ...(options.trash ? ['TRASH'] : []),
+        ...(options.important ? ['IMPORTANT'] : []),
+      ]
+      const removeLabels = [
+        ...splitList(options.removeLabel),
+        ...(options.archive ? ['INBOX'] : []),
+        ...(options.markRead ? ['UNREAD'] : []),
+        ...(options.neverSpam ? ['SPAM'] : []),
+      ]
+      if (addLabels.length > 0) spec.add_labels = addLabels
+      if (removeLabels.length > 0) spec.remove_labels = removeLabels
+      if (options.forward) spec.forward = options.forward
+
+      if (!hasCriteria(spec)) {
+        out.error('Pass at least one criterion: --from, --to, --subject, --query, --negated-query, --has-attachment, --larger-than or --smaller-than')
+        process.exit(1)
+      }
+      if (!hasAction(spec)) {
+        out.error('Pass at least one action: --label, --remove-label, --archive, --mark-read, --star, --trash, --never-spam, --important or --forward')
+        process.exit(1)
+      }
+
+      const entry = await getGmailClient(options.account)
+      const client = await writableFilterClient(entry)
+      if (client instanceof Error) handleCommandError(client)
+
+      const created = await createFilters(client, [spec])
+      if (created instanceof Error) failWrite(created)
+
+      out.printYaml({ id: created[0]!.id, ...spec })
+      out.success('Filter created')
+    })
+
+  // =========================================================================
+  // filter delete
+  // =========================================================================
+
+  cli
+    .command('mail filter delete [...filterIds]', 'Delete Gmail filters')
+    .option('--force', 'Skip confirmation')
+    .action(async (filterIds, options) => {
+      if (filterIds.length === 0) {
+        out.error('No filter IDs provided. Find them with: zele mail filter list')
+        process.exit(1)
+      }
+
+      if (!options.force && process.stdin.isTTY) {
+        const confirmed = await clack.confirm({
+          message: `Delete ${filterIds.length === 1 ? `filter ${filterIds[0]}` : `${filterIds.length} filters`}?`,
+          initialValue: false,
+        })
+
+        if (clack.isCancel(confirmed) || !confirmed) {
+          out.hint('Cancelled')
+          return
+        }
+      }
+
+      const entry = await getGmailClient(options.account)
+      const client = await writableFilterClient(entry)
+      if (client instanceof Error) handleCommandError(client)
+
+      for (const filterId of filterIds) {
+        const result = await client.deleteFilter(filterId)
+        if (result instanceof Error) failWrite(result)
+        out.printList([{ filter_id: filterId, deleted: true }])
+      }
+    })
+
+  // =========================================================================
+  // filter export
+  // =========================================================================
+
+  cli
+    .command('mail filter export', 'Write Gmail filters as YAML (for mail filter apply)')
+    .option('--out <out>', z.string().describe('Write to this file instead of stdout'))
+    .action(async (options) => {
+      const { email, client } = await getGmailClient(options.account)
+
+      const remote = await remoteFilters(client)
+      if (remote instanceof Error) handleCommandError(remote)
+
+      const text = `# Gmail filters for ${email}. Apply with: zele mail filter apply <file> --account ${email}\n` + dumpFilters(remote.map((r) => r.spec))
+      if (options.out) {
+        fs.writeFileSync(options.out, text)
+        out.success(`Wrote ${remote.length} filter(s) to ${options.out}`)
+        return
+      }
+      process.stdout.write(text)
+    })
+
+  // =========================================================================
+  // filter apply
+  // =========================================================================
+
+  cli
+    .command('mail filter apply <file>', 'Make Gmail filters match a YAML file: create missing filters, delete unlisted ones')
+    .option('--dry-run', 'Show the changes without making them')
+    .option('--force', 'Skip confirmation before deleting filters')
+    .action(async (file, options) => {
+      if (!fs.existsSync(file)) handleCommandError(new NotFoundError({ resource: file }))
+      const local = parseFilterFile(fs.readFileSync(file, 'utf-8'))
+      if (local instanceof Error) handleCommandError(local)
+
+      const entry = await getGmailClient(options.account)
+      const remote = await remoteFilters(entry.client)
+      if (remote instanceof Error) handleCommandError(remote)
+
+      const plan = planFilterSync(local, remote)
+      const rows = [
+        ...plan.create.map((spec) => ({ change: 'create', ...spec })),
+        ...plan.delete.map((r) => ({ change: 'delete', id: r.id, ...r.spec })),
+      ]
+      if (rows.length === 0) {
+        out.hint(`${entry.email}: filters already match ${file} (${plan.unchanged})`)
+        return
+      }
+      out.printList(rows, { summary: `${plan.create.length} to create, ${plan.delete.length} to delete, ${plan.unchanged} unchanged` })
+      if (options.dryRun) return
+
+      if (plan.delete.length > 0 && !options.force && process.stdin.isTTY) {
+        const confirmed = await clack.confirm({
+          message: `Delete ${plan.delete.length} filter(s) from ${entry.email} that aren't in ${file}?`,
+          initialValue: false,
+        })
+
+        if (clack.isCancel(confirmed) || !confirmed) {
+          out.hint('Cancelled')
+          return
+        }
+      }
+
+      const client = await writableFilterClient(entry)
+      if (client instanceof Error) handleCommandError(client)
+
+      // Create first: a changed filter is a delete plus a create, and mail
+      // arriving in between should still be filtered by one of them
+      const created = await createFilters(client, plan.create)
+      if (created instanceof Error) failWrite(created)
+      for (const r of plan.delete) {
+        const result = await client.deleteFilter(r.id)
+        if (result instanceof Error) failWrite(result)
+      }
+
+      out.success(`${entry.email}: ${plan.create.length} created, ${plan.delete.length} deleted, ${plan.unchanged} unchanged`)
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function splitList(value?: string): string[] {
+  return (value ?? '').split(',').map((v) => v.trim()).filter(Boolean)
+}
+
+/** Server filters with their IDs, as specs with label names. */
+async function remoteFilters(client: GmailClient): Promise<Array<{ id: string; spec: FilterSpec }> | Error> {
+  const [filters, labels] = await Promise.all([client.listFilters(), client.listLabels()])
+  if (filters instanceof Error) return filters
+  if (labels instanceof Error) return labels
+  const labelNames = new Map(labels.parsed.map((l) => [l.id, l.name]))
+  return filters.parsed.map((f) => ({ id: f.id ?? '', spec: filterToSpec(f, labelNames) }))
+}
+
+/** Create filters in order, resolving label names to IDs (labels are created if missing). */
+async function createFilters(client: GmailClient, specs: FilterSpec[]) {
+  const labelIds = new Map<string, string>()
+  for (const name of new Set(specs.flatMap((s) => [...(s.add_labels ?? []), ...(s.remove_labels ?? [])]))) {
+    const id = await client.resolveLabel(name)
+    if (id instanceof Error) return id
+    labelIds.set(name, id)
+  }
+
+  const created: gmail_v1.Schema$Filter[] = []
+  for (const spec of specs) {
+    const result = await client.createFilter(specToFilter(spec, (name) => labelIds.get(name)!))
+    if (result instanceof Error) return result
+    created.push(result)
+  }
+  return created
+}
+
+/**
+ * The account's client if its login granted the gmail.settings.basic scope
+ * that filter writes need. Older logins lack it: offer to log in again.
+ */
+async function writableFilterClient(entry: { email: string; appId: string; client: GmailClient }): Promise<GmailClient | Error> {
+  const scopes = await getGrantedScopes(entry)
+  if (!scopes || scopes.includes(GMAIL_SETTINGS_SCOPE)) return entry.client
+
+  const missing = new AuthError({ email: entry.email, reason: 'the login is missing the gmail.settings.basic permission needed to change filters' })
+  if (!process.stdin.isTTY) return missing
+
+  const confirmed = await clack.confirm({
+    message: `Changing filters needs the gmail.settings.basic permission, which ${entry.email} hasn't granted. Log in again to grant it?`,
+    initialValue: true,
+  })
+  if (clack.isCancel(confirmed) || !confirmed) return missing
+
+  const result = await login(entry.appId)
+  if (result instanceof Error) return result
+  if (result.email !== entry.email) {
+    return new AuthError({ email: entry.email, reason: `logged in as ${result.email} instead` })
+  }
+  return (await getGmailClient([entry.email])).client
+}
+
+/** Report a failed filter write; scope errors get the re-login hint. */
+function failWrite(err: Error): never {
+  if (isScopeError(err)) {
+    out.error('Missing the gmail.settings.basic permission needed to change filters. Run: zele login to grant it')
+    process.exit(1)
+  }
+  handleCommandError(err)
 }
@@ -0,0 +1,138 @@
+// Folder commands for IMAP accounts: list, create, rename, delete, subscribe.
+// Folders are the IMAP counterpart of Gmail labels; Google accounts use
+// `zele label` instead. Move threads between folders with `zele mail move`.
+// Multi-account: list fetches every IMAP account concurrently and merges;
+// the other commands act on one account (--account picks it).
+
+import type { ZeleCli } from '../cli-types.js'
+import * as clack from '@clack/prompts'
+import { getClients, getImapClient, imapAccounts, type ImapOnlyFeature } from '../auth.js'
+import { AuthError } from '../api-utils.js'
+import type { ImapSmtpClient } from '../imap-smtp-client.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+/** Google accounts have labels instead of folders. */
+const FOLDERS: ImapOnlyFeature = { feature: 'Folders', hint: 'Gmail uses labels: zele label list' }
+
+export function registerFolderCommands(cli: ZeleCli) {
+  // =========================================================================
+  // folder list
+  // =========================================================================
+
+  cli
+    .command('folder list', 'List IMAP folders with unread and total counts')
+    .option('--no-counts', 'Skip the STATUS counts (faster on servers with many folders)')
+    .option('--subscribed', 'Only subscribed folders')
+    .action(async (options) => {
+      const clients = imapAccounts(await getClients(options.account), FOLDERS)
+      if (clients instanceof Error) handleCommandError(clients)
+
+      const results = await Promise.all(
+        clients.map(async ({ email, client }) => {
+          const folders = await (client as ImapSmtpClient).listFolders({ counts: !options.noCounts })
+          if (folders instanceof Error) return folders
+          return { email, folders }
+        }),
+      )
+
+      const allResults = results.filter((r): r is Exclude<typeof r, Error> => {
+        if (r instanceof AuthError) { out.error(`${r.message}. Try: zele login`); return false }
+        if (r instanceof Error) { out.error(`Failed to list folders: ${r.message}`); return false }
+        return true
+      })
+
+      const merged = allResults
+        .flatMap(({ email, folders }) => folders.map((f) => ({ ...f, account: email })))
+        .filter((f) => !options.subscribed || f.subscribed)
+      if (merged.length === 0) {
+        out.printList([], { summary: 'No folders found' })
+        return
+      }
+
+      const showAccount = clients.length > 1
+      out.printList(
+        merged.map((f) => ({
+          ...(showAccount ? { account: f.account } : {}),
+          path: f.path,
+          ...(f.specialUse ? { special_use: f.specialUse } : {}),
+          ...(options.noCounts ? {} : { unread: f.unseen ?? '', total: f.messages ?? '' }),
+          subscribed: f.subscribed,
+        })),
+        { summary: `${merged.length} folder(s)` },
+      )
+    })
+
+  // =========================================================================
+  // folder create
+  // =========================================================================
+
+  cli
+    .command('folder create <path>', 'Create a folder (use the server\'s delimiter for subfolders, e.g. Projects/Acme)')
+    .action(async (path, options) => {
+      const { email, client } = await getImapClient(options.account, FOLDERS)
+      const result = await client.createFolder({ path })
+      if (result instanceof Error) handleCommandError(result)
+
+      out.printYaml({ account: email, path: result.path, created: result.created })
+      if (!result.created) out.hint(`${result.path} already exists`)
+    })
+
+  // =========================================================================
+  // folder rename
+  // =========================================================================
+
+  cli
+    .command('folder rename <from> <to>', 'Rename a folder (subfolders move with it)')
+    .action(async (from, to, options) => {
+      const { email, client } = await getImapClient(options.account, FOLDERS)
+      const result = await client.renameFolder({ from, to })
+      if (result instanceof Error) handleCommandError(result)
+
+      out.printYaml({ account: email, from: result.from, to: result.to, renamed: true })
+    })
+
+  // =========================================================================
+  // folder delete
+  // =========================================================================
+
+  cli
+    .command('folder delete <path>', 'Delete a folder and the messages in it')
+    .option('--force', 'Skip confirmation')
+    .action(async (path, options) => {
+      const { email, client } = await getImapClient(options.account, FOLDERS)
+
+      if (!options.force && process.stdin.isTTY) {
+        const confirmed = await clack.confirm({
+          message: `Delete folder ${path} of ${email} and every message in it?`,
+          initialValue: false,
+        })
+
+        if (clack.isCancel(confirmed) || !confirmed) {
+          out.hint('Cancelled')
+          return
+        }
+      }
+
+      const result = await client.deleteFolder({ path })
+      if (result instanceof Error) handleCommandError(result)
+
+      out.printYaml({ account: email, path: result.path, deleted: true })
+    })
+
+  // =========================================================================
+  // folder subscribe
+  // =========================================================================
+
+  cli
+    .command('folder subscribe <path>', 'Subscribe to a folder, so other mail clients show it')
+    .option('--unsubscribe', 'Unsubscribe instead')
+    .action(async (path, options) => {
+      const { email, client } = await getImapClient(options.account, FOLDERS)
+      const subscribed = !options.unsubscribe
+      const result = await client.subscribeFolder({ path, subscribed })
+      if (result instanceof Error) handleCommandError(result)
+
+      out.printYaml({ account: email, path: result.path, subscribed })
+    })
+}
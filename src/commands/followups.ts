@@ -0,0 +1,57 @@
+// Follow-up command: mail followups.
+// Lists messages sent with --remind-after that got no reply within their
+// window. Replies are looked up through In-Reply-To/References by each
+// account's client; answered messages are reported once and stop being tracked.
+// Multi-account: checks all accounts concurrently (or --account).
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import { getClients } from '../auth.js'
+import { AuthError, NotFoundError, ValidationError } from '../api-utils.js'
+import { checkFollowups, removeFollowup, type FollowupStatus } from '../followups.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+export function registerFollowupCommands(cli: ZeleCli) {
+  cli
+    .command('mail followups', 'List sent messages (--remind-after) that nobody replied to')
+    .option('--all', z.boolean().describe('Also show messages still inside their reminder window'))
+    .option('--dismiss <id>', z.string().describe('Stop tracking a message without waiting for a reply'))
+    .action(async (options) => {
+      if (options.dismiss) {
+        const id = Number(options.dismiss)
+        if (!Number.isInteger(id) || id < 1) {
+          handleCommandError(new ValidationError({ field: '--dismiss', reason: `"${options.dismiss}" is not a follow-up ID (see the id column)` }))
+        }
+        const removed = await removeFollowup(id)
+        if (!removed) handleCommandError(new NotFoundError({ resource: `follow-up ${id}` }))
+        out.printYaml({ followup_id: id, dismissed: true })
+        return
+      }
+
+      const clients = await getClients(options.account)
+      const results = await checkFollowups(clients, { includeWaiting: options.all })
+
+      const statuses = results.filter((r): r is FollowupStatus => {
+        if (r instanceof AuthError) { out.error(`${r.message}. Try: zele login`); return false }
+        if (r instanceof Error) { out.error(`Failed to check for replies: ${r.message}`); return false }
+        return true
+      })
+
+      const due = statuses.filter((s) => s.status === 'due').length
+      out.printList(
+        statuses.map(({ entry, status, replies }) => ({
+          id: entry.id,
+          account: entry.email,
+          status,
+          subject: entry.subject,
+          to: entry.recipients.join(', '),
+          sent: out.formatDate(entry.sentAt.toISOString()),
+          remind_at: entry.remindAt.toISOString(),
+          ...(entry.threadId ? { thread_id: entry.threadId } : {}),
+          ...(replies.length > 0 ? { replied_by: replies.map((r) => out.formatSender(r.from)).join(', ') } : {}),
+        })),
+        { summary: due === 0 ? 'No follow-ups due' : `${due} message(s) without a reply` },
+      )
+    })
+}
@@ -0,0 +1,132 @@
+// Mail import command: mail import <path> [--folder <folder>].
+// Reads an mbox file, a Maildir directory, a directory of .eml files or one
+// .eml file (see mail-import.ts) and hands the messages to the client's
+// importMessages(): IMAP APPENDs them with their flags and dates, Gmail
+// imports them with the folder as a label. Messages whose Message-ID is
+// already in the target are skipped, so an interrupted import can simply be
+// run again. Progress goes to stderr, failures and the summary to stdout.
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import fs from 'node:fs'
+import path from 'node:path'
+import readline from 'node:readline'
+import { getClient } from '../auth.js'
+import { NotFoundError, ValidationError } from '../api-utils.js'
+import {
+  MboxSplitter,
+  maildirFlags,
+  separatorDate,
+  toImportMessage,
+  type ImportMessage,
+  type ImportResult,
+} from '../mail-import.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+/** Print a progress line every this many messages. */
+const PROGRESS_EVERY = 100
+
+export function registerImportCommands(cli: ZeleCli) {
+  cli
+    .command('mail import <path>', 'Import an mbox file, a Maildir or .eml files into an account')
+    .option('--folder <folder>', z.string().default('inbox').describe('Target folder (IMAP) or label (Gmail): inbox, sent, archive, trash or a name'))
+    .action(async (source, options) => {
+      const kind = sourceKind(source)
+      if (kind instanceof Error) handleCommandError(kind)
+
+      const { email, client } = await getClient(options.account)
+      const counts = { imported: 0, duplicate: 0, failed: 0 }
+
+      const onResult = (result: ImportResult) => {
+        counts[result.status]++
+        if (result.status === 'failed') {
+          out.printList([{ source: result.source, message_id: result.messageId || null, status: 'failed', error: result.error }])
+        }
+        const done = counts.imported + counts.duplicate + counts.failed
+        if (done % PROGRESS_EVERY === 0) {
+          out.hint(`${email} ${options.folder}: ${done} messages (${counts.imported} imported, ${counts.duplicate} already there)`)
+        }
+      }
+
+      const result = await client.importMessages({ folder: options.folder, messages: readMessages(source, kind), onResult })
+      if (result instanceof Error) handleCommandError(result)
+
+      out.printYaml({
+        account: email,
+        folder: options.folder,
+        imported: counts.imported,
+        duplicates: counts.duplicate,
+        failed: counts.failed,
+      })
+      if (counts.failed > 0) {
+        out.hint('Run the same import again to retry failed messages; imported ones are skipped')
+        process.exit(1)
+      }
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type SourceKind = 'mbox' | 'maildir' | 'eml-dir' | 'eml'
+
+function sourceKind(source: string): SourceKind | NotFoundError | ValidationError {
+  if (!fs.existsSync(source)) return new NotFoundError({ resource: source })
+  if (fs.statSync(source).isDirectory()) {
+    if (['cur', 'new'].some((dir) => fs.existsSync(path.join(source, dir)))) return 'maildir'
+    if (fs.readdirSync(source).some((name) => /\.eml$/i.test(name))) return 'eml-dir'
+    return new ValidationError({ field: 'path', reason: `${source} is neither a Maildir (cur/, new/) nor a directory of .eml files` })
+  }
+  if (/\.eml$/i.test(source)) return 'eml'
+
+  const fd = fs.openSync(source, 'r')
+  const head = Buffer.alloc(5)
+  fs.readSync(fd, head, 0, 5, 0)
+  fs.closeSync(fd)
+  if (head.toString('latin1') !== 'From ') {
+    return new ValidationError({ field: 'path', reason: `${source} is not an mbox file (no "From " line at the start); name single messages *.eml` })
+  }
+  return 'mbox'
+}
+
+/** Messages of the source in order. mbox files are streamed, one message in memory at a time. */
+async function* readMessages(source: string, kind: SourceKind): AsyncGenerator<ImportMessage> {
+  const readFile = (file: string, flags?: ImportMessage['flags']) =>
+    toImportMessage(fs.readFileSync(file, 'latin1'), { source: file, flags, fallbackDate: fs.statSync(file).mtime })
+
+  if (kind === 'eml') {
+    yield readFile(source)
+    return
+  }
+  if (kind === 'eml-dir') {
+    for (const name of fs.readdirSync(source).filter((n) => /\.eml$/i.test(n)).sort()) {
+      yield readFile(path.join(source, name))
+    }
+    return
+  }
+  if (kind === 'maildir') {
+    // new/ holds unseen mail without an info suffix; maildirFlags() reads that as unread
+    for (const dir of ['cur', 'new'].map((d) => path.join(source, d)).filter((d) => fs.existsSync(d))) {
+      for (const name of fs.readdirSync(dir).sort()) {
+        const file = path.join(dir, name)
+        if (fs.statSync(file).isFile()) yield readFile(file, maildirFlags(name))
+      }
+    }
+    return
+  }
+
+  const splitter = new MboxSplitter()
+  const lines = readline.createInterface({ input: fs.createReadStream(source, { encoding: 'latin1' }), crlfDelay: Infinity })
+  let index = 0
+  const toMessage = ({ raw, separator }: { raw: string; separator: string }) =>
+    toImportMessage(raw, { source: `${source}#${++index}`, fallbackDate: separatorDate(separator) })
+
+  for await (const line of lines) {
+    const message = splitter.push(line)
+    if (message) yield toMessage(message)
+  }
+  const last = splitter.end()
+  if (last) yield toMessage(last)
+}
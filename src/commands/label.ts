@@ -24,7 +24,7 @@ export function registerLabelCommands(cli: ZeleCli) {
       // Labels are Google-only — filter to Google accounts
       const googleClients = clients.filter((c) => c.accountType === 'google')
       if (googleClients.length === 0) {
-        handleCommandError(new UnsupportedError({ feature: 'Labels', accountType: 'IMAP/SMTP', hint: 'IMAP accounts use folders. Use --folder to browse different mailboxes.' }))
+        handleCommandError(new UnsupportedError({ feature: 'Labels', accountType: 'IMAP/SMTP', hint: 'IMAP accounts use folders: zele folder list' }))
       }
 
       // Fetch from all Google accounts concurrently
@@ -150,7 +150,7 @@ export function registerLabelCommands(cli: ZeleCli) {
       const clients = await getClients(options.account)
       const googleClients = clients.filter((c) => c.accountType === 'google')
       if (googleClients.length === 0) {
-        handleCommandError(new UnsupportedError({ feature: 'Label counts', accountType: 'IMAP/SMTP', hint: 'IMAP accounts use folders, not labels.' }))
+        handleCommandError(new UnsupportedError({ feature: 'Label counts', accountType: 'IMAP/SMTP', hint: 'IMAP accounts use folders, not labels: zele folder list' }))
       }
 
       // Fetch from all Google accounts concurrently
@@ -1,5 +1,5 @@
 // Mail action commands: star, unstar, archive, trash, untrash, mark read/unread,
-// spam, unspam, label modify, unsubscribe.
+// spam, unspam, move, label modify, unsubscribe.
 // Bulk operations on threads — cache invalidation is handled by the client methods.
 
 import type { ZeleCli } from '../cli-types.js'
@@ -98,6 +98,18 @@ export function registerMailActionCommands(cli: ZeleCli) {
       await bulkAction(threadIds, 'Removed from spam', options.account, (c, ids) => c.unmarkSpam({ threadIds: ids }))
     })
 
+  cli
+    .command('mail move [...threadIds]', 'Move threads to a folder (IMAP) or label (Gmail)')
+    .option('--to <to>', z.string().describe('Target: inbox, archive, spam, trash, or a folder path / label name'))
+    .action(async (threadIds, options) => {
+      if (!options.to) {
+        out.error('--to is required')
+        process.exit(1)
+      }
+      const folder = options.to
+      await bulkAction(threadIds, `Moved to ${folder}`, options.account, (c, ids) => c.move({ threadIds: ids, folder }))
+    })
+
   cli
     .command('mail label [...threadIds]', 'Add or remove labels from threads')
     .option('--add <add>', z.string().describe('Labels to add (comma-separated)'))
@@ -218,6 +230,7 @@ export function registerMailActionCommands(cli: ZeleCli) {
           subject: chosen.mailto.subject ?? 'unsubscribe',
           body: chosen.mailto.body ?? 'unsubscribe',
           cc: chosen.mailto.cc?.map((email) => ({ email })),
+          signature: false,
         })
         if (sendResult instanceof Error) {
           handleCommandError(
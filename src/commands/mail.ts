@@ -9,11 +9,24 @@ import fs from 'node:fs'
 import path from 'node:path'
 import React from 'react'
 import { lookup as mimeLookup } from 'mrmime'
-import { getClients, getClient, listAccounts, login } from '../auth.js'
-import type { ThreadListResult } from '../gmail-client.js'
-import type { GmailClient } from '../gmail-client.js'
-import { AuthError } from '../api-utils.js'
+import { getClients, getClient, listAccounts, login, createOAuth2Client } from '../auth.js'
+import type { gmail_v1 } from '@googleapis/gmail'
+import type { ParsedMessage, ThreadData, ThreadListResult } from '../gmail-client.js'
+import { GmailClient, parseGmailMessage } from '../gmail-client.js'
+import { searchThreads } from '../search-index.js'
+import { MIRROR_STALE_MS } from '../mirror.js'
+import { AuthError, NotFoundError } from '../api-utils.js'
 import { hasUnsubscribeMechanism, hasOneClickUnsubscribe } from '../unsubscribe.js'
+import { markdownToHtml } from '../markdown-html.js'
+import { parseEml } from '../eml.js'
+import { parseInvite, type Invite } from '../itip.js'
+import { sanitizeFilename } from '../attachment-names.js'
+import { printScheduled, setOutboxFollowup } from '../outbox.js'
+import { parseRemindAfter, trackFollowup } from '../followups.js'
+import { renderTemplateOption } from '../templates.js'
+import { senderVariables } from '../mail-template.js'
+import { resolveRecipients, savedContactNames } from '../contacts.js'
+import { parseFutureTime } from '../calendar-time.js'
 import * as out from '../output.js'
 import { handleCommandError } from '../output.js'
 import pc from 'picocolors'
@@ -35,6 +48,283 @@ function formatLabels(labelIds: string[], labelMap?: Map<string, string>): strin
   return visible.join(', ')
 }
 
+// ---------------------------------------------------------------------------
+// Local search — reads only SQLite, so accounts come from listAccounts()
+// (getClients may refresh OAuth tokens over the network)
+// ---------------------------------------------------------------------------
+
+async function searchLocal(query: string, limit: number, accountFilter?: string[]): Promise<void> {
+  const allAccounts = await listAccounts()
+  const accounts = accountFilter && accountFilter.length > 0
+    ? allAccounts.filter((a) => accountFilter.includes(a.email))
+    : allAccounts
+  if (accounts.length === 0) {
+    out.error(allAccounts.length === 0 ? 'No accounts registered. Run: zele login' : 'No matching accounts')
+    process.exit(1)
+  }
+
+  // Index Gmail threads cached before the index existed. Parsing cached raw
+  // data needs no credentials, so an unauthenticated OAuth client is enough.
+  for (const account of accounts) {
+    if (account.accountType !== 'google') continue
+    await new GmailClient({ auth: createOAuth2Client(account.appId), account }).indexCachedThreads()
+  }
+
+  const hits = await searchThreads({ accounts, query, limit })
+  if (hits instanceof Error) {
+    out.error(hits.message)
+    process.exit(1)
+  }
+
+  if (hits.length === 0) {
+    out.printList([], { summary: `No local results for "${query}"` })
+    return
+  }
+
+  const showAccount = accounts.length > 1
+  out.printList(
+    hits.map((t) => ({
+      ...(showAccount ? { account: t.email } : {}),
+      id: t.threadId,
+      flags: out.formatFlags(t),
+      from: out.formatSender(t.from),
+      subject: t.subject,
+      snippet: t.snippet,
+      date: out.formatDate(t.date),
+      messages: t.messageCount,
+    })),
+    { summary: `${hits.length} local results for "${query}"` },
+  )
+}
+
+// ---------------------------------------------------------------------------
+// mail read rendering — shared by thread IDs and local .eml files
+// ---------------------------------------------------------------------------
+
+/** .eml paths and - (stdin) are read locally; anything else is a thread ID, even if a file has that name. */
+function isMessageFile(arg: string): boolean {
+  return arg === '-' || /\.eml$/i.test(arg)
+}
+
+/** A one-message thread for a local message, so it renders like a fetched thread. */
+function emlThread(message: gmail_v1.Schema$Message): ThreadData {
+  const msg = parseGmailMessage(message)
+  return {
+    id: msg.id,
+    historyId: null,
+    messages: [msg],
+    subject: msg.subject,
+    snippet: msg.snippet,
+    from: msg.from,
+    date: msg.date,
+    labelIds: [],
+    hasUnread: false,
+    messageCount: 1,
+  }
+}
+
+function saveAttachment(dir: string, attachmentId: string, filename: string, data: Buffer): string {
+  const outDir = path.resolve(dir)
+  fs.mkdirSync(outDir, { recursive: true })
+  const outPath = path.join(outDir, sanitizeFilename(filename, `attachment-${attachmentId}`))
+  fs.writeFileSync(outPath, data)
+  return outPath
+}
+
+/** The message's meeting invite, if it has a text/calendar part that parses. */
+function messageInvite(msg: ParsedMessage): Invite | null {
+  if (!msg.calendar) return null
+  const invite = parseInvite(msg.calendar)
+  return invite instanceof Error ? null : invite
+}
+
+function formatInviteTime(invite: Invite): string {
+  if (invite.allDay) {
+    return invite.end > invite.start ? `${invite.start} – ${invite.end} (all day)` : `${invite.start} (all day)`
+  }
+  const start = new Date(invite.start)
+  const end = new Date(invite.end)
+  const day = start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })
+  const time = (d: Date) => d.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+  return `${day} ${time(start)} – ${time(end)}`
+}
+
+function inviteField(invite: Invite | null) {
+  if (!invite) return {}
+  return {
+    invite: {
+      method: invite.method,
+      summary: invite.summary,
+      start: invite.start,
+      end: invite.end,
+      location: invite.location || null,
+      organizer: invite.organizer ? out.formatSender(invite.organizer) : null,
+      attendees: invite.attendees.map((a) => ({ email: a.email, status: a.status.toLowerCase() })),
+    },
+  }
+}
+
+function printInvite(invite: Invite, threadId: string): void {
+  const label = invite.method === 'CANCEL' ? pc.red('Cancelled')
+    : invite.method === 'REPLY' ? 'Reply'
+    : invite.method === 'REQUEST' ? (invite.sequence > 0 ? 'Updated invitation' : 'Invitation')
+    : invite.method.toLowerCase()
+  console.log(pc.bold('Invite: ') + `${invite.summary} (${label})`)
+  console.log(pc.dim(`  When: ${formatInviteTime(invite)}`))
+  if (invite.location) console.log(pc.dim(`  Where: ${invite.location}`))
+  if (invite.organizer) console.log(pc.dim(`  Organizer: ${out.formatSender(invite.organizer)}`))
+  if (invite.attendees.length > 0) {
+    console.log(pc.dim(`  Attendees: ${invite.attendees.map((a) => `${a.email} (${a.status.toLowerCase()})`).join(', ')}`))
+  }
+  if (invite.method === 'REQUEST') {
+    console.log(pc.dim(`  RSVP: zele mail rsvp ${threadId} --accept | --decline | --tentative`))
+  }
+}
+
+function renderThreads(
+  threadIds: string[],
+  settled: PromiseSettledResult<{ parsed: ThreadData }>[],
+  options: { rawHtml?: boolean; verify?: boolean },
+): void {
+  // Structured formats get one record per message instead of the rendered view
+  if (out.getOutputFormat() !== 'yaml') {
+    const items: Record<string, unknown>[] = []
+    settled.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        out.error(`Failed to read thread ${threadIds[i]}: ${String(result.reason)}`)
+        return
+      }
+      for (const msg of result.value.parsed.messages) {
+        items.push({
+          thread_id: result.value.parsed.id,
+          id: msg.id,
+          from: out.formatSender(msg.from),
+          to: msg.to.map(out.formatSender),
+          cc: (msg.cc ?? []).map(out.formatSender),
+          subject: msg.subject,
+          date: msg.date,
+          unread: msg.unread,
+          starred: msg.starred,
+          attachments: msg.attachments.map((a) => a.filename),
+          ...(msg.auth ? { authentic: msg.auth.authentic } : {}),
+          ...inviteField(messageInvite(msg)),
+          body: options.rawHtml ? msg.body : out.renderEmailBody(msg.body, msg.mimeType),
+        })
+      }
+    })
+    out.printList(items, { summary: `${items.length} message(s)` })
+    return
+  }
+
+  const w = Math.min(process.stdout.columns || 72, 72)
+  const rule = pc.dim('─'.repeat(w))
+  const multi = threadIds.length > 1
+
+  for (let i = 0; i < settled.length; i++) {
+    const result = settled[i]!
+
+    if (multi) {
+      const doubleRule = pc.bold('━'.repeat(w))
+      console.log(doubleRule)
+      console.log(pc.bold(`Thread ${i + 1}/${settled.length}`) + pc.dim(` · ${threadIds[i]}`))
+      console.log(doubleRule)
+      console.log()
+    }
+
+    if (result.status === 'rejected') {
+      out.error(`Failed to read thread ${threadIds[i]}: ${String(result.reason)}`)
+      if (multi) console.log()
+      continue
+    }
+
+    const { parsed: thread } = result.value
+
+    if (thread.messages.length === 0) {
+      out.hint('No messages in thread')
+      if (multi) console.log()
+      continue
+    }
+
+    if (options.rawHtml) {
+      thread.messages.forEach((msg, index) => {
+        console.log(msg.body)
+        if (index < thread.messages.length - 1) {
+          console.log('\n<!-- ZELE_MESSAGE_SEPARATOR -->\n')
+        }
+      })
+      if (multi) console.log()
+      continue
+    }
+
+    // Render thread header
+    console.log(pc.bold(thread.subject))
+    const participants = new Map<string, string>()
+    for (const msg of thread.messages) {
+      participants.set(msg.from.email, msg.from.name || msg.from.email)
+      for (const r of msg.to) participants.set(r.email, r.name || r.email)
+    }
+    const participantStr = [...participants.values()].join(', ')
+    console.log(pc.dim(`${thread.messageCount} message(s) · ${participantStr}`))
+    console.log(pc.dim(`ID: ${thread.id}`))
+    console.log(rule + '\n')
+
+    // Render each message
+    for (const msg of thread.messages) {
+      const fromStr = out.formatSender(msg.from)
+      const dateStr = out.formatDate(msg.date)
+
+      const flagParts: string[] = []
+      if (msg.unread) flagParts.push(pc.yellow('[unread]'))
+      if (msg.starred) flagParts.push(pc.yellow('[starred]'))
+      const flagStr = flagParts.length > 0 ? ' ' + flagParts.join(' ') : ''
+
+      console.log(pc.bold(`From: `) + fromStr + flagStr)
+      console.log(pc.dim(`  To: ${msg.to.map((t) => t.email).join(', ')}`))
+      if (msg.cc && msg.cc.length > 0) {
+        console.log(pc.dim(`  Cc: ${msg.cc.map((c) => c.email).join(', ')}`))
+      }
+      console.log(pc.dim(`Date: ${dateStr}`))
+
+      if (msg.auth) {
+        const check = (verdict: string) => {
+          return verdict === 'pass'
+            ? pc.green('✓')
+            : pc.red('✗')
+        }
+        const parts = [
+          `${check(msg.auth.spf)} SPF`,
+          `${check(msg.auth.dkim)} DKIM`,
+          `${check(msg.auth.dmarc)} DMARC`,
+        ]
+        const label = msg.auth.authentic ? pc.green('authentic') : pc.red('UNVERIFIED')
+        console.log(`Auth: ${parts.join('  ')}  (${label})`)
+        if (options.verify) {
+          console.log(pc.dim(`  Raw: ${msg.auth.raw}`))
+        }
+      }
+
+      if (msg.attachments.length > 0) {
+        const attList = msg.attachments.map((a) => {
+          const size = a.size < 1024 ? `${a.size} B`
+            : a.size < 1048576 ? `${(a.size / 1024).toFixed(1)} KB`
+            : `${(a.size / 1048576).toFixed(1)} MB`
+          return `${a.filename} (${size})`
+        })
+        console.log(pc.dim(`Attachments: ${attList.join(', ')}`))
+      }
+
+      const invite = messageInvite(msg)
+      if (invite) printInvite(invite, thread.id)
+
+      console.log()
+
+      const body = out.renderEmailBody(msg.body, msg.mimeType)
+      console.log(body)
+      console.log('\n' + rule + '\n')
+    }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Register commands
 // ---------------------------------------------------------------------------
@@ -98,6 +388,14 @@ export function registerMailCommands(cli: ZeleCli) {
           return true
         })
 
+      // Synced accounts list from the local mirror — nudge when it's getting old
+      for (const { email, client } of clients) {
+        const syncedAt = await client.getMirrorSyncedAt()
+        if (syncedAt && Date.now() - syncedAt.getTime() > MIRROR_STALE_MS) {
+          out.hint(`${email} mirror last synced ${out.formatDate(syncedAt.toISOString())}. Run: zele sync`)
+        }
+      }
+
       // Merge label maps from all accounts
       const labelMap = new Map<string, string>()
       for (const r of allResults) for (const [id, name] of r.labelMap) labelMap.set(id, name)
@@ -115,11 +413,16 @@ export function registerMailCommands(cli: ZeleCli) {
         return
       }
 
+      // Headers with a bare address get the name from the address book (zele contacts sync)
+      const names = await savedContactNames(clients)
+      const withName = (s: { name?: string; email: string }) =>
+        s.name ? s : { ...s, name: names.get(s.email.toLowerCase()) }
+
       const showAccount = clients.length > 1
       out.printList(
         merged.map((t) => {
-          const to = t.to.map((s) => out.formatSender(s)).join(', ')
-          const cc = t.cc.map((s) => out.formatSender(s)).join(', ')
+          const to = t.to.map((s) => out.formatSender(withName(s))).join(', ')
+          const cc = t.cc.map((s) => out.formatSender(withName(s))).join(', ')
           const labels = formatLabels(t.labelIds, labelMap)
           const canUnsubscribe = hasUnsubscribeMechanism(t.listUnsubscribe)
           const oneClick = hasOneClickUnsubscribe(t.listUnsubscribe, t.listUnsubscribePost)
@@ -127,7 +430,7 @@ export function registerMailCommands(cli: ZeleCli) {
             ...(showAccount ? { account: t.account } : {}),
             id: t.id,
             flags: out.formatFlags(t),
-            from: out.formatSender(t.from),
+            from: out.formatSender(withName(t.from)),
             ...(to ? { to } : {}),
             ...(cc ? { cc } : {}),
             subject: t.subject,
@@ -152,8 +455,19 @@ export function registerMailCommands(cli: ZeleCli) {
     .command('mail search <query>', 'Search email threads using Gmail query syntax (from:, to:, subject:, has:attachment, etc). See https://support.google.com/mail/answer/7190')
     .option('--limit [limit]', 'Max results to show (default: 20)')
     .option('--page <page>', 'Pagination token (requires --account, only works for a single account)')
+    .option('--local', 'Search the local full-text index offline (threads fetched before; supports from:, to:, cc:, bcc:, subject:, "phrases", OR, -term)')
     .action(async (query, options) => {
       const limit = options.limit ? Number(options.limit) : 20
+
+      if (options.local) {
+        if (options.page) {
+          out.error('--page cannot be used with --local')
+          process.exit(1)
+        }
+        await searchLocal(query, limit, options.account)
+        return
+      }
+
       const clients = await getClients(options.account)
 
       if (options.page && clients.length > 1) {
@@ -238,23 +552,67 @@ export function registerMailCommands(cli: ZeleCli) {
   // =========================================================================
 
   cli
-    .command('mail read [...threadIds]', 'Read full email threads (does not mark as read)')
+    .command('mail read [...threadIds]', 'Read full email threads, or local .eml files (- for stdin). Does not mark as read')
     .option('--raw', 'Show raw message (first message only, single thread)')
     .option('--raw-html', 'Show raw HTML body per message (no markdown conversion)')
     .option('--verify', 'Show expanded email authentication details (SPF/DKIM/DMARC)')
+    .option('--attachments', 'List the attachments of .eml files instead of rendering them')
+    .option('--save-attachments <dir>', z.string().describe('Save the attachments of .eml files to this directory'))
     .action(async (threadIds, options) => {
       if (threadIds.length === 0) {
         out.error('No thread IDs provided')
         process.exit(1)
       }
 
-      const { client } = await getClient(options.account)
-
       if (options.raw && options.rawHtml) {
         out.error('--raw and --raw-html cannot be used together')
         process.exit(1)
       }
 
+      // Local messages: .eml files or - for stdin, parsed without an account
+      const files = threadIds.filter(isMessageFile)
+      if (files.length > 0 && files.length < threadIds.length) {
+        out.error('Pass either thread IDs or .eml files, not both')
+        process.exit(1)
+      }
+      if (files.length === 0 && (options.attachments || options.saveAttachments)) {
+        out.error('--attachments and --save-attachments only work with .eml files. Try: zele attachment list <threadId>')
+        process.exit(1)
+      }
+      if (files.filter((f) => f === '-').length > 1) {
+        out.error('stdin (-) can only be read once')
+        process.exit(1)
+      }
+
+      if (files.length > 0) {
+        const missing = files.find((f) => f !== '-' && !fs.existsSync(f))
+        if (missing) handleCommandError(new NotFoundError({ resource: missing }))
+        const emls = files.map((file) => {
+          const raw = file === '-' ? fs.readFileSync(0) : fs.readFileSync(file)
+          return { file, raw, ...parseEml(raw, file === '-' ? 'stdin' : file) }
+        })
+        if (options.raw) {
+          for (const eml of emls) process.stdout.write(eml.raw)
+          return
+        }
+        if (options.attachments || options.saveAttachments) {
+          const rows = emls.flatMap((eml) => {
+            const msg = parseGmailMessage(eml.message)
+            return msg.attachments.map((a) => {
+              const row = { file: eml.message.id!, attachment_id: a.attachmentId, filename: a.filename, type: a.mimeType, size: a.size }
+              if (!options.saveAttachments) return row
+              return { ...row, path: saveAttachment(options.saveAttachments, a.attachmentId, a.filename, eml.attachments.get(a.attachmentId)!) }
+            })
+          })
+          out.printList(rows, { summary: rows.length === 0 ? 'No attachments' : `${rows.length} attachment(s)` })
+          return
+        }
+        renderThreads(files, await Promise.allSettled(emls.map(async (eml) => ({ parsed: emlThread(eml.message) }))), options)
+        return
+      }
+
+      const { client } = await getClient(options.account)
+
       if (options.raw) {
         if (threadIds.length > 1) {
           out.error('--raw only supports a single thread ID')
@@ -276,110 +634,7 @@ export function registerMailCommands(cli: ZeleCli) {
         threadIds.map((id) => client.getThread({ threadId: id })),
       )
 
-      const w = Math.min(process.stdout.columns || 72, 72)
-      const rule = pc.dim('─'.repeat(w))
-      const multi = threadIds.length > 1
-
-      for (let i = 0; i < settled.length; i++) {
-        const result = settled[i]!
-
-        if (multi) {
-          const doubleRule = pc.bold('━'.repeat(w))
-          console.log(doubleRule)
-          console.log(pc.bold(`Thread ${i + 1}/${settled.length}`) + pc.dim(` · ${threadIds[i]}`))
-          console.log(doubleRule)
-          console.log()
-        }
-
-        if (result.status === 'rejected') {
-          out.error(`Failed to read thread ${threadIds[i]}: ${String(result.reason)}`)
-          if (multi) console.log()
-          continue
-        }
-
-        const { parsed: thread } = result.value
-
-        if (thread.messages.length === 0) {
-          out.hint('No messages in thread')
-          if (multi) console.log()
-          continue
-        }
-
-        if (options.rawHtml) {
-          thread.messages.forEach((msg, index) => {
-            console.log(msg.body)
-            if (index < thread.messages.length - 1) {
-              console.log('\n<!-- ZELE_MESSAGE_SEPARATOR -->\n')
-            }
-          })
-          if (multi) console.log()
-          continue
-        }
-
-        // Render thread header
-        console.log(pc.bold(thread.subject))
-        const participants = new Map<string, string>()
-        for (const msg of thread.messages) {
-          participants.set(msg.from.email, msg.from.name || msg.from.email)
-          for (const r of msg.to) participants.set(r.email, r.name || r.email)
-        }
-        const participantStr = [...participants.values()].join(', ')
-        console.log(pc.dim(`${thread.messageCount} message(s) · ${participantStr}`))
-        console.log(pc.dim(`ID: ${thread.id}`))
-        console.log(rule + '\n')
-
-        // Render each message
-        for (const msg of thread.messages) {
-          const fromStr = out.formatSender(msg.from)
-          const dateStr = out.formatDate(msg.date)
-
-          const flagParts: string[] = []
-          if (msg.unread) flagParts.push(pc.yellow('[unread]'))
-          if (msg.starred) flagParts.push(pc.yellow('[starred]'))
-          const flagStr = flagParts.length > 0 ? ' ' + flagParts.join(' ') : ''
-
-          console.log(pc.bold(`From: `) + fromStr + flagStr)
-          console.log(pc.dim(`  To: ${msg.to.map((t) => t.email).join(', ')}`))
-          if (msg.cc && msg.cc.length > 0) {
-            console.log(pc.dim(`  Cc: ${msg.cc.map((c) => c.email).join(', ')}`))
-          }
-          console.log(pc.dim(`Date: ${dateStr}`))
-
-          if (msg.auth) {
-            const check = (verdict: string) => {
-              return verdict === 'pass'
-                ? pc.green('✓')
-                : pc.red('✗')
-            }
-            const parts = [
-              `${check(msg.auth.spf)} SPF`,
-              `${check(msg.auth.dkim)} DKIM`,
-              `${check(msg.auth.dmarc)} DMARC`,
-            ]
-            const label = msg.auth.authentic ? pc.green('authentic') : pc.red('UNVERIFIED')
-            console.log(`Auth: ${parts.join('  ')}  (${label})`)
-            if (options.verify) {
-              console.log(pc.dim(`  Raw: ${msg.auth.raw}`))
-            }
-          }
-
-          if (msg.attachments.length > 0) {
-            const attList = msg.attachments.map((a) => {
-              const size = a.size < 1024 ? `${a.size} B`
-                : a.size < 1048576 ? `${(a.size / 1024).toFixed(1)} KB`
-                : `${(a.size / 1048576).toFixed(1)} MB`
-              return `${a.filename} (${size})`
-            })
-            console.log(pc.dim(`Attachments: ${attList.join(', ')}`))
-          }
-
-          console.log()
-
-          const body = out.renderEmailBody(msg.body, msg.mimeType)
-          console.log(body)
-          console.log('\n' + rule + '\n')
-        }
-      }
+      renderThreads(threadIds, settled, options)
     })
 
   // =========================================================================
@@ -388,20 +643,45 @@ export function registerMailCommands(cli: ZeleCli) {
 
   cli
     .command('mail send', 'Send an email')
-    .option('--to <to>', z.string().describe('Recipient email (repeatable with comma)'))
+    .option('--to <to>', z.string().describe('Recipient email or contact name (repeatable with comma)'))
     .option('--subject <subject>', z.string().describe('Email subject'))
     .option('--body <body>', z.string().describe('Email body text'))
     .option('--body-file <bodyFile>', z.string().describe('Read body from file (use - for stdin)'))
     .option('--cc <cc>', z.string().describe('CC recipients (comma-separated)'))
     .option('--bcc <bcc>', z.string().describe('BCC recipients (comma-separated)'))
     .option('--from <from>', z.string().describe('Send-as alias email'))
+    .option('--markdown', 'Write the body in Markdown: sends it with an HTML version (multipart/alternative)')
+    .option('--no-signature', "Don't append the stored signature (zele signature)")
     .option('--attach <attach>', z.array(z.string()).describe('File to attach (repeatable: --attach a.pdf --attach b.png)'))
+    .option('--remind-after <remindAfter>', z.string().describe('Track the message and list it in mail followups if nobody replies within this time (3d, 12h, 1w)'))
+    .option('--at <at>', z.string().describe('Schedule for later instead of sending now ("tomorrow 9am", "friday 17:00", "+2h"). Delivered by zele outbox run'))
+    .option('--template <template>', z.string().describe('Start from a saved template (zele template list)'))
+    .option('--var <var>', z.array(z.string()).describe('Template variable as key=value (repeatable)'))
     .action(async (options) => {
       if (!options.to) {
         out.error('--to is required')
         process.exit(1)
       }
-      if (!options.subject) {
+
+      const account = await getClient(options.account)
+      const { client } = account
+
+      // Names ("--to alice") are looked up in zele contacts
+      const to = await resolveRecipients(account, options.to, '--to')
+      if (to instanceof Error) handleCommandError(to)
+      const ccFlag = options.cc ? await resolveRecipients(account, options.cc, '--cc') : undefined
+      if (ccFlag instanceof Error) handleCommandError(ccFlag)
+      const bccFlag = options.bcc ? await resolveRecipients(account, options.bcc, '--bcc') : undefined
+      if (bccFlag instanceof Error) handleCommandError(bccFlag)
+
+      // {{first_name}} etc. describe the (first) recipient
+      const template = options.template
+        ? await renderTemplateOption(options.template, options.var, senderVariables(to[0] ?? { email: '' }))
+        : undefined
+      if (template instanceof Error) handleCommandError(template)
+
+      const subject = options.subject ?? template?.subject
+      if (!subject) {
         out.error('--subject is required')
         process.exit(1)
       }
@@ -419,11 +699,18 @@ export function registerMailCommands(cli: ZeleCli) {
         }
       }
 
+      if (!body && template) body = template.body
+
       if (!body) {
         out.error('--body or --body-file is required')
         process.exit(1)
       }
 
+      const sendAt = options.at ? parseFutureTime(options.at, '--at') : undefined
+      if (sendAt instanceof Error) handleCommandError(sendAt)
+      const remindAfterMs = options.remindAfter ? parseRemindAfter(options.remindAfter) : undefined
+      if (remindAfterMs instanceof Error) handleCommandError(remindAfterMs)
+
       // Resolve attachment file paths (one file per --attach flag)
       const attachments = options.attach
         ? options.attach.map((filePath) => {
@@ -440,24 +727,43 @@ export function registerMailCommands(cli: ZeleCli) {
           })
         : undefined
 
-      const parseEmails = (str: string) =>
-        str.split(',').map((e) => e.trim()).filter(Boolean).map((email) => ({ email }))
-
-      const { client } = await getClient(options.account)
+      const cc = ccFlag ?? (template?.cc.length ? template.cc : undefined)
+      const bcc = bccFlag ?? (template?.bcc.length ? template.bcc : undefined)
+      const allAttachments = [...(template?.attachments ?? []), ...(attachments ?? [])]
 
       const result = await client.sendMessage({
-        to: parseEmails(options.to),
-        subject: options.subject,
+        to,
+        subject,
         body,
-        cc: options.cc ? parseEmails(options.cc) : undefined,
-        bcc: options.bcc ? parseEmails(options.bcc) : undefined,
+        html: options.markdown ? markdownToHtml(body) : undefined,
+        cc,
+        bcc,
         fromEmail: options.from,
-        attachments,
+        signature: !options.noSignature,
+        attachments: allAttachments.length > 0 ? allAttachments : undefined,
+        sendAt,
       })
       if (result instanceof Error) handleCommandError(result)
 
+      if (printScheduled(result)) {
+        if (remindAfterMs && 'outboxId' in result) {
+          await setOutboxFollowup(result.outboxId, remindAfterMs)
+          out.hint('Listed in zele mail followups once it is sent, if nobody replies in time')
+        }
+        return
+      }
       out.printYaml(result)
-      out.success(`Sent to ${options.to}`)
+      out.success(`Sent to ${to.map(out.formatSender).join(', ')}`)
+
+      if (remindAfterMs) {
+        const followup = await trackFollowup(account, result as { id?: string | null; threadId?: string | null }, {
+          subject,
+          recipients: [...to, ...(cc ?? []), ...(bcc ?? [])].map((r) => r.email),
+          remindAfterMs,
+        })
+        if (followup instanceof Error) out.error(`Sent, but couldn't track it for follow-up: ${followup.message}`)
+        else out.hint(`Listed in zele mail followups if nobody replies by ${followup.remindAt.toLocaleString()}`)
+      }
     })
 
   // =========================================================================
@@ -472,6 +778,12 @@ export function registerMailCommands(cli: ZeleCli) {
     .option('--all', 'Reply all (include all original recipients)')
     .option('--from <from>', z.string().describe('Send-as alias email'))
     .option('--draft', 'Save as draft instead of sending')
+    .option('--markdown', 'Write the body in Markdown: sends it with an HTML version (multipart/alternative)')
+    .option('--no-signature', "Don't append the stored signature (zele signature)")
+    .option('--at <at>', z.string().describe('Schedule for later instead of sending now ("tomorrow 9am", "friday 17:00", "+2h"). Delivered by zele outbox run'))
+    .option('--remind-after <remindAfter>', z.string().describe('Track the message and list it in mail followups if nobody replies within this time (3d, 12h, 1w)'))
+    .option('--template <template>', z.string().describe('Start from a saved template; {{first_name}}, {{name}} and {{email}} come from the sender'))
+    .option('--var <var>', z.array(z.string()).describe('Template variable as key=value (repeatable)'))
     .action(async (threadId, options) => {
       let body = options.body ?? ''
       if (options.bodyFile) {
@@ -486,24 +798,49 @@ export function registerMailCommands(cli: ZeleCli) {
         }
       }
 
-      if (!body) {
+      if (!body && !options.template) {
         out.error('--body or --body-file is required')
         process.exit(1)
       }
 
-      const { client } = await getClient(options.account)
+      const sendAt = options.at ? parseFutureTime(options.at, '--at') : undefined
+      if (sendAt instanceof Error) handleCommandError(sendAt)
+      const remindAfterMs = options.remindAfter ? parseRemindAfter(options.remindAfter) : undefined
+      if (remindAfterMs instanceof Error) handleCommandError(remindAfterMs)
+
+      const account = await getClient(options.account)
+      const { client } = account
 
-      const cc = options.cc
-        ? options.cc.split(',').map((e: string) => ({ email: e.trim() })).filter((e: { email: string }) => e.email)
+      // The thread is needed for template variables and follow-up tracking
+      const thread = options.template || remindAfterMs ? await client.getThread({ threadId }).catch(() => null) : null
+      const lastMsg = thread?.parsed.messages.at(-1)
+
+      const template = options.template
+        ? await renderTemplateOption(options.template, options.var, {
+            ...(lastMsg ? senderVariables(lastMsg.from) : {}),
+            subject: thread?.parsed.subject ?? '',
+          })
         : undefined
+      if (template instanceof Error) handleCommandError(template)
+      if (!body && template) body = template.body
+
+      const html = options.markdown ? markdownToHtml(body) : undefined
+
+      const ccFlag = options.cc ? await resolveRecipients(account, options.cc, '--cc') : undefined
+      if (ccFlag instanceof Error) handleCommandError(ccFlag)
+      const cc = ccFlag ?? (template?.cc.length ? template.cc : undefined)
+      const attachments = template?.attachments.length ? template.attachments : undefined
 
       if (options.draft) {
+        if (attachments) out.hint('Template attachments are not added to reply drafts')
         const result = await client.createDraftReply({
           threadId,
           body,
+          html,
           replyAll: options.all,
           cc,
           fromEmail: options.from,
+          signature: !options.noSignature,
         })
         if (result instanceof Error) handleCommandError(result)
 
@@ -515,14 +852,35 @@ export function registerMailCommands(cli: ZeleCli) {
       const result = await client.replyToThread({
         threadId,
         body,
+        html,
         replyAll: options.all,
         cc,
         fromEmail: options.from,
+        signature: !options.noSignature,
+        attachments,
+        sendAt,
       })
       if (result instanceof Error) handleCommandError(result)
 
+      if (printScheduled(result)) {
+        if (remindAfterMs && 'outboxId' in result) {
+          await setOutboxFollowup(result.outboxId, remindAfterMs)
+          out.hint('Listed in zele mail followups once it is sent, if nobody replies in time')
+        }
+        return
+      }
       out.printYaml(result)
       out.success('Reply sent')
+
+      if (remindAfterMs) {
+        const followup = await trackFollowup(account, result as { id?: string | null; threadId?: string | null }, {
+          subject: thread?.parsed.subject ?? '',
+          recipients: lastMsg ? [lastMsg.replyTo ?? lastMsg.from.email] : [],
+          remindAfterMs,
+        })
+        if (followup instanceof Error) out.error(`Sent, but couldn't track it for follow-up: ${followup.message}`)
+        else out.hint(`Listed in zele mail followups if nobody replies by ${followup.remindAt.toLocaleString()}`)
+      }
     })
 
   // =========================================================================
@@ -531,22 +889,25 @@ export function registerMailCommands(cli: ZeleCli) {
 
   cli
     .command('mail forward <threadId>', 'Forward an email thread')
-    .option('--to <to>', z.string().describe('Forward recipient(s), comma-separated'))
+    .option('--to <to>', z.string().describe('Forward recipient(s): emails or contact names, comma-separated'))
     .option('--body <body>', z.string().describe('Optional message to prepend'))
     .option('--from <from>', z.string().describe('Send-as alias email'))
     .option('--draft', 'Save as draft instead of sending')
+    .option('--no-signature', "Don't append the stored signature (zele signature)")
+    .option('--at <at>', z.string().describe('Schedule for later instead of sending now ("tomorrow 9am", "friday 17:00", "+2h"). Delivered by zele outbox run'))
     .action(async (threadId, options) => {
       if (!options.to) {
         out.error('--to is required')
         process.exit(1)
       }
 
-      const recipients = options.to
-        .split(',')
-        .map((e: string) => ({ email: e.trim() }))
-        .filter((e: { email: string }) => e.email)
+      const sendAt = options.at ? parseFutureTime(options.at, '--at') : undefined
+      if (sendAt instanceof Error) handleCommandError(sendAt)
 
-      const { client } = await getClient(options.account)
+      const account = await getClient(options.account)
+      const { client } = account
+      const recipients = await resolveRecipients(account, options.to, '--to')
+      if (recipients instanceof Error) handleCommandError(recipients)
 
       if (options.draft) {
         const result = await client.createDraftForward({
@@ -554,6 +915,7 @@ export function registerMailCommands(cli: ZeleCli) {
           to: recipients,
           body: options.body,
           fromEmail: options.from,
+          signature: !options.noSignature,
         })
         if (result instanceof Error) handleCommandError(result)
 
@@ -567,10 +929,13 @@ export function registerMailCommands(cli: ZeleCli) {
         to: recipients,
         body: options.body,
         fromEmail: options.from,
+        signature: !options.noSignature,
+        sendAt,
       })
       if (result instanceof Error) handleCommandError(result)
 
+      if (printScheduled(result)) return
       out.printYaml(result)
-      out.success(`Forwarded to ${options.to}`)
+      out.success(`Forwarded to ${recipients.map(out.formatSender).join(', ')}`)
     })
 }
@@ -0,0 +1,274 @@
+// Mail merge command: mail merge --template <file|name> --data <csv|yaml>.
+// Sends one personalized message per data row through the client's sendMessage.
+// Each row's columns fill the template's {{placeholders}} (see mail-template.ts);
+// name/first_name/email are also derived from the row's address.
+// Progress goes to an NDJSON log next to the data file: a row is marked
+// "sending" before the send and "sent" after, so a rerun skips finished rows
+// and never resends one that was interrupted mid-send. The log also records
+// the template, and resuming with a different one is refused. Sends are spaced out
+// by --rate (messages per minute) to stay under Gmail and SMTP limits.
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import fs from 'node:fs'
+import path from 'node:path'
+import { getClient, type ClientEntry } from '../auth.js'
+import { ApiError, AuthError, NotFoundError, ValidationError, isRateLimitError } from '../api-utils.js'
+import { renderTemplate, senderVariables } from '../mail-template.js'
+import {
+  parseMergeData,
+  parseTemplateText,
+  readMergeLog,
+  logHasOtherTemplate,
+  templateHash,
+  rowKey,
+  rowRecipients,
+  type MergeLogEntry,
+} from '../mail-merge.js'
+import { getTemplate, readTemplateAttachments, type RenderedTemplate } from '../templates.js'
+import { markdownToHtml } from '../markdown-html.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+/** Attempts per row when the server asks us to slow down. */
+const THROTTLE_RETRIES = 3
+const THROTTLE_WAIT_MS = 60_000
+
+interface MergeTemplate {
+  subject: string
+  body: string
+  cc: Array<{ email: string }>
+  bcc: Array<{ email: string }>
+  attachments: RenderedTemplate['attachments']
+}
+
+interface MergeMessage {
+  row: number
+  key: string
+  to: string[]
+  subject: string
+  body: string
+}
+
+export function registerMergeCommands(cli: ZeleCli) {
+  cli
+    .command('mail merge', 'Send one personalized message per row of a CSV or YAML file')
+    .option('--template <template>', z.string().describe('Template file ("Subject: ..." line, blank line, body) or saved template name'))
+    .option('--data <data>', z.string().describe('Recipients: .csv with a header row, or .yaml/.json list; needs an email (or to) column'))
+    .option('--dry-run', 'Render every row and show what would be sent, without sending')
+    .option('--rate <rate>', z.number().default(20).describe('Messages per minute'))
+    .option('--log <log>', z.string().describe('Progress log (default: <data>.merge-log); rerun with the same log to resume'))
+    .option('--from <from>', z.string().describe('Send-as alias email'))
+    .option('--markdown', 'Write the body in Markdown: sends it with an HTML version (multipart/alternative)')
+    .option('--no-signature', "Don't append the stored signature (zele signature)")
+    .action(async (options) => {
+      if (!options.template || !options.data) {
+        out.error('--template and --data are required')
+        process.exit(1)
+      }
+      if (!(options.rate > 0)) {
+        handleCommandError(new ValidationError({ field: '--rate', reason: 'must be a positive number of messages per minute' }))
+      }
+
+      const template = await loadMergeTemplate(options.template)
+      if (template instanceof Error) handleCommandError(template)
+
+      if (!fs.existsSync(options.data)) handleCommandError(new NotFoundError({ resource: `Data file ${options.data}` }))
+      const format = /\.(ya?ml|json)$/i.test(options.data) ? 'yaml' : 'csv'
+      const rows = parseMergeData(fs.readFileSync(options.data, 'utf-8'), format)
+      if (rows instanceof Error) handleCommandError(rows)
+      if (rows.length === 0) {
+        out.printList([], { summary: `No rows in ${options.data}` })
+        return
+      }
+
+      // Render everything up front: a bad row should stop the merge before anything is sent
+      const messages: MergeMessage[] = []
+      const invalid: Record<string, unknown>[] = []
+      const seen = new Map<string, number>()
+      rows.forEach((data, index) => {
+        const row = index + 1
+        const to = rowRecipients(data)
+        if (to instanceof Error) {
+          invalid.push({ row, status: 'invalid', error: to.message })
+          return
+        }
+        const key = rowKey(to)
+        if (seen.has(key)) {
+          invalid.push({ row, to: to.join(', '), status: 'invalid', error: `same recipients as row ${seen.get(key)}` })
+          return
+        }
+        seen.set(key, row)
+
+        const vars = { ...senderVariables({ name: data.name, email: to[0]! }), ...data }
+        const subject = renderTemplate(template.subject, vars)
+        const body = renderTemplate(template.body, vars)
+        const error = [subject, body].find((r) => r instanceof Error)
+        if (error) {
+          invalid.push({ row, to: to.join(', '), status: 'invalid', error: error.message })
+          return
+        }
+        messages.push({ row, key, to, subject: subject as string, body: body as string })
+      })
+
+      const logPath = options.log ?? `${options.data}.merge-log`
+      const log = fs.existsSync(logPath) ? readMergeLog(fs.readFileSync(logPath, 'utf-8')) : new Map<string, MergeLogEntry>()
+      // Rows are logged by recipients only: resuming with another template would skip them as sent
+      const templateId = templateHash(template)
+      if (logHasOtherTemplate(log, templateId)) {
+        handleCommandError(new ValidationError({
+          field: '--log',
+          reason: `${logPath} is the progress of a merge with a different template or subject. Pass --log with a new file to send this one`,
+        }))
+      }
+
+      if (options.dryRun) {
+        for (const item of invalid) out.printList([item])
+        for (const m of messages) {
+          const previous = log.get(m.key)
+          out.printList([{
+            row: m.row,
+            to: m.to.join(', '),
+            status: previous?.status === 'sent' ? 'already sent' : previous?.status === 'sending' ? 'interrupted' : 'would send',
+            subject: m.subject,
+            body: m.body,
+          }])
+        }
+        out.hint(`Dry run: ${messages.length} message(s) rendered, ${invalid.length} invalid row(s). Nothing was sent`)
+        return
+      }
+
+      if (invalid.length > 0) {
+        for (const item of invalid) out.printList([item])
+        out.error(`${invalid.length} row(s) can't be sent. Nothing was sent; fix the data or template and run again`)
+        process.exit(1)
+      }
+
+      const account = await getClient(options.account)
+      const counts = { sent: 0, failed: 0, skipped: 0 }
+      const interval = 60_000 / options.rate
+      let lastSend = 0
+
+      for (const m of messages) {
+        const previous = log.get(m.key)
+        if (previous?.status === 'sent' || previous?.status === 'sending') {
+          counts.skipped++
+          out.printList([{
+            row: m.row,
+            to: m.to.join(', '),
+            status: previous.status === 'sent' ? 'already sent' : 'interrupted',
+            ...(previous.message_id ? { message_id: previous.message_id } : {}),
+            ...(previous.status === 'sending' ? { error: `a previous run stopped while sending; check Sent and remove it from ${logPath} to resend` } : {}),
+          }])
+          continue
+        }
+
+        const wait = lastSend + interval - Date.now()
+        if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait))
+        lastSend = Date.now()
+
+        appendLog(logPath, { key: m.key, row: m.row, status: 'sending', template: templateId, at: new Date().toISOString() })
+        const sent = await sendRow(account, m, template, {
+          fromEmail: options.from,
+          markdown: options.markdown,
+          signature: !options.noSignature,
+        })
+
+        if (sent instanceof Error) {
+          counts.failed++
+          appendLog(logPath, { key: m.key, row: m.row, status: 'failed', error: sent.message, template: templateId, at: new Date().toISOString() })
+          out.printList([{ row: m.row, to: m.to.join(', '), status: 'failed', error: sent.message }])
+          if (sent instanceof AuthError) handleCommandError(sent)
+          continue
+        }
+
+        counts.sent++
+        const messageId = sent.id ?? undefined
+        const threadId = sent.threadId && sent.threadId !== 'unknown' ? sent.threadId : undefined
+        appendLog(logPath, { key: m.key, row: m.row, status: 'sent', message_id: messageId, thread_id: threadId, template: templateId, at: new Date().toISOString() })
+        out.printList([{
+          row: m.row,
+          to: m.to.join(', '),
+          status: 'sent',
+          message_id: messageId ?? null,
+          ...(threadId ? { thread_id: threadId } : {}),
+        }])
+      }
+
+      out.hint(`${counts.sent} sent, ${counts.failed} failed, ${counts.skipped} skipped. Progress log: ${logPath}`)
+      if (counts.failed > 0) {
+        out.hint('Run the same command again to retry failed rows')
+        process.exit(1)
+      }
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A template file on disk, or else a saved template (which adds cc/bcc/attachments). */
+async function loadMergeTemplate(nameOrPath: string): Promise<MergeTemplate | NotFoundError | ValidationError> {
+  if (fs.existsSync(nameOrPath)) {
+    const { subject, body } = parseTemplateText(fs.readFileSync(nameOrPath, 'utf-8'))
+    if (!subject) {
+      return new ValidationError({ field: '--template', reason: `${path.basename(nameOrPath)} needs a "Subject: ..." first line` })
+    }
+    return { subject, body, cc: [], bcc: [], attachments: [] }
+  }
+
+  const saved = await getTemplate(nameOrPath)
+  if (saved instanceof Error) return new NotFoundError({ resource: `Template file or saved template ${nameOrPath}` })
+  const attachments = readTemplateAttachments(saved)
+  if (attachments instanceof Error) return attachments
+  return {
+    subject: saved.subject,
+    body: saved.body,
+    cc: saved.cc.map((email) => ({ email })),
+    bcc: saved.bcc.map((email) => ({ email })),
+    attachments,
+  }
+}
+
+/** Send one row, waiting and retrying when the server reports a rate limit. */
+async function sendRow(
+  { client }: ClientEntry,
+  m: MergeMessage,
+  template: MergeTemplate,
+  { fromEmail, markdown, signature }: { fromEmail?: string; markdown?: boolean; signature: boolean },
+) {
+  for (let attempt = 1; ; attempt++) {
+    const sent = await Promise.resolve(
+      client.sendMessage({
+        to: m.to.map((email) => ({ email })),
+        subject: m.subject,
+        body: m.body,
+        html: markdown ? markdownToHtml(m.body) : undefined,
+        cc: template.cc.length > 0 ? template.cc : undefined,
+        bcc: template.bcc.length > 0 ? template.bcc : undefined,
+        attachments: template.attachments.length > 0 ? template.attachments : undefined,
+        fromEmail,
+        signature,
+      }),
+    ).catch((e: unknown) => new ApiError({ reason: String(e), cause: e as Error }))
+
+    if (!(sent instanceof Error) || attempt > THROTTLE_RETRIES || !isThrottled(sent)) {
+      return sent as Exclude<typeof sent, { outboxId: number }>
+    }
+    out.hint(`Rate limited on row ${m.row}; waiting ${THROTTLE_WAIT_MS / 1000 * attempt}s`)
+    await new Promise((resolve) => setTimeout(resolve, THROTTLE_WAIT_MS * attempt))
+  }
+}
+
+/** Gmail quota errors, or SMTP 4xx replies (421 too many connections, 450/451/452 try later). */
+function isThrottled(err: Error): boolean {
+  const cause = (err as { cause?: unknown }).cause
+  if (isRateLimitError(cause)) return true
+  const code = typeof cause === 'object' && cause && 'responseCode' in cause ? cause.responseCode : undefined
+  return typeof code === 'number' && code >= 400 && code < 500
+}
+
+/** Append one line to the progress log; synchronous so it is on disk before the next step. */
+function appendLog(logPath: string, entry: MergeLogEntry) {
+  fs.appendFileSync(logPath, JSON.stringify(entry) + '\n')
+}
@@ -0,0 +1,191 @@
+// Outbox commands: list, cancel, flush, run.
+// Messages scheduled with --at (mail send/reply/forward, draft send) wait in the
+// local OutboxMessage table. flush sends whatever is due once; run keeps doing
+// that on an interval, so it can live in a terminal, tmux or a service unit.
+// Delivery goes through the owning account's client (GmailClient.sendRaw or
+// ImapSmtpClient.sendRaw). Failures stay queued with their error and are retried.
+// A message is claimed before it is sent, so concurrent runs send it once.
+// Messages sent with --remind-after start their follow-up window on delivery.
+// Multi-account: --account narrows the outbox to those accounts.
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import { getClients, listAccounts, type ClientEntry } from '../auth.js'
+import { ApiError, AuthError, NotFoundError } from '../api-utils.js'
+import { trackFollowup } from '../followups.js'
+import { withHeader } from '../mail-export.js'
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  claimOutbox,
+  dueOutbox,
+  listOutbox,
+  recordOutboxFailure,
+  removeOutbox,
+  type OutboxEntry,
+} from '../outbox.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+export function registerOutboxCommands(cli: ZeleCli) {
+  // =========================================================================
+  // outbox list
+  // =========================================================================
+
+  cli
+    .command('outbox list', 'List scheduled messages waiting in the outbox')
+    .action(async (options) => {
+      const entries = await listOutbox(await accountFilter(options.account))
+
+      if (entries.length === 0) {
+        out.printList([], { summary: 'Outbox is empty' })
+        return
+      }
+
+      out.printList(
+        entries.map((e) => ({
+          id: e.id,
+          account: e.email,
+          send_at: e.sendAt.toISOString(),
+          subject: e.subject,
+          to: e.recipients.join(', '),
+          ...(e.draftId ? { draft_id: e.draftId } : {}),
+          attempts: e.attempts,
+          ...(e.lastError ? { last_error: e.lastError } : {}),
+          ...(e.attempts >= OUTBOX_MAX_ATTEMPTS ? { status: 'gave up' } : {}),
+        })),
+        { summary: `${entries.length} scheduled message(s)` },
+      )
+    })
+
+  // =========================================================================
+  // outbox cancel
+  // =========================================================================
+
+  cli
+    .command('outbox cancel <id>', 'Remove a scheduled message from the outbox without sending it')
+    .action(async (id) => {
+      const outboxId = Number(id)
+      if (!Number.isInteger(outboxId) || outboxId < 1) {
+        out.error('Outbox id must be a positive whole number (see zele outbox list)')
+        process.exit(1)
+      }
+
+      const removed = await removeOutbox(outboxId)
+      if (!removed) handleCommandError(new NotFoundError({ resource: `outbox message ${id}` }))
+
+      out.printYaml({ outbox_id: outboxId, cancelled: true })
+      out.success('Scheduled message cancelled')
+    })
+
+  // =========================================================================
+  // outbox flush
+  // =========================================================================
+
+  cli
+    .command('outbox flush', 'Send every scheduled message that is due now')
+    .action(async (options) => {
+      const results = await deliverDue(options.account)
+      out.printList(results, { summary: results.length === 0 ? 'Nothing due' : `${results.length} message(s) processed` })
+    })
+
+  // =========================================================================
+  // outbox run
+  // =========================================================================
+
+  cli
+    .command('outbox run', 'Keep sending scheduled messages as they come due')
+    .option('--interval [interval]', z.string().describe('Check interval in seconds (default: 60)'))
+    .action(async (options) => {
+      const interval = options.interval ? Number(options.interval) : 60
+      if (isNaN(interval) || interval < 1) {
+        out.error('--interval must be a positive number of seconds')
+        process.exit(1)
+      }
+
+      process.on('SIGINT', () => {
+        out.hint('Stopped outbox')
+        process.exit(0)
+      })
+
+      out.hint(`Sending scheduled messages, checking every ${interval}s (Ctrl+C to stop)`)
+
+      while (true) {
+        const results = await deliverDue(options.account)
+        for (const result of results) {
+          out.printList([result])
+        }
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000))
+      }
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+/** Accounts matching --account, or undefined for the whole outbox. */
+async function accountFilter(accounts?: string[]) {
+  if (!accounts || accounts.length === 0) return undefined
+  return (await listAccounts()).filter((a) => accounts.includes(a.email))
+}
+
+/** Send all due messages through their account's client. One result row per message. */
+async function deliverDue(accounts?: string[]): Promise<Record<string, unknown>[]> {
+  const due = await dueOutbox(await accountFilter(accounts))
+  if (due.length === 0) return []
+
+  const clients = await getClients([...new Set(due.map((e) => e.email))])
+  const results: Record<string, unknown>[] = []
+
+  for (const entry of due) {
+    // Another run or flush is already sending it
+    if (!(await claimOutbox(entry.id))) continue
+
+    const client = clients.find((c) => c.email === entry.email && c.appId === entry.appId)
+    if (!client) {
+      await recordOutboxFailure(entry.id, 'account is no longer logged in')
+      results.push({ outbox_id: entry.id, account: entry.email, status: 'failed', error: 'account is no longer logged in' })
+      continue
+    }
+
+    const sent = await deliver(client, entry)
+    if (sent instanceof Error) {
+      if (sent instanceof AuthError) out.error(`${sent.message}. Try: zele login`)
+      await recordOutboxFailure(entry.id, sent.message)
+      results.push({ outbox_id: entry.id, account: entry.email, subject: entry.subject, status: 'failed', error: sent.message })
+      continue
+    }
+
+    await removeOutbox(entry.id)
+    results.push({ outbox_id: entry.id, account: entry.email, subject: entry.subject, status: 'sent', message_id: sent.id ?? null })
+
+    if (entry.remindAfterMs) {
+      const followup = await trackFollowup(client, sent, {
+        subject: entry.subject,
+        recipients: entry.recipients,
+        remindAfterMs: entry.remindAfterMs,
+      })
+      if (followup instanceof Error) out.error(`Sent outbox message ${entry.id}, but couldn't track it for follow-up: ${followup.message}`)
+    }
+  }
+
+  return results
+}
+
+async function deliver({ client }: ClientEntry, entry: OutboxEntry) {
+  // Composed when it was queued: date it now, so it doesn't arrive looking old
+  const raw = withHeader(entry.raw, 'Date', new Date().toUTCString().replace('GMT', '+0000'))
+  const sent = await client
+    .sendRaw({ raw: Buffer.from(raw, 'latin1'), threadId: entry.threadId ?? undefined, recipients: entry.recipients })
+    .catch((e: unknown) => new ApiError({ reason: String(e), cause: e as Error }))
+  if (sent instanceof Error) return sent
+
+  // Scheduled drafts stay in Drafts until they go out
+  if (entry.draftId) {
+    const deleted = await Promise.resolve(client.deleteDraft({ draftId: entry.draftId }))
+      .catch((e: unknown) => new ApiError({ reason: String(e), cause: e as Error }))
+    if (deleted instanceof Error) out.hint(`Sent outbox message ${entry.id} but couldn't delete draft ${entry.draftId}: ${deleted.message}`)
+  }
+
+  return sent
+}
@@ -0,0 +1,118 @@
+// Meeting invite reply command: mail rsvp <threadId> --accept|--decline|--tentative.
+// Finds the latest invite (text/calendar METHOD:REQUEST) in the thread and
+// emails the organizer an iTIP REPLY (see itip.ts) as a text/calendar
+// alternative of a short note, threaded under the invite. Calendar apps
+// update the attendee's status from it, so this works for IMAP accounts
+// that have no calendar of their own.
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import { getClient, type ClientEntry } from '../auth.js'
+import { ApiError, NotFoundError, ValidationError } from '../api-utils.js'
+import type { ParsedMessage } from '../gmail-client.js'
+import { buildInviteReply, buildReplyMessage, parseInvite, rsvpSubject, type Invite, type RsvpResponse } from '../itip.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+export function registerRsvpCommands(cli: ZeleCli) {
+  cli
+    .command('mail rsvp <threadId>', 'Answer a meeting invite in a thread by emailing the organizer (iTIP REPLY)')
+    .option('--accept', 'Accept the invitation')
+    .option('--decline', 'Decline the invitation')
+    .option('--tentative', 'Accept tentatively')
+    .option('--comment <comment>', z.string().describe('Note for the organizer, sent in the reply'))
+    .option('--from <from>', z.string().describe('Reply as this attendee address (default: the account address listed in the invite)'))
+    .action(async (threadId, options) => {
+      const responses: RsvpResponse[] = [
+        ...(options.accept ? ['ACCEPTED' as const] : []),
+        ...(options.decline ? ['DECLINED' as const] : []),
+        ...(options.tentative ? ['TENTATIVE' as const] : []),
+      ]
+      if (responses.length !== 1) {
+        out.error('Pass exactly one of --accept, --decline or --tentative')
+        process.exit(1)
+      }
+      const response = responses[0]!
+
+      const entry = await getClient(options.account)
+      const { parsed: thread } = await entry.client.getThread({ threadId })
+
+      const found = await findInvite(entry, thread.messages)
+      if (found instanceof Error) handleCommandError(found)
+      const { message, invite } = found
+
+      if (!invite.organizer) {
+        handleCommandError(new ValidationError({ field: 'invite', reason: `"${invite.summary}" has no organizer to reply to` }))
+      }
+
+      const attendee = invite.attendees.find((a) => a.email.toLowerCase() === (options.from ?? entry.email).toLowerCase())
+      if (!attendee) {
+        out.hint(`${options.from ?? entry.email} isn't listed as an attendee of "${invite.summary}"; the organizer's calendar may ignore the reply`)
+      }
+      const email = attendee?.email ?? options.from ?? entry.email
+
+      const ics = buildInviteReply(invite, { attendee: { email, name: attendee?.name }, response, comment: options.comment })
+      const subject = rsvpSubject(response, invite.summary)
+      const verb = { ACCEPTED: 'accepted', DECLINED: 'declined', TENTATIVE: 'tentatively accepted' }[response]
+      const body = [`${attendee?.name ?? email} has ${verb} this invitation.`, options.comment ?? ''].filter(Boolean).join('\n\n')
+
+      const raw = await buildReplyMessage({
+        from: { name: attendee?.name, email },
+        to: invite.organizer,
+        subject,
+        text: body,
+        ics,
+        inReplyTo: message.messageId || undefined,
+        references: [message.references, message.messageId].filter(Boolean).join(' ') || undefined,
+      })
+      const result = await entry.client
+        .sendRaw({ raw, threadId, recipients: [invite.organizer.email] })
+        .catch((e: unknown) => new ApiError({ reason: String(e), cause: e as Error }))
+      if (result instanceof Error) handleCommandError(result)
+
+      out.printYaml({
+        thread_id: threadId,
+        event: invite.summary,
+        start: invite.start,
+        response: response.toLowerCase(),
+        organizer: invite.organizer.email,
+        as: email,
+      })
+      out.success(`${subject} (sent to ${out.formatSender(invite.organizer)})`)
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * The latest REQUEST in the thread: from an inline text/calendar part, or
+ * else from a calendar attachment (invite.ics), which is downloaded.
+ */
+async function findInvite(
+  { client }: ClientEntry,
+  messages: ParsedMessage[],
+): Promise<{ message: ParsedMessage; invite: Invite } | Error> {
+  let cancelled = false
+  for (const message of [...messages].reverse()) {
+    const sources = message.calendar ? [message.calendar] : []
+    for (const att of message.calendar ? [] : message.attachments) {
+      if (!/^(text\/calendar|application\/ics)/i.test(att.mimeType) && !/\.ics$/i.test(att.filename)) continue
+      const data = await client.getAttachment({ messageId: message.id, attachmentId: att.attachmentId })
+      if (data instanceof Error) return data
+      sources.push(Buffer.from(data, 'base64').toString('utf-8'))
+    }
+
+    for (const ics of sources) {
+      const invite = parseInvite(ics)
+      if (invite instanceof Error) continue
+      if (invite.method === 'REQUEST') {
+        if (cancelled) return new ValidationError({ field: 'invite', reason: `"${invite.summary}" was cancelled later in the thread` })
+        return { message, invite }
+      }
+      if (invite.method === 'CANCEL') cancelled = true
+    }
+  }
+  return new NotFoundError({ resource: 'meeting invite in thread' })
+}
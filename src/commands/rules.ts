@@ -0,0 +1,161 @@
+// Rules commands for IMAP accounts: rules list, rules run, rules log.
+// Rules are kept in ~/.zele/rules.yaml (see mail-rules.ts); `mail watch` runs
+// them on new mail as it arrives, `rules run` on mail already in a folder.
+// Google accounts filter server-side instead (zele mail filter).
+// Multi-account: runs over every IMAP account (or --account).
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import { getClients, imapAccounts, listAccounts, type ImapOnlyFeature } from '../auth.js'
+import { AuthError, NotFoundError } from '../api-utils.js'
+import type { ImapSmtpClient } from '../imap-smtp-client.js'
+import { ruleActionList, ruleQueryHints } from '../mail-rules.js'
+import { applyRules, listRuleRuns, loadRules, RULES_PATH, type RuleResult } from '../rules.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+/** How far back `rules run` looks without --backfill (IMAP SINCE has day granularity). */
+const RECENT_DAYS = 2
+
+/** Google accounts filter server-side instead. */
+const LOCAL_RULES: ImapOnlyFeature = { feature: 'Local rules', hint: 'Use Gmail filters instead: zele mail filter create' }
+
+export function registerRulesCommands(cli: ZeleCli) {
+  // =========================================================================
+  // rules list
+  // =========================================================================
+
+  cli
+    .command('rules list', `List mail rules for IMAP accounts (from ${RULES_PATH})`)
+    .action(async () => {
+      const rules = loadRules()
+      if (rules instanceof Error) handleCommandError(rules)
+
+      if (rules.length === 0) {
+        out.hint(`No rules yet. Add them to ${RULES_PATH}, e.g.:\n\n- name: receipts\n  query: from:billing@example.com has:attachment\n  actions:\n    mark_read: true\n    move: Receipts\n`)
+        return
+      }
+      out.printList(
+        rules.map((rule) => ({
+          name: rule.name,
+          query: rule.query,
+          actions: ruleActionList(rule.actions).join(', '),
+          ...(rule.accounts.length > 0 ? { accounts: rule.accounts.join(', ') } : {}),
+          ...(rule.stop ? { stop: true } : {}),
+        })),
+        { summary: `${rules.length} rule(s) in ${RULES_PATH}` },
+      )
+    })
+
+  // =========================================================================
+  // rules run
+  // =========================================================================
+
+  cli
+    .command('rules run', `Run mail rules on mail already in a folder (mail from the last ${RECENT_DAYS} days unless --backfill)`)
+    .option('--backfill', 'Run on every message in the folder')
+    .option('--folder [folder]', z.string().describe('Folder to run on (default: inbox)'))
+    .option('--rule [rule]', z.string().describe('Only run the rule with this name'))
+    .option('--dry-run', 'Show which rules match without acting')
+    .action(async (options) => {
+      const rules = selectRules(options.rule)
+      if (rules instanceof Error) handleCommandError(rules)
+      for (const hint of ruleQueryHints(rules)) out.hint(hint)
+
+      const clients = imapAccounts(await getClients(options.account), LOCAL_RULES)
+      if (clients instanceof Error) handleCommandError(clients)
+
+      const folder = options.folder ?? 'inbox'
+      const since = options.backfill ? undefined : new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000)
+      const counts = { checked: 0, applied: 0, matched: 0, failed: 0 }
+      let batches = 0
+
+      for (const entry of clients) {
+        const client = entry.client as ImapSmtpClient
+        for await (const batch of client.scanFolder({ folder, since })) {
+          if (batch instanceof Error) {
+            if (batch instanceof AuthError) handleCommandError(batch)
+            counts.failed++
+            out.error(`Failed to read ${folder} of ${entry.email}: ${batch.message}`)
+            break
+          }
+          for (const message of batch) {
+            counts.checked++
+            const results = await applyRules(entry, client, message, rules, { dryRun: options.dryRun })
+            for (const result of results) {
+              counts[result.status]++
+              out.printList([formatResult(result)])
+            }
+          }
+          if (++batches % 10 === 0) out.hint(`${counts.checked} messages checked...`)
+        }
+      }
+
+      const acted = options.dryRun ? `${counts.matched} would apply` : `${counts.applied} applied, ${counts.failed} failed`
+      out.hint(`${counts.checked} messages checked, ${acted}`)
+      if (counts.failed > 0) process.exit(1)
+    })
+
+  // =========================================================================
+  // rules log
+  // =========================================================================
+
+  cli
+    .command('rules log', 'Show which rule touched which message (audit trail)')
+    .option('--rule [rule]', z.string().describe('Only runs of the rule with this name'))
+    .option('--limit [limit]', z.string().describe('Number of entries (default: 50)'))
+    .action(async (options) => {
+      const limit = options.limit ? Number(options.limit) : 50
+      if (isNaN(limit) || limit < 1) {
+        out.error('--limit must be a positive number')
+        process.exit(1)
+      }
+
+      const accounts = options.account && options.account.length > 0
+        ? (await listAccounts()).filter((a) => options.account!.includes(a.email))
+        : undefined
+      const runs = await listRuleRuns({ accounts, rule: options.rule, limit })
+      out.printList(
+        runs.map((run) => ({
+          date: out.formatDate(run.createdAt.toISOString()),
+          account: run.email,
+          rule: run.rule,
+          message_id: run.folderId,
+          rfc822_id: run.messageId,
+          subject: run.subject,
+          actions: run.actions.join(', '),
+          status: run.status,
+          ...(run.error ? { error: run.error } : {}),
+        })),
+        { summary: runs.length === 0 ? 'No rule runs recorded' : `${runs.length} rule run(s)` },
+      )
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The rules to run: all of them, or the one named by --rule. */
+function selectRules(name?: string) {
+  const rules = loadRules()
+  if (rules instanceof Error) return rules
+  if (rules.length === 0) return new NotFoundError({ resource: `Rules file ${RULES_PATH}` })
+  if (!name) return rules
+  const rule = rules.find((r) => r.name === name)
+  if (!rule) return new NotFoundError({ resource: `Rule "${name}"` })
+  return [rule]
+}
+
+
+function formatResult(result: RuleResult): Record<string, unknown> {
+  return {
+    account: result.account,
+    rule: result.rule,
+    message_id: result.message_id,
+    subject: result.subject,
+    actions: result.actions.join(', '),
+    status: result.status,
+    ...(result.error ? { error: result.error } : {}),
+  }
+}
@@ -0,0 +1,187 @@
+// Sieve commands: sieve list, get, put, activate, check and generate.
+// Manage the server-side filter scripts of IMAP hosts over ManageSieve
+// (sieve-client.ts), using the account's stored IMAP credentials. Scripts run
+// on delivery, with no zele process watching. `--rules` compiles the local
+// rules of ~/.zele/rules.yaml to Sieve (sieve.ts) instead of reading a file.
+// Single account: --account picks it when several IMAP accounts exist.
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import fs from 'node:fs'
+import { getSieveClient } from '../auth.js'
+import { NotFoundError, ValidationError } from '../api-utils.js'
+import { loadRules, RULES_PATH } from '../rules.js'
+import { generateSieve } from '../sieve.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+const hostOption = z.string().describe('ManageSieve server (default: the IMAP host)')
+const portOption = z.string().describe('ManageSieve port (default: 4190)')
+
+export function registerSieveCommands(cli: ZeleCli) {
+  // =========================================================================
+  // sieve list
+  // =========================================================================
+
+  cli
+    .command('sieve list', 'List Sieve filter scripts on the IMAP server')
+    .option('--host [host]', hostOption)
+    .option('--port [port]', portOption)
+    .action(async (options) => {
+      const { client } = await sieveClient(options)
+      const scripts = await client.listScripts()
+      if (scripts instanceof Error) handleCommandError(scripts)
+
+      out.printList(
+        scripts.map((s) => ({ name: s.name, active: s.active })),
+        { summary: scripts.length === 0 ? `No scripts on ${client.server}` : `${scripts.length} script(s) on ${client.server}` },
+      )
+    })
+
+  // =========================================================================
+  // sieve get
+  // =========================================================================
+
+  cli
+    .command('sieve get <name>', 'Print a Sieve script from the server')
+    .option('--out [out]', z.string().describe('Write to this file instead of stdout'))
+    .option('--host [host]', hostOption)
+    .option('--port [port]', portOption)
+    .action(async (name, options) => {
+      const { client } = await sieveClient(options)
+      const script = await client.getScript(name)
+      if (script instanceof Error) handleCommandError(script)
+
+      if (options.out) {
+        fs.writeFileSync(options.out, script)
+        out.success(`Wrote ${name} to ${options.out}`)
+        return
+      }
+      process.stdout.write(script)
+    })
+
+  // =========================================================================
+  // sieve put
+  // =========================================================================
+
+  cli
+    .command('sieve put <name> [file]', 'Upload a Sieve script (file, - for stdin, or --rules)')
+    .option('--rules', `Generate the script from the local rules in ${RULES_PATH}`)
+    .option('--activate', 'Make it the active script')
+    .option('--host [host]', hostOption)
+    .option('--port [port]', portOption)
+    .action(async (name, file, options) => {
+      const { email, client } = await sieveClient(options)
+      const script = await readScript(file, options.rules, email)
+      if (script instanceof Error) handleCommandError(script)
+
+      const result = await client.putScript(name, script)
+      if (result instanceof Error) handleCommandError(result)
+      if (result.warnings) out.hint(`Server warnings: ${result.warnings}`)
+
+      if (options.activate) {
+        const activated = await client.setActive(name)
+        if (activated instanceof Error) handleCommandError(activated)
+      }
+      out.success(`Uploaded ${name} to ${client.server}${options.activate ? ' and made it active' : '. Activate it with: zele sieve activate ' + name}`)
+    })
+
+  // =========================================================================
+  // sieve activate
+  // =========================================================================
+
+  cli
+    .command('sieve activate [name]', 'Make a Sieve script the active one (only one runs at a time)')
+    .option('--none', 'Deactivate all scripts')
+    .option('--host [host]', hostOption)
+    .option('--port [port]', portOption)
+    .action(async (name, options) => {
+      if (!name && !options.none) {
+        out.error('Pass a script name, or --none to deactivate all scripts')
+        process.exit(1)
+      }
+
+      const { client } = await sieveClient(options)
+      const result = await client.setActive(options.none ? '' : name!)
+      if (result instanceof Error) handleCommandError(result)
+      out.success(options.none ? `No script is active on ${client.server}` : `${name} is now active on ${client.server}`)
+    })
+
+  // =========================================================================
+  // sieve check
+  // =========================================================================
+
+  cli
+    .command('sieve check [file]', 'Have the server validate a Sieve script without storing it')
+    .option('--rules', `Check the script generated from ${RULES_PATH}`)
+    .option('--host [host]', hostOption)
+    .option('--port [port]', portOption)
+    .action(async (file, options) => {
+      const { email, client } = await sieveClient(options)
+      const script = await readScript(file, options.rules, email)
+      if (script instanceof Error) handleCommandError(script)
+
+      const result = await client.checkScript(script)
+      if (result instanceof Error) handleCommandError(result)
+      if (result.warnings) out.hint(`Server warnings: ${result.warnings}`)
+      out.success(`Script is valid on ${client.server}`)
+    })
+
+  // =========================================================================
+  // sieve generate
+  // =========================================================================
+
+  cli
+    .command('sieve generate', `Print the Sieve script for the local rules in ${RULES_PATH}`)
+    .option('--out [out]', z.string().describe('Write to this file instead of stdout'))
+    .action(async (options) => {
+      const { email } = await getSieveClient(options.account)
+      const script = await readScript(undefined, true, email)
+      if (script instanceof Error) handleCommandError(script)
+
+      if (options.out) {
+        fs.writeFileSync(options.out, script)
+        out.success(`Wrote Sieve script for ${email} to ${options.out}`)
+        return
+      }
+      process.stdout.write(script)
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sieveClient(options: { account?: string[]; host?: string; port?: string }) {
+  const port = options.port ? Number(options.port) : undefined
+  if (port !== undefined && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+    handleCommandError(new ValidationError({ field: '--port', reason: `"${options.port}" is not a port number` }))
+  }
+  return getSieveClient(options.account, { host: options.host, port })
+}
+
+/**
+ * The script to upload or check: a file, stdin (-), or generated from the
+ * rules file with `rules`. Rules that can't run on the server are reported.
+ */
+async function readScript(file: string | undefined, rules: boolean | undefined, email: string): Promise<string | Error> {
+  if (rules) {
+    if (file) return new ValidationError({ field: 'file', reason: 'pass a file or --rules, not both' })
+    const loaded = loadRules()
+    if (loaded instanceof Error) return loaded
+    if (loaded.length === 0) return new NotFoundError({ resource: `Rules in ${RULES_PATH}` })
+
+    const { script, skipped } = generateSieve(loaded, { account: email, source: RULES_PATH })
+    for (const { rule, reason } of skipped) out.hint(`Rule "${rule}" left out: ${reason}`)
+    return script
+  }
+
+  if (!file) return new ValidationError({ field: 'file', reason: 'pass a script file, - for stdin, or --rules' })
+  if (file === '-') {
+    const chunks: Buffer[] = []
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+    return Buffer.concat(chunks).toString('utf-8')
+  }
+  if (!fs.existsSync(file)) return new NotFoundError({ resource: file })
+  return fs.readFileSync(file, 'utf-8')
+}
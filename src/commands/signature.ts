@@ -0,0 +1,205 @@
+// Signature commands: set, show, list, import, remove.
+// Signatures are stored per account, optionally per send-as alias, and are
+// appended by the clients to mail send/reply/forward and new drafts in both the
+// text and HTML parts (--no-signature skips it). A .md/.txt file is rendered to
+// HTML; an .html file is converted to text. import copies the signatures
+// configured in Gmail's send-as settings.
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import fs from 'node:fs'
+import * as clack from '@clack/prompts'
+import { getClient, getClients, type ClientEntry } from '../auth.js'
+import type { GmailClient } from '../gmail-client.js'
+import { NotFoundError, UnsupportedError, ValidationError } from '../api-utils.js'
+import { signatureFromSource } from '../mail-signature.js'
+import { listSignatures, removeSignature, setSignature, type SignatureEntry } from '../signatures.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+export function registerSignatureCommands(cli: ZeleCli) {
+  // =========================================================================
+  // signature set
+  // =========================================================================
+
+  cli
+    .command('signature set', 'Set the signature appended to mail sent from an account or alias')
+    .option('--alias <alias>', z.string().describe('Send-as address the signature is for (default: every address of the account)'))
+    .option('--file <file>', z.string().describe('Signature file: Markdown/text, or .html (use - for stdin)'))
+    .action(async (options) => {
+      const account = await getClient(options.account)
+      const alias = normalizeAlias(account, options.alias)
+      if (alias instanceof Error) handleCommandError(alias)
+
+      if (!options.file) {
+        // Offer the signature Gmail already has instead of failing outright
+        if (account.accountType === 'google' && process.stdin.isTTY) {
+          const confirmed = await clack.confirm({
+            message: 'No --file given. Import the signature from Gmail send-as settings?',
+            initialValue: true,
+          })
+          if (!clack.isCancel(confirmed) && confirmed) {
+            const imported = await importGmailSignatures(account, options.alias)
+            if (imported instanceof Error) handleCommandError(imported)
+            printImported(imported)
+            return
+          }
+        }
+        out.error('--file is required')
+        process.exit(1)
+      }
+
+      const source = options.file === '-' ? await readStdin() : fs.readFileSync(options.file, 'utf-8')
+      const kind = /\.html?$/i.test(options.file) || /^\s*</.test(source) ? 'html' : 'markdown'
+      const content = signatureFromSource(source, kind)
+      if (!content.text) handleCommandError(new ValidationError({ field: '--file', reason: 'the signature is empty' }))
+
+      const entry = await setSignature(account, alias, content)
+      out.printYaml(formatSignature(entry))
+      out.success('Signature saved')
+    })
+
+  // =========================================================================
+  // signature show
+  // =========================================================================
+
+  cli
+    .command('signature show', 'Show the signature of an account or alias')
+    .option('--alias <alias>', z.string().describe('Send-as address (default: the account signature)'))
+    .option('--html', 'Show the HTML version instead of the text version')
+    .action(async (options) => {
+      const account = await getClient(options.account)
+      const alias = normalizeAlias(account, options.alias)
+      if (alias instanceof Error) handleCommandError(alias)
+
+      const entry = (await listSignatures([account])).find((s) => s.alias === alias)
+      if (!entry) handleCommandError(new NotFoundError({ resource: `Signature for ${options.alias ?? account.email}` }))
+
+      out.printYaml({ ...formatSignature(entry), [options.html ? 'html' : 'text']: options.html ? entry.html : entry.text })
+    })
+
+  // =========================================================================
+  // signature list
+  // =========================================================================
+
+  cli
+    .command('signature list', 'List stored signatures')
+    .action(async (options) => {
+      const clients = await getClients(options.account)
+      const signatures = await listSignatures(clients)
+
+      out.printList(signatures.map(formatSignature), {
+        summary: signatures.length === 0 ? 'No signatures. Set one with: zele signature set --file sig.md' : undefined,
+      })
+
+      // Offer signatures configured in Gmail that were never imported
+      const google = clients.filter((c) => c.accountType === 'google' && !signatures.some((s) => s.email === c.email))
+      for (const entry of google) {
+        const aliases = await (entry.client as GmailClient).getEmailAliases()
+        if (aliases instanceof Error) continue
+        if (aliases.some((a) => a.signature)) {
+          out.hint(`${entry.email} has a signature in Gmail settings. Import it with: zele signature import --account ${entry.email}`)
+        }
+      }
+    })
+
+  // =========================================================================
+  // signature import
+  // =========================================================================
+
+  cli
+    .command('signature import', 'Import signatures from Gmail send-as settings (Google accounts)')
+    .option('--alias <alias>', z.string().describe('Only import the signature of this send-as address'))
+    .action(async (options) => {
+      const account = await getClient(options.account)
+      const imported = await importGmailSignatures(account, options.alias)
+      if (imported instanceof Error) handleCommandError(imported)
+      printImported(imported)
+    })
+
+  // =========================================================================
+  // signature remove
+  // =========================================================================
+
+  cli
+    .command('signature remove', 'Remove the signature of an account or alias')
+    .option('--alias <alias>', z.string().describe('Send-as address (default: the account signature)'))
+    .option('--force', 'Skip confirmation')
+    .action(async (options) => {
+      const account = await getClient(options.account)
+      const alias = normalizeAlias(account, options.alias)
+      if (alias instanceof Error) handleCommandError(alias)
+
+      if (!options.force && process.stdin.isTTY) {
+        const confirmed = await clack.confirm({
+          message: `Remove the signature for ${options.alias ?? account.email}?`,
+          initialValue: false,
+        })
+
+        if (clack.isCancel(confirmed) || !confirmed) {
+          out.hint('Cancelled')
+          return
+        }
+      }
+
+      const removed = await removeSignature(account, alias)
+      if (!removed) handleCommandError(new NotFoundError({ resource: `Signature for ${options.alias ?? account.email}` }))
+
+      out.printYaml({ account: account.email, alias: options.alias ?? null, removed: true })
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Stored alias key: "" for the account itself, otherwise the lowercased address. */
+function normalizeAlias(account: ClientEntry, alias: string | undefined): string | ValidationError {
+  if (!alias || alias.toLowerCase() === account.email.toLowerCase()) return ''
+  if (!/^[^\s@]+@[^\s@]+$/.test(alias)) return new ValidationError({ field: '--alias', reason: `"${alias}" is not an email address` })
+  return alias.toLowerCase()
+}
+
+function formatSignature(entry: SignatureEntry) {
+  return {
+    account: entry.email,
+    alias: entry.alias || null,
+    preview: entry.text.split('\n').slice(0, 2).join(' / '),
+    updated: out.formatDate(entry.updatedAt.toISOString()),
+  }
+}
+
+/** Copy the send-as signatures of a Google account into the local store. */
+async function importGmailSignatures(account: ClientEntry, onlyAlias?: string) {
+  if (account.accountType !== 'google') {
+    return new UnsupportedError({ feature: 'Signature import', accountType: 'IMAP/SMTP', hint: 'Use zele signature set --file sig.md instead.' })
+  }
+
+  const aliases = await (account.client as GmailClient).getEmailAliases()
+  if (aliases instanceof Error) return aliases
+
+  const wanted = aliases.filter((a) => !onlyAlias || a.email.toLowerCase() === onlyAlias.toLowerCase())
+  const withSignature = wanted.filter((a) => a.signature)
+  if (withSignature.length === 0) {
+    return new NotFoundError({ resource: `Signature in Gmail settings for ${onlyAlias ?? account.email}` })
+  }
+
+  const imported: SignatureEntry[] = []
+  for (const alias of withSignature) {
+    const key = alias.primary || alias.email.toLowerCase() === account.email.toLowerCase() ? '' : alias.email.toLowerCase()
+    imported.push(await setSignature(account, key, signatureFromSource(alias.signature!, 'html')))
+  }
+  return imported
+}
+
+function printImported(imported: SignatureEntry[]) {
+  out.printList(imported.map(formatSignature), { summary: `Imported ${imported.length} signature(s) from Gmail` })
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks).toString('utf-8')
+}
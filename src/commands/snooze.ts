@@ -0,0 +1,143 @@
+// Snooze commands: mail snooze, mail snoozed, mail unsnooze, snooze run.
+// mail snooze archives threads (Gmail) or moves them to a Snoozed folder (IMAP)
+// and records when they should come back. snooze run, or a running mail watch,
+// puts them back in the inbox marked unread once that time has passed.
+// Multi-account: mail snoozed and snooze run cover all accounts (or --account).
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import { getClient, getClients, listAccounts } from '../auth.js'
+import { NotFoundError } from '../api-utils.js'
+import { parseFutureTime } from '../calendar-time.js'
+import { listSnoozed, recordSnooze, wakeDueSnoozes, wakeSnooze } from '../snooze.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+export function registerSnoozeCommands(cli: ZeleCli) {
+  // =========================================================================
+  // mail snooze
+  // =========================================================================
+
+  cli
+    .command('mail snooze [...threadIds]', 'Hide threads from the inbox until a given time')
+    .option('--until <until>', z.string().describe('When the threads come back ("tomorrow 9am", "monday", "+3d")'))
+    .action(async (threadIds, options) => {
+      if (threadIds.length === 0) {
+        out.error('No thread IDs provided')
+        process.exit(1)
+      }
+      if (!options.until) {
+        out.error('--until is required')
+        process.exit(1)
+      }
+      const until = parseFutureTime(options.until, '--until')
+      if (until instanceof Error) handleCommandError(until)
+
+      const entry = await getClient(options.account)
+      const snoozed: Record<string, unknown>[] = []
+
+      for (const threadId of threadIds) {
+        // Subject is only for `mail snoozed`; a failed lookup shouldn't stop the snooze
+        const subject = await entry.client.getThread({ threadId })
+          .then(({ parsed }) => parsed.subject)
+          .catch(() => '')
+        const snoozedId = await entry.client.snooze({ threadId })
+        if (snoozedId instanceof Error) handleCommandError(snoozedId)
+
+        await recordSnooze(entry, { threadId, snoozedId, subject, until })
+        snoozed.push({ thread_id: threadId, subject, until: until.toISOString() })
+      }
+
+      out.printList(snoozed)
+      out.success(`Snoozed until ${until.toLocaleString()}. Keep \`zele snooze run\` or \`zele mail watch\` running to bring them back`)
+    })
+
+  // =========================================================================
+  // mail snoozed
+  // =========================================================================
+
+  cli
+    .command('mail snoozed', 'List snoozed threads and when they come back')
+    .action(async (options) => {
+      const accounts = options.account && options.account.length > 0
+        ? (await listAccounts()).filter((a) => options.account!.includes(a.email))
+        : undefined
+      const entries = await listSnoozed(accounts)
+
+      out.printList(
+        entries.map((e) => ({
+          account: e.email,
+          thread_id: e.threadId,
+          subject: e.subject,
+          until: e.until.toISOString(),
+        })),
+        { summary: entries.length === 0 ? 'Nothing snoozed' : `${entries.length} snoozed thread(s)` },
+      )
+    })
+
+  // =========================================================================
+  // mail unsnooze
+  // =========================================================================
+
+  cli
+    .command('mail unsnooze [...threadIds]', 'Bring snoozed threads back to the inbox now')
+    .action(async (threadIds, options) => {
+      if (threadIds.length === 0) {
+        out.error('No thread IDs provided')
+        process.exit(1)
+      }
+
+      const entry = await getClient(options.account)
+      const pending = await listSnoozed([entry])
+      const results: Record<string, unknown>[] = []
+
+      for (const threadId of threadIds) {
+        const snooze = pending.find((e) => e.threadId === threadId || e.snoozedId === threadId)
+        if (!snooze) handleCommandError(new NotFoundError({ resource: `snoozed thread ${threadId}` }))
+
+        const result = await wakeSnooze(entry.client, snooze)
+        if (result.error) out.error(`Failed to unsnooze ${threadId}: ${result.error}`)
+        results.push({ ...result })
+      }
+
+      out.printList(results)
+    })
+
+  // =========================================================================
+  // snooze run
+  // =========================================================================
+
+  cli
+    .command('snooze run', 'Keep bringing snoozed threads back as their time comes')
+    .option('--interval [interval]', z.string().describe('Check interval in seconds (default: 60)'))
+    .option('--once', z.boolean().describe('Check once and exit (no loop)'))
+    .action(async (options) => {
+      const interval = options.interval ? Number(options.interval) : 60
+      if (isNaN(interval) || interval < 1) {
+        out.error('--interval must be a positive number of seconds')
+        process.exit(1)
+      }
+
+      const clients = await getClients(options.account)
+
+      if (options.once) {
+        const results = await wakeDueSnoozes(clients)
+        out.printList(results.map((r) => ({ ...r })), { summary: results.length === 0 ? 'Nothing due' : undefined })
+        return
+      }
+
+      process.on('SIGINT', () => {
+        out.hint('Stopped snooze')
+        process.exit(0)
+      })
+
+      out.hint(`Waking snoozed threads, checking every ${interval}s (Ctrl+C to stop)`)
+
+      while (true) {
+        for (const result of await wakeDueSnoozes(clients)) {
+          out.printList([{ ...result }])
+        }
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000))
+      }
+    })
+}
@@ -0,0 +1,52 @@
+// Sync command: keep a full local mirror of each account in SQLite.
+// Thin CLI wrapper around GmailClient.syncMirror() (History API) and
+// ImapSmtpClient.syncMirror() (CONDSTORE/QRESYNC). Progress goes to stderr,
+// one YAML summary per account to stdout. Cursors live in SyncState, so an
+// interrupted sync resumes and later runs only fetch what changed.
+// Multi-account: accounts sync one after another so progress stays readable.
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import { getClients } from '../auth.js'
+import { AuthError } from '../api-utils.js'
+import type { SyncProgress } from '../mirror.js'
+import * as out from '../output.js'
+
+// ---------------------------------------------------------------------------
+// Register commands
+// ---------------------------------------------------------------------------
+
+export function registerSyncCommands(cli: ZeleCli) {
+  cli
+    .command('sync', 'Mirror mailboxes locally so list/read/counts work from SQLite')
+    .option('--full', z.boolean().describe('Discard sync cursors and refetch everything'))
+    .action(async (options) => {
+      const clients = await getClients(options.account)
+
+      for (const { email, client } of clients) {
+        const onProgress = (progress: SyncProgress) => {
+          out.hint(formatProgress(email, progress))
+        }
+        const result = await client.syncMirror({ full: options.full, onProgress })
+        if (result instanceof AuthError) { out.error(`${result.message}. Try: zele login`); continue }
+        if (result instanceof Error) { out.error(`Failed to sync ${email}: ${result.message}`); continue }
+
+        out.printYaml({
+          account: email,
+          mode: result.mode,
+          updated: result.updated,
+          removed: result.removed,
+        })
+      }
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function formatProgress(email: string, progress: SyncProgress): string {
+  const where = progress.folder ? `${email} ${progress.folder}` : email
+  const count = progress.total !== undefined ? `${progress.done}/${progress.total}` : String(progress.done)
+  return `${where}: ${progress.phase} sync ${count}`
+}
@@ -0,0 +1,211 @@
+// Template commands: list, show, create, edit, delete.
+// Reusable messages for mail send/reply and draft create (--template name
+// --var key=value). Subject and body take {{placeholders}}; see mail-template.ts.
+// Templates are stored in SQLite and shared by all accounts.
+
+import type { ZeleCli } from '../cli-types.js'
+import { z } from 'zod'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { spawnSync } from 'node:child_process'
+import * as clack from '@clack/prompts'
+import { ValidationError, NotFoundError } from '../api-utils.js'
+import { templateVariables } from '../mail-template.js'
+import { parseTemplateText } from '../mail-merge.js'
+import { deleteTemplate, getTemplate, listTemplates, saveTemplate, validateTemplateName } from '../templates.js'
+import * as out from '../output.js'
+import { handleCommandError } from '../output.js'
+
+export function registerTemplateCommands(cli: ZeleCli) {
+  // =========================================================================
+  // template list
+  // =========================================================================
+
+  cli
+    .command('template list', 'List saved templates')
+    .action(async () => {
+      const templates = await listTemplates()
+      out.printList(
+        templates.map((t) => ({
+          name: t.name,
+          subject: t.subject,
+          variables: templateVariables(`${t.subject}\n${t.body}`).join(', '),
+          ...(t.attachments.length > 0 ? { attachments: t.attachments.length } : {}),
+          updated: out.formatDate(t.updatedAt.toISOString()),
+        })),
+        { summary: templates.length === 0 ? 'No templates. Create one with: zele template create <name>' : undefined },
+      )
+    })
+
+  // =========================================================================
+  // template show
+  // =========================================================================
+
+  cli
+    .command('template show <name>', 'Show a template and the variables it uses')
+    .action(async (name) => {
+      const template = await getTemplate(name)
+      if (template instanceof Error) handleCommandError(template)
+
+      out.printYaml({
+        name: template.name,
+        subject: template.subject,
+        cc: template.cc.join(', ') || undefined,
+        bcc: template.bcc.join(', ') || undefined,
+        attachments: template.attachments.length > 0 ? template.attachments : undefined,
+        variables: templateVariables(`${template.subject}\n${template.body}`),
+        body: template.body,
+      })
+    })
+
+  // =========================================================================
+  // template create
+  // =========================================================================
+
+  cli
+    .command('template create <name>', 'Save a new template')
+    .option('--subject <subject>', z.string().describe('Subject (may use {{placeholders}}; replies keep "Re: ...")'))
+    .option('--body <body>', z.string().describe('Body text with {{placeholders}}'))
+    .option('--body-file <bodyFile>', z.string().describe('Read body from file (use - for stdin)'))
+    .option('--cc <cc>', z.string().describe('Default CC recipients (comma-separated)'))
+    .option('--bcc <bcc>', z.string().describe('Default BCC recipients (comma-separated)'))
+    .option('--attach <attach>', z.array(z.string()).describe('File to attach every time (repeatable)'))
+    .action(async (name, options) => {
+      const invalid = validateTemplateName(name)
+      if (invalid) handleCommandError(invalid)
+      if (!((await getTemplate(name)) instanceof Error)) {
+        handleCommandError(new ValidationError({ field: 'template name', reason: `"${name}" already exists (change it with zele template edit)` }))
+      }
+
+      const body = options.bodyFile ? await readBodyFile(options.bodyFile) : options.body
+      if (!body) {
+        out.error('--body or --body-file is required')
+        process.exit(1)
+      }
+      checkAttachments(options.attach)
+
+      const template = await saveTemplate({
+        name,
+        subject: options.subject ?? '',
+        body,
+        cc: splitEmails(options.cc),
+        bcc: splitEmails(options.bcc),
+        attachments: options.attach ?? [],
+      })
+
+      out.printYaml({ name: template.name, variables: templateVariables(`${template.subject}\n${template.body}`) })
+      out.success(`Template ${name} saved`)
+    })
+
+  // =========================================================================
+  // template edit
+  // =========================================================================
+
+  cli
+    .command('template edit <name>', 'Change a template (opens $EDITOR when no option is given)')
+    .option('--subject <subject>', z.string().describe('New subject'))
+    .option('--body <body>', z.string().describe('New body text'))
+    .option('--body-file <bodyFile>', z.string().describe('Read new body from file (use - for stdin)'))
+    .option('--cc <cc>', z.string().describe('New default CC recipients (comma-separated, empty to clear)'))
+    .option('--bcc <bcc>', z.string().describe('New default BCC recipients (comma-separated, empty to clear)'))
+    .option('--attach <attach>', z.array(z.string()).describe('Replace the attachments (repeatable)'))
+    .option('--clear-attachments', 'Remove all attachments')
+    .action(async (name, options) => {
+      const existing = await getTemplate(name)
+      if (existing instanceof Error) handleCommandError(existing)
+
+      let subject = options.subject ?? existing.subject
+      let body = options.bodyFile ? await readBodyFile(options.bodyFile) : options.body ?? existing.body
+
+      const changesGiven = [options.subject, options.body, options.bodyFile, options.cc, options.bcc, options.attach]
+        .some((v) => v !== undefined) || options.clearAttachments
+      if (!changesGiven) {
+        const edited = editInEditor(existing.subject, existing.body)
+        if (edited instanceof Error) handleCommandError(edited)
+        subject = edited.subject
+        body = edited.body
+      }
+      checkAttachments(options.attach)
+
+      const template = await saveTemplate({
+        name,
+        subject,
+        body,
+        cc: options.cc !== undefined ? splitEmails(options.cc) : existing.cc,
+        bcc: options.bcc !== undefined ? splitEmails(options.bcc) : existing.bcc,
+        attachments: options.clearAttachments ? [] : options.attach ?? existing.attachments,
+      })
+
+      out.printYaml({ name: template.name, variables: templateVariables(`${template.subject}\n${template.body}`) })
+      out.success(`Template ${name} updated`)
+    })
+
+  // =========================================================================
+  // template delete
+  // =========================================================================
+
+  cli
+    .command('template delete <name>', 'Delete a template')
+    .option('--force', 'Skip confirmation')
+    .action(async (name, options) => {
+      if (!options.force && process.stdin.isTTY) {
+        const confirmed = await clack.confirm({
+          message: `Delete template ${name}?`,
+          initialValue: false,
+        })
+
+        if (clack.isCancel(confirmed) || !confirmed) {
+          out.hint('Cancelled')
+          return
+        }
+      }
+
+      const deleted = await deleteTemplate(name)
+      if (!deleted) handleCommandError(new NotFoundError({ resource: `template ${name}` }))
+
+      out.printYaml({ name, deleted: true })
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function splitEmails(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((e) => e.trim()).filter(Boolean)
+}
+
+async function readBodyFile(bodyFile: string): Promise<string> {
+  if (bodyFile !== '-') return fs.readFileSync(bodyFile, 'utf-8')
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+function checkAttachments(files: string[] | undefined) {
+  for (const file of files ?? []) {
+    if (!fs.existsSync(path.resolve(file))) {
+      out.error(`Attachment not found: ${path.resolve(file)}`)
+      process.exit(1)
+    }
+  }
+}
+
+/** Edit subject and body in $VISUAL/$EDITOR as "Subject: ..." + blank line + body. */
+function editInEditor(subject: string, body: string): { subject: string; body: string } | ValidationError {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi'
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'zele-template-')), 'template.txt')
+  fs.writeFileSync(file, `Subject: ${subject}\n\n${body}`)
+  try {
+    const result = spawnSync(editor, [file], { stdio: 'inherit', shell: true })
+    if (result.status !== 0) return new ValidationError({ field: 'template', reason: `${editor} exited with status ${result.status}` })
+
+    const edited = parseTemplateText(fs.readFileSync(file, 'utf-8'))
+    return { subject: edited.subject ?? subject, body: edited.body }
+  } finally {
+    fs.rmSync(path.dirname(file), { recursive: true, force: true })
+  }
+}
@@ -1,12 +1,22 @@
-// Mail watch command: poll for new emails using Gmail History API.
-// Thin CLI wrapper around GmailClient.watchInbox() async generator.
+// Mail watch command: poll for mailbox changes using Gmail History API, or get
+// them pushed over IMAP IDLE. --events picks the event types (new mail by
+// default). Thin CLI wrapper around the watchInbox() async generators of
+// GmailClient and ImapSmtpClient. Snoozed threads that come due while
+// watching are put back in the inbox on the same interval, and new inbox
+// mail of IMAP accounts goes through the local rules (rules.ts) as the
+// watcher sees it.
 // Multi-account: watches all accounts concurrently and merges output.
 
 import type { ZeleCli } from '../cli-types.js'
 import { z } from 'zod'
-import { getClients } from '../auth.js'
-import type { WatchEvent } from '../gmail-client.js'
-import { AuthError } from '../api-utils.js'
+import { getClients, type ClientEntry } from '../auth.js'
+import { WATCH_EVENT_TYPES, type ParsedMessage, type WatchEvent, type WatchEventType } from '../gmail-client.js'
+import { AuthError, ValidationError } from '../api-utils.js'
+import { matchesQuery, parseQuery, unsupportedTerms } from '../gmail-query.js'
+import type { ImapSmtpClient } from '../imap-smtp-client.js'
+import { wakeDueSnoozes } from '../snooze.js'
+import { ruleQueryHints, type MailRule } from '../mail-rules.js'
+import { applyRules, loadRules } from '../rules.js'
 import * as out from '../output.js'
 
 // ---------------------------------------------------------------------------
@@ -15,11 +25,13 @@ import * as out from '../output.js'
 
 export function registerWatchCommands(cli: ZeleCli) {
   cli
-    .command('mail watch', 'Watch for new emails (poll via History API)')
-    .option('--interval [interval]', z.string().describe('Poll interval in seconds (default: 15)'))
+    .command('mail watch', 'Watch for new emails (History API polling, IMAP IDLE push)')
+    .option('--interval [interval]', z.string().describe('Poll interval in seconds (default: 15). IMAP servers with IDLE push new mail instead'))
     .option('--folder [folder]', z.string().describe('Folder to watch (default: inbox)'))
-    .option('--filter [filter]', z.string().describe('Filter messages client-side (from:, to:, cc:, subject:, is:unread, is:starred, has:attachment, -negate). See https://support.google.com/mail/answer/7190'))
+    .option('--filter [filter]', z.string().describe('Filter messages client-side with Gmail query syntax (from:, cc:, subject:, is:, has:, label:, larger:, newer_than:, OR, { }, -negate). See https://support.google.com/mail/answer/7190'))
     .option('--once', z.boolean().describe('Print changes once and exit (no loop)'))
+    .option('--events [events]', z.string().describe(`Comma-separated event types to emit (default: new_message). Any of: ${WATCH_EVENT_TYPES.join(', ')}`))
+    .option('--no-rules', "Don't run local rules (zele rules) on new mail of IMAP accounts")
     .action(async (options) => {
       const interval = options.interval ? Number(options.interval) : 15
       if (isNaN(interval) || interval < 1) {
@@ -27,36 +39,80 @@ export function registerWatchCommands(cli: ZeleCli) {
         process.exit(1)
       }
 
+      const events = parseEventTypes(options.events)
+      if (events instanceof Error) {
+        out.error(events.message)
+        process.exit(1)
+      }
+
+      if (options.filter) {
+        for (const term of unsupportedTerms(parseQuery(options.filter))) out.hint(`--filter: ${term}, skipping`)
+      }
+
       const folder = options.folder ?? 'inbox'
       const clients = await getClients(options.account)
 
+      const rules = options.noRules ? [] : loadRules()
+      if (rules instanceof Error) {
+        out.error(`${rules.message}. Fix the rules file or pass --no-rules`)
+        process.exit(1)
+      }
+      for (const hint of ruleQueryHints(rules)) out.hint(hint)
+      // Rules run on the inbox watcher's new mail, so only when watching the inbox
+      const runRules = rules.length > 0 && folder.toLowerCase() === 'inbox'
+      if (rules.length > 0 && !runRules) out.hint('Rules only run when watching the inbox, skipping')
+
       // Clean exit on SIGINT
       process.on('SIGINT', () => {
         out.hint('Stopped watching')
         process.exit(0)
       })
 
-      out.hint(`Polling every ${interval}s for ${folder} changes (Ctrl+C to stop)`)
+      out.hint(`Watching ${folder} for changes, polling every ${interval}s where push isn't available (Ctrl+C to stop)`)
 
-      // Watch all accounts concurrently, print events as they arrive
-      const generators = clients.map(({ client }) =>
-        client.watchInbox({
-          folder,
-          intervalMs: interval * 1000,
-          query: options.filter,
-          once: options.once,
-        }),
-      )
+      const wakeSnoozes = async () => {
+        const results = await wakeDueSnoozes(clients).catch((e: unknown) => {
+          out.error(`Failed to check snoozed threads: ${e instanceof Error ? e.message : String(e)}`)
+          return []
+        })
+        for (const result of results) {
+          if (result.error) out.error(`Failed to unsnooze ${result.thread_id}: ${result.error}`)
+          else out.hint(`Unsnoozed ${result.thread_id} (${result.account})`)
+        }
+      }
+      await wakeSnoozes()
+      const snoozeTimer = options.once ? null : setInterval(() => void wakeSnoozes(), interval * 1000)
+
+      // Events only carry the keys that apply to them; keep one CSV header for all
+      out.setCsvColumns(['account', 'type', 'from', 'subject', 'date', 'thread_id', 'message_id', 'added', 'removed', 'flags'])
 
-      // Consume all generators concurrently, surface errors to the user
+      // Watch all accounts concurrently, print events as they arrive.
+      // Rules see every new message, whatever --filter and --events say, so
+      // for accounts running them both are applied here instead of in the watcher.
+      const filter = options.filter ? parseQuery(options.filter) : null
       const settled = await Promise.allSettled(
-        generators.map(async (gen) => {
+        clients.map(async (entry) => {
+          const withRules = runRules && entry.accountType === 'imap_smtp'
+          const gen = entry.client.watchInbox({
+            folder,
+            intervalMs: interval * 1000,
+            query: withRules ? undefined : options.filter,
+            once: options.once,
+            events: withRules ? [...new Set<WatchEventType>([...events, 'new_message'])] : events,
+          })
           for await (const event of gen) {
+            if (withRules) {
+              if (event.type === 'new_message' && event.message) await runRulesOnMessage(entry, rules, event.message)
+              if (!events.includes(event.type)) continue
+              if (filter && (event.message === null || !matchesQuery(event.message, filter))) continue
+            }
             out.printList([formatWatchEvent(event)])
           }
         }),
       )
 
+      if (snoozeTimer) clearInterval(snoozeTimer)
+
       for (const result of settled) {
         if (result.status === 'rejected') {
           const err = result.reason
@@ -74,15 +130,40 @@ export function registerWatchCommands(cli: ZeleCli) {
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** Run the local rules on a message that arrived in the inbox of an IMAP account. */
+async function runRulesOnMessage(entry: ClientEntry, rules: MailRule[], message: ParsedMessage): Promise<void> {
+  for (const result of await applyRules(entry, entry.client as ImapSmtpClient, message, rules)) {
+    if (result.error) out.error(`Rule "${result.rule}" failed on ${result.message_id} (${entry.email}): ${result.error}`)
+    else out.hint(`Rule "${result.rule}": ${result.actions.join(', ')} on "${result.subject}" (${entry.email})`)
+  }
+}
+
+function parseEventTypes(value: string | undefined): WatchEventType[] | ValidationError {
+  if (!value) return ['new_message']
+  const types = value.split(',').map((t) => t.trim()).filter(Boolean)
+  const unknown = types.filter((t) => !(WATCH_EVENT_TYPES as readonly string[]).includes(t))
+  if (unknown.length > 0) {
+    return new ValidationError({ field: '--events', reason: `unknown type(s) ${unknown.join(', ')} (supported: ${WATCH_EVENT_TYPES.join(', ')})` })
+  }
+  return types as WatchEventType[]
+}
+
 function formatWatchEvent(event: WatchEvent): Record<string, unknown> {
+  const { message } = event
   return {
     account: event.account.email,
     type: event.type,
-    from: out.formatSender(event.message.from),
-    subject: event.message.subject,
-    date: out.formatDate(event.message.date),
+    ...(message
+      ? {
+          from: out.formatSender(message.from),
+          subject: message.subject,
+          date: out.formatDate(message.date),
+        }
+      : {}),
     thread_id: event.threadId,
-    message_id: event.message.id,
-    flags: out.formatFlags(event.message),
+    message_id: event.messageId,
+    ...(event.added?.length ? { added: event.added.join(', ') } : {}),
+    ...(event.removed?.length ? { removed: event.removed.join(', ') } : {}),
+    ...(message ? { flags: out.formatFlags(message) } : {}),
   }
 }
@@ -0,0 +1,247 @@
+// Local address book (`zele contacts`, names in --to/--cc/--bcc). Contacts are
+// collected from mail already on disk: cached and mirrored Gmail threads
+// (Thread.rawData headers; the SENT label marks our own mail) and the IMAP
+// mirror (MirrorMessage envelopes; mail from the account address is ours).
+// The Contact table is rebuilt from those caches when it is older than
+// CONTACTS_STALE_MS, or on demand with `zele contacts list --refresh`.
+// Cards from the account's CardDAV address book (ContactCard, mirrored by
+// carddav-client.ts on `zele contacts sync`) are merged in at read time: their
+// names win over header names, and saved addresses resolve without any mail.
+// Ranking and fuzzy matching live in address-book.ts.
+
+import type { gmail_v1 } from '@googleapis/gmail'
+import { getPrisma } from './db.js'
+import { ValidationError } from './api-utils.js'
+import type { AccountId } from './auth.js'
+import { parseAddressList, parseFrom, type Sender } from './email-utils.js'
+import { getSyncState, setSyncState } from './mirror.js'
+import { cardEntryFromRow, type CardEntry } from './carddav-client.js'
+import {
+  collectContacts,
+  mergeSavedContacts,
+  rankContacts,
+  resolveContact,
+  searchContacts,
+  type Contact,
+  type ContactSighting,
+} from './address-book.js'
+
+export interface ContactEntry extends Contact {
+  email: string
+  appId: string
+}
+
+/** Contacts older than this are rebuilt from the caches before use. */
+export const CONTACTS_STALE_MS = 60 * 60 * 1000
+
+const BUILT_AT_KEY = 'contacts_built_at'
+const PAGE_SIZE = 200
+
+// ---------------------------------------------------------------------------
+// Collection
+// ---------------------------------------------------------------------------
+
+function* gmailSightings(thread: gmail_v1.Schema$Thread, self: Set<string>): Generator<ContactSighting> {
+  for (const message of thread.messages ?? []) {
+    const headers = message.payload?.headers ?? []
+    const header = (name: string) => headers.filter((h) => h.name?.toLowerCase() === name).map((h) => h.value ?? '').join(', ')
+    const date = Number(message.internalDate) || Date.parse(header('date'))
+    const from = header('from') ? parseFrom(header('from')) : null
+    const recipients = ['to', 'cc', 'bcc'].flatMap((name) => (header(name) ? parseAddressList(header(name)) : []))
+
+    if (message.labelIds?.includes('SENT')) {
+      if (from) self.add(from.email.toLowerCase())
+      yield* recipients.map((r) => sighting(r, date, 'sent'))
+    } else {
+      if (from) yield sighting(from, date, 'received')
+      yield* recipients.map((r) => sighting(r, date, 'seen'))
+    }
+  }
+}
+
+function* imapSightings(envelope: ImapEnvelope, self: Set<string>): Generator<ContactSighting> {
+  const date = envelope.date ? Date.parse(envelope.date) : 0
+  const from = toSender(envelope.from?.[0])
+  const recipients = [...(envelope.to ?? []), ...(envelope.cc ?? []), ...(envelope.bcc ?? [])].map(toSender)
+
+  if (self.has(from.email.toLowerCase())) {
+    yield* recipients.map((r) => sighting(r, date, 'sent'))
+  } else {
+    yield sighting(from, date, 'received')
+    yield* recipients.map((r) => sighting(r, date, 'seen'))
+  }
+}
+
+interface ImapEnvelope {
+  date?: string
+  from?: Array<{ name?: string; address?: string }>
+  to?: Array<{ name?: string; address?: string }>
+  cc?: Array<{ name?: string; address?: string }>
+  bcc?: Array<{ name?: string; address?: string }>
+}
+
+function toSender(addr?: { name?: string; address?: string }): Sender {
+  return { name: addr?.name || undefined, email: addr?.address ?? '' }
+}
+
+function sighting(sender: Sender, date: number, role: ContactSighting['role']): ContactSighting {
+  return { address: sender.email, name: sender.name, date, role }
+}
+
+/** Rebuild an account's contacts from its cached threads and mirrored messages. */
+export async function rebuildContacts(account: AccountId): Promise<number> {
+  const prisma = await getPrisma()
+  const where = { email: account.email, appId: account.appId }
+  const self = new Set([account.email.toLowerCase()])
+  const sightings: ContactSighting[] = []
+
+  // Page through rawData so a large cache isn't loaded at once
+  for (let cursor: number | undefined; ;) {
+    const rows: Array<{ id: number; rawData: string }> = await prisma.thread.findMany({
+      where,
+      select: { id: true, rawData: true },
+      orderBy: { id: 'asc' },
+      take: PAGE_SIZE,
+      ...(cursor !== undefined ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+    for (const row of rows) {
+      sightings.push(...gmailSightings(JSON.parse(row.rawData) as gmail_v1.Schema$Thread, self))
+    }
+    if (rows.length < PAGE_SIZE) break
+    cursor = rows[rows.length - 1]!.id
+  }
+
+  for (let skip = 0; ; skip += PAGE_SIZE) {
+    const rows: Array<{ envelope: string }> = await prisma.mirrorMessage.findMany({
+      where,
+      select: { envelope: true },
+      orderBy: [{ folder: 'asc' }, { uid: 'asc' }],
+      skip,
+      take: PAGE_SIZE,
+    })
+    for (const row of rows) {
+      sightings.push(...imapSightings(JSON.parse(row.envelope) as ImapEnvelope, self))
+    }
+    if (rows.length < PAGE_SIZE) break
+  }
+
+  const contacts = collectContacts(sightings, self)
+  await prisma.$transaction([
+    prisma.contact.deleteMany({ where }),
+    prisma.contact.createMany({
+      data: contacts.map((c) => ({
+        ...where,
+        address: c.address,
+        name: c.name,
+        sentCount: c.sent,
+        receivedCount: c.received,
+        seenCount: c.seen,
+        lastSeen: c.lastSeen,
+      })),
+    }),
+  ])
+  await setSyncState(account, BUILT_AT_KEY, new Date().toISOString())
+  return contacts.length
+}
+
+// ---------------------------------------------------------------------------
+// Table access
+// ---------------------------------------------------------------------------
+
+/** Contacts of the given accounts, ranked. Stale address books are rebuilt first. */
+export async function listContacts(accounts: AccountId[], { refresh = false } = {}): Promise<ContactEntry[]> {
+  for (const account of accounts) {
+    const builtAt = await getSyncState(account, BUILT_AT_KEY)
+    if (refresh || !builtAt || Date.now() - new Date(builtAt).getTime() > CONTACTS_STALE_MS) {
+      await rebuildContacts(account)
+    }
+  }
+
+  const prisma = await getPrisma()
+  const rows = await prisma.contact.findMany({
+    where: { OR: accounts.map((a) => ({ email: a.email, appId: a.appId })) },
+  })
+  const cards = await listCards(accounts)
+
+  const contacts: ContactEntry[] = accounts.flatMap((account) => {
+    const own = (r: { email: string; appId: string }) => r.email === account.email && r.appId === account.appId
+    const fromMail: Contact[] = rows.filter(own).map((row) => ({
+      address: row.address,
+      name: row.name,
+      sent: row.sentCount,
+      received: row.receivedCount,
+      seen: row.seenCount,
+      lastSeen: new Date(row.lastSeen),
+    }))
+    const saved = cards.filter(own).flatMap((card) => card.emails.map((address) => ({ address, name: card.name })))
+    return mergeSavedContacts(fromMail, saved).map((c) => ({ ...c, email: account.email, appId: account.appId }))
+  })
+  return rankContacts(contacts) as ContactEntry[]
+}
+
+export async function findContacts(accounts: AccountId[], query: string): Promise<ContactEntry[]> {
+  return searchContacts(await listContacts(accounts), query) as ContactEntry[]
+}
+
+/** Cards in the mirrored CardDAV address books of the given accounts, by name. */
+export async function listCards(accounts: Array<Pick<AccountId, 'email' | 'appId'>>): Promise<CardEntry[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.contactCard.findMany({
+    where: { OR: accounts.map((a) => ({ email: a.email, appId: a.appId })) },
+  })
+  // A card we can't parse is left out rather than failing every lookup
+  return rows
+    .map(cardEntryFromRow)
+    .filter((card): card is CardEntry => !(card instanceof Error))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.url.localeCompare(b.url))
+}
+
+/** Address book names by lowercased address, for headers that carry only an address. */
+export async function savedContactNames(accounts: AccountId[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>()
+  for (const card of await listCards(accounts)) {
+    if (!card.name) continue
+    for (const address of card.emails) names.set(address.toLowerCase(), card.name)
+  }
+  return names
+}
+
+// ---------------------------------------------------------------------------
+// Recipient resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn a comma-separated --to/--cc/--bcc value into recipients. Entries with
+ * an @ are used as given; anything else is looked up by name in the account's
+ * contacts ("alice" → Alice Smith <alice@example.com>). A loose match
+ * (a substring or "jsmth"-style subsequence) is reported, not sent to.
+ */
+export async function resolveRecipients(
+  account: AccountId,
+  value: string,
+  field: string,
+): Promise<Array<{ name?: string; email: string }> | ValidationError> {
+  const entries = value.split(',').map((e) => e.trim()).filter(Boolean)
+  if (entries.every((e) => e.includes('@'))) return entries.map((email) => ({ email }))
+
+  const contacts = await listContacts([account])
+  const recipients: Array<{ name?: string; email: string }> = []
+  for (const entry of entries) {
+    if (entry.includes('@')) {
+      recipients.push({ email: entry })
+      continue
+    }
+    const result = resolveContact(contacts, entry)
+    if ('contact' in result) {
+      recipients.push({ name: result.contact.name || undefined, email: result.contact.address })
+      continue
+    }
+    if (result.candidates.length === 0) {
+      return new ValidationError({ field, reason: `no contact matches "${entry}" (see zele contacts search)` })
+    }
+    const options = result.candidates.map((c) => (c.name ? `${c.name} <${c.address}>` : c.address)).join(', ')
+    const matches = result.candidates.length === 1 ? 'only loosely matches' : 'matches several contacts:'
+    return new ValidationError({ field, reason: `"${entry}" ${matches} ${options}. Use the address` })
+  }
+  return recipients
+}
@@ -61,6 +61,11 @@ async function initializePrisma(): Promise<PrismaClient> {
   // Add new columns to existing Account tables (idempotent migration).
   // CREATE TABLE IF NOT EXISTS doesn't add columns to pre-existing tables.
   await migrateAccountColumns(prisma)
+  await migrateOutboxColumns(prisma)
+  await migrateThreadColumns(prisma)
+
+  // FTS5 index for `mail search --local` (virtual tables can't live in schema.prisma)
+  await ensureSearchIndex(prisma)
 
   // Secure database files (owner read/write only)
   secureDatabase()
@@ -121,6 +126,57 @@ async function migrateAccountColumns(prisma: PrismaClient): Promise<void> {
   `)
 }
 
+/** Idempotent migration: add remindAfterMs (`--remind-after` with `--at`) and claimedAt (one sender per message) to older OutboxMessage tables. */
+async function migrateOutboxColumns(prisma: PrismaClient): Promise<void> {
+  const cols = await prisma.$queryRawUnsafe<Array<{ name: string }>>(`PRAGMA table_info("OutboxMessage")`)
+  if (!cols.some((c) => c.name === 'remindAfterMs')) {
+    await prisma.$executeRawUnsafe(`ALTER TABLE "OutboxMessage" ADD COLUMN "remindAfterMs" INTEGER`)
+  }
+  if (!cols.some((c) => c.name === 'claimedAt')) {
+    await prisma.$executeRawUnsafe(`ALTER TABLE "OutboxMessage" ADD COLUMN "claimedAt" DATETIME`)
+  }
+}
+
+/**
+ * Idempotent migration: add sortDate (mirrored label views page in the query)
+ * to older Thread tables, filled in from the stored RFC 2822 dates.
+ */
+async function migrateThreadColumns(prisma: PrismaClient): Promise<void> {
+  const cols = await prisma.$queryRawUnsafe<Array<{ name: string }>>(`PRAGMA table_info("Thread")`)
+  if (cols.some((c) => c.name === 'sortDate')) return
+  await prisma.$executeRawUnsafe(`ALTER TABLE "Thread" ADD COLUMN "sortDate" DATETIME`)
+  const rows = await prisma.thread.findMany({ select: { id: true, date: true } })
+  for (const row of rows) {
+    await prisma.thread.update({ where: { id: row.id }, data: { sortDate: new Date(Date.parse(row.date) || 0) } })
+  }
+}
+
+/**
+ * Idempotent setup of the ThreadSearch FTS5 table used by search-index.ts.
+ * One row per conversation; only subject/sender/recipients/body are tokenized,
+ * the rest are stored alongside so results render without touching Thread.
+ */
+async function ensureSearchIndex(prisma: PrismaClient): Promise<void> {
+  await prisma.$executeRawUnsafe(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS "ThreadSearch" USING fts5(
+      "key" UNINDEXED,
+      "email" UNINDEXED,
+      "appId" UNINDEXED,
+      "threadId" UNINDEXED,
+      "date" UNINDEXED,
+      "fromEmail" UNINDEXED,
+      "fromName" UNINDEXED,
+      "msgCount" UNINDEXED,
+      "hasUnread" UNINDEXED,
+      "subject",
+      "sender",
+      "recipients",
+      "body",
+      tokenize = 'unicode61 remove_diacritics 2'
+    )
+  `)
+}
+
 /**
  * Set restrictive permissions on database files.
  * SQLite WAL mode creates additional -wal and -shm files that also need protection.
@@ -0,0 +1,67 @@
+// Tests for parsing local .eml files into the Gmail message shape.
+
+import { expect, test } from 'vitest'
+import { decodeHeader, headerParam, parseEml } from './eml.js'
+
+const data = (part: { body?: { data?: string | null } | null } | undefined) => Buffer.from(part?.body?.data ?? '', 'base64url').toString('utf-8')
+
+const raw = Buffer.from([
+  'From: =?UTF-8?Q?Ren=C3=A9e?= <renee@example.com>',
+  'To: team@example.com',
+  'Subject: =?ISO-8859-1?Q?R=E9sum=E9?= =?UTF-8?B?IOKAlCBkcmFmdA==?=',
+  'Date: Fri, 5 Jan 2024 09:05:00 +0000',
+  'Authentication-Results: mx.example.com; spf=pass smtp.mailfrom=example.com;',
+  ' dkim=pass header.d=example.com; dmarc=pass header.from=example.com',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  'preamble',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary=inner',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=iso-8859-1',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Caf=E9 at 9, see the =',
+  'attached notes',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  Buffer.from('<p>Café at 9</p>', 'utf-8').toString('latin1'),
+  '--inner--',
+  '--outer',
+  'Content-Type: application/pdf',
+  "Content-Disposition: attachment; filename*=UTF-8''notes%20%E2%80%94%20v2.pdf",
+  'Content-Transfer-Encoding: base64',
+  '',
+  'JVBERi0xLjQK',
+  '--outer--',
+  '',
+].join('\r\n'), 'latin1')
+
+test('parses a multipart .eml into the Gmail message shape', () => {
+  const { message, attachments } = parseEml(raw, 'notes.eml')
+  const header = (name: string) => message.payload?.headers?.find((h) => h.name === name)?.value
+  expect(message).toMatchObject({ id: 'notes.eml', threadId: 'notes.eml', labelIds: [] })
+  expect(header('From')).toBe('Renée <renee@example.com>')
+  expect(header('Subject')).toBe('Résumé — draft')
+  expect(header('Authentication-Results')).toBe('mx.example.com; spf=pass smtp.mailfrom=example.com; dkim=pass header.d=example.com; dmarc=pass header.from=example.com')
+
+  const [alternative, pdf] = message.payload?.parts ?? []
+  expect(alternative?.parts?.map((p) => [p.partId, p.mimeType])).toEqual([['1.1', 'text/plain'], ['1.2', 'text/html']])
+  expect(data(alternative?.parts?.[0])).toBe('Café at 9, see the attached notes')
+  expect(data(alternative?.parts?.[1])).toBe('<p>Café at 9</p>')
+  expect(pdf).toMatchObject({ partId: '2', filename: 'notes — v2.pdf', mimeType: 'application/pdf', body: { attachmentId: '2', size: 9 } })
+  expect(attachments.get('2')?.toString()).toBe('%PDF-1.4\n')
+})
+
+test('decodes headers and parameters', () => {
+  expect(decodeHeader('=?utf-8?b?8J+Ygg==?= ok')).toBe('😂 ok')
+  expect(decodeHeader(Buffer.from('Grüße', 'utf-8').toString('latin1'))).toBe('Grüße')
+  expect(headerParam('attachment; filename="a \\"b\\".txt"', 'filename')).toBe('a "b".txt')
+  expect(headerParam('text/plain; name=report.csv', 'filename')).toBeUndefined()
+
+  const single = parseEml(Buffer.from('Subject: hi\n\nplain body\n'), 'stdin').message.payload
+  expect(single).toMatchObject({ partId: '', mimeType: 'text/plain', headers: [{ name: 'Subject', value: 'hi' }] })
+  expect(data(single)).toBe('plain body\n')
+})
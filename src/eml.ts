@@ -0,0 +1,136 @@
+// Parsing local .eml files (raw RFC 822 messages) for `zele mail read <file>`.
+// The message is turned into the gmail_v1.Schema$Message shape the Gmail API
+// returns for format 'full', so parseGmailMessage() handles it exactly
+// like a fetched message: same body choice, attachment rules and
+// Authentication-Results parsing. Text parts are decoded (transfer encoding,
+// charset) to UTF-8; other parts become attachments identified by their MIME
+// part number ("2", "1.2"), with the decoded bytes returned alongside.
+// Messages are handled as latin1 strings so no byte is lost before decoding.
+
+import type { gmail_v1 } from '@googleapis/gmail'
+
+export interface EmlMessage {
+  message: gmail_v1.Schema$Message
+  /** Decoded attachment bytes by attachment ID (MIME part number) */
+  attachments: Map<string, Buffer>
+}
+
+/** Parse a raw message. `id` becomes the message and thread ID (the file path). */
+export function parseEml(raw: Buffer, id: string): EmlMessage {
+  const attachments = new Map<string, Buffer>()
+  const payload = parsePart(raw.toString('latin1'), '', attachments)
+  return {
+    message: { id, threadId: id, labelIds: [], snippet: '', sizeEstimate: raw.length, payload },
+    attachments,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Headers
+// ---------------------------------------------------------------------------
+
+/** Decode RFC 2047 encoded words; raw 8-bit header bytes are read as UTF-8 (RFC 6532). */
+export function decodeHeader(value: string): string {
+  const text = /[\x80-\xff]/.test(value) ? Buffer.from(value, 'latin1').toString('utf-8') : value
+  return text
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g, (_, charset: string, encoding: string, data: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(data, 'base64')
+        : Buffer.from(data.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1')
+      return decodeCharset(bytes, charset)
+    })
+}
+
+/** A parameter of a structured header (Content-Type, Content-Disposition), RFC 2231 aware. */
+export function headerParam(value: string, name: string): string | undefined {
+  const extended = new RegExp(`;\\s*${name}\\*=([^;]+)`, 'i').exec(value)?.[1]?.trim()
+  if (extended) {
+    // charset'language'percent-encoded
+    const parts = /^([^']*)'[^']*'(.*)$/.exec(extended)
+    const encoded = parts ? parts[2]! : extended
+    const bytes = Buffer.from(encoded.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1')
+    return decodeCharset(bytes, parts?.[1] || 'utf-8')
+  }
+  const plain = new RegExp(`;\\s*${name}=("(?:[^"\\\\]|\\\\.)*"|[^;\\s]+)`, 'i').exec(value)?.[1]
+  if (plain === undefined) return undefined
+  return decodeHeader(plain.startsWith('"') ? plain.slice(1, -1).replace(/\\(.)/g, '$1') : plain)
+}
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset.split('*')[0]!.trim().toLowerCase()).decode(bytes)
+  } catch {
+    return bytes.toString('utf-8')
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MIME parts
+// ---------------------------------------------------------------------------
+
+function splitHeaders(text: string): { headers: gmail_v1.Schema$MessagePartHeader[]; body: string } {
+  const match = /^\r?\n|\r?\n\r?\n/.exec(text)
+  const headerText = match ? text.slice(0, match.index) : text
+  const body = match ? text.slice(match.index + match[0].length) : ''
+  const headers = headerText
+    .replace(/\r?\n(?=[ \t])/g, '')
+    .split(/\r?\n/)
+    .map((line) => /^([^:\s]+):\s*(.*)$/.exec(line))
+    .filter((m) => m !== null)
+    .map((m) => ({ name: m[1]!, value: decodeHeader(m[2]!.trim()) }))
+  return { headers, body }
+}
+
+function parsePart(text: string, partId: string, attachments: Map<string, Buffer>): gmail_v1.Schema$MessagePart {
+  const { headers, body } = splitHeaders(text)
+  const header = (name: string) => headers.find((h) => h.name?.toLowerCase() === name)?.value ?? ''
+  const contentType = header('content-type') || 'text/plain'
+  const mimeType = contentType.split(';')[0]!.trim().toLowerCase()
+  const disposition = header('content-disposition')
+
+  const boundary = headerParam(contentType, 'boundary')
+  if (mimeType.startsWith('multipart/') && boundary) {
+    const parts = splitMultipart(body, boundary).map((part, i) =>
+      parsePart(part, partId ? `${partId}.${i + 1}` : String(i + 1), attachments),
+    )
+    return { partId, mimeType, filename: '', headers, body: { size: 0 }, parts }
+  }
+
+  const bytes = decodeTransferEncoding(body, header('content-transfer-encoding'))
+  const filename = headerParam(disposition, 'filename') ?? headerParam(contentType, 'name') ?? ''
+  const isAttachment = filename !== '' || /^\s*attachment/i.test(disposition) || !mimeType.startsWith('text/')
+  if (!isAttachment) {
+    const decoded = decodeCharset(bytes, headerParam(contentType, 'charset') ?? 'utf-8')
+    return { partId, mimeType, filename: '', headers, body: { size: bytes.length, data: Buffer.from(decoded, 'utf-8').toString('base64url') } }
+  }
+
+  const attachmentId = partId || '1'
+  attachments.set(attachmentId, bytes)
+  return { partId, mimeType, filename, headers, body: { size: bytes.length, attachmentId } }
+}
+
+/** Body parts between "--boundary" lines, up to the closing "--boundary--". */
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`
+  const chunks = `\r\n${body}`.split(new RegExp(`\\r?\\n${delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`))
+  const parts: string[] = []
+  for (const chunk of chunks.slice(1)) {
+    if (chunk.startsWith('--')) break
+    // Drop transport padding and the line break after the delimiter
+    parts.push(chunk.replace(/^[ \t]*\r?\n/, ''))
+  }
+  return parts
+}
+
+function decodeTransferEncoding(body: string, encoding: string): Buffer {
+  const enc = encoding.trim().toLowerCase()
+  if (enc === 'base64') return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64')
+  if (enc === 'quoted-printable') {
+    return Buffer.from(
+      body.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+      'latin1',
+    )
+  }
+  return Buffer.from(body, 'latin1')
+}
@@ -0,0 +1,31 @@
+// Tests for follow-up windows and reply detection.
+
+import { expect, test } from 'vitest'
+import { followupState, isReplyTo, parseRemindAfter } from './followups.js'
+
+test('parses --remind-after windows', () => {
+  expect(parseRemindAfter('3d')).toBe(3 * 24 * 60 * 60 * 1000)
+  expect(parseRemindAfter('+12h')).toBe(12 * 60 * 60 * 1000)
+  expect(parseRemindAfter(' 1w ')).toBe(7 * 24 * 60 * 60 * 1000)
+  expect(parseRemindAfter('soon')).toBeInstanceOf(Error)
+  expect(parseRemindAfter('0d')).toBeInstanceOf(Error)
+})
+
+test('detects replies and reports due, waiting and answered messages', () => {
+  const sent = '<abc@mail.example.com>'
+  const me = 'Me@Example.com'
+  const bob = { name: 'Bob', email: 'bob@example.com' }
+
+  expect(isReplyTo({ from: bob, inReplyTo: sent }, sent, me)).toBe(true)
+  expect(isReplyTo({ from: bob, references: `<root@x> ${sent}` }, sent, me)).toBe(true)
+  expect(isReplyTo({ from: bob, inReplyTo: '<other@x>', references: '<root@x>' }, sent, me)).toBe(false)
+  // My own follow-up in the thread is not an answer
+  expect(isReplyTo({ from: { name: '', email: 'me@example.com' }, inReplyTo: sent }, sent, me)).toBe(false)
+
+  const now = new Date('2024-03-10T12:00:00Z')
+  const past = { remindAt: new Date('2024-03-09T12:00:00Z') }
+  const future = { remindAt: new Date('2024-03-11T12:00:00Z') }
+  expect(followupState(past, [], now)).toBe('due')
+  expect(followupState(future, [], now)).toBe('waiting')
+  expect(followupState(future, [{ from: bob, date: '' }], now)).toBe('answered')
+})
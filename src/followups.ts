@@ -0,0 +1,185 @@
+// Follow-up reminders for sent mail (`--remind-after` on mail send/reply).
+// After sending, the message's Message-ID is stored in the Followup table with
+// a reminder time. `mail followups` asks the owning client for replies, i.e.
+// messages from someone else whose In-Reply-To/References name that Message-ID
+// (the Gmail thread, or INBOX/Archive/Snoozed on IMAP). Answered messages are
+// reported once and dropped; the rest are shown once their reminder time passes.
+
+import { getPrisma } from './db.js'
+import { parseDuration } from './calendar-time.js'
+import { ValidationError } from './api-utils.js'
+import type { AccountId, ClientEntry } from './auth.js'
+import type { GmailClient, Sender } from './gmail-client.js'
+
+export interface FollowupEntry {
+  id: number
+  email: string
+  appId: string
+  /** RFC 822 Message-ID of the sent message */
+  messageId: string
+  /** Gmail thread ID; null for IMAP accounts */
+  threadId: string | null
+  subject: string
+  recipients: string[]
+  sentAt: Date
+  remindAt: Date
+}
+
+export interface FollowupStatus {
+  entry: FollowupEntry
+  /** due: reminder time passed without a reply; waiting: still inside the window */
+  status: 'due' | 'waiting' | 'answered'
+  replies: Array<{ from: Sender; date: string }>
+}
+
+/** Parse a `--remind-after` window: "3d", "12h", "1w" (a leading + is optional). */
+export function parseRemindAfter(value: string): number | ValidationError {
+  const trimmed = value.trim()
+  const ms = parseDuration(trimmed.startsWith('+') ? trimmed : `+${trimmed}`)
+  if (ms === null || ms <= 0) {
+    return new ValidationError({ field: '--remind-after', reason: `"${value}" is not a duration like 3d, 12h or 1w` })
+  }
+  return ms
+}
+
+/**
+ * Whether `message` answers the sent message `messageId`: it comes from
+ * someone other than `me` and names it in In-Reply-To or References.
+ */
+export function isReplyTo(
+  message: { from: Sender; inReplyTo?: string; references?: string },
+  messageId: string,
+  me: string,
+): boolean {
+  if (message.from.email.toLowerCase() === me.toLowerCase()) return false
+  return message.inReplyTo === messageId || (message.references ?? '').split(/\s+/).includes(messageId)
+}
+
+/** Where a tracked message stands, given the replies found for it. */
+export function followupState(entry: Pick<FollowupEntry, 'remindAt'>, replies: unknown[], now: Date): FollowupStatus['status'] {
+  if (replies.length > 0) return 'answered'
+  return entry.remindAt.getTime() <= now.getTime() ? 'due' : 'waiting'
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Record a just-sent message for follow-up. `sent` is what sendMessage() or
+ * replyToThread() returned: Gmail gives its API message ID (the Message-ID
+ * header is read back), SMTP gives the Message-ID itself.
+ */
+export async function trackFollowup(
+  account: ClientEntry,
+  sent: { id?: string | null; threadId?: string | null },
+  message: { subject: string; recipients: string[]; remindAfterMs: number },
+): Promise<FollowupEntry | ValidationError | Error> {
+  if (!sent.id) return new ValidationError({ field: '--remind-after', reason: 'the server did not return the sent message ID' })
+
+  let messageId = sent.id
+  let threadId: string | null = null
+  if (account.accountType === 'google') {
+    const parsed = await (account.client as GmailClient).getMessage({ messageId: sent.id, format: 'metadata' })
+    if (parsed instanceof Error) return parsed
+    if (!('messageId' in parsed) || !parsed.messageId) {
+      return new ValidationError({ field: '--remind-after', reason: `message ${sent.id} has no Message-ID header` })
+    }
+    messageId = parsed.messageId
+    threadId = sent.threadId ?? null
+  }
+
+  const sentAt = new Date()
+  const prisma = await getPrisma()
+  const row = await prisma.followup.create({
+    data: {
+      email: account.email,
+      appId: account.appId,
+      messageId,
+      threadId,
+      subject: message.subject,
+      recipients: message.recipients.join(','),
+      sentAt,
+      remindAt: new Date(sentAt.getTime() + message.remindAfterMs),
+      createdAt: sentAt,
+    },
+  })
+  return toEntry(row)
+}
+
+// ---------------------------------------------------------------------------
+// Table access
+// ---------------------------------------------------------------------------
+
+function toEntry(row: {
+  id: number
+  email: string
+  appId: string
+  messageId: string
+  threadId: string | null
+  subject: string
+  recipients: string
+  sentAt: Date | string
+  remindAt: Date | string
+}): FollowupEntry {
+  return {
+    id: row.id,
+    email: row.email,
+    appId: row.appId,
+    messageId: row.messageId,
+    threadId: row.threadId ?? null,
+    subject: row.subject,
+    recipients: row.recipients ? row.recipients.split(',') : [],
+    sentAt: new Date(row.sentAt),
+    remindAt: new Date(row.remindAt),
+  }
+}
+
+/** Tracked messages of the given accounts (all accounts when omitted), oldest reminder first. */
+export async function listFollowups(accounts?: AccountId[]): Promise<FollowupEntry[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.followup.findMany({
+    where: accounts ? { OR: accounts.map((a) => ({ email: a.email, appId: a.appId })) } : undefined,
+    orderBy: { remindAt: 'asc' },
+  })
+  return rows.map(toEntry)
+}
+
+/** Stop tracking a message (answered or dismissed). Returns false if it wasn't tracked. */
+export async function removeFollowup(id: number): Promise<boolean> {
+  const prisma = await getPrisma()
+  const { count } = await prisma.followup.deleteMany({ where: { id } })
+  return count > 0
+}
+
+// ---------------------------------------------------------------------------
+// Reply detection
+// ---------------------------------------------------------------------------
+
+/**
+ * Check the tracked messages of these clients for replies. Answered messages
+ * are reported once and stop being tracked. Messages still inside their
+ * window are only checked with `includeWaiting`.
+ */
+export async function checkFollowups(
+  clients: ClientEntry[],
+  { includeWaiting = false, now = new Date() }: { includeWaiting?: boolean; now?: Date } = {},
+): Promise<Array<FollowupStatus | Error>> {
+  const entries = (await listFollowups(clients))
+    .filter((e) => includeWaiting || followupState(e, [], now) === 'due')
+
+  const results: Array<FollowupStatus | Error> = []
+  for (const entry of entries) {
+    const owner = clients.find((c) => c.email === entry.email && c.appId === entry.appId)
+    if (!owner) continue
+    const replies = await owner.client.findReplies({ messageId: entry.messageId, threadId: entry.threadId })
+    if (replies instanceof Error) {
+      results.push(replies)
+      continue
+    }
+    const status = followupState(entry, replies, now)
+    if (status === 'answered') await removeFollowup(entry.id)
+    results.push({ entry, status, replies })
+  }
+  return results
+}
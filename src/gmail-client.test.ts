@@ -3,7 +3,7 @@
 
 import { expect, test, describe } from 'vitest'
 import { OAuth2Client } from 'google-auth-library'
-import { GmailClient, parseAuthResults } from './gmail-client.js'
+import { GmailClient, historyToWatchChanges, parseAuthResults } from './gmail-client.js'
 
 // Create a real client instance for testing (no account context needed for parsing tests)
 const auth = new OAuth2Client()
@@ -215,3 +215,67 @@ describe('parseAuthResults', () => {
     expect(parsed.auth).toBeNull()
   })
 })
+
+describe('move', () => {
+  /** A client that records the label changes move() would send. */
+  function movingClient() {
+    const mover = new GmailClient({ auth })
+    const calls: Array<{ addLabelIds?: string[]; removeLabelIds?: string[] }> = []
+    Object.assign(mover as any, {
+      getMessageIdsForThreads: async () => ['m1', 'm2'],
+      batchModifyMessages: async (_ids: string[], mod: { addLabelIds?: string[]; removeLabelIds?: string[] }) => { calls.push(mod) },
+      invalidateAfterThreadMutation: async () => {},
+      lookupLabelId: async (name: string) => (name === 'Receipts' ? 'Label_7' : null),
+    })
+    return { mover, calls }
+  }
+
+  test('swaps INBOX, SPAM and TRASH for the target', async () => {
+    const { mover, calls } = movingClient()
+    for (const folder of ['inbox', 'Spam', 'TRASH', 'archive', 'Receipts']) {
+      expect(await mover.move({ threadIds: ['t1'], folder })).toBeUndefined()
+    }
+    expect(calls).toEqual([
+      { addLabelIds: ['INBOX'], removeLabelIds: ['SPAM', 'TRASH'] },
+      { addLabelIds: ['SPAM'], removeLabelIds: ['INBOX', 'TRASH'] },
+      { addLabelIds: ['TRASH'], removeLabelIds: ['INBOX', 'SPAM'] },
+      { addLabelIds: [], removeLabelIds: ['INBOX', 'SPAM', 'TRASH'] },
+      { addLabelIds: ['Label_7'], removeLabelIds: ['INBOX', 'SPAM', 'TRASH'] },
+    ])
+  })
+
+  test('errors on an unknown label without touching messages', async () => {
+    const { mover, calls } = movingClient()
+    expect(await mover.move({ threadIds: ['t1'], folder: 'Nope' })).toBeInstanceOf(Error)
+    expect(calls).toEqual([])
+  })
+})
+
+describe('historyToWatchChanges', () => {
+  const msg = (labelIds?: string[]) => ({ id: 'm1', threadId: 't1', ...(labelIds ? { labelIds } : {}) })
+  const ids = { messageId: 'm1', threadId: 't1' }
+
+  // [case, history, changes when watching INBOX]
+  const cases: Array<[string, object[], object[]]> = [
+    ['new inbox mail', [{ messagesAdded: [{ message: msg(['INBOX', 'UNREAD']) }] }], [{ type: 'new_message', ...ids }]],
+    ['mail added elsewhere', [{ messagesAdded: [{ message: msg(['SENT']) }] }], []],
+    ['the same message added twice', [{ messagesAdded: [{ message: msg(['INBOX']) }] }, { messagesAdded: [{ message: msg(['INBOX']) }] }], [{ type: 'new_message', ...ids }]],
+    ['deleted without labels', [{ messagesDeleted: [{ message: msg() }] }], [{ type: 'message_deleted', ...ids }]],
+    ['deleted from another folder', [{ messagesDeleted: [{ message: msg(['SENT']) }] }], []],
+    [
+      'starred and labelled',
+      [{ labelsAdded: [{ message: msg(['INBOX', 'STARRED', 'Label_1']), labelIds: ['STARRED', 'Label_1'] }] }],
+      [{ type: 'flag_changed', ...ids, added: ['STARRED'] }, { type: 'labels_added', ...ids, added: ['Label_1'] }],
+    ],
+    ['marked read', [{ labelsRemoved: [{ message: msg(['INBOX']), labelIds: ['UNREAD'] }] }], [{ type: 'marked_read', ...ids, removed: ['UNREAD'] }]],
+    ['unstarred', [{ labelsRemoved: [{ message: msg(['INBOX']), labelIds: ['STARRED'] }] }], [{ type: 'flag_changed', ...ids, removed: ['STARRED'] }]],
+    ['archived (left the inbox)', [{ labelsRemoved: [{ message: msg(['Label_1']), labelIds: ['INBOX'] }] }], [{ type: 'labels_removed', ...ids, removed: ['INBOX'] }]],
+    ['labelled outside the inbox', [{ labelsAdded: [{ message: msg(['Label_1']), labelIds: ['Label_1'] }] }], []],
+  ]
+
+  for (const [name, history, changes] of cases) {
+    test(name, () => {
+      expect(historyToWatchChanges(history, 'INBOX')).toEqual(changes)
+    })
+  }
+})
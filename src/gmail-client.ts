@@ -7,16 +7,34 @@
 // Raw Google API responses are stored in the cache (gmail_v1.Schema$*) so the cache
 // is resilient to changes in our own parsed types. Parsing happens at read time.
 // When account is not provided (bootstrap/login flow), cache is skipped entirely.
+// After `zele sync` (syncMirror) the Thread table is a full mirror: cached threads
+// no longer expire, inbox/sent/... listings and label counts read from it.
 
+import { Readable } from 'node:stream'
 import { gmail as gmailApi, type gmail_v1 } from '@googleapis/gmail'
 import type { OAuth2Client } from 'google-auth-library'
 import { createMimeMessage } from 'mimetext'
 import { parseFrom, parseAddressList } from './email-utils.js'
 import * as errore from 'errore'
-import { withRetry, mapConcurrent, AuthError, isAuthLikeError, ApiError, NotFoundError, EmptyThreadError, MissingDataError } from './api-utils.js'
+import { withRetry, mapConcurrent, isTruthy, AuthError, isAuthLikeError, ApiError, NotFoundError, EmptyThreadError, MissingDataError } from './api-utils.js'
 import { renderEmailBody } from './output.js'
 import { getPrisma } from './db.js'
+import { indexThread, unindexedCachedThreads } from './search-index.js'
+import { parseQuery, matchesQuery, type QueryNode } from './gmail-query.js'
+import { enqueueOutbox, type OutboxMessageInput, type ScheduledMessage } from './outbox.js'
+import { signMessage } from './signatures.js'
+import { isReplyTo } from './followups.js'
+import {
+  MIRROR_KEYS,
+  getSyncState,
+  setSyncState,
+  deleteSyncState,
+  getMirrorSyncedAt,
+  type SyncProgress,
+  type SyncResult,
+} from './mirror.js'
 import type { AccountId } from './auth.js'
+import type { ImportMessage, ImportResult } from './mail-import.js'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -63,6 +81,10 @@ export interface ParsedMessage {
   mimeType: string // 'text/plain' or 'text/html'
   textBody: string | null // decoded text/plain body when available (for reply parsing)
   attachments: AttachmentMeta[]
+  /** iCalendar text of an inline text/calendar part (meeting invite, iTIP), if any */
+  calendar?: string
+  /** Size of the whole message in bytes, when the server reports it (larger:/smaller: filters). */
+  sizeEstimate?: number
   /** SPF/DKIM/DMARC authentication results from Gmail. null for sent/draft messages. */
   auth: AuthResult | null
 }
@@ -124,11 +146,36 @@ export interface ThreadResult {
 // Watch event type
 // ---------------------------------------------------------------------------
 
+export const WATCH_EVENT_TYPES = [
+  'new_message',
+  'message_deleted',
+  'labels_added',
+  'labels_removed',
+  'marked_read',
+  'flag_changed',
+] as const
+
+/**
+ * new_message: arrived in the watched folder. message_deleted: permanently
+ * deleted (IMAP: expunged, which includes moves out of the folder).
+ * labels_added / labels_removed: Gmail labels other than STARRED/UNREAD
+ * (archiving is INBOX removed). marked_read: UNREAD removed / \Seen added.
+ * flag_changed: starred or unread state changed (Gmail STARRED/UNREAD labels,
+ * IMAP flags other than \Seen being set).
+ */
+export type WatchEventType = (typeof WATCH_EVENT_TYPES)[number]
+
 export interface WatchEvent {
   account: AccountId
-  type: 'new_message'
-  message: ParsedMessage
+  type: WatchEventType
+  messageId: string
   threadId: string
+  /** The message as it is now. null for message_deleted. */
+  message: ParsedMessage | null
+  /** Labels (Gmail) or flags (IMAP) added by this change. */
+  added?: string[]
+  /** Labels (Gmail) or flags (IMAP) removed by this change. */
+  removed?: string[]
 }
 
 // ---------------------------------------------------------------------------
@@ -152,6 +199,17 @@ const SYSTEM_LABEL_IDS = new Set([
   'MUTED',
 ])
 
+/** Labels for `mail import --folder` names; other names are user labels. */
+const IMPORT_FOLDER_LABELS: Record<string, string[]> = {
+  inbox: ['INBOX'],
+  sent: ['SENT'],
+  spam: ['SPAM'],
+  trash: ['TRASH'],
+  bin: ['TRASH'],
+  archive: [],
+  all: [],
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -224,6 +282,18 @@ function isExpired(createdAt: Date, ttlMs: number): boolean {
   return createdAt.getTime() + ttlMs < Date.now()
 }
 
+/** Prisma filter for threads carrying `labelId` in their comma-separated labelIds ("Label_1" doesn't match "Label_12"). */
+function hasLabel(labelId: string) {
+  return {
+    OR: [
+      { labelIds: labelId },
+      { labelIds: { startsWith: `${labelId},` } },
+      { labelIds: { endsWith: `,${labelId}` } },
+      { labelIds: { contains: `,${labelId},` } },
+    ],
+  }
+}
+
 /** Boundary helper: wrap a googleapis SDK call, converting auth-like errors to AuthError values.
  *  Non-auth errors are wrapped in ApiError so they remain error values (no throwing).
  *  Original error is preserved as `cause` for debugging. */
@@ -258,6 +328,7 @@ export class GmailClient {
   private gmail: gmail_v1.Gmail
   private labelIdCache: Record<string, string> = {}
   private account: AccountId | null
+  private mirrorSyncedAt: Date | null | undefined
 
   constructor({ auth, account }: { auth: OAuth2Client; account?: AccountId }) {
     this.gmail = gmailApi({ version: 'v1', auth })
@@ -278,7 +349,9 @@ export class GmailClient {
     const row = await prisma.thread.findUnique({
       where: { email_appId_threadId: { email: this.account!.email, appId: this.account!.appId, threadId } },
     })
-    if (!row || isExpired(row.createdAt, row.ttlMs)) return undefined
+    if (!row) return undefined
+    // Mirrored threads are kept current by syncMirror(), so the TTL doesn't apply
+    if (isExpired(row.createdAt, row.ttlMs) && !(await this.getMirrorSyncedAt())) return undefined
     return JSON.parse(row.rawData) as gmail_v1.Schema$Thread
   }
 
@@ -291,7 +364,7 @@ export class GmailClient {
         email: this.account!.email, appId: this.account!.appId, threadId,
         subject: parsed.subject, snippet: parsed.snippet,
         fromEmail: parsed.from.email, fromName: parsed.from.name ?? '',
-        date: parsed.date, labelIds: parsed.labelIds.join(','),
+        date: parsed.date, sortDate: new Date(Date.parse(parsed.date) || 0), labelIds: parsed.labelIds.join(','),
         hasUnread: parsed.hasUnread, msgCount: parsed.messageCount,
         historyId: parsed.historyId,
         rawData: JSON.stringify(raw), ttlMs: TTL.THREAD, createdAt: new Date(),
@@ -299,24 +372,50 @@ export class GmailClient {
       update: {
         subject: parsed.subject, snippet: parsed.snippet,
         fromEmail: parsed.from.email, fromName: parsed.from.name ?? '',
-        date: parsed.date, labelIds: parsed.labelIds.join(','),
+        date: parsed.date, sortDate: new Date(Date.parse(parsed.date) || 0), labelIds: parsed.labelIds.join(','),
         hasUnread: parsed.hasUnread, msgCount: parsed.messageCount,
         historyId: parsed.historyId,
         rawData: JSON.stringify(raw), ttlMs: TTL.THREAD, createdAt: new Date(),
       },
     })
+    await indexThread(this.account!, parsed)
+  }
+
+  /** Add cached threads that predate the search index to it. Offline: parses
+   *  the stored raw responses only. Returns how many threads were indexed. */
+  async indexCachedThreads(): Promise<number> {
+    if (!this.cacheEnabled) return 0
+    const rows = await unindexedCachedThreads(this.account!)
+    for (const rawData of rows) {
+      await indexThread(this.account!, this.parseThread(JSON.parse(rawData) as gmail_v1.Schema$Thread))
+    }
+    return rows.length
   }
 
   async invalidateThreads(threadIds: string[]): Promise<void> {
     if (!this.cacheEnabled) return
     const prisma = await getPrisma()
     await prisma.thread.deleteMany({ where: { email: this.account!.email, appId: this.account!.appId, threadId: { in: threadIds } } })
+    // Mirrored listings read the Thread table — refetch so mutated threads stay listed
+    if (await this.getMirrorSyncedAt()) {
+      await mapConcurrent(threadIds, async (id) => {
+        await this.mirrorThread(id)
+        return null
+      })
+    }
   }
 
   async invalidateThread(threadId: string): Promise<void> {
-    if (!this.cacheEnabled) return
-    const prisma = await getPrisma()
-    await prisma.thread.deleteMany({ where: { email: this.account!.email, appId: this.account!.appId, threadId } })
+    await this.invalidateThreads([threadId])
+  }
+
+  /** When this account's mirror last completed `zele sync`, or null if it has none. */
+  async getMirrorSyncedAt(): Promise<Date | null> {
+    if (!this.cacheEnabled) return null
+    if (this.mirrorSyncedAt === undefined) {
+      this.mirrorSyncedAt = (await getMirrorSyncedAt(this.account!)) ?? null
+    }
+    return this.mirrorSyncedAt
   }
 
   private async getCachedLabels(): Promise<gmail_v1.Schema$Label[] | undefined> {
@@ -378,6 +477,12 @@ export class GmailClient {
     labelIds?: string[]
     pageToken?: string
   } = {}): Promise<ThreadListResult | AuthError | ApiError> {
+    // Plain folder listings of a synced account come from the mirror
+    const mirrorLabelId = !query && !labelIds?.length ? WATCH_FOLDER_LABELS[(folder ?? 'inbox').toLowerCase()] : undefined
+    if (mirrorLabelId && (await this.getMirrorSyncedAt())) {
+      return this.listThreadsFromMirror({ labelId: mirrorLabelId, maxResults, pageToken })
+    }
+
     const { q, resolvedLabelIds } = this.buildSearchParams(folder, query, labelIds)
 
     const res = await gmailBoundary(this.account?.email ?? 'unknown', () =>
@@ -442,6 +547,46 @@ export class GmailClient {
     return result
   }
 
+  /** listThreads for a mirrored account: reads the Thread table. pageToken is an offset. */
+  private async listThreadsFromMirror({
+    labelId,
+    maxResults,
+    pageToken,
+  }: {
+    labelId: string
+    maxResults: number
+    pageToken?: string
+  }): Promise<ThreadListResult> {
+    const prisma = await getPrisma()
+    // Like Gmail's own folder views, trash and spam only show up in their folders
+    const hidden = labelId === 'TRASH' || labelId === 'SPAM' ? [] : ['TRASH', 'SPAM']
+    const where = {
+      email: this.account!.email,
+      appId: this.account!.appId,
+      AND: [hasLabel(labelId), ...hidden.map((h) => ({ NOT: hasLabel(h) }))],
+    }
+
+    const startIndex = pageToken ? Number(pageToken) : 0
+    const [total, rows]: [number, Array<{ rawData: string }>] = await Promise.all([
+      prisma.thread.count({ where }),
+      prisma.thread.findMany({
+        where,
+        orderBy: [{ sortDate: 'desc' }, { id: 'desc' }],
+        skip: startIndex,
+        take: maxResults,
+        select: { rawData: true },
+      }),
+    ])
+    const rawThreads = rows.map((r) => JSON.parse(r.rawData) as gmail_v1.Schema$Thread)
+
+    return {
+      threads: rawThreads.map((t) => this.parseThreadListItem(t)),
+      rawThreads,
+      nextPageToken: startIndex + maxResults < total ? String(startIndex + maxResults) : null,
+      resultSizeEstimate: total,
+    }
+  }
+
   async getThread({ threadId }: { threadId: string }): Promise<ThreadResult> {
     // Check cache
     const cached = await this.getCachedThread(threadId)
@@ -495,6 +640,13 @@ export class GmailClient {
   }
 
   async getRawMessage({ messageId }: { messageId: string }): Promise<string | MissingDataError | AuthError | ApiError> {
+    const raw = await this.getRawMessageBytes({ messageId })
+    if (raw instanceof Error) return raw
+    return raw.toString('utf-8')
+  }
+
+  /** The message source exactly as stored, for byte-exact copies (`mail export`, rule forwards). */
+  async getRawMessageBytes({ messageId }: { messageId: string }): Promise<Buffer | MissingDataError | AuthError | ApiError> {
     const res = await gmailBoundary(this.account?.email ?? 'unknown', () =>
       withRetry(() =>
         this.gmail.users.messages.get({
@@ -507,7 +659,7 @@ export class GmailClient {
     if (res instanceof Error) return res
 
     if (!res.data.raw) return new MissingDataError({ what: 'raw email data', resource: `message ${messageId}` })
-    return decodeBase64Url(res.data.raw)
+    return Buffer.from(res.data.raw, 'base64url')
   }
 
   // =========================================================================
@@ -518,6 +670,7 @@ export class GmailClient {
     to,
     subject,
     body,
+    html,
     cc,
     bcc,
     threadId,
@@ -525,10 +678,14 @@ export class GmailClient {
     references,
     attachments,
     fromEmail,
+    sendAt,
+    signature = true,
   }: {
     to: Array<{ name?: string; email: string }>
     subject: string
     body: string
+    /** HTML alternative of `body` (e.g. rendered --markdown); sent as multipart/alternative */
+    html?: string
     cc?: Array<{ name?: string; email: string }>
     bcc?: Array<{ name?: string; email: string }>
     threadId?: string
@@ -536,11 +693,18 @@ export class GmailClient {
     references?: string
     attachments?: Array<{ filename: string; mimeType: string; content: Buffer }>
     fromEmail?: string
+    /** Queue in the local outbox instead of sending now (`--at`) */
+    sendAt?: Date
+    /** Append the stored signature (zele signature); false for --no-signature */
+    signature?: boolean
   }) {
+    if (signature) ({ body, html } = await signMessage(this.account, { body, html, fromEmail }))
+
     const raw = this.buildMimeMessage({
       to,
       subject,
       body,
+      html,
       cc,
       bcc,
       inReplyTo,
@@ -549,6 +713,16 @@ export class GmailClient {
       fromEmail,
     })
 
+    if (sendAt) {
+      return this.schedule({
+        raw: Buffer.from(raw, 'base64url').toString('latin1'),
+        sendAt,
+        subject,
+        recipients: [...to, ...(cc ?? []), ...(bcc ?? [])].map((r) => r.email),
+        threadId,
+      })
+    }
+
     const res = await withRetry(() =>
       this.gmail.users.messages.send({
         userId: 'me',
@@ -562,6 +736,137 @@ export class GmailClient {
     return res.data
   }
 
+  /** Send an already composed RFC 822 message (outbox delivery, mail rsvp). Gmail takes the
+   *  recipients from the headers and drops Bcc itself. */
+  async sendRaw({ raw, threadId }: { raw: Buffer; threadId?: string; recipients: string[] }) {
+    const res = await withRetry(() =>
+      this.gmail.users.messages.send({
+        userId: 'me',
+        requestBody: {
+          raw: encodeBase64Url(raw),
+          threadId,
+        },
+      }),
+    )
+
+    return res.data
+  }
+
+  private async schedule(message: OutboxMessageInput): Promise<ScheduledMessage | MissingDataError> {
+    if (!this.account) return new MissingDataError({ what: 'account', resource: 'scheduled send' })
+    return enqueueOutbox(this.account, message)
+  }
+
+  /**
+   * Replies to a sent message: messages in its thread from someone else whose
+   * In-Reply-To or References name `messageId`. Reads headers fresh from the
+   * API rather than the thread cache. Used by `mail followups`.
+   */
+  async findReplies({ messageId, threadId }: { messageId: string; threadId?: string | null }): Promise<Array<{ from: Sender; date: string }> | AuthError | ApiError> {
+    if (!threadId) return []
+    const res = await gmailBoundary(this.account?.email ?? 'unknown', () =>
+      withRetry(() =>
+        this.gmail.users.threads.get({
+          userId: 'me',
+          id: threadId,
+          format: 'metadata',
+          metadataHeaders: ['From', 'Date', 'Message-ID', 'In-Reply-To', 'References'],
+        }),
+      ),
+    )
+    if (res instanceof Error) return res
+
+    const me = this.account?.email ?? ''
+    return (res.data.messages ?? [])
+      .map((m) => this.parseMessage(m))
+      .filter((m) => isReplyTo(m, messageId, me))
+      .map((m) => ({ from: m.from, date: m.date }))
+  }
+
+  // =========================================================================
+  // Import
+  // =========================================================================
+
+  /**
+   * Add existing messages to the mailbox (`zele mail import`). Mail imported
+   * into Sent goes through messages.insert, everything else through
+   * messages.import (treated like delivered mail, but never marked as spam);
+   * both keep the Date header as the message date. The folder maps to a label:
+   * inbox, sent, spam and trash to system labels, archive/all to none, any
+   * other name to a user label (created if missing). Flags map to UNREAD,
+   * STARRED and TRASH; drafts can't be imported as drafts. A message whose
+   * Message-ID is already in the mailbox (or earlier in this import) is skipped.
+   */
+  async importMessages({
+    folder,
+    messages,
+    onResult,
+  }: {
+    folder: string
+    messages: AsyncIterable<ImportMessage>
+    onResult: (result: ImportResult) => void
+  }): Promise<void | AuthError | ApiError> {
+    const email = this.account?.email ?? 'unknown'
+    const lower = folder.toLowerCase()
+    let labelIds = IMPORT_FOLDER_LABELS[lower]
+    if (!labelIds) {
+      // resolveLabelId creates missing labels, which throws on failure
+      const labelId = await gmailBoundary(email, () => this.resolveLabelId(folder))
+      if (labelId instanceof Error) return labelId
+      labelIds = [labelId]
+    }
+    const seen = new Set<string>()
+
+    for await (const m of messages) {
+      const result = { source: m.source, messageId: m.messageId }
+      if (m.messageId) {
+        const existing = seen.has(m.messageId) || await gmailBoundary(email, () =>
+          withRetry(() =>
+            this.gmail.users.messages.list({
+              userId: 'me',
+              q: `rfc822msgid:${m.messageId.replace(/^<|>$/g, '')}`,
+              includeSpamTrash: true,
+              maxResults: 1,
+            }),
+          ),
+        )
+        if (existing instanceof AuthError) return existing
+        if (existing === true || (!(existing instanceof Error) && existing.data.messages?.length)) {
+          onResult({ ...result, status: 'duplicate' })
+          continue
+        }
+      }
+
+      const params = {
+        userId: 'me',
+        internalDateSource: 'dateHeader',
+        requestBody: {
+          labelIds: [
+            ...labelIds,
+            ...(m.flags.read ? [] : ['UNREAD']),
+            ...(m.flags.flagged ? ['STARRED'] : []),
+            ...(m.flags.trashed && !labelIds.includes('TRASH') ? ['TRASH'] : []),
+          ],
+        },
+        media: { mimeType: 'message/rfc822', body: Readable.from(m.raw) },
+      }
+      const res = await gmailBoundary(email, () =>
+        withRetry(() =>
+          lower === 'sent'
+            ? this.gmail.users.messages.insert(params)
+            : this.gmail.users.messages.import({ ...params, neverMarkSpam: true }),
+        ),
+      )
+      if (res instanceof AuthError) return res
+      if (res instanceof Error) {
+        onResult({ ...result, status: 'failed', error: res.message })
+        continue
+      }
+      if (m.messageId) seen.add(m.messageId)
+      onResult({ ...result, status: 'imported', id: res.data.id ?? undefined })
+    }
+  }
+
   // =========================================================================
   // Reply / Forward (high-level composition)
   // =========================================================================
@@ -573,16 +878,24 @@ export class GmailClient {
   async replyToThread({
     threadId,
     body,
+    html,
     replyAll = false,
     cc,
     fromEmail,
+    attachments,
+    sendAt,
+    signature = true,
   }: {
     threadId: string
     body: string
+    html?: string
     replyAll?: boolean
     cc?: Array<{ email: string }>
     fromEmail?: string
-  }): Promise<EmptyThreadError | AuthError | ApiError | gmail_v1.Schema$Message> {
+    attachments?: Array<{ filename: string; mimeType: string; content: Buffer }>
+    sendAt?: Date
+    signature?: boolean
+  }): Promise<EmptyThreadError | AuthError | ApiError | MissingDataError | gmail_v1.Schema$Message | ScheduledMessage> {
     const { parsed: thread } = await this.getThread({ threadId })
     if (thread.messages.length === 0) {
       return new EmptyThreadError({ threadId })
@@ -621,11 +934,15 @@ export class GmailClient {
       to,
       subject: lastMsg.subject.startsWith('Re:') ? lastMsg.subject : `Re: ${lastMsg.subject}`,
       body,
+      html,
       cc: resolvedCc,
       threadId,
       inReplyTo: lastMsg.messageId,
       references: refs || undefined,
+      attachments,
       fromEmail,
+      sendAt,
+      signature,
     })
 
     await this.invalidateThread(threadId)
@@ -642,12 +959,16 @@ export class GmailClient {
     to,
     body,
     fromEmail,
+    sendAt,
+    signature = true,
   }: {
     threadId: string
     to: Array<{ email: string }>
     body?: string
     fromEmail?: string
-  }): Promise<EmptyThreadError | gmail_v1.Schema$Message> {
+    sendAt?: Date
+    signature?: boolean
+  }): Promise<EmptyThreadError | MissingDataError | gmail_v1.Schema$Message | ScheduledMessage> {
     const { parsed: thread } = await this.getThread({ threadId })
     if (thread.messages.length === 0) {
       return new EmptyThreadError({ threadId })
@@ -660,8 +981,10 @@ export class GmailClient {
       ? `${lastMsg.from.name} <${lastMsg.from.email}>`
       : lastMsg.from.email
 
+    const note = signature ? await signMessage(this.account, { body: body ?? '', fromEmail }) : { body: body ?? '' }
+
     const fullBody = [
-      body ?? '',
+      note.body,
       '',
       '---------- Forwarded message ----------',
       `From: ${fromStr}`,
@@ -677,6 +1000,8 @@ export class GmailClient {
       subject: `Fwd: ${lastMsg.subject}`,
       body: fullBody,
       fromEmail,
+      sendAt,
+      signature: false,
     })
   }
 
@@ -688,22 +1013,28 @@ export class GmailClient {
     to,
     subject,
     body,
+    html,
     cc,
     bcc,
     threadId,
     fromEmail,
     attachments,
+    signature = true,
   }: {
     to: Array<{ name?: string; email: string }>
     subject: string
     body: string
+    html?: string
     cc?: Array<{ name?: string; email: string }>
     bcc?: Array<{ name?: string; email: string }>
     threadId?: string
     fromEmail?: string
     attachments?: Array<{ filename: string; mimeType: string; content: Buffer }>
+    signature?: boolean
   }) {
-    const raw = this.buildMimeMessage({ to, subject, body, cc, bcc, attachments, fromEmail })
+    if (signature) ({ body, html } = await signMessage(this.account, { body, html, fromEmail }))
+
+    const raw = this.buildMimeMessage({ to, subject, body, html, cc, bcc, attachments, fromEmail })
 
     const res = await withRetry(() =>
       this.gmail.users.drafts.create({
@@ -797,7 +1128,23 @@ export class GmailClient {
     }
   }
 
-  async sendDraft({ draftId }: { draftId: string }) {
+  async sendDraft({ draftId, sendAt }: { draftId: string; sendAt?: Date }) {
+    if (sendAt) {
+      // Queue the draft's source as-is; the outbox deletes the draft once it's sent
+      const draft = await this.getDraft({ draftId })
+      if (draft instanceof Error) return draft
+      const raw = await this.getRawMessageBytes({ messageId: draft.message.id })
+      if (raw instanceof Error) return raw
+      return this.schedule({
+        raw: raw.toString('latin1'),
+        sendAt,
+        subject: draft.message.subject,
+        recipients: [...draft.to, ...draft.cc, ...draft.bcc].map((r) => r.email),
+        threadId: draft.message.threadId || undefined,
+        draftId,
+      })
+    }
+
     const res = await withRetry(() =>
       this.gmail.users.drafts.send({
         userId: 'me',
@@ -868,15 +1215,19 @@ export class GmailClient {
   async createDraftReply({
     threadId,
     body,
+    html,
     replyAll = false,
     cc,
     fromEmail,
+    signature = true,
   }: {
     threadId: string
     body: string
+    html?: string
     replyAll?: boolean
     cc?: Array<{ email: string }>
     fromEmail?: string
+    signature?: boolean
   }): Promise<EmptyThreadError | AuthError | ApiError | gmail_v1.Schema$Draft> {
     const { parsed: thread } = await this.getThread({ threadId })
     if (thread.messages.length === 0) {
@@ -912,10 +1263,13 @@ export class GmailClient {
 
     const refs = [lastMsg.references, lastMsg.messageId].filter(Boolean).join(' ')
 
+    if (signature) ({ body, html } = await signMessage(this.account, { body, html, fromEmail }))
+
     const raw = this.buildMimeMessage({
       to,
       subject: lastMsg.subject.startsWith('Re:') ? lastMsg.subject : `Re: ${lastMsg.subject}`,
       body,
+      html,
       cc: resolvedCc,
       inReplyTo: lastMsg.messageId,
       references: refs || undefined,
@@ -946,11 +1300,13 @@ export class GmailClient {
     to,
     body,
     fromEmail,
+    signature = true,
   }: {
     threadId: string
     to: Array<{ email: string }>
     body?: string
     fromEmail?: string
+    signature?: boolean
   }): Promise<EmptyThreadError | AuthError | ApiError | gmail_v1.Schema$Draft> {
     const { parsed: thread } = await this.getThread({ threadId })
     if (thread.messages.length === 0) {
@@ -964,8 +1320,10 @@ export class GmailClient {
       ? `${lastMsg.from.name} <${lastMsg.from.email}>`
       : lastMsg.from.email
 
+    const note = signature ? await signMessage(this.account, { body: body ?? '', fromEmail }) : { body: body ?? '' }
+
     const fullBody = [
-      body ?? '',
+      note.body,
       '',
       '---------- Forwarded message ----------',
       `From: ${fromStr}`,
@@ -1075,6 +1433,29 @@ export class GmailClient {
     await this.invalidateAfterThreadMutation(threadIds)
   }
 
+  /**
+   * Move threads like Gmail's "Move to": add the target label and take them
+   * out of the inbox, spam and trash. The target is inbox, archive, spam,
+   * trash or an existing label (not created on the fly).
+   */
+  async move({ threadIds, folder }: { threadIds: string[]; folder: string }): Promise<void | NotFoundError | AuthError | ApiError> {
+    const places = ['INBOX', 'SPAM', 'TRASH']
+    const lower = folder.toLowerCase()
+    const target = lower === 'archive' ? undefined : places.find((p) => p.toLowerCase() === lower) ?? await this.lookupLabelId(folder)
+    if (target instanceof Error) return target
+    if (target === null) return new NotFoundError({ resource: `Label "${folder}"` })
+
+    const messageIds = await this.getMessageIdsForThreads(threadIds)
+    if (messageIds instanceof Error) return messageIds
+    if (messageIds.length === 0) return
+    const mod = await this.batchModifyMessages(messageIds, {
+      addLabelIds: target ? [target] : [],
+      removeLabelIds: places.filter((p) => p !== target),
+    })
+    if (mod instanceof Error) return mod
+    await this.invalidateAfterThreadMutation(threadIds)
+  }
+
   async trash({ threadId }: { threadId: string }) {
     await withRetry(() =>
       this.gmail.users.threads.trash({
@@ -1104,6 +1485,25 @@ export class GmailClient {
     await this.invalidateAfterThreadMutation(threadIds)
   }
 
+  /** Archive a thread until unsnooze(). The API can't use Gmail's own snooze,
+   *  so the wake-up time lives in the local Snooze table. Returns the ID to
+   *  unsnooze, which for Gmail is the thread ID itself. */
+  async snooze({ threadId }: { threadId: string }): Promise<string | AuthError | ApiError> {
+    const archived = await this.archive({ threadIds: [threadId] })
+    if (archived instanceof Error) return archived
+    return threadId
+  }
+
+  /** Put a snoozed thread back in the inbox, marked unread. */
+  async unsnooze({ threadId }: { threadId: string }): Promise<void | AuthError | ApiError> {
+    const messageIds = await this.getMessageIdsForThreads([threadId])
+    if (messageIds instanceof Error) return messageIds
+    if (messageIds.length === 0) return
+    const mod = await this.batchModifyMessages(messageIds, { addLabelIds: ['INBOX', 'UNREAD'] })
+    if (mod instanceof Error) return mod
+    await this.invalidateAfterThreadMutation([threadId])
+  }
+
   async markAsSpam({ threadIds }: { threadIds: string[] }): Promise<void | AuthError | ApiError> {
     const messageIds = await this.getMessageIdsForThreads(threadIds)
     if (messageIds instanceof Error) return messageIds
@@ -1262,20 +1662,8 @@ export class GmailClient {
     return { parsed: res.data.filter ?? [] }
   }
 
-  async createFilter(opts: {
-    from?: string
-    query?: string
-    addLabelIds?: string[]
-    removeLabelIds?: string[]
-  }): Promise<gmail_v1.Schema$Filter | AuthError | ApiError> {
-    const criteria: gmail_v1.Schema$FilterCriteria = {}
-    if (opts.from) criteria.from = opts.from
-    if (opts.query) criteria.query = opts.query
-
-    const action: gmail_v1.Schema$FilterAction = {}
-    if (opts.addLabelIds?.length) action.addLabelIds = opts.addLabelIds
-    if (opts.removeLabelIds?.length) action.removeLabelIds = opts.removeLabelIds
-
+  /** Create a filter from criteria and action (label IDs; see gmail-filters.ts specToFilter). */
+  async createFilter({ criteria, action }: gmail_v1.Schema$Filter): Promise<gmail_v1.Schema$Filter | AuthError | ApiError> {
     const res = await gmailBoundary(this.account?.email ?? 'unknown', () =>
       withRetry(() =>
         this.gmail.users.settings.filters.create({
@@ -1310,7 +1698,8 @@ export class GmailClient {
   // =========================================================================
 
   async getLabelCounts(): Promise<{ parsed: Array<{ label: string; count: number }>; raw: gmail_v1.Schema$Label[]; archiveEstimate: number | null } | AuthError | ApiError> {
-    // Always fresh: label counts are user-facing live data.
+    // Live data from the API, unless the account is mirrored by `zele sync`
+    if (await this.getMirrorSyncedAt()) return this.getLabelCountsFromMirror()
 
     // Archive count is best-effort — auth errors propagate, others yield null.
     const archiveRes = await gmailBoundary(this.account?.email ?? 'unknown', () =>
@@ -1368,6 +1757,42 @@ export class GmailClient {
     return { parsed: result, raw: rawDetails, archiveEstimate }
   }
 
+  /** getLabelCounts computed from mirrored threads (same shape as the live version). */
+  private async getLabelCountsFromMirror(): Promise<{ parsed: Array<{ label: string; count: number }>; raw: gmail_v1.Schema$Label[]; archiveEstimate: number | null } | AuthError | ApiError> {
+    const labelsResult = await this.listLabels()
+    if (labelsResult instanceof Error) return labelsResult
+
+    const prisma = await getPrisma()
+    const rows: Array<{ labelIds: string; hasUnread: boolean }> = await prisma.thread.findMany({
+      where: { email: this.account!.email, appId: this.account!.appId },
+      select: { labelIds: true, hasUnread: true },
+    })
+
+    const unread = new Map<string, number>()
+    const total = new Map<string, number>()
+    let archive = 0
+    for (const row of rows) {
+      const labels = row.labelIds.split(',').filter(Boolean)
+      for (const label of labels) {
+        total.set(label, (total.get(label) ?? 0) + 1)
+        if (row.hasUnread) unread.set(label, (unread.get(label) ?? 0) + 1)
+      }
+      if (!labels.some((l) => ['INBOX', 'SENT', 'DRAFT', 'TRASH', 'SPAM'].includes(l))) archive++
+    }
+
+    const parsed = labelsResult.parsed.map((label) => {
+      const labelName = (label.name || label.id).toLowerCase()
+      const isTotalLabel = labelName === 'draft' || labelName === 'sent'
+      return {
+        label: labelName === 'draft' ? 'drafts' : labelName,
+        count: (isTotalLabel ? total : unread).get(label.id) ?? 0,
+      }
+    })
+    parsed.push({ label: 'archive', count: archive })
+
+    return { parsed, raw: labelsResult.raw, archiveEstimate: archive }
+  }
+
   // =========================================================================
   // Attachments
   // =========================================================================
@@ -1461,66 +1886,9 @@ export class GmailClient {
     }
   }
 
-  /** Parse a raw gmail_v1.Schema$Message into ParsedMessage. */
+  /** Parse a raw gmail_v1.Schema$Message into ParsedMessage (see parseGmailMessage). */
   parseMessage(message: gmail_v1.Schema$Message): ParsedMessage {
-    const headers = message.payload?.headers ?? []
-    const labelIds = message.labelIds ?? []
-
-    const getHeader = (name: string) =>
-      headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value ?? null
-
-    const fromHeader = getHeader('from') ?? ''
-    const toHeader = getHeader('to') ?? ''
-    const ccHeaders = headers
-      .filter((h) => h.name?.toLowerCase() === 'cc')
-      .map((h) => h.value ?? '')
-      .filter((v) => v.length > 0)
-
-    const { body, mimeType, textBody } = this.extractBody(message.payload ?? {})
-
-    // Authentication-Results: multiple MTAs can add this header. Prefer the one
-    // stamped by Gmail's trusted authserv-id (mx.google.com) to avoid trusting
-    // headers injected by upstream/untrusted relays.
-    const authHeaders = headers
-      .filter((h) => h.name?.toLowerCase() === 'authentication-results')
-      .map((h) => h.value ?? '')
-      .filter((v) => v.length > 0)
-    const trustedAuthHeader =
-      authHeaders.find((v) => v.trim().toLowerCase().startsWith('mx.google.com'))
-      ?? authHeaders[0]
-      ?? null
-    const isSentOrDraft = labelIds.includes('SENT') || labelIds.includes('DRAFT')
-    const auth = trustedAuthHeader && !isSentOrDraft ? parseAuthResults(trustedAuthHeader) : null
-
-    return {
-      id: message.id ?? '',
-      threadId: message.threadId ?? '',
-      subject: (getHeader('subject') ?? '(no subject)').replace(/"/g, '').trim(),
-      snippet: sanitizeSnippet(message.snippet ?? ''),
-      from: parseFrom(fromHeader),
-      to: toHeader ? parseAddressList(toHeader) : [],
-      cc:
-        ccHeaders.length > 0
-          ? ccHeaders.filter((h) => h.trim().length > 0).flatMap((h) => parseAddressList(h))
-          : null,
-      bcc: [],
-      replyTo: getHeader('reply-to') ?? undefined,
-      date: getHeader('date') ?? '',
-      labelIds,
-      unread: labelIds.includes('UNREAD'),
-      starred: labelIds.includes('STARRED'),
-      isDraft: labelIds.includes('DRAFT'),
-      messageId: getHeader('message-id') ?? '',
-      inReplyTo: getHeader('in-reply-to') ?? undefined,
-      references: getHeader('references') ?? undefined,
-      listUnsubscribe: getHeader('list-unsubscribe') ?? undefined,
-      listUnsubscribePost: getHeader('list-unsubscribe-post') ?? undefined,
-      body,
-      mimeType,
-      textBody,
-      attachments: this.extractAttachmentMeta(message.payload?.parts ?? []),
-      auth,
-    }
+    return parseGmailMessage(message)
   }
 
   /** Parse raw gmail_v1.Schema$Thread (format: metadata) into ThreadListItem.
@@ -1643,91 +2011,6 @@ export class GmailClient {
     return result
   }
 
-  // =========================================================================
-  // Private: body/attachment extraction
-  // =========================================================================
-
-  private extractBody(payload: gmail_v1.Schema$MessagePart): {
-    body: string
-    mimeType: string
-    textBody: string | null
-  } {
-    if (payload.body?.data) {
-      const mime = payload.mimeType ?? 'text/plain'
-      return {
-        body: decodeBase64Url(payload.body.data),
-        mimeType: mime,
-        textBody: mime === 'text/plain' ? decodeBase64Url(payload.body.data) : null,
-      }
-    }
-
-    if (!payload.parts) {
-      return { body: '', mimeType: 'text/plain', textBody: null }
-    }
-
-    const htmlData = this.findBodyPart(payload.parts, 'text/html')
-    const textData = this.findBodyPart(payload.parts, 'text/plain')
-    const textBody = textData ? decodeBase64Url(textData) : null
-
-    if (htmlData) {
-      return { body: decodeBase64Url(htmlData), mimeType: 'text/html', textBody }
-    }
-
-    if (textData) {
-      return { body: textBody!, mimeType: 'text/plain', textBody }
-    }
-
-    for (const part of payload.parts) {
-      if (part.parts) {
-        const nested = this.extractBody(part)
-        if (nested.body) return nested
-      }
-    }
-
-    return { body: '', mimeType: 'text/plain', textBody: null }
-  }
-
-  private findBodyPart(parts: gmail_v1.Schema$MessagePart[], mimeType: string): string | null {
-    for (const part of parts) {
-      if (part.mimeType === mimeType && part.body?.data) {
-        return part.body.data
-      }
-      if (part.parts) {
-        const found = this.findBodyPart(part.parts, mimeType)
-        if (found) return found
-      }
-    }
-    return null
-  }
-
-  private extractAttachmentMeta(parts: gmail_v1.Schema$MessagePart[]): AttachmentMeta[] {
-    const results: AttachmentMeta[] = []
-
-    for (const part of parts) {
-      if (part.filename && part.filename.length > 0 && part.body?.attachmentId) {
-        const disposition =
-          part.headers?.find((h) => h.name?.toLowerCase() === 'content-disposition')?.value ?? ''
-        const hasContentId = part.headers?.some((h) => h.name?.toLowerCase() === 'content-id')
-        const isInline = disposition.toLowerCase().includes('inline')
-
-        if (!isInline || !hasContentId) {
-          results.push({
-            attachmentId: part.body.attachmentId,
-            filename: part.filename,
-            mimeType: part.mimeType ?? 'application/octet-stream',
-            size: Number(part.body.size ?? 0),
-          })
-        }
-      }
-
-      if (part.parts) {
-        results.push(...this.extractAttachmentMeta(part.parts))
-      }
-    }
-
-    return results
-  }
-
   /** Quick check: does the message payload tree contain any non-inline attachments?
    *  Checks the root part itself (some messages have attachment metadata there)
    *  then recurses into child parts. */
@@ -1746,12 +2029,12 @@ export class GmailClient {
     return false
   }
 
-  async getEmailAliases(): Promise<Array<{ email: string; name?: string; primary: boolean }> | AuthError | ApiError> {
+  async getEmailAliases(): Promise<Array<{ email: string; name?: string; primary: boolean; signature?: string }> | AuthError | ApiError> {
     const profile = await this.getProfile()
     if (profile instanceof Error) return profile
     const primaryEmail = profile.emailAddress
 
-    const aliases: Array<{ email: string; name?: string; primary: boolean }> = [
+    const aliases: Array<{ email: string; name?: string; primary: boolean; signature?: string }> = [
       { email: primaryEmail, primary: true },
     ]
 
@@ -1766,11 +2049,15 @@ export class GmailClient {
     if (settings instanceof Error) return aliases // permission denied — return primary only
 
     for (const alias of settings.data.sendAs ?? []) {
-      if (alias.isPrimary && alias.sendAsEmail === primaryEmail) continue
+      if (alias.isPrimary && alias.sendAsEmail === primaryEmail) {
+        aliases[0]!.signature = alias.signature || undefined
+        continue
+      }
       aliases.push({
         email: alias.sendAsEmail ?? '',
         name: alias.displayName ?? undefined,
         primary: alias.isPrimary ?? false,
+        signature: alias.signature || undefined,
       })
     }
 
@@ -1823,13 +2110,181 @@ export class GmailClient {
     }
   }
 
+  /**
+   * Mirror the whole mailbox into the Thread table (`zele sync`).
+   * First run (or `full`, or an expired history cursor) walks threads.list and
+   * fetches every thread whose historyId changed; the page token is saved after
+   * each page so an interrupted pass resumes where it stopped. Later runs replay
+   * the History API from the cursor in SyncState and refetch touched threads.
+   */
+  async syncMirror({
+    full = false,
+    onProgress,
+  }: {
+    full?: boolean
+    onProgress?: (progress: SyncProgress) => void
+  } = {}): Promise<SyncResult | AuthError | ApiError | MissingDataError> {
+    if (!this.account) return new MissingDataError({ what: 'authenticated account', resource: 'syncMirror' })
+
+    const cursor = full ? undefined : await getSyncState(this.account, MIRROR_KEYS.historyId)
+    if (cursor) {
+      const result = await this.syncMirrorIncremental(cursor, onProgress)
+      // History expired (Google keeps about a week) — fall back to a full pass
+      if (!(result instanceof ApiError && isHistoryExpired(result.cause))) return result
+    }
+    return this.syncMirrorFull(onProgress)
+  }
+
+  private async syncMirrorFull(onProgress?: (progress: SyncProgress) => void): Promise<SyncResult | AuthError | ApiError> {
+    const account = this.account!
+
+    // Take the history cursor before listing so changes made during the pass
+    // are replayed by the next incremental sync
+    let seed = await getSyncState(account, MIRROR_KEYS.seedHistoryId)
+    if (!seed) {
+      const profile = await this.getProfile()
+      if (profile instanceof Error) return profile
+      seed = profile.historyId
+      await deleteSyncState(account, [MIRROR_KEYS.pageToken])
+      await setSyncState(account, MIRROR_KEYS.seedHistoryId, seed)
+    }
+
+    let pageToken = await getSyncState(account, MIRROR_KEYS.pageToken)
+    const resumed = pageToken !== undefined
+    const seen = new Set<string>()
+    let done = 0
+    let updated = 0
+
+    while (true) {
+      const res = await gmailBoundary(account.email, () =>
+        withRetry(() =>
+          this.gmail.users.threads.list({
+            userId: 'me',
+            maxResults: 500,
+            includeSpamTrash: true,
+            pageToken,
+          }),
+        ),
+      )
+      if (res instanceof Error) return res
+
+      const threads = res.data.threads ?? []
+      const fetched = await mapConcurrent(threads, async (t) => {
+        if (!t.id) return false
+        seen.add(t.id)
+        const cached = await this.getCachedThread(t.id)
+        if (cached && t.historyId && cached.historyId === t.historyId) return false
+        const result = await this.mirrorThread(t.id)
+        if (result instanceof Error) return result
+        return true
+      })
+      if (fetched instanceof Error) return fetched
+
+      updated += fetched.filter(Boolean).length
+      done += threads.length
+      onProgress?.({ phase: 'full', done, total: Math.max(done, res.data.resultSizeEstimate ?? 0) })
+
+      pageToken = res.data.nextPageToken ?? undefined
+      if (!pageToken) break
+      await setSyncState(account, MIRROR_KEYS.pageToken, pageToken)
+    }
+
+    // Drop threads that no longer exist. Skipped after a resumed pass because
+    // threads listed before the interruption aren't in `seen`.
+    let removed = 0
+    if (!resumed) {
+      const prisma = await getPrisma()
+      const rows: Array<{ threadId: string }> = await prisma.thread.findMany({
+        where: { email: account.email, appId: account.appId },
+        select: { threadId: true },
+      })
+      const stale = rows.map((r) => r.threadId).filter((id) => !seen.has(id))
+      for (let i = 0; i < stale.length; i += 500) {
+        await prisma.thread.deleteMany({ where: { email: account.email, appId: account.appId, threadId: { in: stale.slice(i, i + 500) } } })
+      }
+      removed = stale.length
+    }
+
+    await setSyncState(account, MIRROR_KEYS.historyId, seed)
+    await deleteSyncState(account, [MIRROR_KEYS.pageToken, MIRROR_KEYS.seedHistoryId])
+    await this.markMirrorSynced()
+    return { mode: 'full', updated, removed }
+  }
+
+  private async syncMirrorIncremental(
+    cursor: string,
+    onProgress?: (progress: SyncProgress) => void,
+  ): Promise<SyncResult | AuthError | ApiError> {
+    const account = this.account!
+    const historyResult = await this.listHistory({ startHistoryId: cursor })
+    if (historyResult instanceof Error) return historyResult
+
+    const threadIds = new Set<string>()
+    for (const entry of historyResult.history) {
+      const touched = [
+        ...(entry.messagesAdded ?? []),
+        ...(entry.messagesDeleted ?? []),
+        ...(entry.labelsAdded ?? []),
+        ...(entry.labelsRemoved ?? []),
+      ]
+      for (const change of touched) {
+        if (change.message?.threadId) threadIds.add(change.message.threadId)
+      }
+    }
+
+    let done = 0
+    let updated = 0
+    let removed = 0
+    const results = await mapConcurrent([...threadIds], async (threadId) => {
+      const result = await this.mirrorThread(threadId)
+      if (result instanceof Error) return result
+      if (result === 'removed') removed++
+      else updated++
+      onProgress?.({ phase: 'incremental', done: ++done, total: threadIds.size })
+      return result
+    })
+    // Cursor only moves once every touched thread is stored, so a failed run is retried
+    if (results instanceof Error) return results
+
+    await setSyncState(account, MIRROR_KEYS.historyId, historyResult.historyId)
+    await this.markMirrorSynced()
+    return { mode: 'incremental', updated, removed }
+  }
+
+  /** Fetch one thread into the mirror, or drop it if Gmail no longer has it. */
+  private async mirrorThread(threadId: string): Promise<'updated' | 'removed' | AuthError | ApiError> {
+    const res = await gmailBoundary(this.account!.email, () =>
+      withRetry(() =>
+        this.gmail.users.threads.get({
+          userId: 'me',
+          id: threadId,
+          format: 'full',
+        }),
+      ),
+    )
+    if (res instanceof ApiError && httpStatus(res.cause) === 404) {
+      const prisma = await getPrisma()
+      await prisma.thread.deleteMany({ where: { email: this.account!.email, appId: this.account!.appId, threadId } })
+      return 'removed'
+    }
+    if (res instanceof Error) return res
+    await this.cacheThreadData(threadId, res.data, this.parseThread(res.data))
+    return 'updated'
+  }
+
+  private async markMirrorSynced(): Promise<void> {
+    const now = new Date()
+    await setSyncState(this.account!, MIRROR_KEYS.syncedAt, now.toISOString())
+    this.mirrorSyncedAt = now
+  }
+
   // =========================================================================
   // Watch: async generator for inbox polling via History API
   // =========================================================================
 
   /**
-   * Poll for new messages using the Gmail History API.
-   * Yields WatchEvent objects as new messages arrive.
+   * Poll for changes using the Gmail History API.
+   * Yields WatchEvent objects of the requested `events` types (default: new messages).
    * Handles history seeding, expiry re-seeding, and client-side query filtering.
    * Persists historyId in the DB so it survives across CLI invocations.
    */
@@ -1838,11 +2293,13 @@ export class GmailClient {
     intervalMs = 15_000,
     query,
     once = false,
+    events = ['new_message'],
   }: {
     folder?: string
     intervalMs?: number
     query?: string
     once?: boolean
+    events?: WatchEventType[]
   } = {}): AsyncGenerator<WatchEvent> {
     if (!this.account) throw new MissingDataError({ what: 'authenticated account', resource: 'watchInbox' })
 
@@ -1860,12 +2317,17 @@ export class GmailClient {
       await setLastHistoryId(this.account, historyId)
     }
 
+    // Folder membership is checked per record: history.list's labelId filter
+    // would hide changes that take a message out of the folder (e.g. archive)
+    const historyTypes = [...new Set(events.flatMap((type) => WATCH_HISTORY_TYPES[type]))]
+    // The History API can't filter by query, so --filter is matched locally
+    const options = { filterLabelId, events, filter: query ? parseQuery(query) : null }
+
     while (true) {
       // listHistory returns errors as values — check and handle history expiry.
       const historyResult = await this.listHistory({
         startHistoryId: historyId,
-        labelId: filterLabelId,
-        historyTypes: ['messageAdded'],
+        historyTypes,
       })
 
       if (historyResult instanceof Error) {
@@ -1876,11 +2338,11 @@ export class GmailClient {
         historyId = profile.historyId
         await setLastHistoryId(this.account, historyId)
         // Retry once after reseed
-        const retryResult = await this.listHistory({ startHistoryId: historyId, labelId: filterLabelId, historyTypes: ['messageAdded'] })
+        const retryResult = await this.listHistory({ startHistoryId: historyId, historyTypes })
         if (retryResult instanceof Error) throw retryResult
-        yield* this.pollOnceFromHistory(retryResult, historyId, query, (newId) => { historyId = newId })
+        yield* this.pollOnceFromHistory(retryResult, historyId, options, (newId) => { historyId = newId })
       } else {
-        yield* this.pollOnceFromHistory(historyResult, historyId, query, (newId) => { historyId = newId })
+        yield* this.pollOnceFromHistory(historyResult, historyId, options, (newId) => { historyId = newId })
       }
 
       if (once) return
@@ -1888,11 +2350,11 @@ export class GmailClient {
     }
   }
 
-  /** Single poll tick from pre-fetched history — yields WatchEvents for new messages. */
+  /** Single poll tick from pre-fetched history — yields WatchEvents of the requested types. */
   private async *pollOnceFromHistory(
     historyData: { history: gmail_v1.Schema$History[]; historyId: string },
     prevHistoryId: string,
-    query: string | undefined,
+    { filterLabelId, events, filter }: { filterLabelId: string; events: WatchEventType[]; filter: QueryNode | null },
     updateHistoryId: (newId: string) => void,
   ): AsyncGenerator<WatchEvent> {
     const { history, historyId: newHistoryId } = historyData
@@ -1904,43 +2366,29 @@ export class GmailClient {
 
     if (history.length === 0) return
 
-    // Collect unique message IDs from messageAdded events
-    const seenIds = new Set<string>()
-    const messageIds: string[] = []
-
-    for (const entry of history) {
-      for (const added of entry.messagesAdded ?? []) {
-        const id = added.message?.id
-        if (id && !seenIds.has(id)) {
-          seenIds.add(id)
-          messageIds.push(id)
-        }
-      }
-    }
-
-    if (messageIds.length === 0) return
+    const changes = historyToWatchChanges(history, filterLabelId).filter((c) => events.includes(c.type))
+    if (changes.length === 0) return
 
-    // Hydrate messages with metadata (bounded concurrency).
+    // Hydrate messages with metadata (bounded concurrency), once per message.
     // getMessage returns errors as values — auth errors abort via mapConcurrent,
     // 404s (message deleted between history and hydration) are skipped.
+    const messageIds = [...new Set(changes.filter((c) => c.type !== 'message_deleted').map((c) => c.messageId))]
     const hydrated = await mapConcurrent(messageIds, async (msgId) => {
       const msg = await this.getMessage({ messageId: msgId, format: 'metadata' })
       if (msg instanceof AuthError) return msg // abort batch
       if (msg instanceof Error) return null    // skip this message
       if ('raw' in msg) return null
-      if (query && !matchesQuery(msg, query)) return null
       return msg
     })
     if (hydrated instanceof Error) throw hydrated // propagate to generator consumer
-
-    for (const msg of hydrated) {
-      if (!msg) continue
-      yield {
-        account: this.account!,
-        type: 'new_message',
-        message: msg,
-        threadId: msg.threadId,
-      }
+    const byId = new Map(hydrated.filter(isTruthy).map((msg) => [msg.id, msg]))
+
+    for (const change of changes) {
+      const message = change.type === 'message_deleted' ? null : byId.get(change.messageId)
+      if (message === undefined) continue
+      // Deleted messages can't be matched against a query, so --filter drops them
+      if (filter && (!message || !matchesQuery(message, filter))) continue
+      yield { account: this.account!, ...change, message }
     }
   }
 
@@ -1952,6 +2400,7 @@ export class GmailClient {
     to,
     subject,
     body,
+    html,
     cc,
     bcc,
     inReplyTo,
@@ -1962,6 +2411,7 @@ export class GmailClient {
     to: Array<{ name?: string; email: string }>
     subject: string
     body: string
+    html?: string
     cc?: Array<{ name?: string; email: string }>
     bcc?: Array<{ name?: string; email: string }>
     inReplyTo?: string
@@ -1987,12 +2437,18 @@ export class GmailClient {
 
     msg.setSubject(subject)
 
-    // Detect if body is HTML
-    const isHtml = /<[a-z][\s\S]*>/i.test(body)
-    msg.addMessage({
-      contentType: isHtml ? 'text/html' : 'text/plain',
-      data: body,
-    })
+    if (html) {
+      // Text and HTML parts → mimetext builds multipart/alternative
+      msg.addMessage({ contentType: 'text/plain', data: body })
+      msg.addMessage({ contentType: 'text/html', data: html })
+    } else {
+      // Detect if body is HTML
+      const isHtml = /<[a-z][\s\S]*>/i.test(body)
+      msg.addMessage({
+        contentType: isHtml ? 'text/html' : 'text/plain',
+        data: body,
+      })
+    }
 
     if (inReplyTo) {
       msg.setHeader('In-Reply-To', sanitizeHeaderValue(inReplyTo))
@@ -2231,6 +2687,162 @@ export class GmailClient {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Message parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a raw gmail_v1.Schema$Message into ParsedMessage. Needs no client:
+ * also used for local .eml files (see eml.ts).
+ */
+export function parseGmailMessage(message: gmail_v1.Schema$Message): ParsedMessage {
+  const headers = message.payload?.headers ?? []
+  const labelIds = message.labelIds ?? []
+
+  const getHeader = (name: string) =>
+    headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value ?? null
+
+  const fromHeader = getHeader('from') ?? ''
+  const toHeader = getHeader('to') ?? ''
+  const ccHeaders = headers
+    .filter((h) => h.name?.toLowerCase() === 'cc')
+    .map((h) => h.value ?? '')
+    .filter((v) => v.length > 0)
+
+  const { body, mimeType, textBody } = extractBody(message.payload ?? {})
+  const calendarData = message.payload?.mimeType === 'text/calendar'
+    ? message.payload.body?.data
+    : findBodyPart(message.payload?.parts ?? [], 'text/calendar')
+
+  // Authentication-Results: multiple MTAs can add this header. Prefer the one
+  // stamped by Gmail's trusted authserv-id (mx.google.com) to avoid trusting
+  // headers injected by upstream/untrusted relays.
+  const authHeaders = headers
+    .filter((h) => h.name?.toLowerCase() === 'authentication-results')
+    .map((h) => h.value ?? '')
+    .filter((v) => v.length > 0)
+  const trustedAuthHeader =
+    authHeaders.find((v) => v.trim().toLowerCase().startsWith('mx.google.com'))
+    ?? authHeaders[0]
+    ?? null
+  const isSentOrDraft = labelIds.includes('SENT') || labelIds.includes('DRAFT')
+  const auth = trustedAuthHeader && !isSentOrDraft ? parseAuthResults(trustedAuthHeader) : null
+
+  return {
+    id: message.id ?? '',
+    threadId: message.threadId ?? '',
+    subject: (getHeader('subject') ?? '(no subject)').replace(/"/g, '').trim(),
+    snippet: sanitizeSnippet(message.snippet ?? ''),
+    from: parseFrom(fromHeader),
+    to: toHeader ? parseAddressList(toHeader) : [],
+    cc:
+      ccHeaders.length > 0
+        ? ccHeaders.filter((h) => h.trim().length > 0).flatMap((h) => parseAddressList(h))
+        : null,
+    bcc: [],
+    replyTo: getHeader('reply-to') ?? undefined,
+    date: getHeader('date') ?? '',
+    labelIds,
+    unread: labelIds.includes('UNREAD'),
+    starred: labelIds.includes('STARRED'),
+    isDraft: labelIds.includes('DRAFT'),
+    messageId: getHeader('message-id') ?? '',
+    inReplyTo: getHeader('in-reply-to') ?? undefined,
+    references: getHeader('references') ?? undefined,
+    listUnsubscribe: getHeader('list-unsubscribe') ?? undefined,
+    listUnsubscribePost: getHeader('list-unsubscribe-post') ?? undefined,
+    body,
+    mimeType,
+    textBody,
+    attachments: extractAttachmentMeta(message.payload?.parts ?? []),
+    calendar: calendarData ? decodeBase64Url(calendarData) : undefined,
+    sizeEstimate: message.sizeEstimate ?? undefined,
+    auth,
+  }
+}
+
+
+function extractBody(payload: gmail_v1.Schema$MessagePart): {
+  body: string
+  mimeType: string
+  textBody: string | null
+} {
+  if (payload.body?.data) {
+    const mime = payload.mimeType ?? 'text/plain'
+    return {
+      body: decodeBase64Url(payload.body.data),
+      mimeType: mime,
+      textBody: mime === 'text/plain' ? decodeBase64Url(payload.body.data) : null,
+    }
+  }
+
+  if (!payload.parts) {
+    return { body: '', mimeType: 'text/plain', textBody: null }
+  }
+
+  const htmlData = findBodyPart(payload.parts, 'text/html')
+  const textData = findBodyPart(payload.parts, 'text/plain')
+  const textBody = textData ? decodeBase64Url(textData) : null
+
+  if (htmlData) {
+    return { body: decodeBase64Url(htmlData), mimeType: 'text/html', textBody }
+  }
+
+  if (textData) {
+    return { body: textBody!, mimeType: 'text/plain', textBody }
+  }
+
+  for (const part of payload.parts) {
+    if (part.parts) {
+      const nested = extractBody(part)
+      if (nested.body) return nested
+    }
+  }
+
+  return { body: '', mimeType: 'text/plain', textBody: null }
+}
+
+function findBodyPart(parts: gmail_v1.Schema$MessagePart[], mimeType: string): string | null {
+  for (const part of parts) {
+    if (part.mimeType === mimeType && part.body?.data) {
+      return part.body.data
+    }
+    if (part.parts) {
+      const found = findBodyPart(part.parts, mimeType)
+      if (found) return found
+    }
+  }
+  return null
+}
+
+function extractAttachmentMeta(parts: gmail_v1.Schema$MessagePart[]): AttachmentMeta[] {
+  const results: AttachmentMeta[] = []
+
+  for (const part of parts) {
+    if (part.filename && part.filename.length > 0 && part.body?.attachmentId) {
+      const disposition =
+        part.headers?.find((h) => h.name?.toLowerCase() === 'content-disposition')?.value ?? ''
+      const hasContentId = part.headers?.some((h) => h.name?.toLowerCase() === 'content-id')
+      const isInline = disposition.toLowerCase().includes('inline')
+
+      if (!isInline || !hasContentId) {
+        results.push({
+          attachmentId: part.body.attachmentId,
+          filename: part.filename,
+          mimeType: part.mimeType ?? 'application/octet-stream',
+          size: Number(part.body.size ?? 0),
+        })
+      }
+    }
+
+    if (part.parts) {
+      results.push(...extractAttachmentMeta(part.parts))
+    }
+  }
+
+  return results
+}
+
 // ---------------------------------------------------------------------------
 // Email authentication: parse the Authentication-Results header
 // ---------------------------------------------------------------------------
@@ -2280,6 +2892,61 @@ const WATCH_FOLDER_LABELS: Record<string, string> = {
   drafts: 'DRAFT',
 }
 
+/** History record types needed for each watch event type. */
+const WATCH_HISTORY_TYPES: Record<WatchEventType, Array<'messageAdded' | 'messageDeleted' | 'labelAdded' | 'labelRemoved'>> = {
+  new_message: ['messageAdded'],
+  message_deleted: ['messageDeleted'],
+  labels_added: ['labelAdded'],
+  labels_removed: ['labelRemoved'],
+  marked_read: ['labelRemoved'],
+  flag_changed: ['labelAdded', 'labelRemoved'],
+}
+
+/** Labels reported as flag_changed / marked_read instead of label events. */
+const WATCH_FLAG_LABELS = new Set(['STARRED', 'UNREAD'])
+
+export type WatchChange = Omit<WatchEvent, 'account' | 'message'>
+
+/**
+ * Turn history records into watch changes for messages in `labelId`.
+ * A label change counts when the message is in the folder before or after it,
+ * so archiving shows up when watching the inbox.
+ */
+export function historyToWatchChanges(history: gmail_v1.Schema$History[], labelId: string): WatchChange[] {
+  const changes: WatchChange[] = []
+  const seenAdded = new Set<string>()
+  const ids = (message: gmail_v1.Schema$Message) => ({ messageId: message.id!, threadId: message.threadId ?? '' })
+
+  for (const entry of history) {
+    for (const { message } of entry.messagesAdded ?? []) {
+      if (!message?.id || seenAdded.has(message.id) || !message.labelIds?.includes(labelId)) continue
+      seenAdded.add(message.id)
+      changes.push({ type: 'new_message', ...ids(message) })
+    }
+    for (const { message } of entry.messagesDeleted ?? []) {
+      // Deleted records may omit labels — keep those rather than guess
+      if (!message?.id || (message.labelIds && !message.labelIds.includes(labelId))) continue
+      changes.push({ type: 'message_deleted', ...ids(message) })
+    }
+    for (const { message, labelIds } of entry.labelsAdded ?? []) {
+      if (!message?.id || !message.labelIds?.includes(labelId)) continue
+      const flags = (labelIds ?? []).filter((l) => WATCH_FLAG_LABELS.has(l))
+      const labels = (labelIds ?? []).filter((l) => !WATCH_FLAG_LABELS.has(l))
+      if (flags.length > 0) changes.push({ type: 'flag_changed', ...ids(message), added: flags })
+      if (labels.length > 0) changes.push({ type: 'labels_added', ...ids(message), added: labels })
+    }
+    for (const { message, labelIds } of entry.labelsRemoved ?? []) {
+      const removed = labelIds ?? []
+      if (!message?.id || ![...(message.labelIds ?? []), ...removed].includes(labelId)) continue
+      if (removed.includes('UNREAD')) changes.push({ type: 'marked_read', ...ids(message), removed: ['UNREAD'] })
+      if (removed.includes('STARRED')) changes.push({ type: 'flag_changed', ...ids(message), removed: ['STARRED'] })
+      const labels = removed.filter((l) => !WATCH_FLAG_LABELS.has(l))
+      if (labels.length > 0) changes.push({ type: 'labels_removed', ...ids(message), removed: labels })
+    }
+  }
+  return changes
+}
+
 // ---------------------------------------------------------------------------
 // Watch: sync state persistence (historyId in DB)
 // ---------------------------------------------------------------------------
@@ -2305,8 +2972,12 @@ async function setLastHistoryId(account: AccountId, historyId: string): Promise<
 // Watch: history expiry detection
 // ---------------------------------------------------------------------------
 
+function httpStatus(err: any): number | undefined {
+  return err?.code ?? err?.status ?? err?.response?.status
+}
+
 function isHistoryExpired(err: any): boolean {
-  const status = err?.code ?? err?.status ?? err?.response?.status
+  const status = httpStatus(err)
   if (status === 404) return true
   if (status === 400) {
     const message = err?.message ?? err?.response?.data?.error?.message ?? ''
@@ -2314,121 +2985,3 @@ function isHistoryExpired(err: any): boolean {
   }
   return false
 }
-
-// ---------------------------------------------------------------------------
-// Watch: client-side Gmail query matching
-// ---------------------------------------------------------------------------
-// The History API doesn't support server-side query filtering, so we parse
-// common Gmail search operators and match against message metadata.
-//
-// Supported operators: from:, to:, cc:, subject:, is:unread/read/starred,
-// has:attachment, and plain text (matches subject + from).
-// Multiple terms are AND-ed together. Quoted phrases and negation supported.
-//
-// Limitations vs full Gmail search:
-// - label: not supported (labelIds are API IDs like Label_123, not names)
-// - has:attachment uses Content-Type heuristic (metadata format lacks parts)
-// - OR, {}, newer_than:, older_than:, etc. are server-only — warned & skipped
-//
-// See https://support.google.com/mail/answer/7190 for the full Gmail spec.
-// ---------------------------------------------------------------------------
-
-const SERVER_ONLY_OPERATORS = new Set([
-  'in', 'label', 'after', 'before', 'newer_than', 'older_than',
-  'filename', 'size', 'larger', 'smaller', 'deliveredto', 'rfc822msgid',
-  'list', 'category',
-])
-
-const SUPPORTED_OPERATORS = new Set([
-  'from', 'to', 'cc', 'subject', 'is', 'has',
-])
-
-interface QueryTerm {
-  operator: string | null
-  value: string
-  negated: boolean
-}
-
-const warnedOperators = new Set<string>()
-
-function matchesQuery(msg: ParsedMessage, query: string): boolean {
-  const terms = parseQueryTerms(query)
-  return terms.every((term) => matchesTerm(msg, term))
-}
-
-function parseQueryTerms(query: string): QueryTerm[] {
-  const terms: QueryTerm[] = []
-  const regex = /(-?)(?:(\w+):)?(?:"([^"]*)"|([\S]+))/gi
-  let match: RegExpExecArray | null
-
-  while ((match = regex.exec(query)) !== null) {
-    const negated = match[1] === '-'
-    const rawOperator = match[2]?.toLowerCase() ?? null
-    const value = (match[3] ?? match[4] ?? '').toLowerCase()
-    if (!value) continue
-
-    if (!rawOperator && value === 'or') continue
-
-    if (rawOperator && SERVER_ONLY_OPERATORS.has(rawOperator)) {
-      if (!warnedOperators.has(rawOperator)) {
-        warnedOperators.add(rawOperator)
-        console.error(`# --query: "${rawOperator}:" is a server-only operator (use "mail search" instead), skipping`)
-      }
-      continue
-    }
-
-    if (rawOperator && !SUPPORTED_OPERATORS.has(rawOperator)) {
-      if (!warnedOperators.has(rawOperator)) {
-        warnedOperators.add(rawOperator)
-        console.error(`# --query: unknown operator "${rawOperator}:", skipping`)
-      }
-      continue
-    }
-
-    terms.push({ operator: rawOperator, value, negated })
-  }
-
-  return terms
-}
-
-function senderMatches(sender: { name?: string; email: string }, value: string): boolean {
-  const full = `${sender.name ?? ''} ${sender.email}`.toLowerCase()
-  return full.includes(value)
-}
-
-function matchesTerm(msg: ParsedMessage, term: QueryTerm): boolean {
-  let result: boolean
-
-  switch (term.operator) {
-    case 'from':
-      result = senderMatches(msg.from, term.value)
-      break
-    case 'to':
-      result = msg.to.some((r) => senderMatches(r, term.value))
-      break
-    case 'cc':
-      result = (msg.cc ?? []).some((r) => senderMatches(r, term.value))
-      break
-    case 'subject':
-      result = msg.subject.toLowerCase().includes(term.value)
-      break
-    case 'is':
-      if (term.value === 'unread') result = msg.unread
-      else if (term.value === 'read') result = !msg.unread
-      else if (term.value === 'starred') result = msg.starred
-      else result = false
-      break
-    case 'has':
-      if (term.value === 'attachment') result = msg.mimeType.includes('multipart/mixed')
-      else result = false
-      break
-    default: {
-      const subject = msg.subject.toLowerCase()
-      const from = `${msg.from.name ?? ''} ${msg.from.email}`.toLowerCase()
-      result = subject.includes(term.value) || from.includes(term.value)
-      break
-    }
-  }
-
-  return term.negated ? !result : result
-}
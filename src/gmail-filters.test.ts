@@ -0,0 +1,51 @@
+// Tests for Gmail filter YAML and the apply plan.
+
+import { expect, test } from 'vitest'
+import { dumpFilters, filterToSpec, parseFilterFile, planFilterSync, specToFilter } from './gmail-filters.js'
+
+const labelNames = new Map([['Label_1', 'Receipts'], ['INBOX', 'INBOX']])
+
+test('round-trips filters through YAML with label names', () => {
+  const server = {
+    id: 'f1',
+    criteria: { from: 'billing@example.com', size: 5242880, sizeComparison: 'larger' },
+    action: { addLabelIds: ['Label_1'], removeLabelIds: ['INBOX'] },
+  }
+  const spec = filterToSpec(server, labelNames)
+  expect(spec).toEqual({ from: 'billing@example.com', larger_than: 5242880, add_labels: ['Receipts'], remove_labels: ['INBOX'] })
+
+  const yaml = dumpFilters([spec])
+  expect(yaml).toMatchInlineSnapshot(`
+    "- from: billing@example.com
+      larger_than: 5242880
+      add_labels: [Receipts]
+      remove_labels: [INBOX]
+    "
+  `)
+  expect(parseFilterFile(yaml)).toEqual([spec])
+  expect(specToFilter(spec, (name) => (name === 'Receipts' ? 'Label_1' : name))).toEqual({
+    criteria: server.criteria,
+    action: server.action,
+  })
+
+  expect(parseFilterFile('- from: a@example.com\n  larger_than: 5M\n  remove_labels: INBOX, UNREAD\n')).toEqual([
+    { from: 'a@example.com', larger_than: 5242880, remove_labels: ['INBOX', 'UNREAD'] },
+  ])
+  expect(parseFilterFile('- form: a@example.com\n  add_labels: [x]\n')).toMatchObject({ message: expect.stringContaining('unknown key') })
+  expect(parseFilterFile('- from: a@example.com\n')).toMatchObject({ message: expect.stringContaining('needs an action') })
+})
+
+test('plans creates and deletes by filter content', () => {
+  const keep = { from: 'News@example.com', add_labels: ['receipts'] }
+  const remote = [
+    { id: 'f1', spec: { from: 'news@example.com', add_labels: ['Receipts'] } },
+    { id: 'f2', spec: { subject: 'old', remove_labels: ['INBOX'] } },
+  ]
+  const plan = planFilterSync([keep, { query: 'has:attachment', add_labels: ['Files'] }], remote)
+  expect(plan).toEqual({
+    create: [{ query: 'has:attachment', add_labels: ['Files'] }],
+    delete: [remote[1]],
+    unchanged: 1,
+  })
+  expect(planFilterSync([keep, keep], remote.slice(0, 1)).create).toEqual([keep])
+})
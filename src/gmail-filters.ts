@@ -0,0 +1,189 @@
+// Gmail filters as YAML for `zele mail filter export/apply`, so filters can
+// live in git. A filter is written by its criteria and actions with labels
+// by name (system labels by ID: INBOX, UNREAD, STARRED, …). Gmail filters have
+// no name and can't be edited, so a filter is identified by its whole content:
+// applying a file deletes server filters missing from it and creates the
+// ones the server lacks. Pure functions; the commands live in commands/filter.ts.
+
+import yaml from 'js-yaml'
+import type { gmail_v1 } from '@googleapis/gmail'
+import { ParseError, ValidationError } from './api-utils.js'
+import { sizeInBytes } from './gmail-query.js'
+
+/** One filter in a filters.yaml file. */
+export interface FilterSpec {
+  from?: string
+  to?: string
+  subject?: string
+  /** Gmail search query the message must match ("has the words") */
+  query?: string
+  /** Gmail search query the message must not match ("doesn't have") */
+  negated_query?: string
+  has_attachment?: boolean
+  exclude_chats?: boolean
+  /** Size in bytes */
+  larger_than?: number
+  smaller_than?: number
+  add_labels?: string[]
+  remove_labels?: string[]
+  forward?: string
+}
+
+const STRING_FIELDS = ['from', 'to', 'subject', 'query', 'negated_query', 'forward'] as const
+const BOOLEAN_FIELDS = ['has_attachment', 'exclude_chats'] as const
+const NUMBER_FIELDS = ['larger_than', 'smaller_than'] as const
+const LIST_FIELDS = ['add_labels', 'remove_labels'] as const
+const FIELDS: readonly string[] = [...STRING_FIELDS, ...BOOLEAN_FIELDS, ...NUMBER_FIELDS, ...LIST_FIELDS]
+
+// ---------------------------------------------------------------------------
+// YAML
+// ---------------------------------------------------------------------------
+
+/** Read a filters file: a list of FilterSpec mappings. Unknown keys are errors, not ignored. */
+export function parseFilterFile(text: string): FilterSpec[] | ParseError | ValidationError {
+  let doc: unknown
+  try {
+    doc = yaml.load(text)
+  } catch (e) {
+    return new ParseError({ what: 'filters YAML', reason: e instanceof Error ? e.message.split('\n')[0]! : String(e) })
+  }
+  if (doc == null) return []
+  if (!Array.isArray(doc)) return new ParseError({ what: 'filters YAML', reason: 'expected a list of filters (- from: ...)' })
+
+  const specs: FilterSpec[] = []
+  for (const [i, entry] of doc.entries()) {
+    const field = (name: string) => `filter ${i + 1}${name ? ` ${name}` : ''}`
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return new ValidationError({ field: field(''), reason: 'expected a mapping' })
+    }
+    const spec: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(entry as Record<string, unknown>)) {
+      if (!FIELDS.includes(key)) return new ValidationError({ field: field(key), reason: `unknown key; use ${FIELDS.join(', ')}` })
+      if (value == null) continue
+      if ((STRING_FIELDS as readonly string[]).includes(key)) spec[key] = String(value)
+      else if ((BOOLEAN_FIELDS as readonly string[]).includes(key)) {
+        if (typeof value !== 'boolean') return new ValidationError({ field: field(key), reason: 'expected true or false' })
+        spec[key] = value
+      } else if ((NUMBER_FIELDS as readonly string[]).includes(key)) {
+        const bytes = sizeInBytes(String(value).trim())
+        if (bytes === null) return new ValidationError({ field: field(key), reason: 'expected a size in bytes or with K/M suffix' })
+        spec[key] = bytes
+      } else {
+        spec[key] = (Array.isArray(value) ? value : String(value).split(',')).map((v) => String(v).trim()).filter(Boolean)
+      }
+    }
+    const filter = spec as FilterSpec
+    if (!hasCriteria(filter)) return new ValidationError({ field: field(''), reason: 'needs at least one criterion (from, to, subject, query, …)' })
+    if (!hasAction(filter)) return new ValidationError({ field: field(''), reason: 'needs an action (add_labels, remove_labels or forward)' })
+    specs.push(filter)
+  }
+  return specs
+}
+
+export function dumpFilters(specs: FilterSpec[]): string {
+  return yaml.dump(specs, { lineWidth: Infinity, noRefs: true, quotingType: "'", sortKeys: false, flowLevel: 2 })
+}
+
+export function hasCriteria(spec: FilterSpec): boolean {
+  return Boolean(spec.from || spec.to || spec.subject || spec.query || spec.negated_query || spec.has_attachment || spec.larger_than || spec.smaller_than)
+}
+
+export function hasAction(spec: FilterSpec): boolean {
+  return Boolean(spec.add_labels?.length || spec.remove_labels?.length || spec.forward)
+}
+
+// ---------------------------------------------------------------------------
+// Conversion to and from the Gmail API
+// ---------------------------------------------------------------------------
+
+/** A server filter as a spec, with label IDs replaced by names (`labelNames`: ID → name). */
+export function filterToSpec(filter: gmail_v1.Schema$Filter, labelNames: Map<string, string>): FilterSpec {
+  const c = filter.criteria ?? {}
+  const a = filter.action ?? {}
+  const names = (ids?: string[] | null) => (ids?.length ? ids.map((id) => labelNames.get(id) ?? id) : undefined)
+  const spec: FilterSpec = {
+    from: c.from ?? undefined,
+    to: c.to ?? undefined,
+    subject: c.subject ?? undefined,
+    query: c.query ?? undefined,
+    negated_query: c.negatedQuery ?? undefined,
+    has_attachment: c.hasAttachment ?? undefined,
+    exclude_chats: c.excludeChats ?? undefined,
+    larger_than: c.size && c.sizeComparison === 'larger' ? c.size : undefined,
+    smaller_than: c.size && c.sizeComparison === 'smaller' ? c.size : undefined,
+    add_labels: names(a.addLabelIds),
+    remove_labels: names(a.removeLabelIds),
+    forward: a.forward ?? undefined,
+  }
+  return Object.fromEntries(Object.entries(spec).filter(([, v]) => v !== undefined)) as FilterSpec
+}
+
+/**
+ * The API request body for a spec. `labelId` maps a label name to its ID
+ * (resolved, and created if missing, by the caller).
+ */
+export function specToFilter(spec: FilterSpec, labelId: (name: string) => string): gmail_v1.Schema$Filter {
+  const criteria: gmail_v1.Schema$FilterCriteria = {}
+  if (spec.from) criteria.from = spec.from
+  if (spec.to) criteria.to = spec.to
+  if (spec.subject) criteria.subject = spec.subject
+  if (spec.query) criteria.query = spec.query
+  if (spec.negated_query) criteria.negatedQuery = spec.negated_query
+  if (spec.has_attachment) criteria.hasAttachment = true
+  if (spec.exclude_chats) criteria.excludeChats = true
+  if (spec.larger_than) Object.assign(criteria, { size: spec.larger_than, sizeComparison: 'larger' })
+  else if (spec.smaller_than) Object.assign(criteria, { size: spec.smaller_than, sizeComparison: 'smaller' })
+
+  const action: gmail_v1.Schema$FilterAction = {}
+  if (spec.add_labels?.length) action.addLabelIds = spec.add_labels.map(labelId)
+  if (spec.remove_labels?.length) action.removeLabelIds = spec.remove_labels.map(labelId)
+  if (spec.forward) action.forward = spec.forward
+  return { criteria, action }
+}
+
+// ---------------------------------------------------------------------------
+// Sync plan
+// ---------------------------------------------------------------------------
+
+/** Identity of a filter: its content, with label names and addresses compared case-insensitively. */
+export function filterKey(spec: FilterSpec): string {
+  const lower = (v?: string) => v?.toLowerCase()
+  const labels = (l?: string[]) => (l?.length ? [...new Set(l.map((n) => n.toLowerCase()))].sort() : undefined)
+  return JSON.stringify([
+    lower(spec.from), lower(spec.to), spec.subject, spec.query, spec.negated_query,
+    Boolean(spec.has_attachment), Boolean(spec.exclude_chats), spec.larger_than, spec.smaller_than,
+    labels(spec.add_labels), labels(spec.remove_labels), lower(spec.forward),
+  ])
+}
+
+export interface FilterPlan<T> {
+  create: FilterSpec[]
+  delete: T[]
+  unchanged: number
+}
+
+/**
+ * What to change so the server matches the file: server filters not in the
+ * file are deleted, file filters not on the server are created. A filter
+ * listed twice in the file matches at most one server filter each.
+ */
+export function planFilterSync<T extends { spec: FilterSpec }>(local: FilterSpec[], remote: T[]): FilterPlan<T> {
+  const pending = new Map<string, T[]>()
+  for (const r of remote) {
+    const key = filterKey(r.spec)
+    pending.set(key, [...(pending.get(key) ?? []), r])
+  }
+
+  const create: FilterSpec[] = []
+  let unchanged = 0
+  for (const spec of local) {
+    const matches = pending.get(filterKey(spec))
+    if (matches?.length) {
+      matches.shift()
+      unchanged++
+    } else {
+      create.push(spec)
+    }
+  }
+  return { create, delete: [...pending.values()].flat(), unchanged }
+}
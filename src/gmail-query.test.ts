@@ -0,0 +1,243 @@
+// Tests for the Gmail query parser and its IMAP / local compilers.
+
+import { expect, test, describe } from 'vitest'
+import { parseQuery, takeFolder, toImapSearch, matchesQuery, unsupportedTerms } from './gmail-query.js'
+import type { ParsedMessage } from './gmail-client.js'
+
+const now = new Date(2026, 2, 15)
+
+function message(overrides: Partial<ParsedMessage> = {}): ParsedMessage {
+  return {
+    id: 'm1',
+    threadId: 't1',
+    subject: 'Quarterly report',
+    snippet: 'Numbers attached',
+    from: { name: 'Alice Smith', email: 'alice@example.com' },
+    to: [{ email: 'bob@example.com' }],
+    cc: [{ email: 'carol@example.com' }],
+    bcc: [],
+    date: new Date(2026, 2, 10).toISOString(),
+    labelIds: ['INBOX', 'UNREAD'],
+    unread: true,
+    starred: false,
+    isDraft: false,
+    messageId: '<abc@example.com>',
+    body: '',
+    mimeType: 'text/plain',
+    textBody: 'See the spreadsheet',
+    attachments: [{ attachmentId: 'a1', filename: 'report.pdf', mimeType: 'application/pdf', size: 2048 }],
+    sizeEstimate: 3 * 1024 * 1024,
+    auth: null,
+    ...overrides,
+  }
+}
+
+describe('parseQuery', () => {
+  test('implicit AND, OR, negation and phrases', () => {
+    expect(parseQuery('from:alice "weekly sync" OR standup -is:read')).toMatchInlineSnapshot(`
+      {
+        "children": [
+          {
+            "operator": "from",
+            "phrase": false,
+            "type": "term",
+            "value": "alice",
+          },
+          {
+            "children": [
+              {
+                "operator": null,
+                "phrase": true,
+                "type": "term",
+                "value": "weekly sync",
+              },
+              {
+                "operator": null,
+                "phrase": false,
+                "type": "term",
+                "value": "standup",
+              },
+            ],
+            "type": "or",
+          },
+          {
+            "child": {
+              "operator": "is",
+              "phrase": false,
+              "type": "term",
+              "value": "read",
+            },
+            "type": "not",
+          },
+        ],
+        "type": "and",
+      }
+    `)
+  })
+
+  test('{ } groups are OR, operator groups distribute the operator', () => {
+    expect(parseQuery('{from:a from:b} subject:(x y)')).toMatchInlineSnapshot(`
+      {
+        "children": [
+          {
+            "children": [
+              {
+                "operator": "from",
+                "phrase": false,
+                "type": "term",
+                "value": "a",
+              },
+              {
+                "operator": "from",
+                "phrase": false,
+                "type": "term",
+                "value": "b",
+              },
+            ],
+            "type": "or",
+          },
+          {
+            "children": [
+              {
+                "operator": "subject",
+                "phrase": false,
+                "type": "term",
+                "value": "x",
+              },
+              {
+                "operator": "subject",
+                "phrase": false,
+                "type": "term",
+                "value": "y",
+              },
+            ],
+            "type": "and",
+          },
+        ],
+        "type": "and",
+      }
+    `)
+  })
+
+  test('stray brackets and dangling OR are ignored', () => {
+    expect(parseQuery(') foo OR')).toEqual({ type: 'term', operator: null, value: 'foo', phrase: false })
+    expect(parseQuery('')).toEqual({ type: 'and', children: [] })
+  })
+
+  test('takeFolder pulls out a top-level in:', () => {
+    const { folder, rest } = takeFolder(parseQuery('in:sent from:bob'))
+    expect(folder).toBe('sent')
+    expect(rest).toEqual({ type: 'term', operator: 'from', value: 'bob', phrase: false })
+  })
+})
+
+describe('toImapSearch', () => {
+  test('compiles OR, NOT and operators', () => {
+    expect(toImapSearch(parseQuery('{from:alice cc:bob} -subject:"daily digest" larger:5M is:unread'), now))
+      .toMatchInlineSnapshot(`
+        {
+          "larger": 5242880,
+          "not": {
+            "subject": "daily digest",
+          },
+          "or": [
+            {
+              "from": "alice",
+            },
+            {
+              "cc": "bob",
+            },
+          ],
+          "seen": false,
+        }
+      `)
+  })
+
+  test('repeated keys are AND-ed through De Morgan', () => {
+    expect(toImapSearch(parseQuery('from:alice from:smith'), now)).toMatchInlineSnapshot(`
+      {
+        "not": {
+          "or": [
+            {
+              "not": {
+                "from": "alice",
+              },
+            },
+            {
+              "not": {
+                "from": "smith",
+              },
+            },
+          ],
+        },
+      }
+    `)
+  })
+
+  test('dates', () => {
+    expect(toImapSearch(parseQuery('newer_than:7d before:2026/03/01'), now)).toEqual({
+      since: new Date(2026, 2, 8),
+      before: new Date(2026, 2, 1),
+    })
+    expect(toImapSearch(parseQuery(''), now)).toEqual({ all: true })
+  })
+
+  test('unsupported operators and bad values are errors', () => {
+    expect(String(toImapSearch(parseQuery('category:social'), now))).toMatchInlineSnapshot(
+      `"ValidationError: Invalid query: "category:social" is not supported with IMAP accounts"`,
+    )
+    expect(String(toImapSearch(parseQuery('newer_than:soon'), now))).toMatchInlineSnapshot(
+      `"ValidationError: Invalid query: can't read "soon" in newer_than:"`,
+    )
+  })
+})
+
+describe('matchesQuery', () => {
+  const matches = (query: string, overrides?: Partial<ParsedMessage>) =>
+    matchesQuery(message(overrides), parseQuery(query), now)
+
+  test('senders, subject and free text', () => {
+    expect(matches('from:alice')).toBe(true)
+    expect(matches('cc:carol subject:quarterly')).toBe(true)
+    expect(matches('spreadsheet')).toBe(true)
+    expect(matches('from:bob')).toBe(false)
+  })
+
+  test('OR, groups and negation', () => {
+    expect(matches('from:bob OR from:alice')).toBe(true)
+    expect(matches('{from:bob to:dave}')).toBe(false)
+    expect(matches('-is:unread')).toBe(false)
+    expect(matches('report -(from:bob subject:report)')).toBe(true)
+  })
+
+  test('labels, attachments, size and dates', () => {
+    expect(matches('in:inbox label:unread')).toBe(true)
+    expect(matches('has:attachment filename:pdf')).toBe(true)
+    expect(matches('larger:1M smaller:5M')).toBe(true)
+    expect(matches('larger:10M')).toBe(false)
+    expect(matches('newer_than:7d after:2026/03/01')).toBe(true)
+    expect(matches('older_than:2d', { date: new Date(2026, 2, 14).toISOString() })).toBe(false)
+  })
+
+  test('terms it cannot check are listed and ignored', () => {
+    const query = parseQuery('from:alice is:muted OR has:drive -deliveredto:me is:muted larger:lots')
+    expect(unsupportedTerms(query, now)).toEqual([
+      '"is:" value "muted" isn\'t supported locally',
+      '"has:" value "drive" isn\'t supported locally',
+      '"deliveredto:" is not supported locally',
+      '"larger:" value "lots" isn\'t a size',
+    ])
+    expect(unsupportedTerms(parseQuery('from:alice newer_than:7d has:attachment'), now)).toEqual([])
+    expect(matches('from:alice is:muted larger:lots')).toBe(true)
+    expect(matches('larger:10M', { sizeEstimate: undefined })).toBe(true)
+  })
+
+  test('negated terms it cannot check are left out, not inverted', () => {
+    expect(matches('-is:muted from:alice')).toBe(true)
+    expect(matches('-is:muted from:bob')).toBe(false)
+    expect(matches('-is:muted')).toBe(true)
+    expect(matches('-in:anywhere spreadsheet')).toBe(true)
+    expect(matches('-larger:10M from:alice', { sizeEstimate: undefined })).toBe(true)
+    expect(matches('from:bob OR -deliveredto:me')).toBe(false)
+  })
+})
@@ -0,0 +1,474 @@
+// Gmail search query language, shared by every client.
+// parseQuery() turns a Gmail-style query (https://support.google.com/mail/answer/7190)
+// into an AST with implicit AND, OR / `|`, `{ }` OR-groups, `( )` groups,
+// -negation, "quoted phrases" and operator groups like from:(a OR b).
+// The AST is compiled to IMAP SEARCH criteria (toImapSearch), to a local
+// message matcher for watch filters (matchesQuery) and to FTS5 MATCH syntax
+// for `mail search --local` (search-index.ts).
+// Pure functions only — no network, no client access.
+
+import type { SearchObject } from 'imapflow'
+import { ValidationError } from './api-utils.js'
+import type { ParsedMessage, Sender } from './gmail-client.js'
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | QueryTerm
+
+export interface QueryTerm {
+  type: 'term'
+  /** Lowercase operator ("from", "is", ...), or null for free text. */
+  operator: string | null
+  value: string
+  /** Written as a "quoted phrase": matched as is, never as a prefix. */
+  phrase: boolean
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { kind: '(' | ')' | '{' | '}' | '-' | 'OR' | 'AND' }
+  /** "from:" directly followed by a ( or { group */
+  | { kind: 'op'; operator: string }
+  | { kind: 'term'; operator: string | null; value: string; phrase: boolean }
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < query.length) {
+    const ch = query[i]!
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+    if (ch === '(' || ch === ')' || ch === '{' || ch === '}') {
+      tokens.push({ kind: ch })
+      i++
+      continue
+    }
+    if (ch === '-' && i + 1 < query.length && !/[\s)}]/.test(query[i + 1]!)) {
+      tokens.push({ kind: '-' })
+      i++
+      continue
+    }
+
+    const opMatch = query.slice(i).match(/^([a-z_]+):/i)
+    const operator = opMatch ? opMatch[1]!.toLowerCase() : null
+    const start = i + (opMatch?.[0].length ?? 0)
+    if (operator && (query[start] === '(' || query[start] === '{')) {
+      tokens.push({ kind: 'op', operator })
+      i = start
+      continue
+    }
+    if (query[start] === '"') {
+      const end = query.indexOf('"', start + 1)
+      const close = end === -1 ? query.length : end
+      const value = query.slice(start + 1, close)
+      if (value) tokens.push({ kind: 'term', operator, value, phrase: true })
+      i = close + 1
+      continue
+    }
+
+    const word = query.slice(start).match(/^[^\s(){}"]+/)?.[0] ?? ''
+    i = start + word.length
+    if (!operator && (word === 'OR' || word === '|')) tokens.push({ kind: 'OR' })
+    else if (!operator && word === 'AND') tokens.push({ kind: 'AND' })
+    else if (word) tokens.push({ kind: 'term', operator, value: word, phrase: false })
+  }
+  return tokens
+}
+
+function group(type: 'and' | 'or', children: QueryNode[]): QueryNode {
+  if (children.length === 1) return children[0]!
+  // An empty group matches everything, whatever its type
+  return { type: children.length === 0 ? 'and' : type, children }
+}
+
+/** Parse a Gmail-style query. Never fails: stray operators and brackets are ignored. */
+export function parseQuery(query: string): QueryNode {
+  const tokens = tokenize(query)
+  let pos = 0
+
+  // Terms until `close` (or the end), implicitly AND-ed
+  const parseSequence = (operator: string | null, close: ')' | '}' | null): QueryNode[] => {
+    const nodes: QueryNode[] = []
+    while (pos < tokens.length) {
+      const token = tokens[pos]!
+      if (token.kind === close) break
+      if (token.kind === ')' || token.kind === '}' || token.kind === 'OR' || token.kind === 'AND') {
+        pos++
+        continue
+      }
+      nodes.push(parseOr(operator))
+    }
+    return nodes
+  }
+
+  const parseOr = (operator: string | null): QueryNode => {
+    const children = [parseUnary(operator)]
+    while (tokens[pos]?.kind === 'OR') {
+      const next = tokens[pos + 1]
+      if (!next || next.kind === ')' || next.kind === '}' || next.kind === 'OR' || next.kind === 'AND') break
+      pos++
+      children.push(parseUnary(operator))
+    }
+    return group('or', children)
+  }
+
+  const parseUnary = (operator: string | null): QueryNode => {
+    if (tokens[pos]?.kind === '-') {
+      pos++
+      if (pos >= tokens.length) return group('and', [])
+      return { type: 'not', child: parseUnary(operator) }
+    }
+    return parsePrimary(operator)
+  }
+
+  const parsePrimary = (operator: string | null): QueryNode => {
+    const token = tokens[pos++]!
+    switch (token.kind) {
+      case 'term':
+        return { type: 'term', operator: token.operator ?? operator, value: token.value, phrase: token.phrase }
+      case 'op':
+        return pos < tokens.length ? parsePrimary(token.operator) : group('and', [])
+      case '(':
+      case '{': {
+        const close = token.kind === '(' ? ')' : '}'
+        const nodes = parseSequence(operator, close)
+        if (tokens[pos]?.kind === close) pos++
+        return group(close === ')' ? 'and' : 'or', nodes)
+      }
+      default:
+        return group('and', [])
+    }
+  }
+
+  return group('and', parseSequence(null, null))
+}
+
+/**
+ * Pull a top-level `in:` term out of a query. IMAP searches one mailbox at a
+ * time, so `in:sent` selects the folder instead of being a SEARCH key.
+ */
+export function takeFolder(node: QueryNode): { folder: string | null; rest: QueryNode } {
+  const isIn = (n: QueryNode): n is QueryTerm => n.type === 'term' && n.operator === 'in'
+  if (isIn(node)) return { folder: node.value, rest: group('and', []) }
+  if (node.type !== 'and') return { folder: null, rest: node }
+  const found = node.children.find(isIn)
+  if (!found) return { folder: null, rest: node }
+  return { folder: found.value, rest: group('and', node.children.filter((c) => c !== found)) }
+}
+
+// ---------------------------------------------------------------------------
+// Operator values
+// ---------------------------------------------------------------------------
+
+const RELATIVE_UNITS: Record<string, (date: Date, n: number) => void> = {
+  d: (date, n) => date.setDate(date.getDate() - n),
+  m: (date, n) => date.setMonth(date.getMonth() - n),
+  y: (date, n) => date.setFullYear(date.getFullYear() - n),
+}
+
+/** newer_than:/older_than: value ("7d", "2m", "1y") → the date that far back. */
+function relativeDate(value: string, now: Date): Date | null {
+  const match = value.match(/^(\d+)([dmy])$/i)
+  if (!match) return null
+  const date = new Date(now)
+  RELATIVE_UNITS[match[2]!.toLowerCase()]!(date, Number(match[1]))
+  return date
+}
+
+/** after:/before: value: YYYY/MM/DD, YYYY-MM-DD or epoch seconds. */
+function absoluteDate(value: string): Date | null {
+  if (/^\d{9,}$/.test(value)) return new Date(Number(value) * 1000)
+  const match = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/)
+  if (!match) return null
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+}
+
+/** larger:/smaller:/size: value ("5M", "100K", "2000") → bytes. */
+export function sizeInBytes(value: string): number | null {
+  const match = value.match(/^(\d+(?:\.\d+)?)([kmg]?)b?$/i)
+  if (!match) return null
+  const multiplier = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[match[2]!.toLowerCase() as '' | 'k' | 'm' | 'g']
+  return Math.round(Number(match[1]) * multiplier)
+}
+
+const DATE_OPERATORS = new Set(['newer_than', 'older_than', 'after', 'before'])
+
+function termDate(term: QueryTerm, now: Date): Date | null {
+  return term.operator === 'newer_than' || term.operator === 'older_than'
+    ? relativeDate(term.value, now)
+    : absoluteDate(term.value)
+}
+
+function invalidValue(term: QueryTerm): ValidationError {
+  return new ValidationError({ field: 'query', reason: `can't read "${term.value}" in ${term.operator}:` })
+}
+
+// ---------------------------------------------------------------------------
+// IMAP SEARCH
+// ---------------------------------------------------------------------------
+
+/** AND two criteria. Each key can appear once per object, so clashing keys
+ *  (e.g. two from: terms) are combined as NOT (NOT a OR NOT b). */
+export function andSearch(a: SearchObject, b: SearchObject): SearchObject {
+  if (Object.keys(b).every((key) => !(key in a))) return { ...a, ...b }
+  return { not: { or: [{ not: a }, { not: b }] } }
+}
+
+/**
+ * Compile a query to imapflow SEARCH criteria (NOT / OR keys for negation
+ * and alternatives). Free text searches TEXT (headers and body); `in:` must
+ * be taken out first with takeFolder(). Operators IMAP can't express return
+ * a ValidationError.
+ */
+export function toImapSearch(node: QueryNode, now = new Date()): SearchObject | ValidationError {
+  switch (node.type) {
+    case 'and': {
+      let criteria: SearchObject = {}
+      for (const child of node.children) {
+        const compiled = toImapSearch(child, now)
+        if (compiled instanceof Error) return compiled
+        criteria = andSearch(criteria, compiled)
+      }
+      return Object.keys(criteria).length > 0 ? criteria : { all: true }
+    }
+    case 'or': {
+      const children: SearchObject[] = []
+      for (const child of node.children) {
+        const compiled = toImapSearch(child, now)
+        if (compiled instanceof Error) return compiled
+        children.push(compiled)
+      }
+      return { or: children }
+    }
+    case 'not': {
+      const child = toImapSearch(node.child, now)
+      if (child instanceof Error) return child
+      return { not: child }
+    }
+    case 'term':
+      return imapTerm(node, now)
+  }
+}
+
+function imapTerm(term: QueryTerm, now: Date): SearchObject | ValidationError {
+  const value = term.value
+  const lower = value.toLowerCase()
+  switch (term.operator) {
+    case null:
+      return { text: value }
+    case 'from':
+    case 'to':
+    case 'cc':
+    case 'bcc':
+    case 'subject':
+      return { [term.operator]: value }
+    case 'is':
+      if (lower === 'unread') return { seen: false }
+      if (lower === 'read') return { seen: true }
+      if (lower === 'starred') return { flagged: true }
+      break
+    case 'has':
+      if (lower === 'attachment') return { header: { 'content-type': 'multipart/mixed' } }
+      break
+    case 'label':
+      // IMAP keywords are the closest thing to labels
+      return { keyword: value }
+    case 'filename':
+      // Best effort: attachment names live in MIME part headers, which BODY covers on most servers
+      return { body: value }
+    case 'rfc822msgid':
+      return { header: { 'message-id': value } }
+    case 'larger':
+    case 'size':
+    case 'smaller': {
+      const bytes = sizeInBytes(value)
+      if (bytes === null) return invalidValue(term)
+      return term.operator === 'smaller' ? { smaller: bytes } : { larger: bytes }
+    }
+    case 'newer_than':
+    case 'older_than':
+    case 'after':
+    case 'before': {
+      const date = termDate(term, now)
+      if (!date) return invalidValue(term)
+      return term.operator === 'newer_than' || term.operator === 'after' ? { since: date } : { before: date }
+    }
+    case 'in':
+      return new ValidationError({ field: 'query', reason: 'in: can only be used once, outside OR groups and negation, with IMAP accounts' })
+  }
+  return new ValidationError({ field: 'query', reason: `"${term.operator}:${value}" is not supported with IMAP accounts` })
+}
+
+// ---------------------------------------------------------------------------
+// Local matching (watch filters)
+// ---------------------------------------------------------------------------
+
+/** Gmail system labels that `in:` / `is:` names map to. */
+const IN_LABELS: Record<string, string> = {
+  inbox: 'INBOX',
+  sent: 'SENT',
+  trash: 'TRASH',
+  spam: 'SPAM',
+  drafts: 'DRAFT',
+  draft: 'DRAFT',
+  starred: 'STARRED',
+  important: 'IMPORTANT',
+}
+
+const LOCAL_IS_VALUES = new Set(['unread', 'read', 'starred', 'draft', 'important'])
+
+/** Why matchesQuery() can't check `term` (it is then left out), or null when it can. */
+function skipReason(term: QueryTerm, now: Date): string | null {
+  switch (term.operator) {
+    case null:
+    case 'from':
+    case 'to':
+    case 'cc':
+    case 'bcc':
+    case 'subject':
+    case 'in':
+    case 'label':
+    case 'category':
+    case 'filename':
+    case 'rfc822msgid':
+      return null
+    case 'is':
+      return LOCAL_IS_VALUES.has(term.value.toLowerCase()) ? null : `value "${term.value}" isn't supported locally`
+    case 'has':
+      return term.value.toLowerCase() === 'attachment' ? null : `value "${term.value}" isn't supported locally`
+    case 'larger':
+    case 'size':
+    case 'smaller':
+      return sizeInBytes(term.value) === null ? `value "${term.value}" isn't a size` : null
+  }
+  if (term.operator && DATE_OPERATORS.has(term.operator)) {
+    return termDate(term, now) ? null : `value "${term.value}" isn't a date`
+  }
+  return 'is not supported locally'
+}
+
+/**
+ * The terms of `node` that matchesQuery() ignores, as `"operator:" reason`
+ * lines (one per distinct problem), for commands to show as hints.
+ */
+export function unsupportedTerms(node: QueryNode, now = new Date()): string[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return [...new Set(node.children.flatMap((child) => unsupportedTerms(child, now)))]
+    case 'not':
+      return unsupportedTerms(node.child, now)
+    case 'term': {
+      const reason = skipReason(node, now)
+      return reason ? [`"${node.operator}:" ${reason}`] : []
+    }
+  }
+}
+
+function senderMatches(sender: Sender, value: string): boolean {
+  return `${sender.name ?? ''} ${sender.email}`.toLowerCase().includes(value)
+}
+
+/** Label ids and names compare like Gmail does: case-insensitive, spaces and slashes as dashes. */
+function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/[\s/]+/g, '-')
+}
+
+/**
+ * Match a message against a parsed query without the server. Used by
+ * `mail watch --filter`, since the History API and IDLE can't filter.
+ * Free text matches subject, senders, recipients, snippet and text body.
+ * Terms it can't check (see unsupportedTerms), in:anywhere and size terms
+ * on messages without a known size are left out, negated or not.
+ */
+export function matchesQuery(msg: ParsedMessage, node: QueryNode, now = new Date()): boolean {
+  return matchNode(msg, node, now) ?? true
+}
+
+/** Whether `msg` matches `node`, or null when nothing in it could be checked. */
+function matchNode(msg: ParsedMessage, node: QueryNode, now: Date): boolean | null {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const results = node.children.map((child) => matchNode(msg, child, now)).filter((r) => r !== null)
+      if (results.length === 0) return null
+      return node.type === 'and' ? results.every(Boolean) : results.some(Boolean)
+    }
+    case 'not': {
+      const result = matchNode(msg, node.child, now)
+      return result === null ? null : !result
+    }
+    case 'term':
+      return matchesTerm(msg, node, now)
+  }
+}
+
+function matchesTerm(msg: ParsedMessage, term: QueryTerm, now: Date): boolean | null {
+  if (skipReason(term, now)) return null
+  const value = term.value.toLowerCase()
+  switch (term.operator) {
+    case null: {
+      const text = [
+        msg.subject,
+        msg.snippet,
+        ...[msg.from, ...msg.to, ...(msg.cc ?? []), ...msg.bcc].map((s) => `${s.name ?? ''} ${s.email}`),
+        msg.textBody ?? '',
+      ].join('\n').toLowerCase()
+      return text.includes(value)
+    }
+    case 'from':
+      return senderMatches(msg.from, value)
+    case 'to':
+      return msg.to.some((s) => senderMatches(s, value))
+    case 'cc':
+      return (msg.cc ?? []).some((s) => senderMatches(s, value))
+    case 'bcc':
+      return msg.bcc.some((s) => senderMatches(s, value))
+    case 'subject':
+      return msg.subject.toLowerCase().includes(value)
+    case 'is':
+      if (value === 'unread') return msg.unread
+      if (value === 'read') return !msg.unread
+      if (value === 'starred') return msg.starred
+      if (value === 'draft') return msg.isDraft
+      return msg.labelIds.includes('IMPORTANT')
+    case 'has':
+      return msg.attachments.length > 0 || msg.mimeType.includes('multipart/mixed')
+    case 'in':
+      if (value === 'anywhere') return null
+      return msg.labelIds.some((id) => normalizeLabel(id) === normalizeLabel(IN_LABELS[value] ?? value))
+    case 'label':
+      return msg.labelIds.some((id) => normalizeLabel(id) === normalizeLabel(value))
+    case 'category': {
+      const label = value === 'primary' ? 'CATEGORY_PERSONAL' : `CATEGORY_${value.toUpperCase()}`
+      return msg.labelIds.includes(label)
+    }
+    case 'filename':
+      return msg.attachments.some((a) => a.filename.toLowerCase().includes(value))
+    case 'rfc822msgid':
+      return msg.messageId.toLowerCase().includes(value)
+    case 'larger':
+    case 'size':
+    case 'smaller': {
+      const bytes = sizeInBytes(term.value)!
+      if (msg.sizeEstimate === undefined) return null
+      return term.operator === 'smaller' ? msg.sizeEstimate < bytes : msg.sizeEstimate > bytes
+    }
+  }
+  if (term.operator && DATE_OPERATORS.has(term.operator)) {
+    const date = termDate(term, now)!
+    const time = Date.parse(msg.date)
+    if (Number.isNaN(time)) return false
+    return term.operator === 'newer_than' || term.operator === 'after'
+      ? time >= date.getTime()
+      : time < date.getTime()
+  }
+  return null
+}
@@ -0,0 +1,386 @@
+// Tests for ImapSmtpClient behavior that needs no server: sending composed
+// messages through a nodemailer stream transport, which keeps the bytes it "sent",
+// and folder management against a scripted IMAP connection and an in-memory mirror.
+
+import { expect, test, vi } from 'vitest'
+import nodemailer from 'nodemailer'
+import { ImapSmtpClient } from './imap-smtp-client.js'
+
+/** In-memory MirrorMessage and SyncState tables, behind the subset of Prisma the mirror uses. */
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>
+  type Where = Record<string, any>
+  const matches = (row: Row, where: Where = {}): boolean =>
+    Object.entries(where).every(([key, cond]) => {
+      if (key === 'OR') return (cond as Where[]).some((w) => matches(row, w))
+      if (key === 'AND') return (cond as Where[]).every((w) => matches(row, w))
+      if (cond !== null && typeof cond === 'object') {
+        if ('in' in cond) return cond.in.includes(row[key])
+        if ('startsWith' in cond) return String(row[key]).startsWith(cond.startsWith)
+        return matches(row, cond) // compound unique key, e.g. email_appId_folder_uid
+      }
+      return row[key] === cond
+    })
+  const table = () => {
+    const t = {
+      rows: [] as Row[],
+      findMany: async ({ where }: { where?: Where } = {}) => t.rows.filter((r) => matches(r, where)),
+      findUnique: async ({ where }: { where: Where }) => t.rows.find((r) => matches(r, where)) ?? null,
+      deleteMany: async ({ where }: { where?: Where } = {}) => {
+        const before = t.rows.length
+        t.rows = t.rows.filter((r) => !matches(r, where))
+        return { count: before - t.rows.length }
+      },
+      updateMany: async ({ where, data }: { where: Where; data: Row }) => {
+        const hits = t.rows.filter((r) => matches(r, where))
+        for (const r of hits) Object.assign(r, data)
+        return { count: hits.length }
+      },
+      upsert: async ({ where, create, update }: { where: Where; create: Row; update: Row }) => {
+        const row = t.rows.find((r) => matches(r, where))
+        if (row) Object.assign(row, update)
+        else t.rows.push({ ...create })
+      },
+    }
+    return t
+  }
+  const prisma = { mirrorMessage: table(), syncState: table() }
+  return {
+    prisma,
+    reset() {
+      prisma.mirrorMessage.rows = []
+      prisma.syncState.rows = []
+    },
+  }
+})
+vi.mock('./db.js', () => ({ getPrisma: async () => db.prisma }))
+
+const account = { email: 'me@example.com', appId: 'imap' }
+
+function smtpOnlyClient() {
+  const client = new ImapSmtpClient({
+    credentials: { smtp: { host: 'smtp.example.com', port: 465, tls: true, user: 'me', password: 'x' } },
+    account,
+  })
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true })
+  ;(client as any).smtpTransporter = transporter
+  return client
+}
+
+test('sendRaw returns the Message-ID of the message it sent', async () => {
+  const client = smtpOnlyClient()
+  const raw = 'From: me@example.com\r\nTo: bob@example.com\r\nMessage-ID: <real@x.com>\r\nSubject: hi\r\n\r\nhello\r\n'
+  const sent = await client.sendRaw({ raw: Buffer.from(raw), recipients: ['bob@example.com'] })
+  if (sent instanceof Error) throw sent
+  expect(sent.id).toBe('<real@x.com>')
+
+  const bare = await client.sendRaw({ raw: Buffer.from('From: me@example.com\r\nSubject: hi\r\n\r\nhello\r\n'), recipients: ['bob@example.com'] })
+  if (bare instanceof Error) throw bare
+  expect(bare.id).toMatch(/^<[0-9a-f-]+@example\.com>$/)
+})
+
+test('sendRaw sends 8-bit messages byte for byte', async () => {
+  const client = smtpOnlyClient()
+  const sentBytes: Buffer[] = []
+  const transporter = (client as any).smtpTransporter
+  const sendMail = transporter.sendMail.bind(transporter)
+  transporter.sendMail = async (mail: any) => {
+    const info = await sendMail(mail)
+    sentBytes.push(info.message)
+    return info
+  }
+
+  const raw = Buffer.concat([
+    Buffer.from('From: me@example.com\r\nBcc: eve@example.com\r\nSubject: hi\r\nContent-Type: text/plain; charset=iso-8859-1\r\n\r\n'),
+    Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x0d, 0x0a]),
+  ])
+  const sent = await client.sendRaw({ raw, recipients: ['bob@example.com', 'eve@example.com'] })
+  if (sent instanceof Error) throw sent
+  const message = sentBytes[0]!
+  expect(message.subarray(-6)).toEqual(Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x0d, 0x0a]))
+  expect(message.toString('latin1')).not.toContain('Bcc:')
+})
+
+/** A client whose IMAP connections are `imap` (or each a new one from it), a stand-in for the ImapFlow calls under test. */
+function scriptedImapClient(imap: Record<string, unknown> | (() => Record<string, unknown>)) {
+  const client = new ImapSmtpClient({
+    credentials: { imap: { host: 'imap.example.com', port: 993, tls: true, user: 'me', password: 'x' } },
+    account,
+  })
+  ;(client as any).createImapClient = () =>
+    typeof imap === 'function' ? imap() : Object.assign(imap, { connect: async () => {}, logout: async () => {} })
+  return client
+}
+
+const mailboxes = [
+  { path: 'INBOX', delimiter: '/', flags: new Set<string>() },
+  { path: 'Sent', delimiter: '/', flags: new Set<string>(), specialUse: '\\Sent' },
+  { path: 'Work', delimiter: '/', flags: new Set<string>() },
+  { path: 'Work/2024', delimiter: '/', flags: new Set<string>() },
+]
+
+test('deleteFolder refuses INBOX and special-use mailboxes', async () => {
+  const deleted: string[] = []
+  const client = scriptedImapClient({ list: async () => mailboxes, mailboxDelete: async (path: string) => { deleted.push(path) } })
+
+  expect(await client.deleteFolder({ path: 'inbox' })).toBeInstanceOf(Error)
+  const sent = await client.deleteFolder({ path: 'sent' })
+  expect(sent).toBeInstanceOf(Error)
+  expect((sent as Error).message).toContain('\\Sent')
+  expect(await client.deleteFolder({ path: 'Nope' })).toBeInstanceOf(Error)
+  expect(deleted).toEqual([])
+})
+
+test('renameFolder refuses INBOX', async () => {
+  const client = scriptedImapClient({ list: async () => mailboxes, mailboxRename: async () => { throw new Error('renamed') } })
+  expect(await client.renameFolder({ from: 'INBOX', to: 'Old' })).toBeInstanceOf(Error)
+})
+
+test('deleting or renaming a folder drops it and its children from the mirror', async () => {
+  const client = scriptedImapClient({
+    list: async () => mailboxes,
+    mailboxDelete: async () => {},
+    mailboxRename: async (path: string, newPath: string) => ({ path, newPath }),
+  })
+  const seed = () => {
+    db.reset()
+    for (const folder of ['INBOX', 'Work', 'Work/2024', 'Workshop']) {
+      db.prisma.mirrorMessage.rows.push({ ...account, folder, uid: 1 })
+      db.prisma.syncState.rows.push({ ...account, key: `mirror:${folder}`, value: '{}' })
+    }
+  }
+  const folders = () => db.prisma.mirrorMessage.rows.map((r) => r.folder)
+  const keys = () => db.prisma.syncState.rows.map((r) => r.key)
+
+  seed()
+  expect(await client.deleteFolder({ path: 'Work' })).toEqual({ path: 'Work' })
+  expect(folders()).toEqual(['INBOX', 'Workshop'])
+  expect(keys()).toEqual(['mirror:INBOX', 'mirror:Workshop'])
+
+  seed()
+  expect(await client.renameFolder({ from: 'Work', to: 'Jobs' })).toEqual({ from: 'Work', to: 'Jobs' })
+  expect(folders()).toEqual(['INBOX', 'Workshop'])
+})
+
+// ---------------------------------------------------------------------------
+// Mirror sync
+// ---------------------------------------------------------------------------
+
+interface ServerMessage {
+  uid: number
+  messageId: string
+  inReplyTo?: string
+  subject: string
+  date: string
+}
+
+/** A scripted IMAP server: mailboxes with UIDVALIDITY and messages, enough for syncMirror(). */
+function mirrorServer(boxes: Record<string, { uidValidity: number; specialUse?: string; messages: ServerMessage[] }>) {
+  const inRange = (range: string, uid: number) =>
+    range.split(',').some((part) => {
+      const [lo, hi = lo] = part.split(':')
+      return uid >= Number(lo) && (hi === '*' || uid <= Number(hi))
+    })
+  const toFetched = (m: ServerMessage) => ({
+    uid: m.uid,
+    flags: new Set<string>(),
+    envelope: { messageId: m.messageId, inReplyTo: m.inReplyTo, subject: m.subject, date: new Date(m.date), from: [{ address: 'ann@example.com' }] },
+    source: Buffer.from(`Message-ID: ${m.messageId}\r\n${m.inReplyTo ? `References: ${m.inReplyTo}\r\n` : ''}Subject: ${m.subject}\r\n\r\nhi\r\n`),
+  })
+  const imap: Record<string, any> = {
+    mailbox: null,
+    enabled: new Set<string>(),
+    on: () => {},
+    off: () => {},
+    list: async () => Object.entries(boxes).map(([path, box]) => ({ path, delimiter: '/', flags: new Set<string>(), specialUse: box.specialUse })),
+    getMailboxLock: async (path: string) => {
+      const box = boxes[path]!
+      imap.selected = box
+      imap.mailbox = { path, uidValidity: BigInt(box.uidValidity), uidNext: Math.max(0, ...box.messages.map((m) => m.uid)) + 1 }
+      return { release: () => {} }
+    },
+    search: async ({ uid }: { uid: string }) => imap.selected.messages.map((m: ServerMessage) => m.uid).filter((u: number) => inRange(uid, u)),
+    fetch: async function* (range: string) {
+      for (const m of imap.selected.messages as ServerMessage[]) if (inRange(range, m.uid)) yield toFetched(m)
+    },
+  }
+  return imap
+}
+
+test('sync threads a Sent reply into its inbox conversation', async () => {
+  db.reset()
+  const client = scriptedImapClient(mirrorServer({
+    INBOX: { uidValidity: 1, messages: [{ uid: 1, messageId: '<plan@x.com>', subject: 'Plan', date: '2024-03-01T10:00:00Z' }] },
+    Sent: { uidValidity: 1, specialUse: '\\Sent', messages: [{ uid: 7, messageId: '<re@x.com>', inReplyTo: '<plan@x.com>', subject: 'Re: Plan', date: '2024-03-01T11:00:00Z' }] },
+  }))
+
+  expect(await client.syncMirror()).toEqual({ mode: 'full', updated: 2, removed: 0 })
+  const listed = await client.listThreads({ folder: 'inbox' })
+  if (listed instanceof Error) throw listed
+  expect(listed.threads.map((t) => [t.subject, t.messageCount])).toEqual([['Plan', 2]])
+})
+
+test('sync refetches a folder whose UIDVALIDITY changed', async () => {
+  db.reset()
+  const boxes = {
+    INBOX: { uidValidity: 1, messages: [{ uid: 1, messageId: '<a@x.com>', subject: 'A', date: '2024-03-01T10:00:00Z' }] },
+  }
+  const client = scriptedImapClient(mirrorServer(boxes))
+  expect(await client.syncMirror()).toEqual({ mode: 'full', updated: 1, removed: 0 })
+  // Without CONDSTORE the flags of stored messages are re-read every pass
+  expect(await client.syncMirror()).toEqual({ mode: 'incremental', updated: 1, removed: 0 })
+
+  // The server renumbered its UIDs
+  boxes.INBOX = { uidValidity: 2, messages: [{ uid: 40, messageId: '<a@x.com>', subject: 'A', date: '2024-03-01T10:00:00Z' }] }
+  expect(await client.syncMirror()).toEqual({ mode: 'full', updated: 1, removed: 1 })
+  expect(db.prisma.mirrorMessage.rows.map((r) => [r.folder, r.uid])).toEqual([['INBOX', 40]])
+  const cursor = db.prisma.syncState.rows.find((r) => r.key === 'mirror:INBOX')!
+  expect(JSON.parse(cursor.value)).toEqual({ uidValidity: '2', highestModseq: '', lastUid: 40 })
+})
+
+// ---------------------------------------------------------------------------
+// Watch
+// ---------------------------------------------------------------------------
+
+test('watch reads only changed flags when the server has CONDSTORE', async () => {
+  const fetches: Array<[string, Record<string, unknown> | undefined]> = []
+  let modseq = 10n
+  let present = [1, 2, 3]
+  let locks = 0
+  const imap: Record<string, any> = {
+    capabilities: new Set<string>(),
+    get mailbox() { return { path: 'INBOX', highestModseq: modseq } },
+    list: async () => mailboxes,
+    getMailboxLock: async () => {
+      // Between the seed and the first poll, uid 3 is expunged and uid 2 marked read
+      if (++locks === 2) {
+        present = [1, 2]
+        modseq = 12n
+      }
+      return { release: () => {} }
+    },
+    search: async ({ all, uid }: { all?: boolean; uid?: string }) =>
+      all ? present : present.filter((u) => u >= Number(uid!.split(':')[0])),
+    fetch: async function* (range: string, query: Record<string, unknown>, options?: Record<string, unknown>) {
+      fetches.push([range, options?.changedSince !== undefined ? { changedSince: options.changedSince } : undefined])
+      if (options?.changedSince !== undefined) {
+        yield { uid: 2, flags: new Set(['\\Seen']), modseq: 12n }
+      } else if (query.envelope) {
+        for (const uid of range.split(',').map(Number)) yield { uid, flags: new Set(['\\Seen']), envelope: { subject: `m${uid}`, date: new Date() } }
+      } else {
+        for (const uid of present) yield { uid, flags: new Set<string>() }
+      }
+    },
+  }
+  const client = scriptedImapClient(imap)
+
+  const events = []
+  for await (const event of client.watchInbox({ once: true, events: ['marked_read', 'flag_changed', 'message_deleted'] })) events.push(event)
+
+  expect(events.map((e) => [e.type, e.messageId])).toEqual([
+    ['message_deleted', 'INBOX:3'],
+    ['marked_read', 'INBOX:2'],
+  ])
+  expect(fetches).toEqual([
+    ['1:3', undefined],
+    ['1:3', { changedSince: 10n }],
+    ['2', undefined],
+  ])
+})
+
+/** An INBOX whose messages are `uids`, reachable over any number of connections, which it records. */
+function watchServer({ idle }: { idle: boolean }) {
+  const server = { uids: [1], connections: [] as Array<Record<string, any>> }
+  const connect = () => {
+    const handlers = new Map<string, Array<() => void>>()
+    const conn: Record<string, any> = {
+      capabilities: new Set(idle ? ['IDLE'] : []),
+      mailbox: { path: 'INBOX' },
+      opened: false,
+      loggedOut: false,
+      on: (event: string, fn: () => void) => handlers.set(event, [...(handlers.get(event) ?? []), fn]),
+      emit: (event: string) => handlers.get(event)?.forEach((fn) => fn()),
+      connect: async () => {},
+      logout: async () => { conn.loggedOut = true },
+      mailboxOpen: async () => { conn.opened = true },
+      list: async () => mailboxes,
+      getMailboxLock: async () => ({ release: () => {} }),
+      search: async ({ all, uid }: { all?: boolean; uid?: string }) =>
+        all ? server.uids : server.uids.filter((u) => u >= Number(uid!.split(':')[0])),
+      fetch: async function* (range: string) {
+        for (const uid of range.split(',').map(Number)) yield { uid, flags: new Set<string>(), envelope: { subject: `m${uid}`, date: new Date() } }
+      },
+    }
+    server.connections.push(conn)
+    return conn
+  }
+  return { server, connect }
+}
+
+/** Let pending promise callbacks run. */
+async function settle(rounds = 20) {
+  for (let i = 0; i < rounds; i++) await new Promise((resolve) => setImmediate(resolve))
+}
+
+test('watch polls on fresh connections when the server has no IDLE', async () => {
+  const { server, connect } = watchServer({ idle: false })
+  const client = scriptedImapClient(() => {
+    // The second poll finds a new message
+    if (server.connections.length === 2) server.uids = [1, 2]
+    return connect()
+  })
+
+  const gen = client.watchInbox({ intervalMs: 1 })
+  const { value } = await gen.next()
+  await gen.return(undefined)
+
+  expect([value!.type, value!.messageId]).toEqual(['new_message', 'INBOX:2'])
+  // Seed, first poll (nothing new), second poll; none of them idles on an open mailbox
+  expect(server.connections).toHaveLength(3)
+  expect(server.connections.every((c) => !c.opened && c.loggedOut)).toBe(true)
+})
+
+test('watch reconnects after the IDLE connection drops and picks up what it missed', async () => {
+  vi.useFakeTimers({ toFake: ['setTimeout'] })
+  try {
+    const { server, connect } = watchServer({ idle: true })
+    const client = scriptedImapClient(connect)
+
+    const gen = client.watchInbox({})
+    const next = gen.next()
+    await settle()
+    // Seed connection, then the IDLE one
+    expect(server.connections).toHaveLength(2)
+    const dropped = server.connections[1]!
+    expect(dropped.opened).toBe(true)
+
+    // Mail arrives while the connection is down
+    server.uids = [1, 2]
+    dropped.emit('close')
+    await settle()
+    expect(dropped.loggedOut).toBe(true)
+    expect(server.connections).toHaveLength(2)
+
+    // Reconnects after the backoff and catches up
+    await vi.advanceTimersByTimeAsync(1_000)
+    const { value } = await next
+    expect([value!.type, value!.messageId]).toEqual(['new_message', 'INBOX:2'])
+    expect(server.connections).toHaveLength(3)
+    expect(server.connections[2]!.opened).toBe(true)
+    await gen.return(undefined)
+  } finally {
+    vi.useRealTimers()
+  }
+})
+
+test('watch stops instead of reconnecting when IDLE login fails', async () => {
+  const { server, connect } = watchServer({ idle: true })
+  const client = scriptedImapClient(() => {
+    const conn = connect()
+    if (server.connections.length === 2) conn.connect = async () => { throw new Error('AUTHENTICATIONFAILED') }
+    return conn
+  })
+
+  await expect(client.watchInbox({}).next()).rejects.toThrow(/AUTHENTICATIONFAILED/)
+  expect(server.connections).toHaveLength(2)
+})
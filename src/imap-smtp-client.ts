@@ -2,17 +2,56 @@
 // Mirrors the GmailClient method signatures and return types so commands
 // can work with both client types without major rewrites.
 // Each IMAP operation opens a fresh connection (connect → operate → logout)
-// to avoid stale connection issues. SMTP uses nodemailer transporter.
-// Threading: each IMAP message is treated as a single-message "thread"
-// with threadId = "folder:uid" (e.g. "INBOX:12345").
-
-import { ImapFlow, type FetchMessageObject, type MessageEnvelopeObject, type MailboxObject } from 'imapflow'
+// to avoid stale connection issues; the exception is watchInbox, which holds
+// one connection in IMAP IDLE. SMTP uses nodemailer transporter.
+// Threading: messages are grouped into conversations with the server's
+// THREAD=REFERENCES extension when available, otherwise client-side JWZ
+// threading (see imap-threading.ts). threadId = "folder:uid[,uid...]" lists
+// the conversation's UIDs in that folder, newest first (e.g. "INBOX:120,97"),
+// so flag/move actions apply to the whole thread. Message ids stay
+// "folder:uid". getThread follows Message-ID/References into INBOX and Sent
+// so replies you sent show up in the same conversation.
+// Mirror: `zele sync` (syncMirror) copies every selectable mailbox into the
+// MirrorMessage table using CONDSTORE/QRESYNC, with a per-folder cursor in
+// SyncState. Once synced, list and read are served from that table.
+// Search: Gmail query syntax is compiled to IMAP SEARCH by gmail-query.ts.
+
+import { randomUUID } from 'node:crypto'
+import { ImapFlow, type FetchMessageObject, type MessageEnvelopeObject, type MailboxObject, type SearchObject } from 'imapflow'
 import type { Transporter } from 'nodemailer'
 import { createMimeMessage } from 'mimetext'
 import * as errore from 'errore'
-import { AuthError, ApiError, UnsupportedError, EmptyThreadError, NotFoundError, mapConcurrent, withRetry } from './api-utils.js'
+import { AuthError, ApiError, UnsupportedError, EmptyThreadError, NotFoundError, ValidationError, isTruthy, mapConcurrent, withRetry } from './api-utils.js'
 import { renderEmailBody } from './output.js'
+import {
+  threadMessages,
+  normalizeMessageId,
+  parseMessageIds,
+  movedUids,
+  parseThreadResponse,
+  toSequenceSet,
+  type ThreadableMessage,
+} from './imap-threading.js'
+import { indexThread } from './search-index.js'
+import { parseQuery, takeFolder, toImapSearch, andSearch, matchesQuery } from './gmail-query.js'
+import { getPrisma } from './db.js'
+import { enqueueOutbox, type ScheduledMessage } from './outbox.js'
+import { signMessage } from './signatures.js'
+import { headerValue } from './mail-export.js'
+import {
+  MIRROR_KEYS,
+  mirrorFolderKey,
+  getSyncState,
+  setSyncState,
+  deleteSyncState,
+  getMirrorSyncedAt,
+  clearImapMirror,
+  type MirrorFolderState,
+  type SyncProgress,
+  type SyncResult,
+} from './mirror.js'
 import type { AccountId, ImapSmtpCredentials, ImapCredentials, SmtpCredentials } from './auth.js'
+import type { ImportMessage, ImportResult } from './mail-import.js'
 import type {
   ThreadListResult,
   ThreadListItem,
@@ -20,6 +59,7 @@ import type {
   ThreadData,
   ParsedMessage,
   WatchEvent,
+  WatchEventType,
   Sender,
   AttachmentMeta,
 } from './gmail-client.js'
@@ -28,18 +68,103 @@ import type {
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Parse a threadId in the format "FOLDER:UID" back to folder + uid. */
-function parseThreadId(threadId: string): { folder: string; uid: number } {
+/** Parse a threadId in the format "FOLDER:UID[,UID...]" back to folder + uids.
+ *  `uid` is the first (newest) one — for message ids it's the only one. */
+function parseThreadId(threadId: string): { folder: string; uid: number; uids: number[] } {
   const idx = threadId.lastIndexOf(':')
-  if (idx === -1) return { folder: 'INBOX', uid: Number(threadId) }
-  return { folder: threadId.slice(0, idx), uid: Number(threadId.slice(idx + 1)) }
+  const folder = idx === -1 ? 'INBOX' : threadId.slice(0, idx)
+  const uids = threadId.slice(idx + 1).split(',').map(Number)
+  return { folder, uid: uids[0]!, uids }
+}
+
+/** Build a threadId from folder + uid (or all UIDs of a conversation). */
+function makeThreadId(folder: string, uid: number | number[]): string {
+  return `${folder}:${[uid].flat().join(',')}`
+}
+
+/** Max rounds of Message-ID/References expansion when collecting a conversation. */
+const MAX_THREAD_EXPANSION_ROUNDS = 3
+
+/** Message-IDs per related-message SEARCH (each id adds three OR'd HEADER terms). */
+const RELATED_SEARCH_CHUNK = 20
+
+/** Reconnect backoff bounds for `mail watch` over IDLE. */
+const IDLE_RECONNECT_MIN_MS = 1_000
+const IDLE_RECONNECT_MAX_MS = 60_000
+
+/** Re-issue IDLE this often; servers may drop it after 30 minutes (RFC 2177)
+ *  and NAT gateways forget silent connections much sooner. */
+const IDLE_RESTART_MS = 5 * 60_000
+
+/** What watchInbox remembers about the watched folder between checks. */
+interface ImapWatchState {
+  lastUid: number
+  /** Flags per UID up to lastUid, for deletion and flag events. null when not tracked. */
+  flags: Map<number, Set<string>> | null
+  /** HIGHESTMODSEQ when flags were last read; null without CONDSTORE, when every flag is re-read. */
+  modseq: bigint | null
+}
+
+/** Messages fetched per round trip during `zele sync`; the folder cursor is saved after each batch. */
+const MIRROR_FETCH_BATCH = 50
+
+/** Messages fetched per round trip by scanFolder() (`zele rules run --backfill`). */
+const SCAN_FETCH_BATCH = 50
+
+/** A mailbox as listed by listFolders() (`zele folder list`). */
+export interface ImapFolder {
+  name: string
+  path: string
+  delimiter: string
+  specialUse?: string
+  flags: string[]
+  subscribed: boolean
+  /** STATUS counts, when requested; absent for \Noselect mailboxes */
+  messages?: number
+  unseen?: number
+}
+
+/** Threading columns of a MirrorMessage row (everything but the payload). */
+interface MirrorHeaderRow {
+  folder: string
+  uid: number
+  messageId: string
+  inReplyTo: string
+  references: string
+  subject: string
+  date: string
+  flags: string
 }
 
-/** Build a threadId from folder + uid. */
-function makeThreadId(folder: string, uid: number): string {
-  return `${folder}:${uid}`
+/** A MirrorMessage row; `source` is only selected when bodies are needed. */
+interface MirrorRow extends MirrorHeaderRow {
+  envelope: string
+  bodyStructure: string
+  source?: string
 }
 
+const MIRROR_HEADER_SELECT = {
+  folder: true,
+  uid: true,
+  messageId: true,
+  inReplyTo: true,
+  references: true,
+  subject: true,
+  date: true,
+  flags: true,
+} as const
+
+/** imapflow's low-level command runner. It's not in the public typings, but
+ *  it's what imapflow's own SEARCH uses; we need it for UID THREAD. */
+type ImapExec = (
+  command: string,
+  attributes: Array<{ type: string; value: string }>,
+  options: { untagged: Record<string, (untagged: { attributes?: unknown[] }) => Promise<void>> },
+) => Promise<{ next: () => void }>
+
+/** Mailbox that holds snoozed conversations; created on first `mail snooze`. */
+const SNOOZED_FOLDER = 'Snoozed'
+
 /** Static fallback map from zele folder names to IMAP folder paths.
  *  Used only when specialUse discovery fails. */
 const FOLDER_FALLBACKS: Record<string, string[]> = {
@@ -61,6 +186,39 @@ const SPECIAL_USE_MAP: Record<string, string> = {
   archive: '\\Archive',
 }
 
+/** Resolve a zele folder name against a mailbox listing: RFC 6154 specialUse
+ *  first, then common mailbox name variants. Also used offline with the
+ *  listing saved by syncMirror(). */
+function pickMailboxPath(folder: string, mailboxes: Array<{ path: string; specialUse?: string }>): string {
+  const lower = folder.toLowerCase()
+  if (lower === 'inbox' || lower === 'starred' || lower === 'all') return 'INBOX'
+
+  const specialUse = SPECIAL_USE_MAP[lower]
+  if (!specialUse) return folder
+
+  // Discover via specialUse (RFC 6154)
+  const bySpecialUse = mailboxes.find((m) => m.specialUse === specialUse)
+  if (bySpecialUse) return bySpecialUse.path
+
+  // Fallback: try common folder names
+  const fallbacks = FOLDER_FALLBACKS[lower]
+  if (fallbacks) {
+    const paths = new Set(mailboxes.map((m) => m.path))
+    for (const name of fallbacks) {
+      if (paths.has(name)) return name
+    }
+    // Case-insensitive search as last resort
+    const lowerPaths = new Map(mailboxes.map((m) => [m.path.toLowerCase(), m.path]))
+    for (const name of fallbacks) {
+      const found = lowerPaths.get(name.toLowerCase())
+      if (found) return found
+    }
+  }
+
+  // Ultimate fallback: capitalize first letter
+  return folder.charAt(0).toUpperCase() + folder.slice(1)
+}
+
 /** Convert imapflow address objects to our Sender type. */
 function toSender(addr?: { name?: string; address?: string }): Sender {
   if (!addr) return { email: 'unknown' }
@@ -72,41 +230,35 @@ function toSenders(addrs?: Array<{ name?: string; address?: string }>): Sender[]
   return addrs.map(toSender)
 }
 
-/** Basic client-side query filter for watch events.
- *  Supports: from:, to:, subject:, is:unread, is:starred, has:attachment, and plain text search. */
-function matchesQuery(msg: ParsedMessage, query: string): boolean {
-  const lower = query.toLowerCase()
-
-  // Handle specific operators
-  const fromMatch = lower.match(/from:(\S+)/)
-  if (fromMatch && !msg.from.email.toLowerCase().includes(fromMatch[1]!)) return false
-
-  const toMatch = lower.match(/to:(\S+)/)
-  if (toMatch && !msg.to.some((t) => t.email.toLowerCase().includes(toMatch[1]!))) return false
-
-  const subjectMatch = lower.match(/subject:(?:"([^"]+)"|(\S+))/)
-  if (subjectMatch) {
-    const term = (subjectMatch[1] ?? subjectMatch[2])!.toLowerCase()
-    if (!msg.subject.toLowerCase().includes(term)) return false
-  }
-
-  if (lower.includes('is:unread') && !msg.unread) return false
-  if (lower.includes('is:starred') && !msg.starred) return false
-  if (lower.includes('has:attachment') && msg.attachments.length === 0) return false
-
-  // Plain text: strip operators and check remaining text against subject/from
-  const plainText = lower
-    .replace(/from:\S+/g, '')
-    .replace(/to:\S+/g, '')
-    .replace(/subject:(?:"[^"]+"|[^\s]+)/g, '')
-    .replace(/is:\S+/g, '')
-    .replace(/has:\S+/g, '')
-    .trim()
-  if (plainText && !msg.subject.toLowerCase().includes(plainText) && !msg.from.email.toLowerCase().includes(plainText)) {
-    return false
+/** Content-Type and body of a hand-built message: plain text, or
+ *  multipart/alternative with an HTML version (--markdown). */
+function composeBody(body: string, html?: string): { contentType: string; content: string } {
+  if (!html) return { contentType: 'text/plain; charset=utf-8', content: body }
+  const boundary = `zele-${randomUUID()}`
+  const part = (type: string, data: string) => [
+    `--${boundary}`,
+    `Content-Type: ${type}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    Buffer.from(data).toString('base64').replace(/.{76}/g, '$&\r\n'),
+  ].join('\r\n')
+  return {
+    contentType: `multipart/alternative; boundary="${boundary}"`,
+    content: [part('text/plain', body), part('text/html', html), `--${boundary}--`, ''].join('\r\n'),
   }
+}
 
-  return true
+/** Drop the Bcc header (and its folded lines) from a raw message before SMTP delivery. */
+function stripBccHeader(raw: string): string {
+  const split = raw.search(/\r?\n\r?\n/)
+  if (split === -1) return raw
+  let inBcc = false
+  const headers = raw.slice(0, split).split(/\r?\n/).filter((line) => {
+    // Folded continuation lines start with whitespace and belong to the previous header
+    if (!/^[ \t]/.test(line)) inBcc = /^bcc:/i.test(line)
+    return !inBcc
+  })
+  return headers.join('\r\n') + raw.slice(split)
 }
 
 /** Boundary helper for imapflow calls — converts auth errors to typed values. */
@@ -132,6 +284,7 @@ export class ImapSmtpClient {
   private smtpCreds: SmtpCredentials | undefined
   private account: AccountId
   private smtpTransporter: Transporter | null = null
+  private mirrorSyncedAt: Date | null | undefined
 
   constructor({ credentials, account }: { credentials: ImapSmtpCredentials; account: AccountId }) {
     this.imapCreds = credentials.imap
@@ -143,7 +296,7 @@ export class ImapSmtpClient {
   // IMAP connection helpers
   // =========================================================================
 
-  private createImapClient(): ImapFlow {
+  private createImapClient({ qresync = false, maxIdleTime }: { qresync?: boolean; maxIdleTime?: number } = {}): ImapFlow {
     if (!this.imapCreds) throw new Error('IMAP not configured for this account')
     return new ImapFlow({
       host: this.imapCreds.host,
@@ -151,6 +304,8 @@ export class ImapSmtpClient {
       secure: this.imapCreds.tls,
       auth: { user: this.imapCreds.user, pass: this.imapCreds.password },
       logger: false,
+      qresync,
+      maxIdleTime,
     })
   }
 
@@ -161,42 +316,27 @@ export class ImapSmtpClient {
    */
   private async resolveMailboxPath(client: ImapFlow, folder: string): Promise<string> {
     const lower = folder.toLowerCase()
-    if (lower === 'inbox') return 'INBOX'
-    if (lower === 'starred' || lower === 'all') return 'INBOX'
-
-    // Check if it's a raw IMAP path that doesn't match any known folder name
-    const specialUse = SPECIAL_USE_MAP[lower]
-    if (!specialUse) return folder // raw IMAP path, pass through
-
-    // Discover via specialUse (RFC 6154)
-    const mailboxes = await client.list()
-    const bySpecialUse = mailboxes.find((m) => m.specialUse === specialUse)
-    if (bySpecialUse) return bySpecialUse.path
-
-    // Fallback: try common folder names
-    const fallbacks = FOLDER_FALLBACKS[lower]
-    if (fallbacks) {
-      const paths = new Set(mailboxes.map((m) => m.path))
-      for (const name of fallbacks) {
-        if (paths.has(name)) return name
-      }
-      // Case-insensitive search as last resort
-      const lowerPaths = new Map(mailboxes.map((m) => [m.path.toLowerCase(), m.path]))
-      for (const name of fallbacks) {
-        const found = lowerPaths.get(name.toLowerCase())
-        if (found) return found
-      }
-    }
+    if (lower === 'inbox' || lower === 'starred' || lower === 'all') return 'INBOX'
+    // Raw IMAP paths that don't match any known folder name pass through
+    if (!SPECIAL_USE_MAP[lower]) return folder
+    return pickMailboxPath(folder, await client.list())
+  }
 
-    // Ultimate fallback: capitalize first letter
-    return folder.charAt(0).toUpperCase() + folder.slice(1)
+  /** The listed mailbox a zele folder name or path refers to. */
+  private async findMailbox(client: ImapFlow, folder: string) {
+    const path = await this.resolveMailboxPath(client, folder)
+    const mailbox = (await client.list()).find((m) => m.path === path)
+    return mailbox ?? new NotFoundError({ resource: `Folder ${folder}` })
   }
 
   /** Run an IMAP operation with auto-connect/logout.
    *  The entire callback is wrapped in imapBoundary so any IMAP error
    *  (getMailboxLock, search, fetch, etc.) becomes an error value. */
-  private async withImap<T>(fn: (client: ImapFlow) => Promise<T>): Promise<T | AuthError | ApiError> {
-    const client = this.createImapClient()
+  private async withImap<T>(
+    fn: (client: ImapFlow) => Promise<T>,
+    options?: { qresync?: boolean },
+  ): Promise<T | AuthError | ApiError> {
+    const client = this.createImapClient(options)
     const connectResult = await imapBoundary(this.account.email, () => client.connect())
     if (connectResult instanceof Error) return connectResult
 
@@ -219,7 +359,7 @@ export class ImapSmtpClient {
   }
 
   // =========================================================================
-  // Thread operations (IMAP messages as single-message "threads")
+  // Thread operations (conversations built from References / THREAD)
   // =========================================================================
 
   async listThreads({
@@ -234,7 +374,10 @@ export class ImapSmtpClient {
     maxResults?: number
     labelIds?: string[]
     pageToken?: string
-  } = {}): Promise<ThreadListResult | AuthError | ApiError> {
+  } = {}): Promise<ThreadListResult | UnsupportedError | ValidationError | AuthError | ApiError> {
+    // Gmail query syntax compiled to IMAP SEARCH; a top-level in: picks the folder
+    const parsed = query ? takeFolder(parseQuery(query)) : null
+    if (parsed?.folder) folder = parsed.folder
     const lowerFolder = folder?.toLowerCase()
     const isStarred = lowerFolder === 'starred'
 
@@ -244,95 +387,32 @@ export class ImapSmtpClient {
         feature: '"All Mail" folder',
         accountType: 'IMAP/SMTP',
         hint: 'Use --folder inbox, sent, trash, or another specific folder.',
-      }) as unknown as ThreadListResult | AuthError | ApiError
+      })
+    }
+
+    const compiled = parsed ? toImapSearch(parsed.rest) : null
+    if (compiled instanceof Error) return compiled
+    // --folder starred searches for \Flagged (in the inbox)
+    const searchCriteria: SearchObject = isStarred
+      ? andSearch({ flagged: true }, compiled ?? {})
+      : compiled ?? { all: true }
+
+    // Plain folder listings of a synced account come from the mirror
+    if (!query && (await this.getMirrorSyncedAt())) {
+      const mirrorPath = await this.mirrorFolderPath(folder ?? 'inbox')
+      if (mirrorPath) return this.listThreadsFromMirror({ path: mirrorPath, isStarred, maxResults, pageToken })
     }
 
     return this.withImap(async (client) => {
       const imapFolder = await this.resolveMailboxPath(client, folder ?? 'inbox')
+      let listed: {
+        page: number[][]
+        byUid: Map<number, FetchMessageObject>
+        resultSizeEstimate: number
+        nextPageToken: string | null
+      }
       const lock = await client.getMailboxLock(imapFolder)
       try {
-        // Build search criteria — start with base criteria from folder
-        let searchCriteria: any = isStarred ? { flagged: true } : { all: true }
-
-        if (query) {
-          // Best-effort IMAP search: translate Gmail query syntax to IMAP SEARCH.
-          // Supported: from:, to:, subject:, newer_than:Nd/Nm, older_than:Nd/Nm,
-          //            after:YYYY/MM/DD, before:YYYY/MM/DD, is:unread, is:starred,
-          //            has:attachment, and plain text.
-          // Preserve base criteria (e.g. flagged from --folder starred)
-          const baseCriteria = isStarred ? { flagged: true } : {}
-          searchCriteria = { ...baseCriteria }
-          let hasSpecificCriteria = isStarred
-
-          const fromMatch = query.match(/from:(\S+)/i)
-          if (fromMatch) { searchCriteria.from = fromMatch[1]; hasSpecificCriteria = true }
-
-          const toMatch = query.match(/to:(\S+)/i)
-          if (toMatch) { searchCriteria.to = toMatch[1]; hasSpecificCriteria = true }
-
-          const subjectMatch = query.match(/subject:(?:"([^"]+)"|(\S+))/i)
-          if (subjectMatch) { searchCriteria.subject = subjectMatch[1] ?? subjectMatch[2]; hasSpecificCriteria = true }
-
-          // Date filters: newer_than:2d, newer_than:1m (days/months)
-          const newerMatch = query.match(/newer_than:(\d+)([dm])/i)
-          if (newerMatch) {
-            const n = Number(newerMatch[1])
-            const unit = newerMatch[2]!.toLowerCase()
-            const since = new Date()
-            if (unit === 'd') since.setDate(since.getDate() - n)
-            else since.setMonth(since.getMonth() - n)
-            searchCriteria.since = since
-            hasSpecificCriteria = true
-          }
-
-          const olderMatch = query.match(/older_than:(\d+)([dm])/i)
-          if (olderMatch) {
-            const n = Number(olderMatch[1])
-            const unit = olderMatch[2]!.toLowerCase()
-            const before = new Date()
-            if (unit === 'd') before.setDate(before.getDate() - n)
-            else before.setMonth(before.getMonth() - n)
-            searchCriteria.before = before
-            hasSpecificCriteria = true
-          }
-
-          // after:YYYY/MM/DD and before:YYYY/MM/DD
-          const afterMatch = query.match(/after:(\d{4}\/\d{1,2}\/\d{1,2})/i)
-          if (afterMatch) { searchCriteria.since = new Date(afterMatch[1]!.replace(/\//g, '-')); hasSpecificCriteria = true }
-
-          const beforeMatch = query.match(/before:(\d{4}\/\d{1,2}\/\d{1,2})/i)
-          if (beforeMatch) { searchCriteria.before = new Date(beforeMatch[1]!.replace(/\//g, '-')); hasSpecificCriteria = true }
-
-          // Flag filters
-          if (/is:unread/i.test(query)) { searchCriteria.unseen = true; hasSpecificCriteria = true }
-          if (/is:starred/i.test(query)) { searchCriteria.flagged = true; hasSpecificCriteria = true }
-          if (/has:attachment/i.test(query)) { searchCriteria.header = { 'Content-Type': 'multipart/mixed' }; hasSpecificCriteria = true }
-
-          // Plain text remainder (strip known operators)
-          const plainText = query
-            .replace(/from:\S+/gi, '')
-            .replace(/to:\S+/gi, '')
-            .replace(/subject:(?:"[^"]+"|[^\s]+)/gi, '')
-            .replace(/newer_than:\S+/gi, '')
-            .replace(/older_than:\S+/gi, '')
-            .replace(/after:\S+/gi, '')
-            .replace(/before:\S+/gi, '')
-            .replace(/is:\S+/gi, '')
-            .replace(/has:\S+/gi, '')
-            .trim()
-
-          if (plainText) {
-            // Search in subject and body for remaining text
-            if (hasSpecificCriteria) {
-              searchCriteria.body = plainText
-            } else {
-              searchCriteria = { or: [{ subject: plainText }, { body: plainText }] }
-            }
-          } else if (!hasSpecificCriteria) {
-            searchCriteria = { all: true }
-          }
-        }
-
         const searchResult = await client.search(searchCriteria, { uid: true })
         const uids = searchResult === false ? [] : searchResult
         if (uids.length === 0) {
@@ -344,124 +424,166 @@ export class ImapSmtpClient {
           }
         }
 
-        // Sort by UID descending (newest first) and paginate
-        const sorted = [...uids].sort((a, b) => b - a)
+        // Group into conversations (newest first) and paginate by thread
+        const groups = await this.groupIntoThreads(client, uids)
         const startIndex = pageToken ? Number(pageToken) : 0
-        const page = sorted.slice(startIndex, startIndex + maxResults)
-        const nextPageToken = startIndex + maxResults < sorted.length
+        const page = groups.slice(startIndex, startIndex + maxResults)
+        const nextPageToken = startIndex + maxResults < groups.length
           ? String(startIndex + maxResults)
           : null
 
-        // Fetch envelope data for the page
-        const threads: ThreadListItem[] = []
+        // Fetch envelope data for every message of the page's threads
+        const byUid = new Map<number, FetchMessageObject>()
         if (page.length > 0) {
-          const uidRange = page.join(',')
-          for await (const msg of client.fetch(uidRange, {
+          for await (const msg of client.fetch(toSequenceSet(page.flat()), {
             uid: true,
             envelope: true,
             flags: true,
             bodyStructure: true,
+            headers: ['references'],
           }, { uid: true })) {
-            const env = msg.envelope
-            if (!env) continue
-            const flags = msg.flags ?? new Set()
-            const threadId = makeThreadId(imapFolder, msg.uid)
-
-            threads.push({
-              id: threadId,
-              historyId: null,
-              snippet: env.subject ?? '',
-              subject: env.subject ?? '(no subject)',
-              from: toSender(env.from?.[0]),
-              to: toSenders(env.to),
-              cc: toSenders(env.cc),
-              date: env.date?.toISOString() ?? new Date().toISOString(),
-              labelIds: [],
-              unread: !flags.has('\\Seen'),
-              starred: flags.has('\\Flagged'),
-              messageCount: 1,
-              inReplyTo: env.inReplyTo ?? null,
-              hasAttachments: this.hasAttachments(msg),
-              // IMAP list view uses envelope-only fetch, so raw headers aren't
-              // available. List-Unsubscribe stays null in list mode; it's
-              // resolved during getThread() where `source: true` is fetched.
-              listUnsubscribe: null,
-              listUnsubscribePost: null,
-            })
+            if (msg.envelope) byUid.set(msg.uid, msg)
           }
         }
-
-        // Sort by date descending (envelopes may not come in order)
-        threads.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-
-        return {
-          threads,
-          rawThreads: [],
-          nextPageToken,
-          resultSizeEstimate: sorted.length,
-        }
+        listed = { page, byUid, resultSizeEstimate: groups.length, nextPageToken }
       } finally {
         lock.release()
       }
+
+      const { page, byUid, resultSizeEstimate, nextPageToken } = listed
+      const pageMessages = page.map((group) => group.map((uid) => byUid.get(uid)).filter(isTruthy))
+
+      // Conversations span INBOX and Sent: find replies living in the other folder
+      const otherFolders = (await this.conversationFolders(client)).filter((f) => f !== imapFolder)
+      const messageIds = pageMessages.flat().flatMap((msg) => this.threadHeaderIds(msg))
+      const known = new Set(pageMessages.flat().map((msg) => makeThreadId(imapFolder, msg.uid)))
+      const related = await this.findRelatedMessages(client, otherFolders, messageIds, known, {
+        uid: true,
+        envelope: true,
+        flags: true,
+        headers: ['references'],
+      })
+
+      // Thread page + related messages together to see which conversation each related one joins
+      const threadable = [
+        ...pageMessages.flat().map((msg) => this.toThreadable(msg, makeThreadId(imapFolder, msg.uid))),
+        ...related.map(({ folder: f, msg }) => this.toThreadable(msg, makeThreadId(f, msg.uid))),
+      ]
+      const conversationOf = new Map<string, number>()
+      threadMessages(threadable).forEach((keys, idx) => keys.forEach((key) => conversationOf.set(key, idx)))
+      const relatedCount = new Map<number, number>()
+      for (const { folder: f, msg } of related) {
+        const idx = conversationOf.get(makeThreadId(f, msg.uid))
+        if (idx !== undefined) relatedCount.set(idx, (relatedCount.get(idx) ?? 0) + 1)
+      }
+
+      const threads = pageMessages
+        .filter((msgs) => msgs.length > 0)
+        .map((msgs) => {
+          const conversation = conversationOf.get(makeThreadId(imapFolder, msgs[0]!.uid))
+          const related = conversation !== undefined ? relatedCount.get(conversation) ?? 0 : 0
+          return this.toThreadListItem(imapFolder, msgs, msgs.length + related)
+        })
+
+      // Sort by date descending (envelopes may not come in order)
+      threads.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+
+      return {
+        threads,
+        rawThreads: [],
+        nextPageToken,
+        resultSizeEstimate,
+      }
     }) as Promise<ThreadListResult | AuthError | ApiError>
   }
 
   async getThread({ threadId }: { threadId: string }): Promise<ThreadResult> {
-    const { folder, uid } = parseThreadId(threadId)
+    const mirrored = await this.getThreadFromMirror(threadId)
+    if (mirrored) {
+      await indexThread(this.account, mirrored.parsed)
+      return mirrored
+    }
+
+    const { folder, uids } = parseThreadId(threadId)
+    const fetchQuery = { uid: true, envelope: true, flags: true, bodyStructure: true, source: true }
 
     const result = await this.withImap(async (client) => {
+      const found = new Map<string, { folder: string; msg: FetchMessageObject }>()
       const lock = await client.getMailboxLock(folder)
       try {
-        // Fetch full message with body
-        let message: FetchMessageObject | null = null
-        for await (const msg of client.fetch(String(uid), {
-          uid: true,
-          envelope: true,
-          flags: true,
-          bodyStructure: true,
-          source: true,
-        }, { uid: true })) {
-          message = msg
+        for await (const msg of client.fetch(uids.join(','), fetchQuery, { uid: true })) {
+          found.set(makeThreadId(folder, msg.uid), { folder, msg })
         }
-
-        if (!message) {
-          return new NotFoundError({ resource: `message ${threadId}` })
-        }
-
-        const parsed = this.parseImapMessage(message, folder)
-
-        const threadData: ThreadData = {
-          id: threadId,
-          historyId: null,
-          messages: [parsed],
-          subject: parsed.subject,
-          snippet: parsed.snippet,
-          from: parsed.from,
-          date: parsed.date,
-          labelIds: [],
-          hasUnread: parsed.unread,
-          messageCount: 1,
-        }
-
-        return { parsed: threadData, raw: {} } as ThreadResult
       } finally {
         lock.release()
       }
+
+      if (found.size === 0) {
+        return new NotFoundError({ resource: `message ${threadId}` })
+      }
+
+      // Follow Message-ID/References through the thread's folder, INBOX and Sent
+      // until no new messages turn up (replies to replies need several rounds)
+      const folders = [...new Set([folder, ...(await this.conversationFolders(client))])]
+      const searched = new Set<string>()
+      let frontier = [...found.values()].flatMap(({ msg }) => this.threadHeaderIds(msg))
+      for (let round = 0; round < MAX_THREAD_EXPANSION_ROUNDS && frontier.length > 0; round++) {
+        frontier.forEach((id) => searched.add(id))
+        const related = await this.findRelatedMessages(client, folders, frontier, new Set(found.keys()), fetchQuery)
+        for (const entry of related) found.set(makeThreadId(entry.folder, entry.msg.uid), entry)
+        frontier = [...new Set(related.flatMap(({ msg }) => this.threadHeaderIds(msg)))].filter((id) => !searched.has(id))
+      }
+
+      // Keep only the conversation(s) the requested messages belong to
+      const anchors = new Set(uids.map((uid) => makeThreadId(folder, uid)))
+      const keys = threadMessages([...found].map(([key, { msg }]) => this.toThreadable(msg, key)))
+        .filter((group) => group.some((key) => anchors.has(key)))
+        .flat()
+
+      const messages = keys.map((key) => {
+        const entry = found.get(key)!
+        return this.parseImapMessage(entry.msg, entry.folder)
+      })
+      return { parsed: this.toThreadData(threadId, messages), raw: {} } as ThreadResult
     })
 
     // getThread is expected to throw on failure (same as GmailClient)
     // because callers like mail read destructure the result directly.
     if (result instanceof Error) throw result
+    await indexThread(this.account, result.parsed)
     return result as ThreadResult
   }
 
-  async getMessage({ messageId }: { messageId: string }): Promise<ParsedMessage | AuthError | ApiError> {
-    // For IMAP, messageId is the same as threadId
-    const result = await this.getThread({ threadId: messageId })
-    return result.parsed.messages[0]!
+  async getMessage({ messageId }: { messageId: string }): Promise<ParsedMessage | NotFoundError | AuthError | ApiError> {
+    const { folder, uid } = parseThreadId(messageId)
+
+    return this.withImap(async (client) => {
+      const lock = await client.getMailboxLock(folder)
+      try {
+        for await (const msg of client.fetch(String(uid), {
+          uid: true,
+          envelope: true,
+          flags: true,
+          bodyStructure: true,
+          source: true,
+        }, { uid: true })) {
+          return this.parseImapMessage(msg, folder)
+        }
+        return new NotFoundError({ resource: `message ${messageId}` })
+      } finally {
+        lock.release()
+      }
+    }) as Promise<ParsedMessage | NotFoundError | AuthError | ApiError>
   }
 
   async getRawMessage({ messageId }: { messageId: string }): Promise<string | NotFoundError | AuthError | ApiError> {
+    const raw = await this.getRawMessageBytes({ messageId })
+    if (raw instanceof Error) return raw
+    return raw.toString('utf-8')
+  }
+
+  /** The message source exactly as stored, for byte-exact copies (`mail export`, rule forwards). */
+  async getRawMessageBytes({ messageId }: { messageId: string }): Promise<Buffer | NotFoundError | AuthError | ApiError> {
     const { folder, uid } = parseThreadId(messageId)
 
     return this.withImap(async (client) => {
@@ -472,14 +594,62 @@ export class ImapSmtpClient {
           source: true,
         }, { uid: true })) {
           if (msg.source) {
-            return msg.source.toString('utf-8')
+            return msg.source
           }
         }
         return new NotFoundError({ resource: `message ${messageId}` })
       } finally {
         lock.release()
       }
-    }) as Promise<string | NotFoundError | AuthError | ApiError>
+    }) as Promise<Buffer | NotFoundError | AuthError | ApiError>
+  }
+
+  /**
+   * Every message in `folder` (only those on or after `since` when given),
+   * parsed with bodies, newest first in batches of SCAN_FETCH_BATCH. Yields
+   * an error and stops when the server fails. Used by `zele rules run`.
+   */
+  async *scanFolder({ folder = 'inbox', since }: { folder?: string; since?: Date } = {}): AsyncGenerator<ParsedMessage[] | AuthError | ApiError> {
+    const found = await this.withImap(async (client) => {
+      const imapFolder = await this.resolveMailboxPath(client, folder)
+      const lock = await client.getMailboxLock(imapFolder)
+      try {
+        const uids = await client.search(since ? { since } : { all: true }, { uid: true })
+        return { imapFolder, uids: uids === false ? [] : uids.sort((a, b) => b - a) }
+      } finally {
+        lock.release()
+      }
+    })
+    if (found instanceof Error) {
+      yield found
+      return
+    }
+
+    const { imapFolder, uids } = found
+    for (let i = 0; i < uids.length; i += SCAN_FETCH_BATCH) {
+      const batch = uids.slice(i, i + SCAN_FETCH_BATCH)
+      const messages = await this.withImap(async (client) => {
+        const lock = await client.getMailboxLock(imapFolder)
+        try {
+          const parsed: ParsedMessage[] = []
+          for await (const msg of client.fetch(toSequenceSet(batch), {
+            uid: true,
+            envelope: true,
+            flags: true,
+            bodyStructure: true,
+            size: true,
+            source: true,
+          }, { uid: true })) {
+            parsed.push(this.parseImapMessage(msg, imapFolder))
+          }
+          return parsed.reverse()
+        } finally {
+          lock.release()
+        }
+      })
+      yield messages
+      if (messages instanceof Error) return
+    }
   }
 
   // =========================================================================
@@ -490,15 +660,20 @@ export class ImapSmtpClient {
     to,
     subject,
     body,
+    html,
     cc,
     bcc,
     inReplyTo,
     references,
     attachments,
+    sendAt,
+    signature = true,
   }: {
     to: Array<{ name?: string; email: string }>
     subject: string
     body: string
+    /** HTML alternative of `body` (e.g. rendered --markdown); sent as multipart/alternative */
+    html?: string
     cc?: Array<{ name?: string; email: string }>
     bcc?: Array<{ name?: string; email: string }>
     threadId?: string
@@ -506,16 +681,20 @@ export class ImapSmtpClient {
     references?: string
     attachments?: Array<{ filename: string; mimeType: string; content: Buffer }>
     fromEmail?: string
-  }): Promise<{ id: string; threadId: string; labelIds: string[] } | UnsupportedError | AuthError | ApiError> {
-    const transporter = await this.getSmtpTransporter()
-    if (transporter instanceof Error) return transporter
+    /** Queue in the local outbox instead of sending now (`--at`) */
+    sendAt?: Date
+    /** Append the stored signature (zele signature); false for --no-signature */
+    signature?: boolean
+  }): Promise<{ id: string; threadId: string; labelIds: string[] } | ScheduledMessage | UnsupportedError | AuthError | ApiError> {
     const fromEmail = this.account.email
+    if (signature) ({ body, html } = await signMessage(this.account, { body, html, fromEmail }))
 
     const mailOptions: any = {
       from: fromEmail,
       to: to.map((r) => r.name ? `"${r.name}" <${r.email}>` : r.email).join(', '),
       subject,
       text: body,
+      ...(html ? { html } : {}),
     }
 
     if (cc && cc.length > 0) {
@@ -538,51 +717,33 @@ export class ImapSmtpClient {
       }))
     }
 
+    if (sendAt) {
+      // Compose now (Bcc stays out of the headers) and keep the envelope for delivery
+      const raw = await this.composeRaw(mailOptions, { body, html })
+      if (raw instanceof Error) return raw
+      return enqueueOutbox(this.account, {
+        raw: raw.toString('latin1'),
+        sendAt,
+        subject,
+        recipients: [...to, ...(cc ?? []), ...(bcc ?? [])].map((r) => r.email),
+      })
+    }
+
+    const transporter = await this.getSmtpTransporter()
+    if (transporter instanceof Error) return transporter
+
     const sendResult = await transporter.sendMail(mailOptions)
       .catch((e: unknown) => new ApiError({ reason: `SMTP send failed: ${String(e)}`, cause: e as Error }))
     if (sendResult instanceof Error) return sendResult as ApiError
 
     // APPEND a copy to the Sent folder so `mail list --folder sent` shows it.
     // SMTP alone doesn't guarantee a copy in the mailbox.
-    // Build the raw MIME using nodemailer's MailComposer so attachments, HTML, etc. are preserved.
     if (this.imapCreds) {
-      const nodemailer = await import('nodemailer')
-      const MailComposer = (nodemailer as any).default?.MailComposer ?? (nodemailer as any).MailComposer
-      const rawMime: Buffer | ApiError = MailComposer
-        ? await new Promise<Buffer>((resolve, reject) => {
-            const mail = new MailComposer({ ...mailOptions, messageId: sendResult.messageId })
-            mail.compile().build((err: Error | null, message: Buffer) => {
-              if (err) reject(err)
-              else resolve(message)
-            })
-          }).catch((e: unknown) => new ApiError({ reason: `Failed to compile MIME for Sent copy: ${String(e)}`, cause: e as Error }))
-        : (() => {
-            // Fallback: build plain-text RFC 822 if MailComposer unavailable
-            const rawHeaders = [
-              `From: ${fromEmail}`,
-              `To: ${mailOptions.to}`,
-              `Subject: ${subject}`,
-              `Date: ${new Date().toUTCString()}`,
-              `MIME-Version: 1.0`,
-              `Content-Type: text/plain; charset=utf-8`,
-              ...(mailOptions.cc ? [`Cc: ${mailOptions.cc}`] : []),
-              ...(inReplyTo ? [`In-Reply-To: ${inReplyTo}`] : []),
-              ...(references ? [`References: ${references}`] : []),
-              ...(sendResult.messageId ? [`Message-ID: ${sendResult.messageId}`] : []),
-            ]
-            return Buffer.from(rawHeaders.join('\r\n') + '\r\n\r\n' + body)
-          })()
-
+      const rawMime = await this.composeRaw({ ...mailOptions, messageId: sendResult.messageId }, { body, html })
       if (rawMime instanceof Error) {
         console.warn('Failed to build MIME for Sent copy:', rawMime.message)
       } else {
-        const appendResult = await this.withImap(async (client) => {
-          const sentPath = await this.resolveMailboxPath(client, 'sent')
-          await client.append(sentPath, rawMime, ['\\Seen'])
-        })
-        if (appendResult instanceof Error) {
-          console.warn('Sent message but failed to save to Sent folder:', appendResult.message)
-        }
+        await this.appendToSent(rawMime)
       }
     }
 
@@ -593,19 +754,100 @@ export class ImapSmtpClient {
     }
   }
 
+  /**
+   * Send an already composed RFC 822 message (outbox delivery, mail rsvp) to the given
+   * envelope recipients, then save it to Sent. Any Bcc header is stripped first.
+   */
+  async sendRaw({ raw, recipients }: { raw: Buffer; threadId?: string; recipients: string[] }): Promise<{ id: string; threadId: string; labelIds: string[] } | UnsupportedError | AuthError | ApiError> {
+    const transporter = await this.getSmtpTransporter()
+    if (transporter instanceof Error) return transporter
+
+    // nodemailer reports a made-up Message-ID for raw input: use the message's
+    // own, adding one if it has none, so follow-ups can match replies to it
+    let source = stripBccHeader(raw.toString('latin1'))
+    let messageId = headerValue(source, 'message-id')
+    if (!messageId) {
+      messageId = `<${randomUUID()}@${this.account.email.split('@')[1]}>`
+      source = `Message-ID: ${messageId}\r\n${source}`
+    }
+    const sendResult = await transporter.sendMail({ envelope: { from: this.account.email, to: recipients }, raw: Buffer.from(source, 'latin1') })
+      .catch((e: unknown) => new ApiError({ reason: `SMTP send failed: ${String(e)}`, cause: e as Error }))
+    if (sendResult instanceof Error) return sendResult as ApiError
+
+    if (this.imapCreds) {
+      await this.appendToSent(Buffer.from(source, 'latin1'))
+    }
+
+    return {
+      id: messageId,
+      threadId: 'unknown',
+      labelIds: ['SENT'],
+    }
+  }
+
+  /** Build the raw MIME using nodemailer's MailComposer so attachments, HTML, etc. are preserved. */
+  private async composeRaw(mailOptions: any, { body, html }: { body: string; html?: string }): Promise<Buffer | ApiError> {
+    const nodemailer = await import('nodemailer')
+    const MailComposer = (nodemailer as any).default?.MailComposer ?? (nodemailer as any).MailComposer
+    if (MailComposer) {
+      return new Promise<Buffer>((resolve, reject) => {
+        const mail = new MailComposer(mailOptions)
+        mail.compile().build((err: Error | null, message: Buffer) => {
+          if (err) reject(err)
+          else resolve(message)
+        })
+      }).catch((e: unknown) => new ApiError({ reason: `Failed to compile MIME: ${String(e)}`, cause: e as Error }))
+    }
+
+    // Fallback: build RFC 822 by hand if MailComposer unavailable
+    const composed = composeBody(body, html)
+    const rawHeaders = [
+      `From: ${mailOptions.from}`,
+      `To: ${mailOptions.to}`,
+      `Subject: ${mailOptions.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      `MIME-Version: 1.0`,
+      `Content-Type: ${composed.contentType}`,
+      ...(mailOptions.cc ? [`Cc: ${mailOptions.cc}`] : []),
+      ...(mailOptions.inReplyTo ? [`In-Reply-To: ${mailOptions.inReplyTo}`] : []),
+      ...(mailOptions.references ? [`References: ${mailOptions.references}`] : []),
+      ...(mailOptions.messageId ? [`Message-ID: ${mailOptions.messageId}`] : []),
+    ]
+    return Buffer.from(rawHeaders.join('\r\n') + '\r\n\r\n' + composed.content)
+  }
+
+  /** APPEND a sent message to the Sent folder. Failures only warn: the mail went out. */
+  private async appendToSent(raw: Buffer): Promise<void> {
+    const appendResult = await this.withImap(async (client) => {
+      const sentPath = await this.resolveMailboxPath(client, 'sent')
+      await client.append(sentPath, raw, ['\\Seen'])
+    })
+    if (appendResult instanceof Error) {
+      console.warn('Sent message but failed to save to Sent folder:', appendResult.message)
+    }
+  }
+
   async replyToThread({
     threadId,
     body,
+    html,
     replyAll = false,
     cc,
     fromEmail,
+    attachments,
+    sendAt,
+    signature = true,
   }: {
     threadId: string
     body: string
+    html?: string
     replyAll?: boolean
     cc?: Array<{ email: string }>
     fromEmail?: string
-  }): Promise<EmptyThreadError | UnsupportedError | AuthError | ApiError | { id: string; threadId: string; labelIds: string[] }> {
+    attachments?: Array<{ filename: string; mimeType: string; content: Buffer }>
+    sendAt?: Date
+    signature?: boolean
+  }): Promise<EmptyThreadError | UnsupportedError | AuthError | ApiError | { id: string; threadId: string; labelIds: string[] } | ScheduledMessage> {
     const thread = await this.getThread({ threadId })
     if (thread.parsed.messages.length === 0) {
       return new EmptyThreadError({ threadId })
@@ -640,9 +882,13 @@ export class ImapSmtpClient {
       to,
       subject: lastMsg.subject.startsWith('Re:') ? lastMsg.subject : `Re: ${lastMsg.subject}`,
       body,
+      html,
       cc: resolvedCc,
       inReplyTo: lastMsg.messageId,
       references: refs || undefined,
+      attachments,
+      sendAt,
+      signature,
     })
   }
 
@@ -651,12 +897,16 @@ export class ImapSmtpClient {
     to,
     body,
     fromEmail,
+    sendAt,
+    signature = true,
   }: {
     threadId: string
     to: Array<{ email: string }>
     body?: string
     fromEmail?: string
-  }): Promise<EmptyThreadError | UnsupportedError | AuthError | ApiError | { id: string; threadId: string; labelIds: string[] }> {
+    sendAt?: Date
+    signature?: boolean
+  }): Promise<EmptyThreadError | UnsupportedError | AuthError | ApiError | { id: string; threadId: string; labelIds: string[] } | ScheduledMessage> {
     const thread = await this.getThread({ threadId })
     if (thread.parsed.messages.length === 0) {
       return new EmptyThreadError({ threadId })
@@ -669,8 +919,10 @@ export class ImapSmtpClient {
       ? `${lastMsg.from.name} <${lastMsg.from.email}>`
       : lastMsg.from.email
 
+    const note = signature ? await signMessage(this.account, { body: body ?? '', fromEmail }) : { body: body ?? '' }
+
     const fullBody = [
-      body ?? '',
+      note.body,
       '',
       '---------- Forwarded message ----------',
       `From: ${fromStr}`,
@@ -685,9 +937,94 @@ export class ImapSmtpClient {
       to,
       subject: `Fwd: ${lastMsg.subject}`,
       body: fullBody,
+      sendAt,
+      signature: false,
     })
   }
 
+  /**
+   * Replies to a sent message: messages from someone else in INBOX, Archive or
+   * Snoozed whose In-Reply-To or References name `messageId`. Used by
+   * `mail followups`; folders that don't exist are skipped.
+   */
+  async findReplies({ messageId }: { messageId: string; threadId?: string | null }): Promise<Array<{ from: Sender; date: string }> | AuthError | ApiError> {
+    return this.withImap(async (client) => {
+      const archivePath = await this.resolveMailboxPath(client, 'archive')
+      const folders = [...new Set(['INBOX', archivePath, SNOOZED_FOLDER])]
+      const related = await this.findRelatedMessages(client, folders, [messageId], new Set(), { uid: true, envelope: true })
+      const me = this.account.email.toLowerCase()
+      return related
+        .filter(({ msg }) => msg.envelope?.messageId !== messageId)
+        .map(({ msg }) => ({ from: toSender(msg.envelope?.from?.[0]), date: msg.envelope?.date?.toISOString() ?? '' }))
+        .filter((reply) => reply.from.email.toLowerCase() !== me)
+    }) as Promise<Array<{ from: Sender; date: string }> | AuthError | ApiError>
+  }
+
+  // =========================================================================
+  // Import (IMAP APPEND)
+  // =========================================================================
+
+  /**
+   * APPEND existing messages to a folder (`zele mail import`) over one
+   * connection, keeping their flags (\Seen, \Flagged, \Draft) and dates as
+   * the internal date. The folder is created if it doesn't exist. Messages
+   * whose Message-ID is already in the folder (or earlier in this import) are
+   * skipped. Trashed messages are imported as-is: pick --folder trash for them.
+   */
+  async importMessages({
+    folder,
+    messages,
+    onResult,
+  }: {
+    folder: string
+    messages: AsyncIterable<ImportMessage>
+    onResult: (result: ImportResult) => void
+  }): Promise<void | AuthError | ApiError> {
+    const result = await this.withImap(async (client) => {
+      const path = await this.resolveMailboxPath(client, folder)
+      if (!(await client.list()).some((box) => box.path === path)) await client.mailboxCreate(path)
+
+      // Message-IDs already in the folder, for duplicate detection
+      const existing = new Set<string>()
+      const lock = await client.getMailboxLock(path)
+      try {
+        const mailbox = client.mailbox as MailboxObject
+        if (mailbox.exists > 0) {
+          for await (const msg of client.fetch('1:*', { envelope: true })) {
+            if (msg.envelope?.messageId) existing.add(msg.envelope.messageId)
+          }
+        }
+      } finally {
+        lock.release()
+      }
+
+      for await (const m of messages) {
+        const base = { source: m.source, messageId: m.messageId }
+        if (m.messageId && existing.has(m.messageId)) {
+          onResult({ ...base, status: 'duplicate' })
+          continue
+        }
+
+        const flags = [
+          ...(m.flags.read ? ['\\Seen'] : []),
+          ...(m.flags.flagged ? ['\\Flagged'] : []),
+          ...(m.flags.draft ? ['\\Draft'] : []),
+        ]
+        const appended = await client.append(path, m.raw, flags, m.date).then(
+          (res) => res,
+          (err: unknown) => new ApiError({ reason: String(err), cause: err as Error }),
+        )
+        if (appended instanceof Error || appended === false) {
+          onResult({ ...base, status: 'failed', error: appended ? appended.message : 'APPEND was rejected' })
+          continue
+        }
+        if (m.messageId) existing.add(m.messageId)
+        onResult({ ...base, status: 'imported', id: appended.uid ? makeThreadId(path, appended.uid) : undefined })
+      }
+    })
+    if (result instanceof Error) return result
+  }
+
   // =========================================================================
   // Flag operations (IMAP STORE)
   // =========================================================================
@@ -709,96 +1046,190 @@ export class ImapSmtpClient {
   }
 
   async trash({ threadId }: { threadId: string }): Promise<void | AuthError | ApiError> {
-    const { folder, uid } = parseThreadId(threadId)
-    return this.withImap(async (client) => {
+    const { folder, uids } = parseThreadId(threadId)
+    const result = await this.withImap(async (client) => {
       const trashPath = await this.resolveMailboxPath(client, 'trash')
       const lock = await client.getMailboxLock(folder)
       try {
         const moved = await errore.tryAsync({
-          try: () => client.messageMove(String(uid), trashPath, { uid: true }),
+          try: () => client.messageMove(uids.join(','), trashPath, { uid: true }),
           catch: (err) => new ApiError({ reason: `Failed to move to Trash: ${String(err)}`, cause: err }),
         })
         if (moved instanceof Error) {
           // Fallback: set \Deleted flag
-          await client.messageFlagsAdd(String(uid), ['\\Deleted'], { uid: true })
+          await client.messageFlagsAdd(uids.join(','), ['\\Deleted'], { uid: true })
         }
       } finally {
         lock.release()
       }
-    }) as Promise<void | AuthError | ApiError>
+    })
+    if (result instanceof Error) return result
+    await this.removeFromMirror(folder, uids)
   }
 
   async untrash({ threadId }: { threadId: string }): Promise<void | AuthError | ApiError> {
-    const { folder, uid } = parseThreadId(threadId)
+    const { folder, uids } = parseThreadId(threadId)
     // Move from whatever folder back to INBOX
-    return this.withImap(async (client) => {
+    const result = await this.withImap(async (client) => {
       const lock = await client.getMailboxLock(folder)
       try {
-        await client.messageMove(String(uid), 'INBOX', { uid: true })
+        await client.messageMove(uids.join(','), 'INBOX', { uid: true })
       } finally {
         lock.release()
       }
-    }) as Promise<void | AuthError | ApiError>
+    })
+    if (result instanceof Error) return result
+    await this.removeFromMirror(folder, uids)
   }
 
   async archive({ threadIds }: { threadIds: string[] }): Promise<void | AuthError | ApiError> {
     for (const threadId of threadIds) {
-      const { folder, uid } = parseThreadId(threadId)
+      const { folder, uids } = parseThreadId(threadId)
       const result = await this.withImap(async (client) => {
         const archivePath = await this.resolveMailboxPath(client, 'archive')
         const lock = await client.getMailboxLock(folder)
         try {
           const moved = await errore.tryAsync({
-            try: () => client.messageMove(String(uid), archivePath, { uid: true }),
+            try: () => client.messageMove(uids.join(','), archivePath, { uid: true }),
             catch: (err) => new ApiError({ reason: `Failed to move to Archive: ${String(err)}`, cause: err }),
           })
           if (moved instanceof Error) {
             // No archive folder available — mark as read as a minimal archive behavior
-            await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true })
+            await client.messageFlagsAdd(uids.join(','), ['\\Seen'], { uid: true })
+            return false
           }
+          return true
+        } finally {
+          lock.release()
+        }
+      })
+      if (result instanceof Error) return result
+      if (result) await this.removeFromMirror(folder, uids)
+      else await this.updateMirrorFlags(folder, uids, { add: ['\\Seen'] })
+    }
+  }
+
+  /**
+   * Move a conversation to the Snoozed folder (created if missing) until
+   * unsnooze(). Returns its thread ID there: new UIDs from UIDPLUS, or found
+   * again by Message-ID on servers without it.
+   */
+  async snooze({ threadId }: { threadId: string }): Promise<string | AuthError | ApiError> {
+    const { folder, uids } = parseThreadId(threadId)
+    const result = await this.withImap(async (client) => {
+      const mailboxes = await client.list()
+      const existing = mailboxes.find((m) => m.name.toLowerCase() === SNOOZED_FOLDER.toLowerCase())
+      const snoozedPath = existing ? existing.path : (await client.mailboxCreate(SNOOZED_FOLDER)).path
+
+      const messageIds: string[] = []
+      const lock = await client.getMailboxLock(folder)
+      let moved: Awaited<ReturnType<ImapFlow['messageMove']>>
+      try {
+        for await (const msg of client.fetch(uids.join(','), { uid: true, envelope: true }, { uid: true })) {
+          if (msg.envelope?.messageId) messageIds.push(msg.envelope.messageId)
+        }
+        moved = await client.messageMove(uids.join(','), snoozedPath, { uid: true })
+      } finally {
+        lock.release()
+      }
+      // Without UIDPLUS the new UIDs are found again by Message-ID
+      const snoozedLock = await client.getMailboxLock(snoozedPath)
+      try {
+        const found = await movedUids(moved ? moved.uidMap : undefined, messageIds, async (messageId) =>
+          (await client.search({ header: { 'message-id': messageId } }, { uid: true })) || [])
+        if (found.length === 0) throw new Error(`Moved ${threadId} to ${snoozedPath} but couldn't find it there`)
+        return makeThreadId(snoozedPath, found)
+      } finally {
+        snoozedLock.release()
+      }
+    })
+    if (result instanceof Error) return result
+    await this.removeFromMirror(folder, uids)
+    return result
+  }
+
+  /** Move a snoozed conversation back to INBOX, marked unread. */
+  async unsnooze({ threadId }: { threadId: string }): Promise<void | AuthError | ApiError> {
+    const { folder, uids } = parseThreadId(threadId)
+    const result = await this.withImap(async (client) => {
+      const lock = await client.getMailboxLock(folder)
+      try {
+        // Flags travel with the message, so clear \Seen before moving it back
+        await client.messageFlagsRemove(uids.join(','), ['\\Seen'], { uid: true })
+        await client.messageMove(uids.join(','), 'INBOX', { uid: true })
+      } finally {
+        lock.release()
+      }
+    })
+    if (result instanceof Error) return result
+    await this.removeFromMirror(folder, uids)
+  }
+
+  /**
+   * Move messages to another folder: a zele folder name (archive, trash, …)
+   * or an IMAP mailbox path, which must exist. Uses MOVE (RFC 6851); imapflow
+   * falls back to COPY, \Deleted and EXPUNGE on servers without it.
+   */
+  async move({ threadIds, folder: target }: { threadIds: string[]; folder: string }): Promise<void | AuthError | ApiError> {
+    for (const threadId of threadIds) {
+      const { folder, uids } = parseThreadId(threadId)
+      const result = await this.withImap(async (client) => {
+        const targetPath = await this.resolveMailboxPath(client, target)
+        if (targetPath === folder) return false
+        const lock = await client.getMailboxLock(folder)
+        try {
+          const moved = await client.messageMove(uids.join(','), targetPath, { uid: true })
+          if (!moved) throw new Error(`Couldn't move to ${targetPath}; does the folder exist?`)
+          return true
         } finally {
           lock.release()
         }
       })
       if (result instanceof Error) return result
+      if (result) await this.removeFromMirror(folder, uids)
     }
   }
 
   async markAsSpam({ threadIds }: { threadIds: string[] }): Promise<void | AuthError | ApiError> {
     for (const threadId of threadIds) {
-      const { folder, uid } = parseThreadId(threadId)
+      const { folder, uids } = parseThreadId(threadId)
       const result = await this.withImap(async (client) => {
         const junkPath = await this.resolveMailboxPath(client, 'spam')
         const lock = await client.getMailboxLock(folder)
         try {
           const moveResult = await errore.tryAsync({
-            try: () => client.messageMove(String(uid), junkPath, { uid: true }),
+            try: () => client.messageMove(uids.join(','), junkPath, { uid: true }),
             catch: (err) => new ApiError({ reason: `Failed to move to Junk: ${String(err)}`, cause: err }),
           })
           if (moveResult instanceof Error) {
             // Fallback: set $Junk keyword
-            await client.messageFlagsAdd(String(uid), ['$Junk'], { uid: true })
+            await client.messageFlagsAdd(uids.join(','), ['$Junk'], { uid: true })
+            return false
           }
+          return true
         } finally {
           lock.release()
         }
       })
       if (result instanceof Error) return result
+      if (result) await this.removeFromMirror(folder, uids)
+      else await this.updateMirrorFlags(folder, uids, { add: ['$Junk'] })
     }
   }
 
   async unmarkSpam({ threadIds }: { threadIds: string[] }): Promise<void | AuthError | ApiError> {
     for (const threadId of threadIds) {
-      const { folder, uid } = parseThreadId(threadId)
+      const { folder, uids } = parseThreadId(threadId)
       const result = await this.withImap(async (client) => {
         const lock = await client.getMailboxLock(folder)
         try {
-          await client.messageMove(String(uid), 'INBOX', { uid: true })
+          await client.messageMove(uids.join(','), 'INBOX', { uid: true })
         } finally {
           lock.release()
         }
       })
       if (result instanceof Error) return result
+      await this.removeFromMirror(folder, uids)
     }
   }
 
@@ -896,88 +1327,244 @@ export class ImapSmtpClient {
   }
 
   // =========================================================================
-  // Watch (IMAP polling — simplified version without IDLE)
+  // Watch (IMAP IDLE push, polling fallback)
   // =========================================================================
 
+  /**
+   * Yield changes in `folder` as they happen: new messages by default, plus
+   * expunges and flag changes when `events` asks for them (IMAP has no labels,
+   * so labels_added/labels_removed never fire). Uses IMAP IDLE (RFC 2177)
+   * on one long-lived connection when the server advertises it, reconnecting
+   * with exponential backoff when the connection drops. Servers without IDLE
+   * (and `once`) use the polling loop, which reconnects every `intervalMs`.
+   */
   async *watchInbox({
     folder = 'inbox',
     intervalMs = 15_000,
     query,
     once = false,
+    events = ['new_message'],
   }: {
     folder?: string
     intervalMs?: number
     query?: string
     once?: boolean
+    events?: WatchEventType[]
   } = {}): AsyncGenerator<WatchEvent> {
-    // Resolve folder path once (use a fresh connection)
-    let imapFolder = 'INBOX'
-    const resolveResult = await this.withImap(async (client) => {
-      return this.resolveMailboxPath(client, folder)
-    })
-    if (resolveResult instanceof Error) throw resolveResult
-    imapFolder = resolveResult as string
-
-    let lastUid = 0
+    // Flags are only snapshotted when flag or deletion events are wanted
+    const trackFlags = events.some((type) => type !== 'new_message')
 
-    // Seed with current highest UID
+    // Resolve folder path and seed with the current highest UID
     const seedResult = await this.withImap(async (client) => {
+      const imapFolder = await this.resolveMailboxPath(client, folder)
       const lock = await client.getMailboxLock(imapFolder)
       try {
         const searchResult = await client.search({ all: true }, { uid: true })
         const uids = searchResult === false ? [] : searchResult
-        return uids.length > 0 ? Math.max(...uids) : 0
+        const lastUid = uids.length > 0 ? Math.max(...uids) : 0
+        const state: ImapWatchState = {
+          lastUid,
+          flags: trackFlags ? await this.fetchFlagSnapshot(client, lastUid) : null,
+          modseq: (client.mailbox as MailboxObject).highestModseq ?? null,
+        }
+        return { imapFolder, state, idle: client.capabilities.has('IDLE') }
       } finally {
         lock.release()
       }
     })
     if (seedResult instanceof Error) throw seedResult
-    lastUid = seedResult as number
+    const { imapFolder, idle } = seedResult
+    let state = seedResult.state
+
+    const filter = query ? parseQuery(query) : null
+    const advance = (result: { events: WatchEvent[]; state: ImapWatchState }) => {
+      state = result.state
+      return result.events.filter((event) =>
+        events.includes(event.type) &&
+        // Client-side query filtering; deleted messages can't be matched, so --filter drops them
+        (!filter || (event.message !== null && matchesQuery(event.message, filter))),
+      )
+    }
 
+    if (!idle || once) {
+      while (true) {
+        const pollResult = await this.withImap((client) => this.fetchWatchChanges(client, imapFolder, state))
+        if (pollResult instanceof Error) throw pollResult
+        yield* advance(pollResult)
+
+        if (once) return
+        await new Promise((resolve) => setTimeout(resolve, intervalMs))
+      }
+    }
+
+    let backoffMs = IDLE_RECONNECT_MIN_MS
     while (true) {
-      // Check for new messages since lastUid
-      const pollResult = await this.withImap(async (client) => {
-        const lock = await client.getMailboxLock(imapFolder)
-        try {
-          // Search for UIDs > lastUid
-          const searchResult = await client.search({ uid: `${lastUid + 1}:*` }, { uid: true })
-          const uids = searchResult === false ? [] : searchResult
-          const newUids = uids.filter((u) => u > lastUid)
-
-          const events: WatchEvent[] = []
-          if (newUids.length > 0) {
-            const uidRange = newUids.join(',')
-            for await (const msg of client.fetch(uidRange, {
-              uid: true,
-              envelope: true,
-              flags: true,
-              source: true,
-            }, { uid: true })) {
-              const parsed = this.parseImapMessage(msg, imapFolder)
-              events.push({
-                account: this.account,
-                type: 'new_message',
-                message: parsed,
-                threadId: makeThreadId(imapFolder, msg.uid),
-              })
-              if (msg.uid > lastUid) lastUid = msg.uid
+      const client = this.createImapClient({ maxIdleTime: IDLE_RESTART_MS })
+      // Set by mailbox notifications and 'close'; checked before every IDLE wait.
+      // Starts true so changes made while disconnected are picked up.
+      let pending = true
+      let closed = false
+      let wake: (() => void) | null = null
+      const notify = () => { pending = true; wake?.() }
+      client.on('exists', notify)
+      if (trackFlags) {
+        client.on('expunge', notify)
+        client.on('flags', notify)
+      }
+      client.on('close', () => { closed = true; wake?.() })
+
+      try {
+        const opened = await imapBoundary(this.account.email, async () => {
+          await client.connect()
+          await client.mailboxOpen(imapFolder)
+        })
+        if (opened instanceof AuthError) throw opened
+
+        if (!(opened instanceof Error)) {
+          backoffMs = IDLE_RECONNECT_MIN_MS
+          // imapflow enters IDLE by itself while the mailbox is open and unused
+          while (!closed) {
+            if (!pending) {
+              await new Promise<void>((resolve) => { wake = resolve })
+              wake = null
+              continue
             }
+            pending = false
+            const fetched = await imapBoundary(this.account.email, () => this.fetchWatchChanges(client, imapFolder, state))
+            if (fetched instanceof AuthError) throw fetched
+            if (fetched instanceof Error) break
+            yield* advance(fetched)
           }
-          return events
-        } finally {
-          lock.release()
         }
+      } finally {
+        await client.logout().catch(() => {})
+      }
+
+      // Connection dropped or couldn't be opened — retry with exponential backoff
+      await new Promise((resolve) => setTimeout(resolve, backoffMs))
+      backoffMs = Math.min(backoffMs * 2, IDLE_RECONNECT_MAX_MS)
+    }
+  }
+
+  /** Flags of every message up to `lastUid` in the selected mailbox. */
+  private async fetchFlagSnapshot(client: ImapFlow, lastUid: number): Promise<Map<number, Set<string>>> {
+    const snapshot = new Map<number, Set<string>>()
+    if (lastUid === 0) return snapshot
+    for await (const msg of client.fetch(`1:${lastUid}`, { uid: true, flags: true }, { uid: true })) {
+      // \Recent is session-specific and changes on every connection
+      snapshot.set(msg.uid, new Set([...(msg.flags ?? [])].filter((f) => f !== '\\Recent')))
+    }
+    return snapshot
+  }
+
+  /**
+   * Flags up to `lastUid`: `flags` updated with the messages changed since
+   * `since` (CONDSTORE CHANGEDSINCE), so a tick only fetches what changed.
+   * Expunged UIDs are found with a UID SEARCH, which returns numbers only.
+   * Also returns the highest MODSEQ seen, to pass as `since` next time.
+   */
+  private async fetchFlagChanges(
+    client: ImapFlow,
+    lastUid: number,
+    flags: Map<number, Set<string>>,
+    since: bigint,
+  ): Promise<{ flags: Map<number, Set<string>>; modseq: bigint }> {
+    if (lastUid === 0) return { flags: new Map(), modseq: since }
+    const present = new Set((await client.search({ uid: `1:${lastUid}` }, { uid: true })) || [])
+    const current = new Map([...flags].filter(([uid]) => present.has(uid)))
+    let modseq = since
+    for await (const msg of client.fetch(`1:${lastUid}`, { uid: true, flags: true }, { uid: true, changedSince: since })) {
+      current.set(msg.uid, new Set([...(msg.flags ?? [])].filter((f) => f !== '\\Recent')))
+      if (msg.modseq !== undefined && msg.modseq > modseq) modseq = msg.modseq
+    }
+    return { flags: current, modseq }
+  }
+
+  /**
+   * Diff `folder` against the previous watch state: expunged messages and flag
+   * changes (when flags are tracked), then messages above `lastUid`. Returns
+   * every event plus the next state; the caller filters by type.
+   */
+  private async fetchWatchChanges(
+    client: ImapFlow,
+    imapFolder: string,
+    state: ImapWatchState,
+  ): Promise<{ events: WatchEvent[]; state: ImapWatchState }> {
+    const lock = await client.getMailboxLock(imapFolder)
+    try {
+      const events: WatchEvent[] = []
+      const base = (uid: number) => ({
+        account: this.account,
+        messageId: makeThreadId(imapFolder, uid),
+        threadId: makeThreadId(imapFolder, uid),
       })
 
-      if (pollResult instanceof Error) throw pollResult
-      for (const event of pollResult as WatchEvent[]) {
-        // Client-side query filtering (basic: from:, to:, subject:, is:unread, is:starred)
-        if (query && !matchesQuery(event.message, query)) continue
-        yield event
+      let flags = state.flags
+      // The selected mailbox's HIGHESTMODSEQ can lag during IDLE, so also keep the highest MODSEQ fetched
+      let modseq = (client.mailbox as MailboxObject).highestModseq ?? null
+      if (flags) {
+        let current: Map<number, Set<string>>
+        if (modseq !== null && state.modseq !== null) {
+          const changes = await this.fetchFlagChanges(client, state.lastUid, flags, state.modseq)
+          current = changes.flags
+          if (changes.modseq > modseq) modseq = changes.modseq
+        } else {
+          current = await this.fetchFlagSnapshot(client, state.lastUid)
+        }
+        const changed = new Map<number, { added: string[]; removed: string[] }>()
+        for (const [uid, before] of flags) {
+          const after = current.get(uid)
+          if (!after) {
+            events.push({ ...base(uid), type: 'message_deleted', message: null })
+            continue
+          }
+          const added = [...after].filter((f) => !before.has(f))
+          const removed = [...before].filter((f) => !after.has(f))
+          if (added.length > 0 || removed.length > 0) changed.set(uid, { added, removed })
+        }
+
+        if (changed.size > 0) {
+          for await (const msg of client.fetch(toSequenceSet([...changed.keys()]), {
+            uid: true,
+            envelope: true,
+            flags: true,
+            bodyStructure: true,
+          }, { uid: true })) {
+            const { added, removed } = changed.get(msg.uid)!
+            const message = this.parseImapMessage(msg, imapFolder)
+            if (added.includes('\\Seen')) {
+              events.push({ ...base(msg.uid), type: 'marked_read', message, added: ['\\Seen'] })
+            }
+            const otherAdded = added.filter((f) => f !== '\\Seen')
+            if (otherAdded.length > 0 || removed.length > 0) {
+              events.push({ ...base(msg.uid), type: 'flag_changed', message, added: otherAdded, removed })
+            }
+          }
+        }
+        flags = current
       }
 
-      if (once) return
-      await new Promise((resolve) => setTimeout(resolve, intervalMs))
+      // Search for UIDs > lastUid ("N:*" always matches the last message, so filter)
+      const searchResult = await client.search({ uid: `${state.lastUid + 1}:*` }, { uid: true })
+      const uids = searchResult === false ? [] : searchResult
+      const newUids = uids.filter((u) => u > state.lastUid)
+
+      let lastUid = state.lastUid
+      if (newUids.length > 0) {
+        for await (const msg of client.fetch(newUids.join(','), {
+          uid: true,
+          envelope: true,
+          flags: true,
+          source: true,
+        }, { uid: true })) {
+          events.push({ ...base(msg.uid), type: 'new_message', message: this.parseImapMessage(msg, imapFolder) })
+          flags?.set(msg.uid, new Set([...(msg.flags ?? [])].filter((f) => f !== '\\Recent')))
+          lastUid = Math.max(lastUid, msg.uid)
+        }
+      }
+      return { events, state: { lastUid, flags, modseq } }
+    } finally {
+      lock.release()
     }
   }
 
@@ -1036,28 +1623,35 @@ export class ImapSmtpClient {
     to,
     subject,
     body,
+    html,
     cc,
     bcc,
     threadId,
     fromEmail,
+    signature = true,
   }: {
     to: Array<{ name?: string; email: string }>
     subject: string
     body: string
+    html?: string
     cc?: Array<{ name?: string; email: string }>
     bcc?: Array<{ name?: string; email: string }>
     threadId?: string
     fromEmail?: string
     attachments?: Array<{ filename: string; mimeType: string; content: Buffer }>
+    signature?: boolean
   }) {
+    if (signature) ({ body, html } = await signMessage(this.account, { body, html, fromEmail }))
+
     // Build MIME message and APPEND to Drafts folder
+    const composed = composeBody(body, html)
     const headers = [
       `From: ${fromEmail ?? this.account.email}`,
       `To: ${to.map((r) => r.name ? `"${r.name}" <${r.email}>` : r.email).join(', ')}`,
       `Subject: ${subject}`,
       `Date: ${new Date().toUTCString()}`,
       `MIME-Version: 1.0`,
-      `Content-Type: text/plain; charset=utf-8`,
+      `Content-Type: ${composed.contentType}`,
     ]
     if (cc && cc.length > 0) {
       headers.push(`Cc: ${cc.map((r) => r.name ? `"${r.name}" <${r.email}>` : r.email).join(', ')}`)
@@ -1066,7 +1660,7 @@ export class ImapSmtpClient {
       headers.push(`Bcc: ${bcc.map((r) => r.name ? `"${r.name}" <${r.email}>` : r.email).join(', ')}`)
     }
 
-    const raw = headers.join('\r\n') + '\r\n\r\n' + body
+    const raw = headers.join('\r\n') + '\r\n\r\n' + composed.content
     const rawBuffer = Buffer.from(raw)
 
     const result = await this.withImap(async (client) => {
@@ -1096,14 +1690,28 @@ export class ImapSmtpClient {
     }
   }
 
-  async sendDraft({ draftId }: { draftId: string }) {
+  async sendDraft({ draftId, sendAt }: { draftId: string; sendAt?: Date }) {
     // Fetch the draft message, send it via SMTP, then delete the draft
     const draft = await this.getDraft({ draftId })
 
+    if (sendAt) {
+      // Queue the draft's source as-is; the outbox deletes the draft once it's sent
+      const raw = await this.getRawMessageBytes({ messageId: draftId })
+      if (raw instanceof Error) return raw
+      return enqueueOutbox(this.account, {
+        raw: raw.toString('latin1'),
+        sendAt,
+        subject: draft.message.subject,
+        recipients: [...draft.to, ...draft.cc, ...draft.bcc].map((r) => r.email),
+        draftId,
+      })
+    }
+
     const result = await this.sendMessage({
       to: draft.to,
       subject: draft.message.subject,
-      body: draft.message.body,
+      body: draft.message.textBody ?? draft.message.body,
+      html: draft.message.mimeType === 'text/html' ? draft.message.body : undefined,
       cc: draft.cc.length > 0 ? draft.cc : undefined,
       bcc: draft.bcc.length > 0 ? draft.bcc : undefined,
     })
@@ -1166,15 +1774,19 @@ export class ImapSmtpClient {
   async createDraftReply({
     threadId,
     body,
+    html,
     replyAll = false,
     cc,
     fromEmail,
+    signature = true,
   }: {
     threadId: string
     body: string
+    html?: string
     replyAll?: boolean
     cc?: Array<{ email: string }>
     fromEmail?: string
+    signature?: boolean
   }): Promise<EmptyThreadError | AuthError | ApiError | { id: string; message: { id: string }; threadId: string }> {
     const thread = await this.getThread({ threadId })
     if (thread.parsed.messages.length === 0) {
@@ -1207,14 +1819,17 @@ export class ImapSmtpClient {
     const refs = [lastMsg.references, lastMsg.messageId].filter(Boolean).join(' ')
     const subject = lastMsg.subject.startsWith('Re:') ? lastMsg.subject : `Re: ${lastMsg.subject}`
 
+    if (signature) ({ body, html } = await signMessage(this.account, { body, html, fromEmail }))
+
     // Build MIME with reply headers
+    const composed = composeBody(body, html)
     const headers = [
       `From: ${fromEmail ?? this.account.email}`,
       `To: ${to.map((r) => r.email).join(', ')}`,
       `Subject: ${subject}`,
       `Date: ${new Date().toUTCString()}`,
       `MIME-Version: 1.0`,
-      `Content-Type: text/plain; charset=utf-8`,
+      `Content-Type: ${composed.contentType}`,
     ]
     if (resolvedCc && resolvedCc.length > 0) {
       headers.push(`Cc: ${resolvedCc.map((r) => r.email).join(', ')}`)
@@ -1226,7 +1841,7 @@ export class ImapSmtpClient {
       headers.push(`References: ${refs}`)
     }
 
-    const raw = headers.join('\r\n') + '\r\n\r\n' + body
+    const raw = headers.join('\r\n') + '\r\n\r\n' + composed.content
     const rawBuffer = Buffer.from(raw)
 
     const result = await this.withImap(async (client) => {
@@ -1252,11 +1867,13 @@ export class ImapSmtpClient {
     to,
     body,
     fromEmail,
+    signature = true,
   }: {
     threadId: string
     to: Array<{ email: string }>
     body?: string
     fromEmail?: string
+    signature?: boolean
   }): Promise<EmptyThreadError | AuthError | ApiError | { id: string; message: { id: string }; threadId: string }> {
     const thread = await this.getThread({ threadId })
     if (thread.parsed.messages.length === 0) {
@@ -1270,8 +1887,10 @@ export class ImapSmtpClient {
       ? `${lastMsg.from.name} <${lastMsg.from.email}>`
       : lastMsg.from.email
 
+    const note = signature ? await signMessage(this.account, { body: body ?? '', fromEmail }) : { body: body ?? '' }
+
     const fullBody = [
-      body ?? '',
+      note.body,
       '',
       '---------- Forwarded message ----------',
       `From: ${fromStr}`,
@@ -1287,23 +1906,440 @@ export class ImapSmtpClient {
       subject: `Fwd: ${lastMsg.subject}`,
       body: fullBody,
       fromEmail,
+      signature: false,
     })
   }
 
   // =========================================================================
-  // Folder listing (IMAP equivalent of labels)
+  // Folders (IMAP equivalent of labels, `zele folder`)
   // =========================================================================
 
-  async listFolders(): Promise<Array<{ name: string; path: string; specialUse?: string; flags: string[] }> | AuthError | ApiError> {
+  /** Every mailbox on the server; with `counts`, total and unseen messages from STATUS. */
+  async listFolders({ counts = false }: { counts?: boolean } = {}): Promise<ImapFolder[] | AuthError | ApiError> {
     return this.withImap(async (client) => {
-      const mailboxes = await client.list()
-      return mailboxes.map((m) => ({
+      const mailboxes = await client.list(counts ? { statusQuery: { messages: true, unseen: true } } : {})
+      return mailboxes.map((m): ImapFolder => ({
         name: m.name,
         path: m.path,
+        delimiter: m.delimiter,
         specialUse: m.specialUse ?? undefined,
         flags: Array.from(m.flags),
+        subscribed: m.subscribed,
+        ...(m.status ? { messages: m.status.messages, unseen: m.status.unseen } : {}),
       }))
-    }) as Promise<Array<{ name: string; path: string; specialUse?: string; flags: string[] }> | AuthError | ApiError>
+    })
+  }
+
+  /** Create a mailbox (and missing parents). `created` is false when it already existed. */
+  async createFolder({ path }: { path: string }): Promise<{ path: string; created: boolean } | AuthError | ApiError> {
+    return this.withImap(async (client) => {
+      const result = await client.mailboxCreate(path)
+      return { path: result.path, created: result.created }
+    })
+  }
+
+  /** Rename a mailbox (a zele folder name or a path). Its mirrored messages are dropped until the next sync. */
+  async renameFolder({ from, to }: { from: string; to: string }): Promise<{ from: string; to: string } | ValidationError | NotFoundError | AuthError | ApiError> {
+    const result = await this.withImap(async (client) => {
+      const mailbox = await this.findMailbox(client, from)
+      if (mailbox instanceof Error) return mailbox
+      if (mailbox.path === 'INBOX') return new ValidationError({ field: 'folder', reason: 'INBOX can\'t be renamed' })
+      const renamed = await client.mailboxRename(mailbox.path, to)
+      return { from: renamed.path, to: renamed.newPath, delimiter: mailbox.delimiter }
+    })
+    if (result instanceof Error) return result
+    await this.dropFolderFromMirror(result.from, result.delimiter)
+    return { from: result.from, to: result.to }
+  }
+
+  /**
+   * Delete a mailbox and the messages in it. INBOX and special-use mailboxes
+   * (Sent, Trash, …) are refused, since zele and other clients rely on them.
+   */
+  async deleteFolder({ path: folder }: { path: string }): Promise<{ path: string } | ValidationError | NotFoundError | AuthError | ApiError> {
+    const result = await this.withImap(async (client) => {
+      const mailbox = await this.findMailbox(client, folder)
+      if (mailbox instanceof Error) return mailbox
+      if (mailbox.path === 'INBOX' || mailbox.specialUse) {
+        return new ValidationError({ field: 'folder', reason: `${mailbox.path} is a special mailbox (${mailbox.specialUse ?? 'INBOX'}) and can't be deleted` })
+      }
+      await client.mailboxDelete(mailbox.path)
+      return { path: mailbox.path, delimiter: mailbox.delimiter }
+    })
+    if (result instanceof Error) return result
+    await this.dropFolderFromMirror(result.path, result.delimiter)
+    return { path: result.path }
+  }
+
+  /** Subscribe to a mailbox, or unsubscribe with `subscribed: false`. Other clients often only show subscribed mailboxes. */
+  async subscribeFolder({ path: folder, subscribed }: { path: string; subscribed: boolean }): Promise<{ path: string } | AuthError | ApiError> {
+    return this.withImap(async (client) => {
+      const path = await this.resolveMailboxPath(client, folder)
+      const ok = subscribed ? await client.mailboxSubscribe(path) : await client.mailboxUnsubscribe(path)
+      if (!ok) throw new Error(`Couldn't ${subscribed ? 'subscribe to' : 'unsubscribe from'} ${path}; does the folder exist?`)
+      return { path }
+    })
+  }
+
+  // =========================================================================
+  // Mirror (`zele sync`)
+  // =========================================================================
+
+  /** When this account's mirror last completed `zele sync`, or null if it has none. */
+  async getMirrorSyncedAt(): Promise<Date | null> {
+    if (this.mirrorSyncedAt === undefined) {
+      this.mirrorSyncedAt = (await getMirrorSyncedAt(this.account)) ?? null
+    }
+    return this.mirrorSyncedAt
+  }
+
+  /**
+   * Mirror every selectable mailbox into the MirrorMessage table.
+   * Each folder keeps its own cursor (UIDVALIDITY, HIGHESTMODSEQ, last UID) in
+   * SyncState: unchanged folders are skipped, flag changes are fetched with
+   * CHANGEDSINCE, expunges come from QRESYNC VANISHED (or a UID diff), and new
+   * messages are fetched in batches so an interrupted sync resumes where it
+   * stopped. A changed UIDVALIDITY refetches that folder from scratch.
+   */
+  async syncMirror({
+    full = false,
+    onProgress,
+  }: {
+    full?: boolean
+    onProgress?: (progress: SyncProgress) => void
+  } = {}): Promise<SyncResult | AuthError | ApiError> {
+    if (full) await clearImapMirror(this.account)
+    const previous = JSON.parse((await getSyncState(this.account, MIRROR_KEYS.folders)) ?? '[]') as Array<{ path: string }>
+
+    const result = await this.withImap(async (client) => {
+      const mailboxes = (await client.list()).filter((m) =>
+        !m.flags.has('\\Noselect') &&
+        !m.flags.has('\\NonExistent') &&
+        // Virtual folders duplicate messages stored elsewhere
+        m.specialUse !== '\\All' &&
+        m.specialUse !== '\\Flagged',
+      )
+      const total: SyncResult = { mode: 'incremental', updated: 0, removed: 0 }
+      for (const mailbox of mailboxes) {
+        const folderResult = await this.syncMirrorFolder(client, mailbox.path, onProgress)
+        if (folderResult.mode === 'full') total.mode = 'full'
+        total.updated += folderResult.updated
+        total.removed += folderResult.removed
+      }
+      return {
+        total,
+        mailboxes: mailboxes.map((m) => ({ path: m.path, specialUse: m.specialUse ?? undefined })),
+      }
+    }, { qresync: true })
+    if (result instanceof Error) return result
+
+    // Folders deleted on the server since the last sync
+    const prisma = await getPrisma()
+    const paths = new Set(result.mailboxes.map((m) => m.path))
+    for (const { path } of previous.filter((m) => !paths.has(m.path))) {
+      const deleted = await prisma.mirrorMessage.deleteMany({
+        where: { email: this.account.email, appId: this.account.appId, folder: path },
+      })
+      await deleteSyncState(this.account, [mirrorFolderKey(path)])
+      result.total.removed += deleted.count
+    }
+
+    await setSyncState(this.account, MIRROR_KEYS.folders, JSON.stringify(result.mailboxes))
+    const now = new Date()
+    await setSyncState(this.account, MIRROR_KEYS.syncedAt, now.toISOString())
+    this.mirrorSyncedAt = now
+    return result.total
+  }
+
+  private async syncMirrorFolder(
+    client: ImapFlow,
+    path: string,
+    onProgress?: (progress: SyncProgress) => void,
+  ): Promise<SyncResult> {
+    const prisma = await getPrisma()
+    const where = { email: this.account.email, appId: this.account.appId, folder: path }
+    const lock = await client.getMailboxLock(path)
+    try {
+      const mailbox = client.mailbox as MailboxObject
+      const uidValidity = String(mailbox.uidValidity)
+      const highestModseq = mailbox.highestModseq !== undefined ? String(mailbox.highestModseq) : ''
+      const saved = await getSyncState(this.account, mirrorFolderKey(path))
+      let state = saved ? (JSON.parse(saved) as MirrorFolderState) : null
+      let updated = 0
+      let removed = 0
+
+      if (state && state.uidValidity !== uidValidity) {
+        // UIDs were renumbered — the stored copies can't be matched anymore
+        removed += (await prisma.mirrorMessage.deleteMany({ where })).count
+        state = null
+      }
+      const phase = state ? 'incremental' : 'full'
+
+      // Flag changes and expunges among the messages we already have
+      if (state && state.lastUid > 0 && !(highestModseq && highestModseq === state.highestModseq)) {
+        const range = `1:${state.lastUid}`
+        const vanished = new Set<number>()
+        const onExpunge = (event: { path: string; uid?: number; vanished?: boolean }) => {
+          if (event.vanished && event.uid && event.path === path) vanished.add(event.uid)
+        }
+        client.on('expunge', onExpunge)
+        try {
+          const changedSince = state.highestModseq && highestModseq ? BigInt(state.highestModseq) : undefined
+          for await (const msg of client.fetch(range, { uid: true, flags: true }, { uid: true, changedSince })) {
+            const res = await prisma.mirrorMessage.updateMany({
+              where: { ...where, uid: msg.uid },
+              data: { flags: [...(msg.flags ?? [])].join(' '), modseq: msg.modseq !== undefined ? String(msg.modseq) : '' },
+            })
+            updated += res.count
+          }
+        } finally {
+          client.off('expunge', onExpunge)
+        }
+
+        // Without QRESYNC the server doesn't report expunges — diff the UID lists
+        if (!client.enabled.has('QRESYNC')) {
+          const present = new Set((await client.search({ uid: range }, { uid: true })) || [])
+          const stored: Array<{ uid: number }> = await prisma.mirrorMessage.findMany({ where, select: { uid: true } })
+          for (const { uid } of stored) {
+            if (!present.has(uid)) vanished.add(uid)
+          }
+        }
+        if (vanished.size > 0) {
+          removed += (await prisma.mirrorMessage.deleteMany({ where: { ...where, uid: { in: [...vanished] } } })).count
+        }
+      }
+
+      // New messages above the cursor. "N:*" always matches the last message, so filter.
+      let lastUid = state?.lastUid ?? 0
+      const newUids = mailbox.uidNext > lastUid + 1
+        ? ((await client.search({ uid: `${lastUid + 1}:*` }, { uid: true })) || []).filter((uid) => uid > lastUid)
+        : []
+      newUids.sort((a, b) => a - b)
+
+      const saveCursor = () =>
+        setSyncState(this.account, mirrorFolderKey(path), JSON.stringify({ uidValidity, highestModseq, lastUid } satisfies MirrorFolderState))
+      await saveCursor()
+
+      for (let i = 0; i < newUids.length; i += MIRROR_FETCH_BATCH) {
+        const batch = newUids.slice(i, i + MIRROR_FETCH_BATCH)
+        for await (const msg of client.fetch(toSequenceSet(batch), {
+          uid: true,
+          envelope: true,
+          flags: true,
+          bodyStructure: true,
+          source: true,
+        }, { uid: true })) {
+          await this.storeMirrorMessage(path, msg)
+          updated++
+        }
+        lastUid = batch[batch.length - 1]!
+        await saveCursor()
+        onProgress?.({ phase, folder: path, done: i + batch.length, total: newUids.length })
+      }
+
+      return { mode: phase, updated, removed }
+    } finally {
+      lock.release()
+    }
+  }
+
+  private async storeMirrorMessage(folder: string, msg: FetchMessageObject): Promise<void> {
+    const prisma = await getPrisma()
+    const env = msg.envelope
+    const date = env?.date && !Number.isNaN(env.date.getTime()) ? env.date.toISOString() : ''
+    const data = {
+      messageId: normalizeMessageId(env?.messageId) ?? '',
+      inReplyTo: normalizeMessageId(env?.inReplyTo) ?? '',
+      references: this.toThreadable(msg, '').references.join(' '),
+      subject: env?.subject ?? '',
+      date,
+      flags: [...(msg.flags ?? [])].join(' '),
+      modseq: msg.modseq !== undefined ? String(msg.modseq) : '',
+      envelope: JSON.stringify(env ?? {}),
+      bodyStructure: JSON.stringify(msg.bodyStructure ?? null),
+      // latin1 maps each byte to one code unit, so the raw message round-trips exactly
+      source: msg.source?.toString('latin1') ?? '',
+    }
+    const key = { email: this.account.email, appId: this.account.appId, folder, uid: msg.uid }
+    await prisma.mirrorMessage.upsert({
+      where: { email_appId_folder_uid: key },
+      create: { ...key, ...data },
+      update: data,
+    })
+  }
+
+  /** Mailbox path of a zele folder name, or null if that folder hasn't been mirrored. */
+  private async mirrorFolderPath(folder: string): Promise<string | null> {
+    const saved = await getSyncState(this.account, MIRROR_KEYS.folders)
+    if (!saved) return null
+    const lower = folder.toLowerCase()
+    const path = lower === 'inbox' || lower === 'starred'
+      ? 'INBOX'
+      : SPECIAL_USE_MAP[lower]
+        ? pickMailboxPath(folder, JSON.parse(saved) as Array<{ path: string; specialUse?: string }>)
+        : folder
+    return (await getSyncState(this.account, mirrorFolderKey(path))) ? path : null
+  }
+
+  /** Mirrored folders a conversation in `folder` can span (itself, INBOX, Sent). */
+  private async mirrorConversationFolders(folder: string): Promise<string[]> {
+    const sentPath = await this.mirrorFolderPath('sent')
+    return [...new Set([folder, 'INBOX', sentPath].filter(isTruthy))]
+  }
+
+  private async mirrorHeaders(folders: string[]): Promise<MirrorHeaderRow[]> {
+    const prisma = await getPrisma()
+    return prisma.mirrorMessage.findMany({
+      where: { email: this.account.email, appId: this.account.appId, folder: { in: folders } },
+      select: MIRROR_HEADER_SELECT,
+    })
+  }
+
+  /** Load full rows for "folder:uid" keys. Bodies are only read when `withSource`. */
+  private async mirrorRows(keys: string[], { withSource }: { withSource: boolean }): Promise<MirrorRow[]> {
+    const byFolder = new Map<string, number[]>()
+    for (const key of keys) {
+      const { folder, uid } = parseThreadId(key)
+      byFolder.set(folder, [...(byFolder.get(folder) ?? []), uid])
+    }
+    if (byFolder.size === 0) return []
+    const prisma = await getPrisma()
+    return prisma.mirrorMessage.findMany({
+      where: {
+        email: this.account.email,
+        appId: this.account.appId,
+        OR: [...byFolder].map(([folder, uids]) => ({ folder, uid: { in: uids } })),
+      },
+      select: { ...MIRROR_HEADER_SELECT, envelope: true, bodyStructure: true, source: withSource },
+    })
+  }
+
+  private mirrorThreadable(row: MirrorHeaderRow): ThreadableMessage {
+    return {
+      key: makeThreadId(row.folder, row.uid),
+      messageId: row.messageId || null,
+      inReplyTo: row.inReplyTo || null,
+      references: row.references.split(' ').filter(Boolean),
+      subject: row.subject,
+      date: Date.parse(row.date) || 0,
+    }
+  }
+
+  /** Turn a stored row back into the shape imapflow's fetch() yields. */
+  private fromMirrorRow(row: MirrorRow): FetchMessageObject {
+    const envelope = JSON.parse(row.envelope) as MessageEnvelopeObject
+    if (envelope.date) envelope.date = new Date(envelope.date)
+    return {
+      seq: 0,
+      uid: row.uid,
+      envelope,
+      flags: new Set(row.flags.split(' ').filter(Boolean)),
+      bodyStructure: JSON.parse(row.bodyStructure) ?? undefined,
+      source: row.source ? Buffer.from(row.source, 'latin1') : undefined,
+    } as FetchMessageObject
+  }
+
+  /** listThreads for a mirrored folder. pageToken is a thread offset, like the live version. */
+  private async listThreadsFromMirror({
+    path,
+    isStarred,
+    maxResults,
+    pageToken,
+  }: {
+    path: string
+    isStarred: boolean
+    maxResults: number
+    pageToken?: string
+  }): Promise<ThreadListResult> {
+    const headers = await this.mirrorHeaders(await this.mirrorConversationFolders(path))
+    const listed = new Set(
+      headers
+        .filter((row) => row.folder === path && (!isStarred || row.flags.split(' ').includes('\\Flagged')))
+        .map((row) => makeThreadId(row.folder, row.uid)),
+    )
+
+    // Conversations with at least one listed message, newest first
+    const dateOf = new Map(headers.map((row) => [makeThreadId(row.folder, row.uid), Date.parse(row.date) || 0]))
+    const latestListed = (keys: string[]) => Math.max(...keys.filter((k) => listed.has(k)).map((k) => dateOf.get(k)!))
+    const groups = threadMessages(headers.map((row) => this.mirrorThreadable(row)))
+      .filter((keys) => keys.some((key) => listed.has(key)))
+      .sort((a, b) => latestListed(b) - latestListed(a))
+
+    const startIndex = pageToken ? Number(pageToken) : 0
+    const page = groups.slice(startIndex, startIndex + maxResults)
+    const rows = await this.mirrorRows(page.flat().filter((key) => listed.has(key)), { withSource: false })
+    const byKey = new Map(rows.map((row) => [makeThreadId(row.folder, row.uid), this.fromMirrorRow(row)]))
+
+    return {
+      threads: page.map((keys) => {
+        const msgs = keys.map((key) => byKey.get(key)).filter(isTruthy)
+        return this.toThreadListItem(path, msgs, keys.length)
+      }),
+      rawThreads: [],
+      nextPageToken: startIndex + maxResults < groups.length ? String(startIndex + maxResults) : null,
+      resultSizeEstimate: groups.length,
+    }
+  }
+
+  /** getThread from the mirror, or null when the account or message isn't mirrored. */
+  private async getThreadFromMirror(threadId: string): Promise<ThreadResult | null> {
+    if (!(await this.getMirrorSyncedAt())) return null
+    const { folder, uids } = parseThreadId(threadId)
+    if (!(await getSyncState(this.account, mirrorFolderKey(folder)))) return null
+
+    const headers = await this.mirrorHeaders(await this.mirrorConversationFolders(folder))
+    const anchors = new Set(uids.map((uid) => makeThreadId(folder, uid)))
+    // Messages newer than the last sync aren't mirrored yet — read them live
+    if (![...anchors].every((key) => headers.some((row) => makeThreadId(row.folder, row.uid) === key))) return null
+
+    const keys = threadMessages(headers.map((row) => this.mirrorThreadable(row)))
+      .filter((group) => group.some((key) => anchors.has(key)))
+      .flat()
+    const rows = await this.mirrorRows(keys, { withSource: true })
+    const messages = rows.map((row) => this.parseImapMessage(this.fromMirrorRow(row), row.folder))
+    return { parsed: this.toThreadData(threadId, messages), raw: {} } as ThreadResult
+  }
+
+  /** Drop moved messages from the mirror; `zele sync` picks them up in their new folder. */
+  private async removeFromMirror(folder: string, uids: number[]): Promise<void> {
+    const prisma = await getPrisma()
+    await prisma.mirrorMessage.deleteMany({
+      where: { email: this.account.email, appId: this.account.appId, folder, uid: { in: uids } },
+    })
+  }
+
+  /** Forget a renamed or deleted mailbox and its children in the mirror; `zele sync` fetches them again under their new paths. */
+  private async dropFolderFromMirror(path: string, delimiter: string): Promise<void> {
+    const prisma = await getPrisma()
+    const account = { email: this.account.email, appId: this.account.appId }
+    const folders = await prisma.mirrorMessage.findMany({
+      where: { ...account, OR: [{ folder: path }, { folder: { startsWith: path + delimiter } }] },
+      select: { folder: true },
+      distinct: ['folder'],
+    })
+    await prisma.mirrorMessage.deleteMany({
+      where: { ...account, folder: { in: folders.map((f) => f.folder) } },
+    })
+    await deleteSyncState(this.account, [path, ...folders.map((f) => f.folder)].map(mirrorFolderKey))
+  }
+
+  /** Apply a flag change to mirrored copies so reads reflect it before the next sync. */
+  private async updateMirrorFlags(folder: string, uids: number[], opts: { add?: string[]; remove?: string[] }): Promise<void> {
+    const prisma = await getPrisma()
+    const where = { email: this.account.email, appId: this.account.appId, folder, uid: { in: uids } }
+    const rows: Array<{ uid: number; flags: string }> = await prisma.mirrorMessage.findMany({
+      where,
+      select: { uid: true, flags: true },
+    })
+    for (const row of rows) {
+      const flags = new Set(row.flags.split(' ').filter(Boolean))
+      opts.add?.forEach((f) => flags.add(f))
+      opts.remove?.forEach((f) => flags.delete(f))
+      await prisma.mirrorMessage.update({
+        where: { email_appId_folder_uid: { email: this.account.email, appId: this.account.appId, folder, uid: row.uid } },
+        data: { flags: [...flags].join(' ') },
+      })
+    }
   }
 
   // =========================================================================
@@ -1317,6 +2353,146 @@ export class ImapSmtpClient {
   // Private helpers
   // =========================================================================
 
+  /** Group UIDs of the selected mailbox into conversations, newest first (by UID).
+   *  Uses the server's THREAD=REFERENCES when advertised, otherwise runs JWZ
+   *  threading over envelopes + References headers client-side. */
+  private async groupIntoThreads(client: ImapFlow, uids: number[]): Promise<number[][]> {
+    let groups: number[][] | null = null
+    if (client.capabilities.has('THREAD=REFERENCES')) {
+      const serverGroups = await this.serverThreads(client, uids)
+      // Some servers advertise THREAD but reject it on certain mailboxes
+      if (!(serverGroups instanceof Error)) groups = serverGroups
+    }
+    if (!groups) {
+      const messages: ThreadableMessage[] = []
+      for await (const msg of client.fetch(toSequenceSet(uids), {
+        uid: true,
+        envelope: true,
+        headers: ['references'],
+      }, { uid: true })) {
+        messages.push(this.toThreadable(msg, String(msg.uid)))
+      }
+      groups = threadMessages(messages).map((keys) => keys.map(Number))
+    }
+    return groups
+      .map((group) => [...group].sort((a, b) => b - a))
+      .sort((a, b) => b[0]! - a[0]!)
+  }
+
+  /** Run `UID THREAD REFERENCES UTF-8 UID <uids>` (RFC 5256). Returns UID groups. */
+  private async serverThreads(client: ImapFlow, uids: number[]): Promise<number[][] | ApiError> {
+    const exec = (client as unknown as { exec: ImapExec }).exec.bind(client)
+    const groups: number[][] = []
+    return errore.tryAsync({
+      try: async () => {
+        const response = await exec('UID THREAD', [
+          { type: 'ATOM', value: 'REFERENCES' },
+          { type: 'ATOM', value: 'UTF-8' },
+          { type: 'ATOM', value: 'UID' },
+          { type: 'SEQUENCE', value: toSequenceSet(uids) },
+        ], {
+          untagged: {
+            THREAD: async (untagged) => {
+              groups.push(...parseThreadResponse(untagged.attributes ?? []))
+            },
+          },
+        })
+        response.next()
+        return groups
+      },
+      catch: (err) => new ApiError({ reason: `UID THREAD failed: ${String(err)}`, cause: err }),
+    })
+  }
+
+  /** Mailboxes a conversation can span: INBOX and the Sent folder. */
+  private async conversationFolders(client: ImapFlow): Promise<string[]> {
+    const sentPath = await this.resolveMailboxPath(client, 'sent')
+    return [...new Set(['INBOX', sentPath])]
+  }
+
+  /**
+   * Search `folders` for messages whose Message-ID is one of `messageIds` or
+   * whose References/In-Reply-To mention one of them. Messages whose
+   * "folder:uid" key is in `known` are skipped. Folders that can't be opened
+   * (e.g. no Sent mailbox) are skipped too.
+   */
+  private async findRelatedMessages(
+    client: ImapFlow,
+    folders: string[],
+    messageIds: string[],
+    known: Set<string>,
+    fetchQuery: Parameters<ImapFlow['fetch']>[1],
+  ): Promise<Array<{ folder: string; msg: FetchMessageObject }>> {
+    const ids = [...new Set(messageIds)]
+    if (ids.length === 0) return []
+
+    const related: Array<{ folder: string; msg: FetchMessageObject }> = []
+    for (const folder of folders) {
+      const found = await errore.tryAsync({
+        try: async () => {
+          const lock = await client.getMailboxLock(folder)
+          try {
+            const uids = new Set<number>()
+            for (let i = 0; i < ids.length; i += RELATED_SEARCH_CHUNK) {
+              const chunk = ids.slice(i, i + RELATED_SEARCH_CHUNK)
+              const result = await client.search({
+                or: chunk.flatMap((id) =>
+                  ['message-id', 'references', 'in-reply-to'].map((name) => ({ header: { [name]: id } })),
+                ),
+              }, { uid: true })
+              for (const uid of result || []) {
+                if (!known.has(makeThreadId(folder, uid))) uids.add(uid)
+              }
+            }
+            const msgs: FetchMessageObject[] = []
+            if (uids.size > 0) {
+              for await (const msg of client.fetch(toSequenceSet([...uids]), fetchQuery, { uid: true })) {
+                msgs.push(msg)
+              }
+            }
+            return msgs
+          } finally {
+            lock.release()
+          }
+        },
+        catch: (err) => new ApiError({ reason: `Failed to search ${folder}: ${String(err)}`, cause: err }),
+      })
+      if (found instanceof Error) continue
+      related.push(...found.map((msg) => ({ folder, msg })))
+    }
+    return related
+  }
+
+  /** Raw header block of a fetched message (requested headers or full source). */
+  private headerText(msg: FetchMessageObject): string {
+    if (msg.headers) return msg.headers.toString('utf-8')
+    if (!msg.source) return ''
+    const source = msg.source.toString('utf-8')
+    const headerEnd = source.indexOf('\r\n\r\n')
+    const altEnd = source.indexOf('\n\n')
+    const headerSplit = headerEnd !== -1 ? headerEnd : altEnd
+    return headerSplit === -1 ? source : source.slice(0, headerSplit)
+  }
+
+  /** Adapt a fetched message to the input of threadMessages(). */
+  private toThreadable(msg: FetchMessageObject, key: string): ThreadableMessage {
+    const env = msg.envelope
+    return {
+      key,
+      messageId: env?.messageId ?? null,
+      inReplyTo: env?.inReplyTo ?? null,
+      references: parseMessageIds(this.getHeader(this.headerText(msg), 'references')),
+      subject: env?.subject ?? '',
+      date: env?.date?.getTime() ?? 0,
+    }
+  }
+
+  /** Message-IDs that tie a message to its conversation (own id + references). */
+  private threadHeaderIds(msg: FetchMessageObject): string[] {
+    const { messageId, inReplyTo, references } = this.toThreadable(msg, '')
+    return [...parseMessageIds(messageId), ...parseMessageIds(inReplyTo), ...references]
+  }
+
   /** Modify IMAP flags on messages. Groups by folder for efficiency. */
   private async modifyFlags(
     threadIds: string[],
@@ -1325,10 +2501,8 @@ export class ImapSmtpClient {
     // Group by folder
     const byFolder = new Map<string, number[]>()
     for (const threadId of threadIds) {
-      const { folder, uid } = parseThreadId(threadId)
-      const uids = byFolder.get(folder) ?? []
-      uids.push(uid)
-      byFolder.set(folder, uids)
+      const { folder, uids } = parseThreadId(threadId)
+      byFolder.set(folder, [...(byFolder.get(folder) ?? []), ...uids])
     }
 
     for (const [folder, uids] of byFolder) {
@@ -1347,6 +2521,59 @@ export class ImapSmtpClient {
         }
       })
       if (result instanceof Error) return result
+      await this.updateMirrorFlags(folder, uids, opts)
+    }
+  }
+
+  /** Build a list item from the messages of one conversation in `folder`. */
+  private toThreadListItem(folder: string, msgs: FetchMessageObject[], messageCount: number): ThreadListItem {
+    const latest = msgs.reduce((a, b) =>
+      (b.envelope?.date?.getTime() ?? 0) > (a.envelope?.date?.getTime() ?? 0) ? b : a,
+    )
+    const env = latest.envelope ?? {} as Partial<MessageEnvelopeObject>
+    const flagSets = msgs.map((m) => m.flags ?? new Set<string>())
+
+    return {
+      id: makeThreadId(folder, msgs.map((m) => m.uid).sort((a, b) => b - a)),
+      historyId: null,
+      snippet: env.subject ?? '',
+      subject: env.subject ?? '(no subject)',
+      from: toSender(env.from?.[0]),
+      to: toSenders(env.to),
+      cc: toSenders(env.cc),
+      date: env.date?.toISOString() ?? new Date().toISOString(),
+      labelIds: [],
+      unread: flagSets.some((flags) => !flags.has('\\Seen')),
+      starred: flagSets.some((flags) => flags.has('\\Flagged')),
+      messageCount,
+      inReplyTo: env.inReplyTo ?? null,
+      hasAttachments: msgs.some((m) => this.hasAttachments(m)),
+      // IMAP list view uses envelope-only fetch, so raw headers aren't
+      // available. List-Unsubscribe stays null in list mode; it's
+      // resolved during getThread() where `source: true` is fetched.
+      listUnsubscribe: null,
+      listUnsubscribePost: null,
+    }
+  }
+
+  /** Assemble ThreadData from a conversation's messages (same rules as GmailClient.parseThread). */
+  private toThreadData(threadId: string, parsed: ParsedMessage[]): ThreadData {
+    const messages = parsed
+      .map((m) => ({ ...m, threadId }))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    const latest = messages.findLast((m) => !m.isDraft) ?? messages[messages.length - 1]!
+
+    return {
+      id: threadId,
+      historyId: null,
+      messages,
+      subject: latest.subject,
+      snippet: latest.snippet,
+      from: latest.from,
+      date: latest.date,
+      labelIds: [],
+      hasUnread: messages.some((m) => m.unread),
+      messageCount: messages.filter((m) => !m.isDraft).length,
     }
   }
 
@@ -1373,8 +2600,10 @@ export class ImapSmtpClient {
     let body = ''
     let mimeType = 'text/plain'
     let textBody: string | null = null
+    let calendar: string | undefined
     let listUnsubscribe: string | undefined
     let listUnsubscribePost: string | undefined
+    let references: string | undefined
 
     if (msg.source) {
       const source = msg.source.toString('utf-8')
@@ -1382,6 +2611,7 @@ export class ImapSmtpClient {
       body = bodyResult.body
       mimeType = bodyResult.mimeType
       textBody = bodyResult.textBody
+      calendar = bodyResult.calendar
 
       // Extract List-Unsubscribe / List-Unsubscribe-Post from raw MIME headers.
       // envelope-based fetches don't surface these, but getThread always fetches
@@ -1392,6 +2622,7 @@ export class ImapSmtpClient {
       const headerText = headerSplit === -1 ? source : source.slice(0, headerSplit)
       listUnsubscribe = this.getHeader(headerText, 'list-unsubscribe')
       listUnsubscribePost = this.getHeader(headerText, 'list-unsubscribe-post')
+      references = this.getHeader(headerText, 'references')
     }
 
     // Extract attachments from bodyStructure
@@ -1417,19 +2648,21 @@ export class ImapSmtpClient {
       isDraft: flags.has('\\Draft'),
       messageId: env.messageId ?? '',
       inReplyTo: env.inReplyTo,
-      references: undefined,
+      references,
       listUnsubscribe,
       listUnsubscribePost,
       body,
       mimeType,
       textBody,
       attachments,
+      calendar,
+      sizeEstimate: msg.size ?? msg.source?.length,
       auth: null, // IMAP doesn't provide SPF/DKIM/DMARC
     }
   }
 
   /** Extract body text from raw RFC 2822 source. */
-  private extractBodyFromSource(source: string): { body: string; mimeType: string; textBody: string | null } {
+  private extractBodyFromSource(source: string): { body: string; mimeType: string; textBody: string | null; calendar?: string } {
     // Find the boundary between headers and body
     const headerEnd = source.indexOf('\r\n\r\n')
     if (headerEnd === -1) {
@@ -1440,7 +2673,7 @@ export class ImapSmtpClient {
     return this.parseBody(source.slice(headerEnd + 4), source.slice(0, headerEnd))
   }
 
-  private parseBody(bodyContent: string, headers: string): { body: string; mimeType: string; textBody: string | null } {
+  private parseBody(bodyContent: string, headers: string): { body: string; mimeType: string; textBody: string | null; calendar?: string } {
     const contentType = this.getHeader(headers, 'content-type') ?? 'text/plain'
     const transferEncoding = this.getHeader(headers, 'content-transfer-encoding') ?? '7bit'
 
@@ -1453,6 +2686,9 @@ export class ImapSmtpClient {
 
     // Single-part body
     let decoded = this.decodeTransferEncoding(bodyContent, transferEncoding)
+    if (contentType.toLowerCase().includes('text/calendar')) {
+      return { body: '', mimeType: 'text/plain', textBody: null, calendar: decoded }
+    }
     const charsetMatch = contentType.match(/charset="?([^";\s]+)"?/i)
     if (charsetMatch) {
       // Already UTF-8 string, but note the charset for future handling
@@ -1466,10 +2702,11 @@ export class ImapSmtpClient {
     }
   }
 
-  private parseMultipart(body: string, boundary: string): { body: string; mimeType: string; textBody: string | null } {
+  private parseMultipart(body: string, boundary: string): { body: string; mimeType: string; textBody: string | null; calendar?: string } {
     const parts = body.split(`--${boundary}`)
     let htmlBody: string | null = null
     let textBody: string | null = null
+    let calendar: string | undefined
 
     for (const part of parts) {
       if (part.trim() === '--' || part.trim() === '') continue
@@ -1490,6 +2727,7 @@ export class ImapSmtpClient {
         const nested = this.parseMultipart(partBody, nestedBoundary[1]!)
         if (nested.mimeType === 'text/html') htmlBody = nested.body
         if (nested.textBody) textBody = nested.textBody
+        calendar ??= nested.calendar
         continue
       }
 
@@ -1499,13 +2737,15 @@ export class ImapSmtpClient {
         htmlBody = decoded
       } else if (partContentType.toLowerCase().includes('text/plain')) {
         textBody = decoded
+      } else if (partContentType.toLowerCase().includes('text/calendar')) {
+        calendar ??= decoded
       }
     }
 
     // Prefer HTML, fall back to text
-    if (htmlBody) return { body: htmlBody, mimeType: 'text/html', textBody }
-    if (textBody) return { body: textBody, mimeType: 'text/plain', textBody }
-    return { body: '', mimeType: 'text/plain', textBody: null }
+    if (htmlBody) return { body: htmlBody, mimeType: 'text/html', textBody, calendar }
+    if (textBody) return { body: textBody, mimeType: 'text/plain', textBody, calendar }
+    return { body: '', mimeType: 'text/plain', textBody: null, calendar }
   }
 
   private decodeTransferEncoding(content: string, encoding: string): string {
@@ -0,0 +1,178 @@
+// Tests for IMAP conversation threading: JWZ grouping over Message-ID /
+// In-Reply-To / References, the subject fallback, THREAD response parsing, and
+// finding moved messages again.
+// All tests are pure: no network, no mocks, no fixtures.
+
+import { describe, expect, test } from 'vitest'
+import {
+  baseSubject,
+  movedUids,
+  parseMessageIds,
+  parseThreadResponse,
+  threadMessages,
+  toSequenceSet,
+  type ThreadableMessage,
+} from './imap-threading.js'
+
+function msg(key: string, opts: Partial<ThreadableMessage> & { date: number }): ThreadableMessage {
+  return {
+    key,
+    messageId: `<${key}@example.com>`,
+    inReplyTo: null,
+    references: [],
+    subject: 'Hello',
+    ...opts,
+  }
+}
+
+describe('parseMessageIds', () => {
+  test('angle-bracket ids in order', () => {
+    expect(parseMessageIds('<a@x.com> <B@x.com>\r\n <c@x.com>')).toMatchInlineSnapshot(`
+      [
+        "<a@x.com>",
+        "<b@x.com>",
+        "<c@x.com>",
+      ]
+    `)
+  })
+
+  test('bare ids without brackets', () => {
+    expect(parseMessageIds('a@x.com b@x.com')).toMatchInlineSnapshot(`
+      [
+        "<a@x.com>",
+        "<b@x.com>",
+      ]
+    `)
+  })
+
+  test('empty header', () => {
+    expect(parseMessageIds(undefined)).toEqual([])
+  })
+})
+
+describe('baseSubject', () => {
+  test('strips reply, forward and list prefixes', () => {
+    expect(baseSubject('Re: RE: Fwd: Lunch')).toBe('lunch')
+    expect(baseSubject('[dev] Re: Build broken')).toBe('build broken')
+    expect(baseSubject('AW: Angebot')).toBe('angebot')
+  })
+})
+
+describe('threadMessages', () => {
+  test('groups by References and In-Reply-To', () => {
+    const groups = threadMessages([
+      msg('INBOX:1', { date: 1 }),
+      msg('Sent:5', { date: 2, inReplyTo: '<INBOX:1@example.com>', references: ['<inbox:1@example.com>'], subject: 'Re: Hello' }),
+      msg('INBOX:3', {
+        date: 3,
+        inReplyTo: '<Sent:5@example.com>',
+        references: ['<inbox:1@example.com>', '<sent:5@example.com>'],
+        subject: 'Re: Hello',
+      }),
+      msg('INBOX:2', { date: 4, subject: 'Unrelated' }),
+    ])
+    expect(groups).toMatchInlineSnapshot(`
+      [
+        [
+          "INBOX:2",
+        ],
+        [
+          "INBOX:1",
+          "Sent:5",
+          "INBOX:3",
+        ],
+      ]
+    `)
+  })
+
+  test('links siblings through a missing parent', () => {
+    // The original message is not in the set, but both replies reference it
+    const groups = threadMessages([
+      msg('INBOX:7', { date: 1, references: ['<gone@example.com>'], subject: 'Re: Plans' }),
+      msg('INBOX:8', { date: 2, references: ['<gone@example.com>'], subject: 'Re: Plans' }),
+    ])
+    expect(groups).toEqual([['INBOX:7', 'INBOX:8']])
+  })
+
+  test('falls back to subject when references are missing', () => {
+    const groups = threadMessages([
+      msg('INBOX:1', { date: 1, subject: 'Quarterly numbers' }),
+      msg('INBOX:2', { date: 2, subject: 'Re: Quarterly numbers' }),
+    ])
+    expect(groups).toEqual([['INBOX:1', 'INBOX:2']])
+  })
+
+  test('does not merge unrelated originals that share a subject', () => {
+    const groups = threadMessages([
+      msg('INBOX:1', { date: 1, subject: 'Weekly report' }),
+      msg('INBOX:2', { date: 2, subject: 'Weekly report' }),
+    ])
+    expect(groups).toEqual([['INBOX:2'], ['INBOX:1']])
+  })
+
+  test('duplicate Message-IDs stay separate messages', () => {
+    const groups = threadMessages([
+      msg('INBOX:1', { date: 1, messageId: '<dup@example.com>' }),
+      msg('Sent:1', { date: 2, messageId: '<dup@example.com>', subject: 'Other' }),
+    ])
+    expect(groups.flat().sort()).toEqual(['INBOX:1', 'Sent:1'])
+  })
+
+  test('reference loops do not hang', () => {
+    const groups = threadMessages([
+      msg('a', { date: 1, references: ['<b@example.com>'] }),
+      msg('b', { date: 2, references: ['<a@example.com>'] }),
+    ])
+    expect(groups.flat().sort()).toEqual(['a', 'b'])
+  })
+})
+
+describe('parseThreadResponse', () => {
+  test('flattens nested thread lists', () => {
+    const atom = (value: string) => ({ type: 'ATOM', value })
+    const attrs = [
+      [atom('2')],
+      [atom('3'), atom('6'), [atom('4'), atom('23')], [atom('44'), atom('7'), atom('96')]],
+    ]
+    expect(parseThreadResponse(attrs)).toMatchInlineSnapshot(`
+      [
+        [
+          2,
+        ],
+        [
+          3,
+          6,
+          4,
+          23,
+          44,
+          7,
+          96,
+        ],
+      ]
+    `)
+  })
+})
+
+describe('toSequenceSet', () => {
+  test('compresses consecutive uids', () => {
+    expect(toSequenceSet([9, 1, 2, 3, 7, 10, 3])).toBe('1:3,7,9:10')
+    expect(toSequenceSet([])).toBe('')
+  })
+})
+
+describe('movedUids', () => {
+  test('prefers the UIDPLUS map and falls back to Message-ID search', async () => {
+    const searched: string[] = []
+    const search = async (messageId: string) => {
+      searched.push(messageId)
+      return messageId === '<a@x.com>' ? [12, 11] : messageId === '<b@x.com>' ? [11] : []
+    }
+
+    expect(await movedUids(new Map([[3, 21], [4, 20]]), ['<a@x.com>'], search)).toEqual([20, 21])
+    expect(searched).toEqual([])
+
+    expect(await movedUids(new Map(), ['<a@x.com>', '<b@x.com>', '<a@x.com>', '<c@x.com>'], search)).toEqual([11, 12])
+    expect(searched).toEqual(['<a@x.com>', '<b@x.com>', '<c@x.com>'])
+    expect(await movedUids(undefined, ['<c@x.com>'], search)).toEqual([])
+  })
+})
@@ -0,0 +1,266 @@
+// Conversation threading for IMAP accounts.
+// Implements the JWZ threading algorithm (https://www.jwz.org/doc/threading.html)
+// over Message-ID / In-Reply-To / References, with a subject-based fallback
+// for replies whose clients dropped the reference headers. Also parses the
+// untagged response of the IMAP THREAD extension (RFC 5256) so servers that
+// advertise THREAD=REFERENCES can do the grouping themselves, and finds
+// moved messages again on servers without UIDPLUS.
+// Pure functions only — no network, no client access.
+
+export interface ThreadableMessage {
+  /** Caller-chosen unique key (e.g. "INBOX:123"). Returned in the groups. */
+  key: string
+  messageId: string | null
+  inReplyTo: string | null
+  /** Parsed References header, oldest first. */
+  references: string[]
+  subject: string
+  /** Epoch milliseconds, used to order messages inside a thread. */
+  date: number
+}
+
+interface Container {
+  id: string
+  message: ThreadableMessage | null
+  parent: Container | null
+  children: Container[]
+}
+
+// ---------------------------------------------------------------------------
+// Header helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the <msg-id> tokens of a References / In-Reply-To header, in order. */
+export function parseMessageIds(header: string | null | undefined): string[] {
+  if (!header) return []
+  const ids = header.match(/<[^<>\s]+>/g)
+  if (ids) return ids.map((id) => id.toLowerCase())
+  // Some clients omit the angle brackets — treat whitespace-separated tokens as ids
+  return header
+    .split(/\s+/)
+    .filter((t) => t.includes('@'))
+    .map((t) => `<${t}>`.toLowerCase())
+}
+
+/** Normalize a single Message-ID to the lowercase "<id>" form. */
+export function normalizeMessageId(id: string | null | undefined): string | null {
+  return parseMessageIds(id)[0] ?? null
+}
+
+const REPLY_PREFIX = /^\s*((re|aw|sv|fwd?|wg)(\[\d+\])?\s*:\s*)+/i
+
+/** Strip reply/forward prefixes and list tags so replies group with their original. */
+export function baseSubject(subject: string): string {
+  return subject
+    .replace(/^\s*(\[[^\]]*\]\s*)+/, '')
+    .replace(REPLY_PREFIX, '')
+    .replace(/^\s*(\[[^\]]*\]\s*)+/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+}
+
+function isReplySubject(subject: string): boolean {
+  return REPLY_PREFIX.test(subject.replace(/^\s*(\[[^\]]*\]\s*)+/, ''))
+}
+
+// ---------------------------------------------------------------------------
+// JWZ threading
+// ---------------------------------------------------------------------------
+
+function isAncestor(candidate: Container, of: Container): boolean {
+  for (let c: Container | null = of; c; c = c.parent) {
+    if (c === candidate) return true
+  }
+  return false
+}
+
+function unlink(child: Container): void {
+  if (!child.parent) return
+  child.parent.children = child.parent.children.filter((c) => c !== child)
+  child.parent = null
+}
+
+function link(parent: Container, child: Container): void {
+  if (parent === child || isAncestor(child, parent)) return
+  unlink(child)
+  child.parent = parent
+  parent.children.push(child)
+}
+
+/** Drop empty containers, promoting their children one level up. */
+function prune(containers: Container[], isRoot: boolean): Container[] {
+  const result: Container[] = []
+  for (const c of containers) {
+    c.children = prune(c.children, false)
+    for (const child of c.children) child.parent = c
+    if (c.message) {
+      result.push(c)
+    } else if (c.children.length > 0 && (!isRoot || c.children.length === 1)) {
+      for (const child of c.children) child.parent = null
+      result.push(...c.children)
+    } else if (c.children.length > 0) {
+      // Empty root with several children keeps the siblings together
+      result.push(c)
+    }
+  }
+  return result
+}
+
+function collect(container: Container, out: ThreadableMessage[]): void {
+  if (container.message) out.push(container.message)
+  for (const child of container.children) collect(child, out)
+}
+
+function latestDate(messages: ThreadableMessage[]): number {
+  return Math.max(...messages.map((m) => m.date))
+}
+
+/**
+ * Group messages into conversations. Each group lists message keys oldest
+ * first; groups are ordered newest conversation first.
+ */
+export function threadMessages(messages: ThreadableMessage[]): string[][] {
+  const table = new Map<string, Container>()
+  const getContainer = (id: string): Container => {
+    let c = table.get(id)
+    if (!c) {
+      c = { id, message: null, parent: null, children: [] }
+      table.set(id, c)
+    }
+    return c
+  }
+
+  for (const msg of messages) {
+    let id = normalizeMessageId(msg.messageId)
+    // Missing or duplicate Message-IDs get a synthetic id so they stay distinct
+    if (!id || table.get(id)?.message) id = `<zele-synthetic-${msg.key}>`
+    const container = getContainer(id)
+    container.message = msg
+
+    const refs = [...msg.references]
+    const inReplyTo = normalizeMessageId(msg.inReplyTo)
+    if (inReplyTo && refs[refs.length - 1] !== inReplyTo) refs.push(inReplyTo)
+
+    // Chain the references together without overriding links we already know
+    let prev: Container | null = null
+    for (const ref of refs) {
+      const c = getContainer(ref)
+      if (prev && !c.parent) link(prev, c)
+      prev = c
+    }
+
+    // The message's own headers are authoritative for its parent
+    unlink(container)
+    if (prev && prev !== container) link(prev, container)
+  }
+
+  let roots = prune(
+    [...table.values()].filter((c) => !c.parent),
+    true,
+  )
+
+  // Subject fallback: fold replies into an earlier root with the same subject
+  const bySubject = new Map<string, Container>()
+  const rootSubject = (c: Container): { subject: string; reply: boolean } => {
+    const msg = c.message ?? c.children[0]?.message
+    const subject = msg?.subject ?? ''
+    return { subject: baseSubject(subject), reply: isReplySubject(subject) }
+  }
+  for (const root of roots) {
+    const { subject, reply } = rootSubject(root)
+    if (!subject) continue
+    const existing = bySubject.get(subject)
+    if (!existing) {
+      bySubject.set(subject, root)
+      continue
+    }
+    // Two unrelated originals that merely share a subject stay separate
+    if (reply) {
+      link(existing, root)
+    } else if (rootSubject(existing).reply) {
+      link(root, existing)
+      bySubject.set(subject, root)
+    }
+  }
+  roots = roots.filter((c) => !c.parent)
+
+  const groups = roots.map((root) => {
+    const msgs: ThreadableMessage[] = []
+    collect(root, msgs)
+    return msgs.sort((a, b) => a.date - b.date)
+  })
+  groups.sort((a, b) => latestDate(b) - latestDate(a))
+  return groups.map((g) => g.map((m) => m.key))
+}
+
+// ---------------------------------------------------------------------------
+// IMAP THREAD response (RFC 5256)
+// ---------------------------------------------------------------------------
+
+/**
+ * Flatten the attributes of an untagged `* THREAD (2)(3 6 (4 23)(44 7 96))`
+ * response into one list of message numbers per top-level thread.
+ */
+export function parseThreadResponse(attributes: unknown[]): number[][] {
+  const flatten = (node: unknown, out: number[]): void => {
+    if (Array.isArray(node)) {
+      for (const child of node) flatten(child, out)
+      return
+    }
+    const value = node && typeof node === 'object' && 'value' in node ? (node as { value: unknown }).value : node
+    const n = Number(value)
+    if (typeof value === 'string' && value !== '' && Number.isInteger(n)) out.push(n)
+  }
+  const threads: number[][] = []
+  for (const attr of attributes) {
+    const ids: number[] = []
+    flatten(attr, ids)
+    if (ids.length > 0) threads.push(ids)
+  }
+  return threads
+}
+
+// ---------------------------------------------------------------------------
+// Moved messages
+// ---------------------------------------------------------------------------
+
+/**
+ * UIDs of messages after a MOVE: the destination UIDs of the COPYUID map
+ * when the server has UIDPLUS, else whatever `search` finds in the target
+ * folder by Message-ID. Sorted, without duplicates; empty if nothing matched.
+ */
+export async function movedUids(
+  uidMap: Map<number, number> | undefined,
+  messageIds: string[],
+  search: (messageId: string) => Promise<number[]>,
+): Promise<number[]> {
+  const uids = new Set<number>(uidMap ? uidMap.values() : [])
+  if (uids.size === 0) {
+    for (const messageId of new Set(messageIds)) {
+      for (const uid of await search(messageId)) uids.add(uid)
+    }
+  }
+  return [...uids].sort((a, b) => a - b)
+}
+
+/** Compress a list of UIDs into an IMAP sequence set ("1:3,7,9:10"). */
+export function toSequenceSet(uids: number[]): string {
+  const sorted = [...new Set(uids)].sort((a, b) => a - b)
+  const ranges: string[] = []
+  let start = sorted[0]
+  let prev = sorted[0]
+  for (let i = 1; i <= sorted.length; i++) {
+    const n = sorted[i]
+    if (n !== undefined && prev !== undefined && n === prev + 1) {
+      prev = n
+      continue
+    }
+    if (start !== undefined && prev !== undefined) {
+      ranges.push(start === prev ? String(start) : `${start}:${prev}`)
+    }
+    start = n
+    prev = n
+  }
+  return ranges.join(',')
+}
@@ -0,0 +1,92 @@
+// Tests for parsing iTIP invites and building RSVP replies.
+
+import { expect, test } from 'vitest'
+import { buildInviteReply, buildReplyMessage, parseInvite, rsvpSubject } from './itip.js'
+import { parseEml } from './eml.js'
+
+const request = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Google Inc//Google Calendar 70.9054//EN',
+  'METHOD:REQUEST',
+  'BEGIN:VEVENT',
+  'DTSTART:20240305T150000Z',
+  'DTEND:20240305T153000Z',
+  'DTSTAMP:20240301T100000Z',
+  'ORGANIZER;CN=Ada Lovelace:mailto:ada@example.com',
+  'UID:7kq2@google.com',
+  'ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;CN=Ada Lovelace:mailto:ada@example.com',
+  'ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;CN=Bob:mailto:bob@example.com',
+  'SEQUENCE:2',
+  'LOCATION:Room 4',
+  'SUMMARY:Engine review',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n')
+
+test('parses an iTIP request', () => {
+  const invite = parseInvite(request)
+  if (invite instanceof Error) throw invite
+  expect({ ...invite, event: undefined }).toEqual({
+    method: 'REQUEST',
+    uid: '7kq2@google.com',
+    summary: 'Engine review',
+    start: '2024-03-05T15:00:00.000Z',
+    end: '2024-03-05T15:30:00.000Z',
+    allDay: false,
+    location: 'Room 4',
+    organizer: { email: 'ada@example.com', name: 'Ada Lovelace' },
+    attendees: [
+      { email: 'ada@example.com', name: 'Ada Lovelace', status: 'ACCEPTED' },
+      { email: 'bob@example.com', name: 'Bob', status: 'NEEDS-ACTION' },
+    ],
+    sequence: 2,
+    event: undefined,
+  })
+  expect(parseInvite('not a calendar')).toBeInstanceOf(Error)
+})
+
+test('builds a REPLY with only the answering attendee', () => {
+  const invite = parseInvite(request)
+  if (invite instanceof Error) throw invite
+  const reply = buildInviteReply(invite, { attendee: { email: 'BOB@example.com' }, response: 'TENTATIVE', comment: 'Might be late' })
+
+  const parsed = parseInvite(reply)
+  if (parsed instanceof Error) throw parsed
+  expect(parsed).toMatchObject({
+    method: 'REPLY',
+    uid: '7kq2@google.com',
+    sequence: 2,
+    start: '2024-03-05T15:00:00.000Z',
+    organizer: { email: 'ada@example.com' },
+    attendees: [{ email: 'BOB@example.com', name: 'Bob', status: 'TENTATIVE' }],
+  })
+  expect(parsed.event.comment).toBe('Might be late')
+  expect(rsvpSubject('TENTATIVE', 'Engine review')).toBe('Tentatively accepted: Engine review')
+})
+
+test('sends the REPLY as a text/calendar alternative of the note', async () => {
+  const raw = await buildReplyMessage({
+    from: { name: 'Bob', email: 'bob@example.com' },
+    to: { name: 'Ada Lovelace', email: 'ada@example.com' },
+    subject: 'Accepted: Café sync',
+    text: 'Bob has accepted this invitation.',
+    ics: 'BEGIN:VCALENDAR\r\nMETHOD:REPLY\r\nEND:VCALENDAR\r\n',
+    inReplyTo: '<inv@google.com>',
+    references: '<inv@google.com>',
+  })
+  expect(raw.toString('latin1')).toMatch(/^[\x00-\x7f]*$/)
+
+  const { message } = parseEml(raw, 'reply.eml')
+  const header = (name: string) => message.payload!.headers!.find((h) => h.name === name)?.value
+  expect(header('To')).toBe('Ada Lovelace <ada@example.com>')
+  expect(header('Subject')).toBe('Accepted: Café sync')
+  expect(header('In-Reply-To')).toBe('<inv@google.com>')
+  expect(header('Message-ID')).toMatch(/@example\.com>$/)
+  const [alternative] = message.payload!.parts!
+  expect(alternative!.mimeType).toBe('multipart/alternative')
+  expect(alternative!.parts!.map((p) => p.mimeType)).toEqual(['text/plain', 'text/calendar'])
+  expect(alternative!.parts![1]!.headers!.find((h) => h.name === 'Content-Type')?.value).toMatch(/method=REPLY/)
+  expect(message.payload!.parts![1]).toMatchObject({ mimeType: 'application/ics', filename: 'invite.ics' })
+})
@@ -0,0 +1,159 @@
+// Meeting invitations inside mail (iTIP, RFC 5546): the text/calendar part of
+// an invite, update or cancellation is parsed with ts-ics for `mail read`,
+// and `mail rsvp` answers it with a METHOD:REPLY calendar naming only the
+// replying attendee and their PARTSTAT. Works the same for Google and IMAP
+// accounts since the reply is plain email to the organizer, with the calendar
+// as a text/calendar alternative of the text body (built by nodemailer).
+
+import MailComposer from 'nodemailer/lib/mail-composer/index.js'
+import {
+  convertIcsCalendar,
+  generateIcsCalendar,
+  type IcsAttendee,
+  type IcsAttendeePartStatusType,
+  type IcsDateObject,
+  type IcsEvent,
+} from 'ts-ics'
+import * as errore from 'errore'
+import { ParseError } from './api-utils.js'
+
+export type RsvpResponse = 'ACCEPTED' | 'DECLINED' | 'TENTATIVE'
+
+export interface InviteAttendee {
+  email: string
+  name?: string
+  /** PARTSTAT: NEEDS-ACTION, ACCEPTED, DECLINED, TENTATIVE, DELEGATED */
+  status: string
+}
+
+export interface Invite {
+  /** iTIP method: REQUEST (invite or update), CANCEL, REPLY, … */
+  method: string
+  uid: string
+  summary: string
+  /** RFC 3339, or YYYY-MM-DD for all-day events */
+  start: string
+  end: string
+  allDay: boolean
+  location: string
+  organizer: { email: string; name?: string } | null
+  attendees: InviteAttendee[]
+  sequence: number
+  /** The parsed event, kept to build the REPLY */
+  event: IcsEvent
+}
+
+/** Parse the first event of an iTIP calendar; a calendar without METHOD counts as PUBLISH. */
+export function parseInvite(ics: string): Invite | ParseError {
+  const calendar = errore.tryFn(() => convertIcsCalendar(undefined, ics))
+  if (calendar instanceof Error) return new ParseError({ what: 'calendar invite', reason: calendar.message })
+  const event = calendar.events?.[0]
+  if (!event) return new ParseError({ what: 'calendar invite', reason: 'no VEVENT' })
+
+  const start = icsDateToString(event.start)
+  return {
+    method: (calendar.method ?? 'PUBLISH').toUpperCase(),
+    uid: event.uid,
+    summary: event.summary || '(no title)',
+    start,
+    end: event.end ? icsDateToString(event.end) : start,
+    allDay: event.start.type === 'DATE',
+    location: event.location ?? '',
+    organizer: event.organizer ? { email: event.organizer.email, name: event.organizer.name } : null,
+    attendees: (event.attendees ?? []).map((a) => ({ email: a.email, name: a.name, status: a.partstat ?? 'NEEDS-ACTION' })),
+    sequence: event.sequence ?? 0,
+    event,
+  }
+}
+
+/**
+ * The METHOD:REPLY calendar for `attendee` answering `invite`: same UID,
+ * SEQUENCE and RECURRENCE-ID, with the attendee's new PARTSTAT (RFC 5546 3.2.3).
+ */
+export function buildInviteReply(
+  invite: Invite,
+  { attendee, response, comment }: { attendee: { email: string; name?: string }; response: RsvpResponse; comment?: string },
+): string {
+  const { event } = invite
+  const reply: IcsAttendee = {
+    email: attendee.email,
+    name: attendee.name ?? invite.attendees.find((a) => a.email.toLowerCase() === attendee.email.toLowerCase())?.name,
+    partstat: response as IcsAttendeePartStatusType,
+  }
+  const replyEvent = {
+    uid: event.uid,
+    summary: event.summary,
+    stamp: { date: new Date(), type: 'DATE-TIME' },
+    start: utc(event.start),
+    ...(event.end ? { end: utc(event.end) } : { duration: event.duration! }),
+    sequence: event.sequence,
+    organizer: event.organizer,
+    attendees: [reply],
+    ...(event.recurrenceId ? { recurrenceId: { ...event.recurrenceId, value: utc(event.recurrenceId.value) } } : {}),
+    ...(comment ? { comment } : {}),
+  } as IcsEvent
+
+  return generateIcsCalendar({
+    version: '2.0',
+    prodId: '-//zele//zele CLI//EN',
+    method: 'REPLY',
+    events: [replyEvent],
+  })
+}
+
+/** Subject of the reply email, as calendar apps word it. */
+export function rsvpSubject(response: RsvpResponse, summary: string): string {
+  const verb = { ACCEPTED: 'Accepted', DECLINED: 'Declined', TENTATIVE: 'Tentatively accepted' }[response]
+  return `${verb}: ${summary}`
+}
+
+/**
+ * The RFC 822 reply email, composed by nodemailer: `text` for people, and the
+ * iTIP calendar as a text/calendar; method=REPLY alternative, where calendar
+ * apps look for it (nodemailer also attaches it as invite.ics). 7-bit,
+ * ready for sendRaw().
+ */
+export async function buildReplyMessage({
+  from,
+  to,
+  subject,
+  text,
+  ics,
+  inReplyTo,
+  references,
+  date = new Date(),
+}: {
+  from: { name?: string; email: string }
+  to: { name?: string; email: string }
+  subject: string
+  text: string
+  ics: string
+  inReplyTo?: string
+  references?: string
+  date?: Date
+}): Promise<Buffer> {
+  const composer = new MailComposer({
+    from: { name: from.name ?? '', address: from.email },
+    to: { name: to.name ?? '', address: to.email },
+    subject,
+    text,
+    icalEvent: { method: 'REPLY', content: ics },
+    inReplyTo,
+    references,
+    date,
+  })
+  return composer.compile().build()
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function icsDateToString(d: IcsDateObject): string {
+  return d.type === 'DATE' ? d.date.toISOString().split('T')[0]! : d.date.toISOString()
+}
+
+/** Drop the local TZID form: the reply carries no VTIMEZONE, so times go out in UTC. */
+function utc(d: IcsDateObject): IcsDateObject {
+  return { date: d.date, type: d.type }
+}
@@ -0,0 +1,77 @@
+// Tests for mbox/Maildir/eml formatting of exported messages.
+
+import { expect, test } from 'vitest'
+import { emlName, maildirInfo, maildirName, mboxEntry, readExportLog, withHeader, withStatusHeaders } from './mail-export.js'
+
+const raw = [
+  'From: "Ada Lovelace" <ada@example.com>',
+  'To: bob@example.com',
+  'Subject: Notes on the engine',
+  'Status: N',
+  'X-Status: A',
+  'Content-Type: text/plain;',
+  ' charset=utf-8',
+  '',
+  'From the start:',
+  '>From earlier',
+  'done',
+  '',
+].join('\r\n')
+
+const read = { read: true, flagged: true, draft: false, trashed: false }
+
+test('writes mboxrd entries with flags in Status/X-Status', () => {
+  expect(mboxEntry(raw, read, new Date(Date.UTC(2024, 0, 5, 9, 5)))).toMatchInlineSnapshot(`
+    "From ada@example.com Fri Jan  5 09:05:00 2024
+    From: "Ada Lovelace" <ada@example.com>
+    To: bob@example.com
+    Subject: Notes on the engine
+    Content-Type: text/plain;
+     charset=utf-8
+    Status: RO
+    X-Status: F
+
+    >From the start:
+    >>From earlier
+    done
+
+    "
+  `)
+  const unread = withStatusHeaders('Subject: x\n\nbody', { read: false, flagged: false, draft: true, trashed: true })
+  expect(unread).toBe('Subject: x\nStatus: O\nX-Status: TD\n\nbody')
+})
+
+test('names Maildir and eml files stably and reads the export log', () => {
+  const date = new Date(Date.UTC(2024, 2, 1))
+  expect(maildirInfo(read)).toBe(':2,FS')
+  expect(maildirInfo({ read: false, flagged: false, draft: true, trashed: true })).toBe(':2,DT')
+  expect(maildirName('me@x.com/18c1', date)).toBe(maildirName('me@x.com/18c1', date))
+  expect(maildirName('me@x.com/18c1', date)).toMatch(/^1709251200\.[0-9a-f]{12}\.zele$/)
+  expect(emlName('me@x.com/18c1', date, 'Re: Café plans — Q2!')).toMatch(/^2024-03-01_re-cafe-plans-q2_[0-9a-f]{12}\.eml$/)
+  expect(emlName('k', date, '')).toMatch(/^2024-03-01_no-subject_/)
+
+  const log = '{"key":"a","file":"x","at":"2024"}\nnot json\n{"key":"b","file":"y","at":"2024"}\n'
+  expect([...readExportLog(log)]).toEqual(['a', 'b'])
+})
+
+test('keeps 8-bit bytes that are not UTF-8', () => {
+  // "café" in latin1 and a raw 8bit attachment byte (0xff)
+  const bytes = Buffer.concat([
+    Buffer.from('From: a@example.com\r\nContent-Type: text/plain; charset=iso-8859-1\r\nContent-Transfer-Encoding: 8bit\r\n\r\n'),
+    Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x20, 0xff, 0x0d, 0x0a]),
+  ])
+  const raw = bytes.toString('latin1')
+
+  const eml = Buffer.from(withStatusHeaders(raw, read), 'latin1')
+  expect(eml.subarray(eml.length - 8)).toEqual(bytes.subarray(bytes.length - 8))
+
+  const mbox = Buffer.from(mboxEntry(raw, read, new Date(0)), 'latin1')
+  expect(mbox.includes(Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x20, 0xff, 0x0a]))).toBe(true)
+})
+
+test('replaces a header with its folded lines', () => {
+  const raw = 'Date: Mon, 1 Jan 2024\r\n 09:00:00 +0000\r\nSubject: hi\r\n\r\nDate: in the body\r\n'
+  expect(withHeader(raw, 'Date', 'Tue, 2 Jan 2024 10:00:00 +0000')).toBe(
+    'Subject: hi\r\nDate: Tue, 2 Jan 2024 10:00:00 +0000\r\n\r\nDate: in the body\r\n',
+  )
+})
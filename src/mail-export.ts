@@ -0,0 +1,160 @@
+// Formatting for `zele mail export`: raw RFC 822 messages written as mbox
+// (mboxrd quoting, Status/X-Status flags), Maildir (flags in the ":2," info
+// suffix) or one .eml file per message (Status/X-Status flags), plus the export
+// log that makes reruns skip messages already written. Messages are handled
+// as latin1 strings, as in mail-import.ts, so 8-bit bodies and attachments in
+// any charset are written back byte for byte. Pure functions; the command
+// lives in commands/export.ts.
+
+import crypto from 'node:crypto'
+
+export type ExportFormat = 'mbox' | 'maildir' | 'eml'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['mbox', 'maildir', 'eml']
+
+/** Message state kept in the export. */
+export interface ExportFlags {
+  read: boolean
+  flagged: boolean
+  draft: boolean
+  trashed: boolean
+}
+
+/** One line of the export log (NDJSON): a message written to `file`. */
+export interface ExportLogEntry {
+  key: string
+  file: string
+  at: string
+}
+
+// ---------------------------------------------------------------------------
+// Headers
+// ---------------------------------------------------------------------------
+
+/** Split a raw message at the blank line ending its header. */
+function splitMessage(raw: string): { header: string; body: string; eol: string } {
+  const match = /\r?\n\r?\n/.exec(raw)
+  if (!match) return { header: raw.replace(/\r?\n$/, ''), body: '', eol: raw.includes('\r\n') ? '\r\n' : '\n' }
+  return {
+    header: raw.slice(0, match.index),
+    body: raw.slice(match.index + match[0].length),
+    eol: match[0].startsWith('\r\n') ? '\r\n' : '\n',
+  }
+}
+
+/** The first value of a header (unfolded), or '' if absent. */
+export function headerValue(raw: string, name: string): string {
+  const { header } = splitMessage(raw)
+  const unfolded = header.replace(/\r?\n[ \t]+/g, ' ')
+  const line = unfolded.split(/\r?\n/).find((l) => l.toLowerCase().startsWith(`${name.toLowerCase()}:`))
+  return line ? line.slice(name.length + 1).trim() : ''
+}
+
+/** Set a header, replacing every existing one of that name (with its folded lines). */
+export function withHeader(raw: string, name: string, value: string): string {
+  const { header, body, eol } = splitMessage(raw)
+  const kept = header
+    .split(/\r?\n(?![ \t])/)
+    .filter((line) => !line.toLowerCase().startsWith(`${name.toLowerCase()}:`))
+  return `${[...kept, `${name}: ${value}`].join(eol)}${eol}${eol}${body}`
+}
+
+/**
+ * Replace Status/X-Status with the message's flags (the mutt/Thunderbird mbox
+ * convention): Status R = read, O = not new; X-Status F = flagged, T = draft,
+ * D = deleted (in trash). statusFlags() in mail-import.ts reads them back.
+ */
+export function withStatusHeaders(raw: string, flags: ExportFlags): string {
+  const { header, body, eol } = splitMessage(stripStatusHeaders(raw))
+  const xStatus = `${flags.flagged ? 'F' : ''}${flags.draft ? 'T' : ''}${flags.trashed ? 'D' : ''}`
+  const added = [`Status: ${flags.read ? 'RO' : 'O'}`, ...(xStatus ? [`X-Status: ${xStatus}`] : [])]
+  return `${[header, ...added].join(eol)}${eol}${eol}${body}`
+}
+
+/** Drop Status/X-Status headers (mailbox-local state, not part of the message). */
+export function stripStatusHeaders(raw: string): string {
+  const { header, body, eol } = splitMessage(raw)
+  const kept = header
+    .split(/\r?\n(?![ \t])/)
+    .filter((line) => !/^(x-)?status:/i.test(line))
+  return `${kept.join(eol)}${eol}${eol}${body}`
+}
+
+// ---------------------------------------------------------------------------
+// mbox
+// ---------------------------------------------------------------------------
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/** asctime() format in UTC, as used on mbox "From " lines: "Mon Jan  1 09:05:00 2024". */
+function asctime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, ' ')} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ${date.getUTCFullYear()}`
+}
+
+/**
+ * One mbox entry (mboxrd): "From " separator line with the sender and date,
+ * the message with LF line endings and flags in Status/X-Status, body lines
+ * starting with ">*From " quoted with one more ">", and a blank line after.
+ */
+export function mboxEntry(raw: string, flags: ExportFlags, date: Date): string {
+  const message = withStatusHeaders(raw, flags).replace(/\r\n/g, '\n')
+  const from = /<([^>\s]+)>/.exec(headerValue(raw, 'from'))?.[1] ?? headerValue(raw, 'from').split(/\s/)[0]
+  const quoted = message.replace(/^(>*From )/gm, '>$1')
+  const validDate = Number.isNaN(date.getTime()) ? new Date(0) : date
+  return `From ${from || 'MAILER-DAEMON'} ${asctime(validDate)}\n${quoted.replace(/\n*$/, '\n')}\n`
+}
+
+// ---------------------------------------------------------------------------
+// File names
+// ---------------------------------------------------------------------------
+
+function shortHash(key: string): string {
+  return crypto.createHash('sha1').update(key).digest('hex').slice(0, 12)
+}
+
+/** Maildir info suffix (":2," + flags in ASCII order): D draft, F flagged, S seen, T trashed. */
+export function maildirInfo(flags: ExportFlags): string {
+  return `:2,${flags.draft ? 'D' : ''}${flags.flagged ? 'F' : ''}${flags.read ? 'S' : ''}${flags.trashed ? 'T' : ''}`
+}
+
+/** Unique Maildir name ("<time>.<hash>.zele") for a message, stable across reruns. */
+export function maildirName(key: string, date: Date): string {
+  const seconds = Number.isNaN(date.getTime()) ? 0 : Math.floor(date.getTime() / 1000)
+  return `${seconds}.${shortHash(key)}.zele`
+}
+
+/** "2024-03-01_quarterly-report_<hash>.eml" */
+export function emlName(key: string, date: Date, subject: string): string {
+  const day = Number.isNaN(date.getTime()) ? '0000-00-00' : date.toISOString().slice(0, 10)
+  const slug = subject
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '')
+  return `${day}_${slug || 'no-subject'}_${shortHash(key)}.eml`
+}
+
+// ---------------------------------------------------------------------------
+// Export log
+// ---------------------------------------------------------------------------
+
+/** Keys of messages already exported, from the NDJSON export log. */
+export function readExportLog(text: string): Set<string> {
+  const keys = new Set<string>()
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const entry = JSON.parse(line) as ExportLogEntry
+      if (entry && typeof entry.key === 'string') keys.add(entry.key)
+    } catch {
+      // ignore
+    }
+  }
+  return keys
+}
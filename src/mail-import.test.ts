@@ -0,0 +1,43 @@
+// Tests for reading mbox, Maildir and .eml messages for import.
+
+import { expect, test } from 'vitest'
+import { mboxEntry } from './mail-export.js'
+import { MboxSplitter, maildirFlags, separatorDate, toImportMessage } from './mail-import.js'
+
+function split(text: string) {
+  const splitter = new MboxSplitter()
+  // Like readline: no empty line after the final newline
+  const messages = text.replace(/\n$/, '').split('\n').map((line) => splitter.push(line))
+  return [...messages, splitter.end()].filter((m) => m !== null)
+}
+
+test('splits mbox files and reads back what export wrote', () => {
+  const flags = { read: false, flagged: true, draft: false, trashed: false }
+  const first = 'From: a@example.com\r\nMessage-ID: <1@example.com>\r\nDate: Fri, 5 Jan 2024 09:05:00 +0000\r\n\r\nFrom here on\r\n'
+  const second = 'From: b@example.com\r\n\r\nSee you\r\nFrom me, not a separator\r\n'
+  const mbox = mboxEntry(first, flags, new Date(Date.UTC(2024, 0, 5))) + mboxEntry(second, flags, new Date(Date.UTC(2024, 0, 6)))
+
+  const messages = split(mbox)
+  expect(messages.map((m) => m.raw)).toEqual([
+    'From: a@example.com\nMessage-ID: <1@example.com>\nDate: Fri, 5 Jan 2024 09:05:00 +0000\nStatus: O\nX-Status: F\n\nFrom here on\n',
+    'From: b@example.com\nStatus: O\nX-Status: F\n\nSee you\nFrom me, not a separator\n',
+  ])
+  expect(separatorDate(messages[1]!.separator)).toEqual(new Date(Date.UTC(2024, 0, 6)))
+
+  const message = toImportMessage(messages[0]!.raw, { source: 'a.mbox#1' })
+  expect(message).toMatchObject({ messageId: '<1@example.com>', date: new Date(Date.UTC(2024, 0, 5, 9, 5)), flags })
+  expect(message.raw.toString('latin1')).toBe(first)
+})
+
+test('keeps bytes and reads Maildir flags', () => {
+  const raw = 'Subject: caf\xe9\n\nna\xefve\n'
+  expect(toImportMessage(raw, { source: 'x.eml' }).raw).toEqual(Buffer.from([...'Subject: caf\xe9\r\n\r\nna\xefve\r\n'].map((c) => c.charCodeAt(0))))
+  expect(toImportMessage(raw, { source: 'x.eml', fallbackDate: new Date(0) })).toMatchObject({
+    messageId: '',
+    date: new Date(0),
+    flags: { read: true, flagged: false, draft: false, trashed: false },
+  })
+
+  expect(maildirFlags('1709251200.abc.zele:2,FS')).toEqual({ read: true, flagged: true, draft: false, trashed: false })
+  expect(maildirFlags('1709251200.abc.host')).toEqual({ read: false, flagged: false, draft: false, trashed: false })
+})
@@ -0,0 +1,135 @@
+// Reading messages for `zele mail import`: mbox files (mboxrd/mboxo, split on
+// "From " lines), Maildir directories (flags in the ":2," info suffix) and
+// .eml files (flags in Status/X-Status, as written by `zele mail export`).
+// Messages are handled as latin1 strings so every byte survives the round
+// trip to a Buffer; clients APPEND/import the bytes unchanged apart from CRLF
+// line endings and dropped Status/X-Status headers. No I/O here; the
+// command (commands/import.ts) reads the files and the clients import.
+
+import { headerValue, stripStatusHeaders, type ExportFlags } from './mail-export.js'
+
+export type ImportFlags = ExportFlags
+
+/** A message ready for a client's importMessages(). */
+export interface ImportMessage {
+  /** Where it came from, for progress output ("archive.mbox#12", a file path) */
+  source: string
+  raw: Buffer
+  /** Message-ID header with angle brackets, '' if missing (no duplicate check) */
+  messageId: string
+  date: Date
+  flags: ImportFlags
+}
+
+export interface ImportResult {
+  source: string
+  messageId: string
+  status: 'imported' | 'duplicate' | 'failed'
+  /** Message ID in the account (Gmail message ID, IMAP folder:uid) */
+  id?: string
+  error?: string
+}
+
+// ---------------------------------------------------------------------------
+// Flags
+// ---------------------------------------------------------------------------
+
+/** Flags from a Maildir file name ("1709251200.abc.host:2,FS"); files in new/ are unread. */
+export function maildirFlags(fileName: string): ImportFlags {
+  const info = /:2,([A-Za-z]*)$/.exec(fileName)?.[1] ?? ''
+  return {
+    read: info.includes('S'),
+    flagged: info.includes('F'),
+    draft: info.includes('D'),
+    trashed: info.includes('T'),
+  }
+}
+
+/** Flags from Status/X-Status headers; a message without them counts as read. */
+export function statusFlags(raw: string): ImportFlags {
+  const status = headerValue(raw, 'status')
+  const xStatus = headerValue(raw, 'x-status')
+  return {
+    read: !status || status.includes('R'),
+    flagged: xStatus.includes('F'),
+    draft: xStatus.includes('T'),
+    trashed: xStatus.includes('D'),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+/**
+ * Build an ImportMessage from a raw latin1 message. Flags default to the
+ * Status/X-Status headers; the date to the Date header, else `fallbackDate`
+ * (mbox "From " line, file time).
+ */
+export function toImportMessage(
+  raw: string,
+  { source, flags, fallbackDate }: { source: string; flags?: ImportFlags; fallbackDate?: Date },
+): ImportMessage {
+  const headerDate = new Date(headerValue(raw, 'date'))
+  const crlf = stripStatusHeaders(raw).replace(/\r?\n/g, '\r\n')
+  return {
+    source,
+    raw: Buffer.from(crlf, 'latin1'),
+    messageId: headerValue(raw, 'message-id').replace(/\s+/g, ''),
+    date: !Number.isNaN(headerDate.getTime()) ? headerDate : fallbackDate ?? new Date(),
+    flags: flags ?? statusFlags(raw),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// mbox
+// ---------------------------------------------------------------------------
+
+/** "From <sender> <asctime date>", e.g. "From ada@example.com Fri Jan  5 09:05:00 2024". */
+const SEPARATOR = /^From \S+\s+[A-Z][a-z]{2} [A-Z][a-z]{2} +\d{1,2} \d/
+
+/**
+ * Incremental mbox splitter: feed lines (without line endings) in order,
+ * get back each message once the next "From " separator (or end()) closes
+ * it. A separator must follow a blank line and carry a sender and date, so
+ * an unquoted "From " line in a message body (mboxo) rarely splits it.
+ * ">From " lines are unquoted one level (mboxrd).
+ */
+export class MboxSplitter {
+  private lines: string[] = []
+  private separator: string | null = null
+  private previousBlank = true
+
+  push(line: string): { raw: string; separator: string } | null {
+    const isSeparator = SEPARATOR.test(line)
+    const done = this.previousBlank && isSeparator ? this.flush() : null
+    if (isSeparator && (done || this.separator === null)) {
+      this.separator = line
+      this.previousBlank = false
+      return done
+    }
+    if (this.separator !== null) this.lines.push(/^>+From /.test(line) ? line.slice(1) : line)
+    this.previousBlank = line === ''
+    return done
+  }
+
+  end(): { raw: string; separator: string } | null {
+    return this.flush()
+  }
+
+  private flush(): { raw: string; separator: string } | null {
+    if (this.separator === null) return null
+    // The blank line before the next separator belongs to the mbox, not the message
+    const lines = this.lines[this.lines.length - 1] === '' ? this.lines.slice(0, -1) : this.lines
+    const message = { raw: lines.join('\n') + '\n', separator: this.separator }
+    this.lines = []
+    this.separator = null
+    return message
+  }
+}
+
+/** Date from an mbox separator line ("From sender Mon Jan  1 09:05:00 2024"). */
+export function separatorDate(separator: string): Date | undefined {
+  const date = new Date(`${separator.replace(/^From \S+\s+/, '')} UTC`)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
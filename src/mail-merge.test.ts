@@ -0,0 +1,58 @@
+// Tests for mail merge data files, template files and the progress log.
+
+import { expect, test } from 'vitest'
+import { parseCsv, parseMergeData, rowRecipients, rowKey, parseTemplateText, readMergeLog, templateHash, logHasOtherTemplate } from './mail-merge.js'
+
+test('parses quoted CSV fields and line endings', () => {
+  expect(parseCsv('\uFEFFemail,note\r\na@b.com,"Hello, ""you""\nthere"\r\nc@d.com,')).toEqual([
+    ['email', 'note'],
+    ['a@b.com', 'Hello, "you"\nthere'],
+    ['c@d.com', ''],
+  ])
+  expect(String(parseCsv('a,"b'))).toBe('ParseError: Failed to parse CSV: unterminated quoted field')
+})
+
+test('reads rows from CSV and YAML', () => {
+  expect(parseMergeData('Email, first_name\njane@example.com, Jane\n\n', 'csv')).toEqual([
+    { Email: 'jane@example.com', first_name: 'Jane' },
+  ])
+  expect(parseMergeData('- email: jo@example.com\n  seats: 3\n  note:\n', 'yaml')).toEqual([
+    { email: 'jo@example.com', seats: '3', note: '' },
+  ])
+  expect(String(parseMergeData('email: x@y.z', 'yaml'))).toMatchInlineSnapshot(
+    `"ParseError: Failed to parse YAML data: expected a list of mappings (- email: ...)"`,
+  )
+})
+
+test('row recipients and keys', () => {
+  expect(rowRecipients({ To: 'b@x.com, A@x.com' })).toEqual(['b@x.com', 'A@x.com'])
+  expect(rowKey(['b@x.com', 'A@x.com'])).toBe('a@x.com,b@x.com')
+  expect(String(rowRecipients({ name: 'Jane' }))).toBe('ValidationError: Invalid row: no address in an email or to column')
+  expect(String(rowRecipients({ email: 'jane' }))).toBe('ValidationError: Invalid row: "jane" is not an email address')
+})
+
+test('template files and progress log', () => {
+  expect(parseTemplateText('Subject: Hi {{first_name}}\n\nBody\n')).toEqual({ subject: 'Hi {{first_name}}', body: 'Body\n' })
+  expect(parseTemplateText('Just a body')).toEqual({ body: 'Just a body' })
+
+  const log = readMergeLog(
+    [
+      '{"key":"a@x.com","row":1,"status":"sending","at":"t"}',
+      '{"key":"a@x.com","row":1,"status":"sent","message_id":"m1","at":"t"}',
+      '{"key":"b@x.com","row":2,"status":"sending","at":"t"}',
+      '{"key":"c@x.com","row":3,"sta',
+    ].join('\n'),
+  )
+  expect([...log.values()].map((e) => [e.key, e.status])).toEqual([
+    ['a@x.com', 'sent'],
+    ['b@x.com', 'sending'],
+  ])
+
+  const hash = templateHash({ subject: 'Hi', body: 'Body' })
+  expect(templateHash({ subject: 'Hi', body: 'Body' })).toBe(hash)
+  expect(templateHash({ subject: 'Hello', body: 'Body' })).not.toBe(hash)
+  const sent = (template?: string) => new Map([['a@x.com', { key: 'a@x.com', row: 1, status: 'sent' as const, template, at: 't' }]])
+  expect(logHasOtherTemplate(sent(hash), hash)).toBe(false)
+  expect(logHasOtherTemplate(sent(templateHash({ subject: 'Hello', body: 'Body' })), hash)).toBe(true)
+  expect(logHasOtherTemplate(sent(), hash)).toBe(true)
+})
@@ -0,0 +1,160 @@
+// Data handling for `zele mail merge`: reading recipient rows from CSV or YAML,
+// template files ("Subject: ..." header, blank line, body) and the progress log
+// that makes a merge resumable. Pure functions; the command lives in
+// commands/merge.ts and rendering in mail-template.ts.
+
+import crypto from 'node:crypto'
+import yaml from 'js-yaml'
+import { ParseError, ValidationError } from './api-utils.js'
+
+/** One data row: column name → value. */
+export type MergeRow = Record<string, string>
+
+export type MergeLogStatus = 'sending' | 'sent' | 'failed'
+
+/** One line of the progress log (NDJSON). The last line for a key wins. */
+export interface MergeLogEntry {
+  key: string
+  row: number
+  status: MergeLogStatus
+  message_id?: string
+  thread_id?: string
+  error?: string
+  /** templateHash() of the template the row was sent with */
+  template?: string
+  at: string
+}
+
+// ---------------------------------------------------------------------------
+// Data files
+// ---------------------------------------------------------------------------
+
+/** Split CSV text into records (RFC 4180: quoted fields, "" escapes, CRLF). */
+export function parseCsv(text: string): string[][] | ParseError {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  for (; i < text.length; i++) {
+    const ch = text[i]!
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true
+    } else if (ch === ',') {
+      record.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (quoted) return new ParseError({ what: 'CSV', reason: 'unterminated quoted field' })
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+  return records
+}
+
+/**
+ * Read merge rows from a data file. CSV uses its first line as column names;
+ * YAML must be a list of mappings. Blank rows are dropped.
+ */
+export function parseMergeData(text: string, format: 'csv' | 'yaml'): MergeRow[] | ParseError {
+  if (format === 'yaml') {
+    let doc: unknown
+    try {
+      doc = yaml.load(text)
+    } catch (e) {
+      return new ParseError({ what: 'YAML data', reason: e instanceof Error ? e.message.split('\n')[0]! : String(e) })
+    }
+    if (!Array.isArray(doc) || doc.some((r) => !r || typeof r !== 'object' || Array.isArray(r))) {
+      return new ParseError({ what: 'YAML data', reason: 'expected a list of mappings (- email: ...)' })
+    }
+    return doc.map((r: Record<string, unknown>) =>
+      Object.fromEntries(Object.entries(r).map(([k, v]) => [k, v == null ? '' : v instanceof Date ? v.toISOString() : String(v)])),
+    )
+  }
+
+  const records = parseCsv(text)
+  if (records instanceof Error) return records
+  const [header, ...body] = records
+  if (!header) return []
+  const columns = header.map((c) => c.trim())
+  return body
+    .filter((r) => r.some((v) => v.trim() !== ''))
+    .map((r) => Object.fromEntries(columns.map((c, i) => [c, (r[i] ?? '').trim()])))
+}
+
+/**
+ * Recipient addresses of a row, from its `email` or `to` column (matched
+ * case-insensitively; several addresses may be comma-separated).
+ */
+export function rowRecipients(row: MergeRow): string[] | ValidationError {
+  const column = Object.keys(row).find((k) => /^(e-?mail|to)$/i.test(k))
+  const value = column ? row[column]! : ''
+  const emails = value.split(',').map((e) => e.trim()).filter(Boolean)
+  if (emails.length === 0) return new ValidationError({ field: 'row', reason: 'no address in an email or to column' })
+  const bad = emails.find((e) => !/^[^\s@]+@[^\s@]+$/.test(e))
+  if (bad) return new ValidationError({ field: 'row', reason: `"${bad}" is not an email address` })
+  return emails
+}
+
+/** Log key of a row: its recipients, normalized, so a reordered data file still resumes. */
+export function rowKey(recipients: string[]): string {
+  return recipients.map((e) => e.toLowerCase()).sort().join(',')
+}
+
+// ---------------------------------------------------------------------------
+// Template files
+// ---------------------------------------------------------------------------
+
+/** Split a template file into subject ("Subject: ..." first line, optional) and body. */
+export function parseTemplateText(text: string): { subject?: string; body: string } {
+  const match = /^Subject:[ \t]*(.*)\r?\n(?:\r?\n)?/.exec(text)
+  return match ? { subject: match[1]!.trim(), body: text.slice(match[0].length) } : { body: text }
+}
+
+// ---------------------------------------------------------------------------
+// Progress log
+// ---------------------------------------------------------------------------
+
+/** Fingerprint of a template's subject and body, kept in the log so a resume can't switch templates. */
+export function templateHash(template: { subject: string; body: string }): string {
+  return crypto.createHash('sha256').update(`${template.subject}\n\n${template.body}`).digest('hex').slice(0, 16)
+}
+
+/** Whether the log has rows sent (or being sent) with another template than `hash`. */
+export function logHasOtherTemplate(log: Map<string, MergeLogEntry>, hash: string): boolean {
+  return [...log.values()].some((e) => e.status !== 'failed' && e.template !== hash)
+}
+
+/** Latest log entry per row key. Unreadable lines (a torn last write) are skipped. */
+export function readMergeLog(text: string): Map<string, MergeLogEntry> {
+  const entries = new Map<string, MergeLogEntry>()
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const entry = JSON.parse(line) as MergeLogEntry
+      if (entry && typeof entry.key === 'string') entries.set(entry.key, entry)
+    } catch {
+      // ignore
+    }
+  }
+  return entries
+}
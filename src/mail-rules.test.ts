@@ -0,0 +1,67 @@
+// Tests for the local rules file and rule matching.
+
+import { expect, test } from 'vitest'
+import type { ParsedMessage } from './gmail-client.js'
+import { matchingRules, parseRulesFile, ruleActionList } from './mail-rules.js'
+
+const message = (overrides: Partial<ParsedMessage>): ParsedMessage => ({
+  id: 'INBOX:42',
+  threadId: 'INBOX:42',
+  subject: 'Your invoice',
+  snippet: '',
+  from: { email: 'billing@example.com' },
+  to: [{ email: 'me@example.com' }],
+  cc: null,
+  bcc: [],
+  date: '2024-01-05T09:00:00.000Z',
+  labelIds: [],
+  unread: true,
+  starred: false,
+  isDraft: false,
+  messageId: '<a@example.com>',
+  body: '',
+  mimeType: 'text/plain',
+  textBody: 'Amount due',
+  attachments: [],
+  auth: null,
+  ...overrides,
+})
+
+const rules = parseRulesFile(`
+- name: invoices
+  query: from:billing@example.com subject:invoice
+  actions:
+    run: ./save.sh
+    move: Receipts
+    mark_read: true
+- name: everything
+  query: -from:noreply@example.com
+  actions:
+    flag: true
+- name: work only
+  query: from:boss@work.example
+  accounts: Me@Work.example
+  actions:
+    forward: assistant@work.example
+  stop: true
+`)
+
+test('parses rules and runs them in order until one moves the message', () => {
+  if (rules instanceof Error) throw rules
+  expect(ruleActionList(rules[0]!.actions)).toEqual(['mark_read', 'run:./save.sh', 'move:Receipts'])
+  expect(rules[2]).toMatchObject({ accounts: ['me@work.example'], stop: true })
+
+  const names = (account: string, overrides: Partial<ParsedMessage>) => matchingRules(rules, account, message(overrides)).map((r) => r.name)
+  expect(names('me@example.com', {})).toEqual(['invoices'])
+  expect(names('me@example.com', { subject: 'Hello' })).toEqual(['everything'])
+  expect(names('me@example.com', { from: { email: 'boss@work.example' } })).toEqual(['everything'])
+  expect(names('me@work.example', { from: { email: 'boss@work.example' } })).toEqual(['everything', 'work only'])
+})
+
+test('rejects invalid rules', () => {
+  expect(parseRulesFile('- name: a\n  query: x\n  actions: { archive: true }\n')).toMatchObject({ message: expect.stringContaining('unknown action') })
+  expect(parseRulesFile('- name: a\n  query: x\n  actions: { move: Old, trash: true }\n')).toMatchObject({ message: expect.stringContaining('pick one') })
+  expect(parseRulesFile('- query: x\n  actions: { flag: true }\n')).toMatchObject({ message: expect.stringContaining('needs a name') })
+  expect(parseRulesFile('- name: a\n  query: x\n  actions: { flag: true }\n- name: a\n  query: y\n  actions: { flag: true }\n')).toMatchObject({ message: expect.stringContaining('another rule') })
+  expect(parseRulesFile('')).toEqual([])
+})
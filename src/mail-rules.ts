@@ -0,0 +1,146 @@
+// Local mail rules for IMAP accounts, which have no server-side filters.
+// Rules live in ~/.zele/rules.yaml: each one has a Gmail-syntax query
+// (matched locally with matchesQuery) and actions. rules.ts runs them from
+// `mail watch` and `zele rules run`. Pure functions; no network or database.
+
+import yaml from 'js-yaml'
+import { ParseError, ValidationError } from './api-utils.js'
+import type { ParsedMessage } from './gmail-client.js'
+import { matchesQuery, parseQuery, unsupportedTerms, type QueryNode } from './gmail-query.js'
+
+export interface RuleActions {
+  /** Move to this folder (name or IMAP path) */
+  move?: string
+  /** Star (\Flagged) */
+  flag?: boolean
+  mark_read?: boolean
+  trash?: boolean
+  /** Forward a copy (as an attachment) to this address */
+  forward?: string
+  /** Shell command run with the message as JSON on stdin */
+  run?: string
+}
+
+export interface MailRule {
+  name: string
+  query: string
+  /** Accounts the rule applies to (all IMAP accounts when empty) */
+  accounts: string[]
+  actions: RuleActions
+  /** Don't run later rules on a message this rule matched */
+  stop: boolean
+  /** Parsed query */
+  match: QueryNode
+}
+
+const RULE_KEYS = ['name', 'query', 'accounts', 'actions', 'stop']
+const ACTION_KEYS = ['mark_read', 'flag', 'forward', 'run', 'move', 'trash'] as const
+
+// ---------------------------------------------------------------------------
+// YAML
+// ---------------------------------------------------------------------------
+
+/** Read a rules file: a list of rules. Unknown keys are errors, not ignored. */
+export function parseRulesFile(text: string): MailRule[] | ParseError | ValidationError {
+  let doc: unknown
+  try {
+    doc = yaml.load(text)
+  } catch (e) {
+    return new ParseError({ what: 'rules YAML', reason: e instanceof Error ? e.message.split('\n')[0]! : String(e) })
+  }
+  if (doc == null) return []
+  if (!Array.isArray(doc)) return new ParseError({ what: 'rules YAML', reason: 'expected a list of rules (- name: ...)' })
+
+  const rules: MailRule[] = []
+  for (const [i, entry] of doc.entries()) {
+    const rule = parseRule(entry, i)
+    if (rule instanceof Error) return rule
+    if (rules.some((r) => r.name === rule.name)) {
+      return new ValidationError({ field: `rule "${rule.name}"`, reason: 'name is used by another rule' })
+    }
+    rules.push(rule)
+  }
+  return rules
+}
+
+function parseRule(entry: unknown, index: number): MailRule | ValidationError {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return new ValidationError({ field: `rule ${index + 1}`, reason: 'expected a mapping' })
+  }
+  const raw = entry as Record<string, unknown>
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : `rule ${index + 1}`
+  const field = (key: string) => `rule "${name}"${key ? ` ${key}` : ''}`
+
+  const unknownKey = Object.keys(raw).find((key) => !RULE_KEYS.includes(key))
+  if (unknownKey) return new ValidationError({ field: field(unknownKey), reason: `unknown key; use ${RULE_KEYS.join(', ')}` })
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return new ValidationError({ field: field('name'), reason: 'every rule needs a name' })
+  if (typeof raw.query !== 'string' || !raw.query.trim()) return new ValidationError({ field: field('query'), reason: 'expected a Gmail search query' })
+
+  const rawActions = raw.actions
+  if (!rawActions || typeof rawActions !== 'object' || Array.isArray(rawActions)) {
+    return new ValidationError({ field: field('actions'), reason: `expected a mapping of ${ACTION_KEYS.join(', ')}` })
+  }
+  const actions: RuleActions = {}
+  for (const [key, value] of Object.entries(rawActions as Record<string, unknown>)) {
+    if (!(ACTION_KEYS as readonly string[]).includes(key)) {
+      return new ValidationError({ field: field(`actions.${key}`), reason: `unknown action; use ${ACTION_KEYS.join(', ')}` })
+    }
+    if (value == null || value === false) continue
+    if (key === 'flag' || key === 'mark_read' || key === 'trash') {
+      if (value !== true) return new ValidationError({ field: field(`actions.${key}`), reason: 'expected true' })
+      actions[key] = true
+    } else {
+      if (typeof value !== 'string' || !value.trim()) return new ValidationError({ field: field(`actions.${key}`), reason: 'expected a string' })
+      actions[key as 'move' | 'forward' | 'run'] = value.trim()
+    }
+  }
+  if (Object.keys(actions).length === 0) return new ValidationError({ field: field('actions'), reason: 'needs at least one action' })
+  if (actions.move && actions.trash) return new ValidationError({ field: field('actions'), reason: 'move and trash both take the message away; pick one' })
+
+  const accounts = raw.accounts == null ? [] : [raw.accounts].flat()
+  if (accounts.some((a) => typeof a !== 'string')) return new ValidationError({ field: field('accounts'), reason: 'expected email addresses' })
+  if (raw.stop != null && typeof raw.stop !== 'boolean') return new ValidationError({ field: field('stop'), reason: 'expected true or false' })
+
+  return {
+    name: raw.name.trim(),
+    query: raw.query.trim(),
+    accounts: (accounts as string[]).map((a) => a.toLowerCase()),
+    actions,
+    stop: raw.stop === true,
+    match: parseQuery(raw.query),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Rules to run on a message of `account`, in file order: each matching rule
+ * until one has `stop`, or moves or trashes the message (later rules would
+ * act on a message that is no longer there).
+ */
+export function matchingRules(rules: MailRule[], account: string, message: ParsedMessage, now = new Date()): MailRule[] {
+  const matched: MailRule[] = []
+  for (const rule of rules) {
+    if (rule.accounts.length > 0 && !rule.accounts.includes(account.toLowerCase())) continue
+    if (!matchesQuery(message, rule.match, now)) continue
+    matched.push(rule)
+    if (rule.stop || rule.actions.move || rule.actions.trash) break
+  }
+  return matched
+}
+
+/** Hints for the query terms of `rules` that can't be checked locally and are skipped. */
+export function ruleQueryHints(rules: MailRule[]): string[] {
+  return rules.flatMap((rule) => unsupportedTerms(rule.match).map((term) => `Rule "${rule.name}": ${term}, skipping`))
+}
+
+/**
+ * A rule's actions in the order they run, as `name` or `name:value` (also how
+ * they are recorded in the audit trail). Moving or trashing goes last since
+ * the message leaves the folder.
+ */
+export function ruleActionList(actions: RuleActions): string[] {
+  return ACTION_KEYS.filter((key) => actions[key]).map((key) => (typeof actions[key] === 'string' ? `${key}:${actions[key]}` : key))
+}
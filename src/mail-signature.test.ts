@@ -0,0 +1,27 @@
+// Tests for signature rendering and appending.
+
+import { expect, test } from 'vitest'
+import { appendSignature, signatureFromSource } from './mail-signature.js'
+
+test('builds text and HTML from Markdown or HTML', () => {
+  expect(signatureFromSource('**Jane Doe**\nAcme Inc.\n', 'markdown')).toEqual({
+    text: '**Jane Doe**\nAcme Inc.',
+    html: '<p><strong>Jane Doe</strong><br>\nAcme Inc.</p>',
+  })
+  expect(signatureFromSource('<html><body><div>Jane <b>Doe</b></div></body></html>', 'html')).toEqual({
+    text: 'Jane **Doe**',
+    html: '<div>Jane <b>Doe</b></div>',
+  })
+})
+
+test('appends after the delimiter in text and HTML parts', () => {
+  const signature = { text: 'Jane', html: '<p>Jane</p>' }
+  expect(appendSignature({ body: 'Hello\n\n' }, signature)).toEqual({ body: 'Hello\n\n-- \nJane\n' })
+  expect(appendSignature({ body: '' }, signature)).toEqual({ body: '-- \nJane\n' })
+  expect(appendSignature({ body: 'Hi', html: '<html><body><p>Hi</p></body></html>' }, signature).html).toMatchInlineSnapshot(`
+    "<html><body><p>Hi</p><div class="zele-signature"><br>-- <br>
+    <p>Jane</p>
+    </div>
+    </body></html>"
+  `)
+})
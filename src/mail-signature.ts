@@ -0,0 +1,42 @@
+// Signature text for outgoing mail (`zele signature`). A signature has a plain
+// text form for text/plain parts and an HTML form for text/html parts; both are
+// derived from one source file (Markdown, or HTML such as a Gmail signature).
+// appendSignature() adds it below the body after the usual "-- " delimiter.
+// Pure functions; storage lives in signatures.ts.
+
+import { markdownToHtmlFragment } from './markdown-html.js'
+import { htmlToMarkdown } from './output.js'
+
+export interface SignatureContent {
+  text: string
+  html: string
+}
+
+/** Build both forms of a signature from Markdown/plain text or from HTML. */
+export function signatureFromSource(source: string, kind: 'markdown' | 'html'): SignatureContent {
+  if (kind === 'html') {
+    const html = (/<body[^>]*>([\s\S]*?)<\/body>/i.exec(source)?.[1] ?? source).trim()
+    return { text: htmlToMarkdown(html), html }
+  }
+  const text = source.trim()
+  // Signatures are line-oriented, so single line breaks stay line breaks in HTML
+  return { text, html: markdownToHtmlFragment(text.replace(/(?<!\n)\n(?!\n)/g, '  \n')).trim() }
+}
+
+/**
+ * Append a signature to a message body and, when there is one, its HTML
+ * alternative. The HTML signature goes inside <body> if the document has one.
+ */
+export function appendSignature(
+  message: { body: string; html?: string },
+  signature: SignatureContent,
+): { body: string; html?: string } {
+  const text = message.body.replace(/\s+$/, '')
+  const body = `${text ? `${text}\n\n` : ''}-- \n${signature.text}\n`
+  if (!message.html) return { body }
+
+  const block = `<div class="zele-signature"><br>-- <br>\n${signature.html}\n</div>\n`
+  const end = message.html.search(/<\/body>/i)
+  const html = end === -1 ? message.html + block : message.html.slice(0, end) + block + message.html.slice(end)
+  return { body, html }
+}
@@ -0,0 +1,35 @@
+// Tests for mail template placeholder rendering.
+
+import { expect, test } from 'vitest'
+import { renderTemplate, templateVariables, parseVars, senderVariables } from './mail-template.js'
+
+test('renders placeholders, fallbacks and reports missing values', () => {
+  const text = 'Hi {{ first_name | there }},\n\nTicket {{ticket}} is {{status}}. Ticket {{ticket}} again.'
+  expect(templateVariables(text)).toEqual(['first_name', 'ticket', 'status'])
+  expect(renderTemplate(text, { ticket: '#42', status: 'closed' })).toMatchInlineSnapshot(`
+    "Hi there,
+
+    Ticket #42 is closed. Ticket #42 again."
+  `)
+  expect(renderTemplate(text, { first_name: 'Ana', ticket: '#42', status: 'open' })).toMatch(/^Hi Ana,/)
+  expect(String(renderTemplate(text, {}))).toMatchInlineSnapshot(
+    `"ValidationError: Invalid template: no value for {{ticket}}, {{status}} (pass --var ticket=... --var status=...)"`,
+  )
+})
+
+test('parses --var flags', () => {
+  expect(parseVars(['a=1', 'b=x=y', 'a=2'])).toEqual({ a: '2', b: 'x=y' })
+  expect(String(parseVars(['nope']))).toBe('ValidationError: Invalid --var: "nope" is not key=value')
+})
+
+test('sender variables from display name or address', () => {
+  expect(senderVariables({ name: 'Jane Q. Doe', email: 'jane@example.com' })).toEqual({
+    name: 'Jane Q. Doe',
+    first_name: 'Jane',
+    last_name: 'Doe',
+    email: 'jane@example.com',
+  })
+  expect(senderVariables({ name: 'Doe, Jane', email: 'jd@example.com' })).toMatchObject({ first_name: 'Jane', last_name: 'Doe' })
+  expect(senderVariables({ email: 'john.smith@example.com' })).toMatchObject({ name: 'John Smith', first_name: 'John' })
+  expect(senderVariables({ email: 'support123@example.com' })).toMatchObject({ first_name: '', name: '' })
+})
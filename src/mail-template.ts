@@ -0,0 +1,83 @@
+// Placeholder rendering for mail templates (`--template` on mail send/reply and
+// draft create). Templates use `{{name}}` placeholders, with an optional
+// fallback after a pipe: `Hi {{first_name|there}}`. Values come from --var
+// key=value flags and, when replying, from the original thread's sender.
+// Pure functions; storage lives in templates.ts.
+
+import { ValidationError } from './api-utils.js'
+
+const PLACEHOLDER_RE = /\{\{\s*([a-zA-Z_][\w.-]*)\s*(?:\|([^}]*))?\}\}/g
+
+/** Names of the placeholders used in `text`, in order of first use. */
+export function templateVariables(text: string): string[] {
+  const names = new Set<string>()
+  for (const match of text.matchAll(PLACEHOLDER_RE)) names.add(match[1]!)
+  return [...names]
+}
+
+/**
+ * Replace placeholders with `vars`. A placeholder without a value uses its
+ * fallback; if it has none, rendering fails and names every missing variable.
+ */
+export function renderTemplate(text: string, vars: Record<string, string>): string | ValidationError {
+  const missing = new Set<string>()
+  const rendered = text.replace(PLACEHOLDER_RE, (_match, name: string, fallback: string | undefined) => {
+    const value = vars[name]
+    if (value !== undefined && value !== '') return value
+    if (fallback !== undefined) return fallback.trim()
+    missing.add(name)
+    return ''
+  })
+  if (missing.size > 0) {
+    const names = [...missing]
+    return new ValidationError({
+      field: 'template',
+      reason: `no value for ${names.map((n) => `{{${n}}}`).join(', ')} (pass ${names.map((n) => `--var ${n}=...`).join(' ')})`,
+    })
+  }
+  return rendered
+}
+
+/** Parse repeated `--var key=value` flags. Later flags win. */
+export function parseVars(flags: string[] | undefined): Record<string, string> | ValidationError {
+  const vars: Record<string, string> = {}
+  for (const flag of flags ?? []) {
+    const eq = flag.indexOf('=')
+    if (eq <= 0) return new ValidationError({ field: '--var', reason: `"${flag}" is not key=value` })
+    vars[flag.slice(0, eq).trim()] = flag.slice(eq + 1)
+  }
+  return vars
+}
+
+/**
+ * Variables describing a sender, for replies: name, first_name, last_name,
+ * email. Without a display name, first_name falls back to the local part of
+ * the address when it looks like a name ("jane.doe@" → "Jane").
+ */
+export function senderVariables(sender: { name?: string; email: string }): Record<string, string> {
+  const name = sender.name?.replace(/^"|"$/g, '').trim() ?? ''
+  let first = ''
+  let last = ''
+  if (name.includes(',')) {
+    // "Doe, Jane"
+    const [lastPart, firstPart] = name.split(',', 2)
+    first = firstPart!.trim().split(/\s+/)[0] ?? ''
+    last = lastPart!.trim()
+  } else if (name) {
+    const parts = name.split(/\s+/)
+    first = parts[0]!
+    last = parts.length > 1 ? parts[parts.length - 1]! : ''
+  } else {
+    const local = sender.email.split('@')[0] ?? ''
+    const words = local.split(/[._-]+/).filter((w) => /^[a-z]+$/i.test(w))
+    if (words.length > 0 && words.length <= 3) {
+      first = capitalize(words[0]!)
+      last = words.length > 1 ? capitalize(words[words.length - 1]!) : ''
+    }
+  }
+  return { name: name || [first, last].filter(Boolean).join(' '), first_name: first, last_name: last, email: sender.email }
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+}
@@ -49,6 +49,8 @@ import {
 import type { GmailClient, ThreadListItem, ThreadData } from './gmail-client.js'
 import type { ImapSmtpClient } from './imap-smtp-client.js'
 import { AuthError, ApiError, isTruthy } from './api-utils.js'
+import { listContacts, resolveRecipients } from './contacts.js'
+import { searchContacts } from './address-book.js'
 import {
   renderEmailBody,
   replyParser,
@@ -403,6 +405,29 @@ function ComposeForm({ mode, initialAccount, accounts, onSent }: ComposeFormProp
   const { pop } = useNavigation()
   const [isLoading, setIsLoading] = useState(false)
   const [selectedAccount, setSelectedAccount] = useState(initialAccount)
+  const [to, setTo] = useState('')
+
+  // Suggest contacts for the recipient being typed (the text after the last comma)
+  const contacts = useCachedPromise(
+    async (acct: string) => {
+      const account = accounts.find((a) => a.email === acct)
+      return account ? listContacts([account]) : []
+    },
+    [selectedAccount],
+    { execute: mode.type === 'forward' },
+  )
+  const typed = to.split(',').at(-1)?.trim() ?? ''
+  const suggestions = useMemo(
+    () => (typed && !typed.includes('@') ? searchContacts(contacts.data ?? [], typed).slice(0, 5) : []),
+    [contacts.data, typed],
+  )
+
+  const completeRecipient = () => {
+    const first = suggestions[0]
+    if (!first) return
+    const done = to.split(',').slice(0, -1).map((e) => e.trim()).filter(Boolean)
+    setTo([...done, first.address].join(', ') + ', ')
+  }
 
   const navigationTitle =
     mode.type === 'forward'
@@ -443,14 +468,17 @@ Name`
     }
 
     setIsLoading(true)
-    const { client } = await getClient([selectedAccount])
+    const account = await getClient([selectedAccount])
+    const { client } = account
 
     let result: Error | unknown
     if (mode.type === 'forward') {
-      const recipients = (values.to ?? '')
-        .split(',')
-        .map((e) => ({ email: e.trim() }))
-        .filter((e) => e.email)
+      const recipients = await resolveRecipients(account, values.to ?? '', 'To')
+      if (recipients instanceof Error) {
+        setIsLoading(false)
+        await showFailureToast(recipients, { title: 'Unknown recipient' })
+        return
+      }
       result = await client.forwardThread({
         threadId: mode.threadId,
         to: recipients,
@@ -492,6 +520,14 @@ Name`
             title={mode.type === 'forward' ? 'Forward' : 'Send Reply'}
             onSubmit={handleSubmit}
           />
+          {suggestions.length > 0 && (
+            <Action
+              title={`Complete Recipient: ${suggestions[0]!.address}`}
+              icon={Icon.Person}
+              shortcut={{ modifiers: ['ctrl'], key: 'n' }}
+              onAction={completeRecipient}
+            />
+          )}
         </ActionPanel>
       }
     >
@@ -515,7 +551,15 @@ Name`
         <Form.TextField
           id='to'
           title='To'
-          placeholder='recipient@example.com'
+          placeholder='recipient@example.com or a name'
+          value={to}
+          onChange={setTo}
+        />
+      )}
+      {suggestions.length > 0 && (
+        <Form.Description
+          title='Contacts'
+          text={suggestions.map((c) => formatSender({ name: c.name, email: c.address })).join('\n')}
         />
       )}
       <Form.TextArea
@@ -0,0 +1,52 @@
+// Tests for Markdown → sanitized HTML rendering used by --markdown.
+
+import { expect, test } from 'vitest'
+import { markdownToHtml } from './markdown-html.js'
+
+/** Strip the document wrapper so snapshots show only the rendered body. */
+function body(markdown: string): string {
+  const html = markdownToHtml(markdown)
+  return html.slice(html.indexOf('<body>\n') + 7, html.indexOf('</body>'))
+}
+
+test('wraps output in a UTF-8 html document', () => {
+  expect(markdownToHtml('Hi')).toMatchInlineSnapshot(`
+    "<!DOCTYPE html>
+    <html><head><meta charset="utf-8"></head><body>
+    <p>Hi</p>
+    </body></html>
+    "
+  `)
+})
+
+test('headings, emphasis, code and lists', () => {
+  expect(body('# Update\n\nShipped **v2** with `--markdown`.\n\n- one\n- two\n\n1. first\n2. second\n\n```ts\nconst a = 1 < 2\n```')).toMatchInlineSnapshot(`
+    "<h1>Update</h1>
+    <p>Shipped <strong>v2</strong> with <code>--markdown</code>.</p>
+    <ul>
+    <li>one</li>
+    <li>two</li>
+    </ul>
+    <ol>
+    <li>first</li>
+    <li>second</li>
+    </ol>
+    <pre><code class="language-ts">const a = 1 &lt; 2
+    </code></pre>
+    "
+  `)
+})
+
+test('links and reference definitions', () => {
+  expect(body('See [docs](https://example.com "Docs") and [the spec][spec].\n\n[spec]: https://example.com/spec')).toMatchInlineSnapshot(`
+    "<p>See <a href="https://example.com" title="Docs">docs</a> and <a href="https://example.com/spec">the spec</a>.</p>
+    "
+  `)
+})
+
+test('raw HTML is escaped, unsafe URLs are dropped', () => {
+  expect(body('<script>alert(1)</script>\n\nClick [here](javascript:alert(1)) ![x](data:image/png;base64,AAA)')).toMatchInlineSnapshot(`
+    "&lt;script&gt;alert(1)&lt;/script&gt;<p>Click here x</p>
+    "
+  `)
+})
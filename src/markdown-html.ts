@@ -0,0 +1,120 @@
+// Markdown → HTML for composing mail (`--markdown` on mail send/reply and draft create).
+// Parses CommonMark with remark and serializes the syntax tree to HTML by hand,
+// so the output is sanitized by construction: all text is escaped, raw HTML in
+// the source is shown as text, and link/image URLs are limited to safe schemes.
+// The HTML is sent next to the original Markdown as multipart/alternative.
+
+import { remark } from 'remark'
+
+// mdast node types, taken from remark's parser so no extra type package is needed
+type Root = ReturnType<ReturnType<typeof remark>['parse']>
+type RootContent = Root['children'][number]
+type Definition = Extract<RootContent, { type: 'definition' }>
+
+const SAFE_URL = /^(https?:|mailto:|cid:|#)/i
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/** Relative and unknown-scheme URLs (javascript:, data:, file:) are dropped. */
+function safeUrl(url: string): string | null {
+  const trimmed = url.trim()
+  return SAFE_URL.test(trimmed) ? escapeHtml(trimmed) : null
+}
+
+function titleAttr(title: string | null | undefined): string {
+  return title ? ` title="${escapeHtml(title)}"` : ''
+}
+
+/** Render Markdown to a sanitized HTML document body, wrapped for mail clients. */
+export function markdownToHtml(markdown: string): string {
+  return `<!DOCTYPE html>\n<html><head><meta charset="utf-8"></head><body>\n${markdownToHtmlFragment(markdown)}</body></html>\n`
+}
+
+/** Render Markdown to sanitized HTML without the document wrapper (e.g. a signature). */
+export function markdownToHtmlFragment(markdown: string): string {
+  const tree: Root = remark().parse(markdown)
+  const definitions = new Map<string, Definition>()
+  for (const node of tree.children) {
+    if (node.type === 'definition') definitions.set(node.identifier.toLowerCase(), node)
+  }
+
+  const children = (nodes: RootContent[], tight = false): string =>
+    nodes.map((node) => render(node, tight)).join('')
+
+  const link = (url: string, title: string | null | undefined, content: string): string => {
+    const href = safeUrl(url)
+    return href ? `<a href="${href}"${titleAttr(title)}>${content}</a>` : content
+  }
+
+  const image = (url: string, title: string | null | undefined, alt: string): string => {
+    const src = safeUrl(url)
+    return src ? `<img src="${src}" alt="${escapeHtml(alt)}"${titleAttr(title)}>` : escapeHtml(alt)
+  }
+
+  const render = (node: RootContent, tight: boolean): string => {
+    switch (node.type) {
+      case 'paragraph':
+        // Tight list items render their paragraphs inline, like CommonMark
+        return tight ? children(node.children) : `<p>${children(node.children)}</p>\n`
+      case 'heading':
+        return `<h${node.depth}>${children(node.children)}</h${node.depth}>\n`
+      case 'thematicBreak':
+        return '<hr>\n'
+      case 'blockquote':
+        return `<blockquote>\n${children(node.children)}</blockquote>\n`
+      case 'list': {
+        const tag = node.ordered ? 'ol' : 'ul'
+        const start = node.ordered && node.start != null && node.start !== 1 ? ` start="${node.start}"` : ''
+        return `<${tag}${start}>\n${children(node.children, !node.spread)}</${tag}>\n`
+      }
+      case 'listItem': {
+        const check = node.checked == null ? '' : node.checked ? '☑ ' : '☐ '
+        return `<li>${check}${children(node.children, tight && !node.spread)}</li>\n`
+      }
+      case 'code': {
+        const lang = node.lang ? ` class="language-${escapeHtml(node.lang)}"` : ''
+        return `<pre><code${lang}>${escapeHtml(node.value)}${node.value ? '\n' : ''}</code></pre>\n`
+      }
+      case 'html':
+        return escapeHtml(node.value)
+      case 'definition':
+        return ''
+      case 'text':
+        return escapeHtml(node.value)
+      case 'emphasis':
+        return `<em>${children(node.children)}</em>`
+      case 'strong':
+        return `<strong>${children(node.children)}</strong>`
+      case 'delete':
+        return `<del>${children(node.children)}</del>`
+      case 'inlineCode':
+        return `<code>${escapeHtml(node.value)}</code>`
+      case 'break':
+        return '<br>\n'
+      case 'link':
+        return link(node.url, node.title, children(node.children))
+      case 'image':
+        return image(node.url, node.title, node.alt ?? '')
+      case 'linkReference': {
+        const definition = definitions.get(node.identifier.toLowerCase())
+        const content = children(node.children)
+        return definition ? link(definition.url, definition.title, content) : content
+      }
+      case 'imageReference': {
+        const definition = definitions.get(node.identifier.toLowerCase())
+        return definition ? image(definition.url, definition.title, node.alt ?? '') : escapeHtml(node.alt ?? '')
+      }
+      default:
+        // Extension nodes (tables, footnotes) don't come out of plain remark; keep any text
+        return 'children' in node ? children(node.children as RootContent[]) : 'value' in node ? escapeHtml(String(node.value)) : ''
+    }
+  }
+
+  return children(tree.children)
+}
@@ -0,0 +1,98 @@
+// Local mailbox mirror state shared by GmailClient and ImapSmtpClient.
+// `zele sync` fills the mirror (Gmail threads into Thread, IMAP messages into
+// MirrorMessage) and records cursors in SyncState so it can resume and run
+// incrementally. Once an account has completed a sync, list/read/counts are
+// served from the mirror; actions keep it current and `zele sync` catches up
+// with changes made elsewhere.
+
+import { getPrisma } from './db.js'
+import type { AccountId } from './auth.js'
+
+/** SyncState keys used by the mirror. IMAP folder cursors use mirrorFolderKey(). */
+export const MIRROR_KEYS = {
+  /** Gmail History API cursor for incremental sync (separate from watch's history_id). */
+  historyId: 'mirror_history_id',
+  /** Gmail historyId captured before a full pass; promoted to historyId when it finishes. */
+  seedHistoryId: 'mirror_seed_history_id',
+  /** threads.list page token of an interrupted full pass. */
+  pageToken: 'mirror_page_token',
+  /** ISO timestamp of the last completed sync. Its presence means "serve from mirror". */
+  syncedAt: 'mirror_synced_at',
+  /** IMAP mailbox list ({ path, specialUse }[] JSON) from the last sync, to resolve folder names offline. */
+  folders: 'mirror_folders',
+} as const
+
+/** Per-folder IMAP cursor key. Value is JSON MirrorFolderState. */
+export function mirrorFolderKey(folder: string): string {
+  return `mirror:${folder}`
+}
+
+export interface MirrorFolderState {
+  uidValidity: string
+  /** HIGHESTMODSEQ after the last pass; empty when the server lacks CONDSTORE. */
+  highestModseq: string
+  /** Highest UID stored so far — new messages are fetched above it. */
+  lastUid: number
+}
+
+export interface SyncProgress {
+  /** 'full' for an initial/recovery pass, 'incremental' for history/CONDSTORE catch-up. */
+  phase: 'full' | 'incremental'
+  /** IMAP folder being synced (absent for Gmail). */
+  folder?: string
+  done: number
+  total?: number
+}
+
+export interface SyncResult {
+  mode: 'full' | 'incremental'
+  /** Threads (Gmail) or messages (IMAP) fetched or updated. */
+  updated: number
+  /** Threads or messages removed from the mirror. */
+  removed: number
+}
+
+/** Mirror older than this gets a "run zele sync" hint when read from. */
+export const MIRROR_STALE_MS = 60 * 60 * 1000
+
+// ---------------------------------------------------------------------------
+// SyncState access
+// ---------------------------------------------------------------------------
+
+export async function getSyncState(account: AccountId, key: string): Promise<string | undefined> {
+  const prisma = await getPrisma()
+  const row = await prisma.syncState.findUnique({
+    where: { email_appId_key: { email: account.email, appId: account.appId, key } },
+  })
+  return row?.value
+}
+
+export async function setSyncState(account: AccountId, key: string, value: string): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.syncState.upsert({
+    where: { email_appId_key: { email: account.email, appId: account.appId, key } },
+    create: { email: account.email, appId: account.appId, key, value },
+    update: { value },
+  })
+}
+
+export async function deleteSyncState(account: AccountId, keys: string[]): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.syncState.deleteMany({
+    where: { email: account.email, appId: account.appId, key: { in: keys } },
+  })
+}
+
+/** When the account's mirror last completed a sync, or undefined if it has none. */
+export async function getMirrorSyncedAt(account: AccountId): Promise<Date | undefined> {
+  const value = await getSyncState(account, MIRROR_KEYS.syncedAt)
+  return value ? new Date(value) : undefined
+}
+
+/** Drop every mirrored IMAP message and folder cursor of an account (`zele sync --full`). */
+export async function clearImapMirror(account: AccountId): Promise<void> {
+  const prisma = await getPrisma()
+  const where = { email: account.email, appId: account.appId }
+  await prisma.mirrorMessage.deleteMany({ where })
+  await prisma.syncState.deleteMany({ where: { ...where, key: { startsWith: mirrorFolderKey('') } } })
+}
@@ -0,0 +1,150 @@
+// Local outbox for scheduled sending (`--at` on mail send/reply/forward and draft send).
+// Neither the Gmail API nor SMTP can schedule a message, so the clients compose
+// it up front and store the RFC 822 source in the OutboxMessage table, as a
+// latin1 string (one character per byte, as in mail-import.ts) so 8-bit
+// messages go out byte for byte. The Date header is rewritten on delivery.
+// `zele outbox run` (or a one-shot `zele outbox flush`) later hands due
+// messages back to the owning account's client (sendRaw). Failed deliveries
+// stay queued with their error and are retried up to OUTBOX_MAX_ATTEMPTS times.
+
+import { getPrisma } from './db.js'
+import * as out from './output.js'
+import type { AccountId } from './auth.js'
+
+/** Deliveries are retried on every pass until this many attempts have failed. */
+export const OUTBOX_MAX_ATTEMPTS = 5
+
+/** A claim older than this belongs to a run that died mid-send; the message is free again. */
+const OUTBOX_CLAIM_MS = 10 * 60 * 1000
+
+export interface OutboxEntry {
+  id: number
+  email: string
+  appId: string
+  sendAt: Date
+  subject: string
+  recipients: string[]
+  threadId: string | null
+  draftId: string | null
+  raw: string
+  attempts: number
+  lastError: string | null
+  /** --remind-after window, tracked in mail followups once delivered */
+  remindAfterMs: number | null
+}
+
+/** Returned by the clients' send methods instead of a sent message when given sendAt. */
+export interface ScheduledMessage {
+  outboxId: number
+  sendAt: string
+}
+
+export interface OutboxMessageInput {
+  /** Composed RFC 822 message, latin1 (one character per byte) */
+  raw: string
+  sendAt: Date
+  subject: string
+  /** Envelope recipients: to, cc and bcc addresses */
+  recipients: string[]
+  threadId?: string
+  draftId?: string
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+/** Print the outbox entry when a send method scheduled instead of sending.
+ *  Returns false for a message that was sent right away. */
+export function printScheduled(result: object): boolean {
+  if (!('outboxId' in result)) return false
+  const { outboxId, sendAt } = result as ScheduledMessage
+  out.printYaml({ outbox_id: outboxId, send_at: sendAt })
+  out.success(`Scheduled for ${new Date(sendAt).toLocaleString()}. Keep \`zele outbox run\` running to deliver it`)
+  return true
+}
+
+// ---------------------------------------------------------------------------
+// Table access
+// ---------------------------------------------------------------------------
+
+export async function enqueueOutbox(account: AccountId, message: OutboxMessageInput): Promise<ScheduledMessage> {
+  const prisma = await getPrisma()
+  const row = await prisma.outboxMessage.create({
+    data: {
+      email: account.email,
+      appId: account.appId,
+      sendAt: message.sendAt,
+      subject: message.subject,
+      recipients: message.recipients.join(','),
+      threadId: message.threadId ?? null,
+      draftId: message.draftId ?? null,
+      raw: message.raw,
+      createdAt: new Date(),
+    },
+  })
+  return { outboxId: row.id, sendAt: message.sendAt.toISOString() }
+}
+
+/** Track a scheduled message for follow-up (--remind-after) once it is delivered. */
+export async function setOutboxFollowup(id: number, remindAfterMs: number): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.outboxMessage.update({ where: { id }, data: { remindAfterMs } })
+}
+
+/** Queued messages of the given accounts (all accounts when omitted), soonest first. */
+export async function listOutbox(accounts?: AccountId[]): Promise<OutboxEntry[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.outboxMessage.findMany({
+    where: accounts ? { OR: accounts.map((a) => ({ email: a.email, appId: a.appId })) } : undefined,
+    orderBy: { sendAt: 'asc' },
+  })
+  return rows.map((row) => ({
+    id: row.id,
+    email: row.email,
+    appId: row.appId,
+    sendAt: new Date(row.sendAt),
+    subject: row.subject,
+    recipients: row.recipients ? row.recipients.split(',') : [],
+    threadId: row.threadId ?? null,
+    draftId: row.draftId ?? null,
+    raw: row.raw,
+    attempts: row.attempts,
+    lastError: row.lastError ?? null,
+    remindAfterMs: row.remindAfterMs ?? null,
+  }))
+}
+
+/** Messages whose send time has come and that haven't used up their attempts. */
+export async function dueOutbox(accounts?: AccountId[], now = new Date()): Promise<OutboxEntry[]> {
+  const entries = await listOutbox(accounts)
+  return entries.filter((e) => e.sendAt.getTime() <= now.getTime() && e.attempts < OUTBOX_MAX_ATTEMPTS)
+}
+
+/**
+ * Mark a due message as being sent by this process, so concurrent `outbox run`
+ * and `outbox flush` processes send it once. False when another has it.
+ */
+export async function claimOutbox(id: number, now = new Date()): Promise<boolean> {
+  const prisma = await getPrisma()
+  const { count } = await prisma.outboxMessage.updateMany({
+    where: { id, OR: [{ claimedAt: null }, { claimedAt: { lt: new Date(now.getTime() - OUTBOX_CLAIM_MS) } }] },
+    data: { claimedAt: now },
+  })
+  return count > 0
+}
+
+/** Remove a message from the outbox (cancelled or sent). Returns false if it wasn't queued. */
+export async function removeOutbox(id: number): Promise<boolean> {
+  const prisma = await getPrisma()
+  const { count } = await prisma.outboxMessage.deleteMany({ where: { id } })
+  return count > 0
+}
+
+export async function recordOutboxFailure(id: number, error: string): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.outboxMessage.update({
+    where: { id },
+    data: { attempts: { increment: 1 }, lastError: error, claimedAt: null },
+  })
+}
@@ -1,11 +1,11 @@
-// Tests for htmlToMarkdown email rendering.
+// Tests for htmlToMarkdown email rendering and the --format output modes.
 // Uses inline snapshots to capture how real-world email HTML is converted.
 
-import { expect, test } from 'vitest'
+import { expect, test, describe, vi, afterEach } from 'vitest'
 import fs from 'node:fs'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { htmlToMarkdown, renderEmailBody, replyParser } from './output.js'
+import { htmlToMarkdown, renderEmailBody, replyParser, printList, flattenRecord, setOutputFormat } from './output.js'
 
 const htmlFixtureDir = fileURLToPath(new URL('./test-fixtures/email-html', import.meta.url))
 const htmlSnapshotDir = fileURLToPath(new URL('./test-fixtures/email-html-snapshots', import.meta.url))
@@ -1091,3 +1091,77 @@ test('safe real-world HTML fixtures produce stable markdown file snapshots', asy
     await expect(markdown, `fixture: ${fixtureFile}`).toMatchFileSnapshot(snapshotFile)
   }
 })
+
+// ---------------------------------------------------------------------------
+// Output formats (--format)
+// ---------------------------------------------------------------------------
+
+function captureStdout(fn: () => void): string {
+  let written = ''
+  const spy = vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+    written += String(chunk)
+    return true
+  })
+  try {
+    fn()
+  } finally {
+    spy.mockRestore()
+  }
+  return written
+}
+
+describe('output formats', () => {
+  afterEach(() => setOutputFormat('yaml'))
+
+  const items = [
+    { id: 't1', from: { name: 'Ann', email: 'ann@example.com' }, labels: ['INBOX', 'UNREAD'] },
+    { id: 't2', from: { email: 'bob@example.com' }, subject: 'Hi, "you"' },
+  ]
+
+  test('flattenRecord uses dotted keys and joins arrays', () => {
+    expect(flattenRecord(items[0])).toMatchInlineSnapshot(`
+      {
+        "from.email": "ann@example.com",
+        "from.name": "Ann",
+        "id": "t1",
+        "labels": "INBOX; UNREAD",
+      }
+    `)
+  })
+
+  test('json lists always carry summary, items and next_page', () => {
+    setOutputFormat('json')
+    const json = JSON.parse(captureStdout(() => printList(items.slice(0, 1))))
+    expect(Object.keys(json)).toEqual(['summary', 'items', 'next_page'])
+    expect(json.next_page).toBeNull()
+  })
+
+  test('ndjson prints one item per line', () => {
+    setOutputFormat('ndjson')
+    const lines = captureStdout(() => printList(items, { summary: '2 threads', nextPage: 'abc' })).trimEnd().split('\n')
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(['t1', 't2'])
+  })
+
+  test('csv prints the header once and quotes cells', () => {
+    setOutputFormat('csv')
+    const first = captureStdout(() => printList(items))
+    const second = captureStdout(() => printList([{ id: 't3', subject: 'later' }]))
+    expect(first + second).toMatchInlineSnapshot(`
+      "id,from.name,from.email,labels,subject
+      t1,Ann,ann@example.com,INBOX; UNREAD,
+      t2,,bob@example.com,,"Hi, ""you"""
+      t3,,,,later
+      "
+    `)
+  })
+
+  test('csv drops keys outside the printed header with a hint', () => {
+    setOutputFormat('csv')
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const printed = captureStdout(() => printList([{ id: 't4', extra: 'x' }, { id: 't5', extra: 'y' }]))
+    expect(printed).toBe('t4,,,,\nt5,,,,\n')
+    expect(stderr).toHaveBeenCalledTimes(1)
+    expect(stderr.mock.calls[0]![0]).toContain('dropping "extra"')
+    stderr.mockRestore()
+  })
+})
@@ -4,10 +4,13 @@
 // Data goes to stdout (console.log), hints/progress/errors to stderr (console.error).
 // Prefer console.log/console.error over raw process.stdout/stderr when possible.
 //
-// All structured data is output as YAML (js-yaml). In TTY mode, keys are
+// Structured data is output as YAML (js-yaml) by default. In TTY mode, keys are
 // colored cyan and values are left at the terminal default. In non-TTY mode,
 // colors are disabled so piped output is plain, machine-parseable YAML.
 // Line wrapping is set to Infinity (no folding) everywhere.
+// The global --format option switches printYaml/printList to JSON (lists as
+// { summary, items, next_page }), NDJSON (one record per line, streamed) or
+// CSV (flattened records, one header per run).
 
 import yaml from 'js-yaml'
 import TurndownService from 'turndown'
@@ -21,6 +24,23 @@ import EmailReplyParser from 'email-reply-parser'
 
 const isTTY = process.stdout.isTTY ?? false
 
+// ---------------------------------------------------------------------------
+// Output format (global --format option, set by cli.ts before a command runs)
+// ---------------------------------------------------------------------------
+
+export const OUTPUT_FORMATS = ['yaml', 'json', 'ndjson', 'csv'] as const
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+let outputFormat: OutputFormat = 'yaml'
+
+export function setOutputFormat(format: OutputFormat): void {
+  outputFormat = format
+}
+
+export function getOutputFormat(): OutputFormat {
+  return outputFormat
+}
+
 // ---------------------------------------------------------------------------
 // Turndown instance (HTML -> Markdown)
 // ---------------------------------------------------------------------------
@@ -199,8 +219,20 @@ function colorizeYaml(yamlStr: string): string {
   )
 }
 
-/** Print any value as YAML to stdout. */
+/** Print any value to stdout in the selected --format (YAML by default). */
 export function printYaml(data: unknown): void {
+  switch (outputFormat) {
+    case 'json':
+      process.stdout.write(JSON.stringify(data, null, 2) + '\n')
+      return
+    case 'ndjson':
+      process.stdout.write(JSON.stringify(data) + '\n')
+      return
+    case 'csv':
+      printCsv(Array.isArray(data) ? data : [data])
+      return
+  }
+
   const str = yaml.dump(data, {
     lineWidth: Infinity,
     noRefs: true,
@@ -218,11 +250,25 @@ export function printYaml(data: unknown): void {
  *   items:
  *     - key: value
  *   next_page: "token"
+ * JSON always has all three keys (null when absent). NDJSON and CSV print
+ * only the items; summary and next page go to stderr as hints.
  */
 export function printList(
   items: Record<string, unknown>[],
   opts?: { nextPage?: string | null; summary?: string },
 ): void {
+  if (outputFormat === 'json') {
+    printYaml({ summary: opts?.summary ?? null, items, next_page: opts?.nextPage ?? null })
+    return
+  }
+  if (outputFormat === 'ndjson' || outputFormat === 'csv') {
+    if (opts?.summary) hint(opts.summary)
+    if (outputFormat === 'csv') printCsv(items)
+    else for (const item of items) printYaml(item)
+    if (opts?.nextPage) hint(`next_page: ${opts.nextPage}`)
+    return
+  }
+
   const doc: Record<string, unknown> = {}
   if (opts?.summary) {
     doc.summary = opts.summary
@@ -234,6 +280,63 @@ export function printList(
   printYaml(doc)
 }
 
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** Header of the CSV table printed so far. Later calls (e.g. each mail watch
+ *  event) reuse its columns so a run prints a single table: the header comes
+ *  from the first records printed, or from setCsvColumns() for commands whose
+ *  records vary. Keys outside it are dropped with a hint. */
+let csvColumns: string[] | null = null
+const csvDroppedColumns = new Set<string>()
+
+/** Declare the CSV header up front, for commands whose records don't all carry the same keys. */
+export function setCsvColumns(columns: string[]): void {
+  csvColumns ??= columns
+}
+
+/** Flatten a record into dotted columns ("from.email"); arrays are joined with "; ". */
+export function flattenRecord(value: unknown, prefix = '', row: Record<string, string> = {}): Record<string, string> {
+  if (value === null || value === undefined) {
+    row[prefix || 'value'] = ''
+  } else if (value instanceof Date) {
+    row[prefix || 'value'] = value.toISOString()
+  } else if (Array.isArray(value)) {
+    row[prefix || 'value'] = value
+      .map((v) => (typeof v === 'object' && v !== null ? JSON.stringify(v) : String(v)))
+      .join('; ')
+  } else if (typeof value === 'object') {
+    for (const [key, v] of Object.entries(value)) {
+      flattenRecord(v, prefix ? `${prefix}.${key}` : key, row)
+    }
+  } else {
+    row[prefix || 'value'] = String(value)
+  }
+  return row
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function printCsv(records: unknown[]): void {
+  const rows = records.map((record) => flattenRecord(record))
+  if (!csvColumns) {
+    if (rows.length === 0) return
+    csvColumns = [...new Set(rows.flatMap((row) => Object.keys(row)))]
+    process.stdout.write(csvColumns.map(csvCell).join(',') + '\n')
+  }
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (csvColumns.includes(key) || csvDroppedColumns.has(key)) continue
+      csvDroppedColumns.add(key)
+      hint(`csv: dropping "${key}", not a column of the header already printed`)
+    }
+    process.stdout.write(csvColumns.map((column) => csvCell(row[column] ?? '')).join(',') + '\n')
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Date formatting
 // ---------------------------------------------------------------------------
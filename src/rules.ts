@@ -0,0 +1,273 @@
+// Local rules engine for IMAP accounts (`zele rules`, `mail watch`). Rules are
+// read from ~/.zele/rules.yaml (parsed by mail-rules.ts) and run against
+// messages as they arrive or, with `zele rules run --backfill`, against mail
+// already in a folder. Every run is recorded in the RuleRun table, which is
+// both the audit trail (`zele rules log`) and what keeps a rule from acting
+// twice on the same message.
+
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { spawn } from 'node:child_process'
+import { getPrisma } from './db.js'
+import type { AccountId } from './auth.js'
+import type { ParseError, ValidationError } from './api-utils.js'
+import type { ParsedMessage } from './gmail-client.js'
+import type { ImapSmtpClient } from './imap-smtp-client.js'
+import { matchingRules, parseRulesFile, ruleActionList, type MailRule } from './mail-rules.js'
+
+export const RULES_PATH = path.join(os.homedir(), '.zele', 'rules.yaml')
+
+/** How long a `run:` command may take before it is killed. */
+const RUN_TIMEOUT_MS = 60_000
+
+/** Result of one rule on one message, as printed by `zele rules run` and `mail watch`. */
+export interface RuleResult {
+  account: string
+  rule: string
+  /** folder:uid where the rule found the message */
+  message_id: string
+  subject: string
+  actions: string[]
+  status: 'applied' | 'matched' | 'failed'
+  error?: string
+}
+
+export interface RuleRunEntry {
+  id: number
+  email: string
+  rule: string
+  messageId: string
+  folderId: string
+  subject: string
+  actions: string[]
+  status: string
+  error: string | null
+  createdAt: Date
+}
+
+/** Rules from the rules file; no file means no rules. */
+export function loadRules(file = RULES_PATH): MailRule[] | ParseError | ValidationError {
+  if (!fs.existsSync(file)) return []
+  return parseRulesFile(fs.readFileSync(file, 'utf-8'))
+}
+
+// ---------------------------------------------------------------------------
+// Table access
+// ---------------------------------------------------------------------------
+
+/** The key a message is recorded under: its Message-ID, stable across moves. */
+function messageKey(message: ParsedMessage): string {
+  return message.messageId || message.id
+}
+
+/**
+ * What earlier runs did to a message: the rules that fully applied, and per
+ * rule the actions finished by runs that failed part-way (so a retry doesn't
+ * forward the mail or run the command again).
+ */
+async function previousRuns(account: AccountId, message: ParsedMessage): Promise<{ applied: Set<string>; done: Map<string, Set<string>> }> {
+  const prisma = await getPrisma()
+  const rows = await prisma.ruleRun.findMany({
+    where: { email: account.email, appId: account.appId, messageId: messageKey(message) },
+    select: { rule: true, status: true, actions: true },
+  })
+  const applied = new Set<string>()
+  const done = new Map<string, Set<string>>()
+  for (const row of rows) {
+    if (row.status === 'applied') {
+      applied.add(row.rule)
+      continue
+    }
+    const actions = done.get(row.rule) ?? new Set<string>()
+    for (const action of JSON.parse(row.actions) as string[]) actions.add(action)
+    done.set(row.rule, actions)
+  }
+  return { applied, done }
+}
+
+/** Record one rule run; `taken` lists the actions that actually happened. */
+async function recordRuleRun(account: AccountId, message: ParsedMessage, result: RuleResult, taken: string[]): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.ruleRun.create({
+    data: {
+      email: account.email,
+      appId: account.appId,
+      rule: result.rule,
+      messageId: messageKey(message),
+      folderId: message.id,
+      subject: message.subject,
+      actions: JSON.stringify(taken),
+      status: result.status,
+      error: result.error ?? null,
+      createdAt: new Date(),
+    },
+  })
+}
+
+/** Recorded rule runs of the given accounts, newest first. */
+export async function listRuleRuns({
+  accounts,
+  rule,
+  limit = 50,
+}: {
+  accounts?: AccountId[]
+  rule?: string
+  limit?: number
+} = {}): Promise<RuleRunEntry[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.ruleRun.findMany({
+    where: {
+      ...(accounts ? { OR: accounts.map((a) => ({ email: a.email, appId: a.appId })) } : {}),
+      ...(rule ? { rule } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  })
+  return rows.map((row) => ({
+    id: row.id,
+    email: row.email,
+    rule: row.rule,
+    messageId: row.messageId,
+    folderId: row.folderId,
+    subject: row.subject,
+    actions: JSON.parse(row.actions) as string[],
+    status: row.status,
+    error: row.error,
+    createdAt: new Date(row.createdAt),
+  }))
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the matching rules on one message and record what happened. Rules
+ * that already applied to the message are skipped; a rule stops at its first
+ * failing action, and a later run retries it from there, skipping the actions
+ * that already went through. With `dryRun`, matches are reported (status
+ * `matched`) without acting or recording.
+ */
+export async function applyRules(
+  account: AccountId,
+  client: ImapSmtpClient,
+  message: ParsedMessage,
+  rules: MailRule[],
+  { dryRun = false }: { dryRun?: boolean } = {},
+): Promise<RuleResult[]> {
+  const matched = matchingRules(rules, account.email, message)
+  if (matched.length === 0) return []
+
+  const { applied, done } = await previousRuns(account, message)
+  const results: RuleResult[] = []
+  for (const rule of matched.filter((r) => !applied.has(r.name))) {
+    const result: RuleResult = {
+      account: account.email,
+      rule: rule.name,
+      message_id: message.id,
+      subject: message.subject,
+      actions: ruleActionList(rule.actions),
+      status: dryRun ? 'matched' : 'applied',
+    }
+    results.push(result)
+    if (dryRun) continue
+
+    const taken: string[] = []
+    for (const action of result.actions) {
+      if (!done.get(rule.name)?.has(action)) {
+        const ran = await runAction(account, client, message, rule, action)
+        if (ran instanceof Error) {
+          result.status = 'failed'
+          result.error = `${action}: ${ran.message}`
+          break
+        }
+      }
+      taken.push(action)
+    }
+    await recordRuleRun(account, message, result, taken)
+  }
+  return results
+}
+
+async function runAction(
+  account: AccountId,
+  client: ImapSmtpClient,
+  message: ParsedMessage,
+  rule: MailRule,
+  action: string,
+): Promise<void | Error> {
+  const { actions } = rule
+  const threadIds = [message.id]
+  switch (action.split(':')[0]) {
+    case 'mark_read':
+      return client.markAsRead({ threadIds })
+    case 'flag':
+      return client.star({ threadIds })
+    case 'move':
+      return client.move({ threadIds, folder: actions.move! })
+    case 'trash':
+      return client.trash({ threadId: message.id })
+    case 'forward': {
+      const raw = await client.getRawMessageBytes({ messageId: message.id })
+      if (raw instanceof Error) return raw
+      const sent = await client.sendMessage({
+        to: [{ email: actions.forward! }],
+        subject: `Fwd: ${message.subject}`,
+        body: `Forwarded by zele rule "${rule.name}".`,
+        attachments: [{ filename: 'message.eml', mimeType: 'message/rfc822', content: raw }],
+        signature: false,
+      })
+      if (sent instanceof Error) return sent
+      return
+    }
+    case 'run':
+      return runCommand(actions.run!, account, message, rule)
+  }
+}
+
+/**
+ * Run a rule's shell command with the message as JSON on stdin and the main
+ * fields in ZELE_* variables. Its output goes to stderr, keeping stdout for
+ * zele's own YAML.
+ */
+function runCommand(command: string, account: AccountId, message: ParsedMessage, rule: MailRule): Promise<void | Error> {
+  const input = {
+    account: account.email,
+    rule: rule.name,
+    id: message.id,
+    message_id: message.messageId,
+    from: message.from,
+    to: message.to,
+    cc: message.cc,
+    subject: message.subject,
+    date: message.date,
+    body: message.textBody ?? message.body,
+    attachments: message.attachments.map((a) => ({ filename: a.filename, mime_type: a.mimeType, size: a.size })),
+  }
+  return new Promise((resolve) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', 2, 2],
+      timeout: RUN_TIMEOUT_MS,
+      env: {
+        ...process.env,
+        ZELE_ACCOUNT: account.email,
+        ZELE_RULE: rule.name,
+        ZELE_ID: message.id,
+        ZELE_MESSAGE_ID: message.messageId,
+        ZELE_FROM: message.from.email,
+        ZELE_SUBJECT: message.subject,
+      },
+    })
+    child.on('error', (err) => resolve(err))
+    child.on('close', (code, signal) => {
+      if (signal) resolve(new Error(`killed by ${signal}`))
+      else if (code !== 0) resolve(new Error(`exited with status ${code}`))
+      else resolve()
+    })
+    // A command that doesn't read stdin closes it early; that's fine
+    child.stdin?.on('error', () => {})
+    child.stdin?.end(JSON.stringify(input))
+  })
+}
@@ -22,6 +22,7 @@ CREATE TABLE IF NOT EXISTS "Thread" (
     "fromName" TEXT NOT NULL,
     "date" TEXT NOT NULL,
     "labelIds" TEXT NOT NULL,
+    "sortDate" DATETIME,
     "hasUnread" BOOLEAN NOT NULL,
     "msgCount" INTEGER NOT NULL,
     "historyId" TEXT,
@@ -73,4 +74,129 @@ CREATE TABLE IF NOT EXISTS "SyncState" (
     PRIMARY KEY ("email", "appId", "key"),
     CONSTRAINT "SyncState_email_appId_fkey" FOREIGN KEY ("email", "appId") REFERENCES "Account" ("email", "appId") ON DELETE CASCADE ON UPDATE CASCADE
 );
+CREATE TABLE IF NOT EXISTS "MirrorMessage" (
+    "email" TEXT NOT NULL,
+    "appId" TEXT NOT NULL,
+    "folder" TEXT NOT NULL,
+    "uid" INTEGER NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "inReplyTo" TEXT NOT NULL,
+    "references" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "flags" TEXT NOT NULL,
+    "modseq" TEXT NOT NULL,
+    "envelope" TEXT NOT NULL,
+    "bodyStructure" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+
+    PRIMARY KEY ("email", "appId", "folder", "uid"),
+    CONSTRAINT "MirrorMessage_email_appId_fkey" FOREIGN KEY ("email", "appId") REFERENCES "Account" ("email", "appId") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE TABLE IF NOT EXISTS "OutboxMessage" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email" TEXT NOT NULL,
+    "appId" TEXT NOT NULL,
+    "sendAt" DATETIME NOT NULL,
+    "subject" TEXT NOT NULL,
+    "recipients" TEXT NOT NULL,
+    "threadId" TEXT,
+    "draftId" TEXT,
+    "raw" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "remindAfterMs" INTEGER,
+    "claimedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL,
+    CONSTRAINT "OutboxMessage_email_appId_fkey" FOREIGN KEY ("email", "appId") REFERENCES "Account" ("email", "appId") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE TABLE IF NOT EXISTS "Snooze" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email" TEXT NOT NULL,
+    "appId" TEXT NOT NULL,
+    "threadId" TEXT NOT NULL,
+    "snoozedId" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "until" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL,
+    CONSTRAINT "Snooze_email_appId_fkey" FOREIGN KEY ("email", "appId") REFERENCES "Account" ("email", "appId") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE TABLE IF NOT EXISTS "Followup" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email" TEXT NOT NULL,
+    "appId" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "threadId" TEXT,
+    "subject" TEXT NOT NULL,
+    "recipients" TEXT NOT NULL,
+    "sentAt" DATETIME NOT NULL,
+    "remindAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL,
+    CONSTRAINT "Followup_email_appId_fkey" FOREIGN KEY ("email", "appId") REFERENCES "Account" ("email", "appId") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE TABLE IF NOT EXISTS "RuleRun" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email" TEXT NOT NULL,
+    "appId" TEXT NOT NULL,
+    "rule" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "folderId" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "actions" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL,
+    CONSTRAINT "RuleRun_email_appId_fkey" FOREIGN KEY ("email", "appId") REFERENCES "Account" ("email", "appId") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE TABLE IF NOT EXISTS "Template" (
+    "name" TEXT NOT NULL PRIMARY KEY,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "cc" TEXT NOT NULL,
+    "bcc" TEXT NOT NULL,
+    "attachments" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+CREATE TABLE IF NOT EXISTS "Signature" (
+    "email" TEXT NOT NULL,
+    "appId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("email", "appId", "alias"),
+    CONSTRAINT "Signature_email_appId_fkey" FOREIGN KEY ("email", "appId") REFERENCES "Account" ("email", "appId") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE TABLE IF NOT EXISTS "Contact" (
+    "email" TEXT NOT NULL,
+    "appId" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "sentCount" INTEGER NOT NULL,
+    "receivedCount" INTEGER NOT NULL,
+    "seenCount" INTEGER NOT NULL,
+    "lastSeen" DATETIME NOT NULL,
+
+    PRIMARY KEY ("email", "appId", "address"),
+    CONSTRAINT "Contact_email_appId_fkey" FOREIGN KEY ("email", "appId") REFERENCES "Account" ("email", "appId") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE TABLE IF NOT EXISTS "ContactCard" (
+    "email" TEXT NOT NULL,
+    "appId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "etag" TEXT NOT NULL DEFAULT '',
+    "data" TEXT NOT NULL,
+    "syncedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("email", "appId", "url"),
+    CONSTRAINT "ContactCard_email_appId_fkey" FOREIGN KEY ("email", "appId") REFERENCES "Account" ("email", "appId") ON DELETE CASCADE ON UPDATE CASCADE
+);
 CREATE UNIQUE INDEX "Thread_email_appId_threadId_key" ON "Thread"("email", "appId", "threadId");
+CREATE INDEX "MirrorMessage_email_appId_messageId_idx" ON "MirrorMessage"("email", "appId", "messageId");
+CREATE INDEX "OutboxMessage_sendAt_idx" ON "OutboxMessage"("sendAt");
+CREATE INDEX "Snooze_until_idx" ON "Snooze"("until");
+CREATE INDEX "Followup_remindAt_idx" ON "Followup"("remindAt");
+CREATE INDEX "RuleRun_email_appId_messageId_idx" ON "RuleRun"("email", "appId", "messageId");
+CREATE INDEX "RuleRun_createdAt_idx" ON "RuleRun"("createdAt");
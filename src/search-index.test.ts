@@ -0,0 +1,29 @@
+// Tests for translating Gmail-style queries into FTS5 MATCH expressions.
+
+import { expect, test } from 'vitest'
+import { toFtsQuery } from './search-index.js'
+
+test('quotes words and phrases so FTS5 syntax in them is inert', () => {
+  expect(toFtsQuery('invoice')).toBe('"invoice"*')
+  expect(toFtsQuery('"quarterly report"')).toBe('"quarterly report"')
+  expect(toFtsQuery('say "hi"')).toBe('"say"* AND "hi"')
+  // FTS5 operators typed as words are searched for, not obeyed; other column filters are refused
+  expect(toFtsQuery('NEAR ^x a*b')).toBe('"NEAR"* AND "^x"* AND "a*b"*')
+  expect(toFtsQuery('body:x')).toBeInstanceOf(Error)
+})
+
+test('maps address and subject operators to columns', () => {
+  expect(toFtsQuery('from:ann subject:"lunch plans"')).toBe('sender : "ann" AND subject : "lunch plans"')
+  expect(toFtsQuery('to:bob OR cc:bob')).toBe('(recipients : "bob" OR recipients : "bob")')
+  expect(toFtsQuery('report -draft')).toBe('"report"* NOT "draft"*')
+  expect(toFtsQuery('{ann bob} -{spam ads}')).toBe('("ann"* OR "bob"*) NOT ("spam"* OR "ads"*)')
+})
+
+test('rejects what the index cannot answer', () => {
+  expect(toFtsQuery('')).toBeInstanceOf(Error)
+  expect(toFtsQuery('   ')).toBeInstanceOf(Error)
+  expect(toFtsQuery('-draft')).toBeInstanceOf(Error)
+  const unsupported = toFtsQuery('is:unread invoice')
+  expect(unsupported).toBeInstanceOf(Error)
+  expect((unsupported as Error).message).toContain('"is:" is not supported')
+})
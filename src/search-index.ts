@@ -0,0 +1,211 @@
+// Local full-text search over fetched threads.
+// Maintains an SQLite FTS5 table ("ThreadSearch", created in db.ts) with one
+// row per conversation: subject, senders, recipients and decoded bodies.
+// GmailClient and ImapSmtpClient index every thread they fully fetch; Gmail
+// threads cached before the index existed are backfilled from the Thread
+// table on demand. Searching never touches the network.
+// Rows are keyed by the conversation's first Message-ID, so IMAP thread ids
+// that grow as replies arrive ("INBOX:97" → "INBOX:120,97") replace the
+// old row instead of duplicating it.
+
+import { getPrisma } from './db.js'
+import { renderEmailBody } from './output.js'
+import { ValidationError } from './api-utils.js'
+import { parseQuery, type QueryNode } from './gmail-query.js'
+import type { AccountId } from './auth.js'
+import type { ThreadData, Sender } from './gmail-client.js'
+
+export interface LocalSearchHit {
+  email: string
+  appId: string
+  threadId: string
+  subject: string
+  from: Sender
+  date: string
+  messageCount: number
+  unread: boolean
+  snippet: string
+}
+
+// ---------------------------------------------------------------------------
+// Query translation (Gmail-style operators → FTS5 MATCH syntax)
+// ---------------------------------------------------------------------------
+
+/** Gmail operators mapped to the FTS5 column they search. */
+const COLUMN_OPERATORS: Record<string, string> = {
+  from: 'sender',
+  to: 'recipients',
+  cc: 'recipients',
+  bcc: 'recipients',
+  subject: 'subject',
+}
+
+/** Quote a term as an FTS5 string; bare words also match as prefixes. */
+function ftsString(value: string, prefix: boolean): string {
+  return `"${value.replace(/"/g, '""')}"${prefix ? '*' : ''}`
+}
+
+/**
+ * Translate a Gmail-style query into an FTS5 MATCH expression.
+ * Supports plain words, "quoted phrases", from:/to:/cc:/bcc:/subject:,
+ * OR, { } and ( ) groups and -negation (parsed by gmail-query.ts). Other
+ * operators (is:, has:, label:, dates) need server state the index doesn't
+ * have and are rejected.
+ */
+export function toFtsQuery(query: string): string | ValidationError {
+  const node = parseQuery(query)
+  // A lone term or OR group is an AND of one, so a lone -term still needs a positive term
+  return ftsExpression(node.type === 'and' ? node : { type: 'and', children: [node] })
+}
+
+function ftsExpression(node: QueryNode): string | ValidationError {
+  switch (node.type) {
+    case 'term': {
+      if (!node.operator) return ftsString(node.value, !node.phrase)
+      const column = COLUMN_OPERATORS[node.operator]
+      if (!column) {
+        return new ValidationError({
+          field: 'query',
+          reason: `"${node.operator}:" is not supported with --local (supported: from:, to:, cc:, bcc:, subject:, "phrases", OR, { }, -term)`,
+        })
+      }
+      return `${column} : ${ftsString(node.value, false)}`
+    }
+    case 'not':
+      return new ValidationError({ field: 'query', reason: '-term must sit next to a positive search term with --local' })
+    case 'or': {
+      const parts: string[] = []
+      for (const child of node.children) {
+        const expr = ftsExpression(child)
+        if (expr instanceof Error) return expr
+        parts.push(child.type === 'and' ? `(${expr})` : expr)
+      }
+      return `(${parts.join(' OR ')})`
+    }
+    case 'and': {
+      const positive: string[] = []
+      const negated: string[] = []
+      for (const child of node.children) {
+        const negate = child.type === 'not'
+        const inner = negate ? child.child : child
+        const expr = ftsExpression(inner)
+        if (expr instanceof Error) return expr
+        if (negate) negated.push(inner.type === 'and' ? `(${expr})` : expr)
+        else positive.push(expr)
+      }
+      if (positive.length === 0) {
+        return new ValidationError({ field: 'query', reason: 'needs at least one positive search term with --local' })
+      }
+      return [positive.join(' AND '), ...negated.map((n) => `NOT ${n}`)].join(' ')
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Indexing
+// ---------------------------------------------------------------------------
+
+function senderText(s: Sender): string {
+  return s.name ? `${s.name} ${s.email}` : s.email
+}
+
+/** Add or replace a conversation in the search index. */
+export async function indexThread(account: AccountId, thread: ThreadData): Promise<void> {
+  if (thread.messages.length === 0) return
+  const prisma = await getPrisma()
+  const key = thread.messages[0]!.messageId || thread.id
+  const senders = [...new Set(thread.messages.map((m) => senderText(m.from)))]
+  const recipients = [
+    ...new Set(thread.messages.flatMap((m) => [...m.to, ...(m.cc ?? []), ...m.bcc].map(senderText))),
+  ]
+  const body = thread.messages
+    .map((m) => m.textBody ?? renderEmailBody(m.body, m.mimeType))
+    .join('\n\n')
+  const time = new Date(thread.date).getTime()
+  const date = Number.isNaN(time) ? '' : new Date(time).toISOString()
+
+  await prisma.$transaction([
+    prisma.$executeRawUnsafe(
+      `DELETE FROM "ThreadSearch" WHERE "email" = ? AND "appId" = ? AND ("key" = ? OR "threadId" = ?)`,
+      account.email, account.appId, key, thread.id,
+    ),
+    prisma.$executeRawUnsafe(
+      `INSERT INTO "ThreadSearch" ("key", "email", "appId", "threadId", "date", "fromEmail", "fromName", "msgCount", "hasUnread", "subject", "sender", "recipients", "body")
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      key, account.email, account.appId, thread.id, date,
+      thread.from.email, thread.from.name ?? '', thread.messageCount, thread.hasUnread ? 1 : 0,
+      thread.subject, senders.join('\n'), recipients.join('\n'), body,
+    ),
+  ])
+}
+
+/** Raw data of cached Gmail threads that aren't in the search index yet. */
+export async function unindexedCachedThreads(account: AccountId): Promise<string[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.$queryRawUnsafe<Array<{ rawData: string }>>(
+    `SELECT "rawData" FROM "Thread" WHERE "email" = ? AND "appId" = ?
+       AND "threadId" NOT IN (SELECT "threadId" FROM "ThreadSearch" WHERE "email" = ? AND "appId" = ?)`,
+    account.email, account.appId, account.email, account.appId,
+  )
+  return rows.map((r) => r.rawData)
+}
+
+/** Remove every indexed conversation of an email address (on logout). */
+export async function clearSearchIndex(email: string): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.$executeRawUnsafe(`DELETE FROM "ThreadSearch" WHERE "email" = ?`, email)
+}
+
+// ---------------------------------------------------------------------------
+// Searching
+// ---------------------------------------------------------------------------
+
+/** Search indexed conversations of the given accounts, newest first. */
+export async function searchThreads({
+  accounts,
+  query,
+  limit,
+}: {
+  accounts: AccountId[]
+  query: string
+  limit: number
+}): Promise<LocalSearchHit[] | ValidationError> {
+  const match = toFtsQuery(query)
+  if (match instanceof Error) return match
+  if (accounts.length === 0) return []
+
+  const prisma = await getPrisma()
+  const accountFilter = accounts.map(() => '("email" = ? AND "appId" = ?)').join(' OR ')
+  const rows = await prisma.$queryRawUnsafe<Array<{
+    email: string
+    appId: string
+    threadId: string
+    subject: string
+    fromEmail: string
+    fromName: string
+    date: string
+    msgCount: number | bigint
+    hasUnread: number | bigint
+    snippet: string
+  }>>(
+    `SELECT "email", "appId", "threadId", "subject", "fromEmail", "fromName", "date", "msgCount", "hasUnread",
+            snippet("ThreadSearch", -1, '', '', '…', 16) AS "snippet"
+       FROM "ThreadSearch"
+      WHERE "ThreadSearch" MATCH ? AND (${accountFilter})
+      ORDER BY "date" DESC
+      LIMIT ?`,
+    match, ...accounts.flatMap((a) => [a.email, a.appId]), limit,
+  )
+
+  return rows.map((r) => ({
+    email: r.email,
+    appId: r.appId,
+    threadId: r.threadId,
+    subject: r.subject,
+    from: { name: r.fromName || undefined, email: r.fromEmail },
+    date: r.date,
+    messageCount: Number(r.msgCount),
+    unread: Number(r.hasUnread) === 1,
+    snippet: r.snippet.replace(/\s+/g, ' ').trim(),
+  }))
+}
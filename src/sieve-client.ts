@@ -0,0 +1,218 @@
+// ManageSieve client (RFC 5804) for `zele sieve`: list, read, upload, check
+// and activate the Sieve scripts an IMAP host runs on delivery (Dovecot
+// Pigeonhole, Cyrus, Stalwart, …). Connects with the account's stored IMAP
+// credentials to port 4190, upgrades with STARTTLS and logs in with SASL
+// PLAIN. Like ImapSmtpClient.withImap, each call opens its own connection and
+// returns errors as values.
+
+import net from 'node:net'
+import tls from 'node:tls'
+import * as errore from 'errore'
+import { ApiError, AuthError } from './api-utils.js'
+import type { ImapCredentials } from './auth.js'
+import { parseSieveResponse, sieveString, type SieveResponse } from './sieve.js'
+
+export const MANAGESIEVE_PORT = 4190
+
+/** How long to wait for the server before giving up on a connection. */
+const SIEVE_TIMEOUT_MS = 30_000
+
+/** A NO or BYE answer; turned into an error value by sieveBoundary. */
+class SieveCommandError extends Error {
+  constructor(readonly response: SieveResponse, command: string) {
+    super(`${command} failed: ${response.text || response.status}${response.code ? ` (${response.code.flat().join(' ')})` : ''}`)
+  }
+}
+
+function sieveBoundary<T>(email: string, fn: () => Promise<T>) {
+  return errore.tryAsync({
+    try: fn,
+    catch: (err) => {
+      if (err instanceof SieveCommandError && /^AUTHENTICATE\b/.test(err.message)) {
+        return new AuthError({ email, reason: err.message })
+      }
+      return new ApiError({ reason: err instanceof Error ? err.message : String(err), cause: err })
+    },
+  })
+}
+
+export interface SieveScript {
+  name: string
+  active: boolean
+}
+
+export class SieveClient {
+  private email: string
+  private host: string
+  private port: number
+  private credentials: ImapCredentials
+
+  constructor({ email, credentials, host, port }: { email: string; credentials: ImapCredentials; host?: string; port?: number }) {
+    this.email = email
+    this.credentials = credentials
+    this.host = host ?? credentials.host
+    this.port = port ?? MANAGESIEVE_PORT
+  }
+
+  /** Server name, e.g. "imap.example.com:4190", for messages. */
+  get server(): string {
+    return `${this.host}:${this.port}`
+  }
+
+  /** Scripts on the server; at most one is active. */
+  async listScripts(): Promise<SieveScript[] | AuthError | ApiError> {
+    return this.withSieve(async (conn) => {
+      const response = await conn.command('LISTSCRIPTS')
+      return response.lines.map(([name, active]) => ({
+        name: String(name),
+        active: typeof active === 'string' && active.toUpperCase() === 'ACTIVE',
+      }))
+    })
+  }
+
+  async getScript(name: string): Promise<string | AuthError | ApiError> {
+    return this.withSieve(async (conn) => {
+      const response = await conn.command(`GETSCRIPT ${sieveString(name)}`)
+      return String(response.lines[0]?.[0] ?? '')
+    })
+  }
+
+  /** Upload a script (replacing one with the same name). The server checks it first and refuses invalid scripts. */
+  async putScript(name: string, script: string): Promise<{ warnings: string } | AuthError | ApiError> {
+    return this.withSieve(async (conn) => {
+      const response = await conn.command(`PUTSCRIPT ${sieveString(name)}`, script)
+      return { warnings: warningsOf(response) }
+    })
+  }
+
+  /** Have the server validate a script without storing it (CHECKSCRIPT, ManageSieve 1.0). */
+  async checkScript(script: string): Promise<{ warnings: string } | AuthError | ApiError> {
+    return this.withSieve(async (conn) => {
+      const response = await conn.command('CHECKSCRIPT', script)
+      return { warnings: warningsOf(response) }
+    })
+  }
+
+  /** Make `name` the active script; an empty name deactivates all scripts. */
+  async setActive(name: string): Promise<void | AuthError | ApiError> {
+    return this.withSieve(async (conn) => {
+      await conn.command(`SETACTIVE ${sieveString(name)}`)
+    })
+  }
+
+  /** Sieve extensions the server supports (the SIEVE capability). */
+  async extensions(): Promise<string[] | AuthError | ApiError> {
+    return this.withSieve(async (conn) => (conn.capabilities.get('SIEVE') ?? '').split(/\s+/).filter(Boolean))
+  }
+
+  /** Connect, log in, run `fn` and log out. */
+  private async withSieve<T>(fn: (conn: SieveConnection) => Promise<T>): Promise<T | AuthError | ApiError> {
+    const conn = new SieveConnection()
+    try {
+      return await sieveBoundary(this.email, async () => {
+        await conn.open(this.host, this.port, this.credentials)
+        const result = await fn(conn)
+        await conn.command('LOGOUT').catch(() => {})
+        return result
+      })
+    } finally {
+      conn.close()
+    }
+  }
+}
+
+/** Text of an OK (WARNINGS) answer, "" otherwise. */
+function warningsOf(response: SieveResponse): string {
+  return response.code?.[0] === 'WARNINGS' ? response.text : ''
+}
+
+// ---------------------------------------------------------------------------
+// Connection
+// ---------------------------------------------------------------------------
+
+/** One ManageSieve session: reads responses as they complete and sends commands. */
+class SieveConnection {
+  capabilities = new Map<string, string>()
+  private socket: net.Socket | null = null
+  private buffer = Buffer.alloc(0)
+  private waiting: { resolve: (response: SieveResponse) => void; reject: (err: Error) => void } | null = null
+  private failure: Error | null = null
+
+  async open(host: string, port: number, credentials: ImapCredentials): Promise<void> {
+    this.attach(net.connect({ host, port }))
+    this.readCapabilities(await this.read())
+
+    if (this.capabilities.has('STARTTLS')) {
+      await this.command('STARTTLS')
+      this.attach(tls.connect({ socket: this.socket!, servername: host }))
+      // The server announces its capabilities again once TLS is up
+      this.readCapabilities(await this.read())
+    } else if (credentials.tls) {
+      throw new Error(`${host}:${port} doesn't offer STARTTLS; not sending the password in the clear`)
+    }
+
+    const mechanisms = (this.capabilities.get('SASL') ?? '').toUpperCase().split(/\s+/)
+    if (!mechanisms.includes('PLAIN')) {
+      throw new Error(`${host}:${port} doesn't offer SASL PLAIN login (offers: ${mechanisms.join(' ') || 'none'})`)
+    }
+    const token = Buffer.from(`\0${credentials.user}\0${credentials.password}`).toString('base64')
+    await this.command(`AUTHENTICATE "PLAIN" ${sieveString(token)}`)
+  }
+
+  /** Send a command, with `literal` appended as a non-synchronizing literal, and wait for OK. */
+  async command(line: string, literal?: string): Promise<SieveResponse> {
+    if (!this.socket) throw new Error('not connected')
+    const data = literal === undefined ? '' : ` {${Buffer.byteLength(literal)}+}\r\n${literal}`
+    this.socket.write(`${line}${data}\r\n`)
+    const response = await this.read()
+    if (response.status !== 'OK') throw new SieveCommandError(response, line.split(' ')[0]!)
+    return response
+  }
+
+  close(): void {
+    this.socket?.destroy()
+    this.socket = null
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket
+    this.buffer = Buffer.alloc(0)
+    socket.setTimeout(SIEVE_TIMEOUT_MS, () => socket.destroy(new Error('ManageSieve server timed out')))
+    socket.on('data', (chunk: Buffer) => {
+      if (socket !== this.socket) return
+      this.buffer = Buffer.concat([this.buffer, chunk])
+      this.deliver()
+    })
+    socket.on('error', (err) => this.fail(err))
+    socket.on('close', () => this.fail(new Error('ManageSieve server closed the connection')))
+  }
+
+  private read(): Promise<SieveResponse> {
+    return new Promise((resolve, reject) => {
+      if (this.failure) return reject(this.failure)
+      this.waiting = { resolve, reject }
+      this.deliver()
+    })
+  }
+
+  private deliver(): void {
+    if (!this.waiting) return
+    const parsed = parseSieveResponse(this.buffer)
+    if (!parsed) return
+    this.buffer = this.buffer.subarray(parsed.length)
+    const { resolve } = this.waiting
+    this.waiting = null
+    resolve(parsed.response)
+  }
+
+  private fail(err: Error): void {
+    this.failure ??= err
+    this.waiting?.reject(err)
+    this.waiting = null
+  }
+
+  private readCapabilities(response: SieveResponse): void {
+    if (response.status !== 'OK') throw new SieveCommandError(response, 'connect')
+    this.capabilities = new Map(response.lines.map(([name, value]) => [String(name).toUpperCase(), typeof value === 'string' ? value : '']))
+  }
+}
@@ -0,0 +1,78 @@
+// Tests for ManageSieve response parsing and Sieve generation from rules.
+
+import { expect, test } from 'vitest'
+import { parseRulesFile } from './mail-rules.js'
+import { generateSieve, parseSieveResponse } from './sieve.js'
+
+test('parses ManageSieve responses, waiting for complete literals', () => {
+  const greeting = Buffer.from('"IMPLEMENTATION" "Dovecot Pigeonhole"\r\n"SIEVE" "fileinto imap4flags"\r\n"STARTTLS"\r\nOK "Ready."\r\n')
+  expect(parseSieveResponse(greeting)).toEqual({
+    response: {
+      lines: [['IMPLEMENTATION', 'Dovecot Pigeonhole'], ['SIEVE', 'fileinto imap4flags'], ['STARTTLS']],
+      status: 'OK',
+      code: null,
+      text: 'Ready.',
+    },
+    length: greeting.length,
+  })
+
+  const script = 'require "fileinto";\r\nfileinto "Café";\r\n'
+  const get = Buffer.from(`{${Buffer.byteLength(script)}}\r\n${script}\r\nOK "Getscript completed."\r\n`)
+  expect(parseSieveResponse(get.subarray(0, 30))).toBeNull()
+  expect(parseSieveResponse(get)?.response.lines).toEqual([[script]])
+
+  const list = parseSieveResponse(Buffer.from('"OK" ACTIVE\r\n"vacation"\r\nOK\r\n'))
+  expect(list?.response.lines).toEqual([['OK', 'ACTIVE'], ['vacation']])
+
+  const no = parseSieveResponse(Buffer.from('NO (QUOTA/MAXSIZE) "Script is too \\"big\\""\r\n'))
+  expect(no?.response).toMatchObject({ status: 'NO', code: ['QUOTA/MAXSIZE'], text: 'Script is too "big"' })
+})
+
+test('generates Sieve from local rules', () => {
+  const rules = parseRulesFile(`
+- name: receipts
+  query: from:billing@example.com {subject:invoice subject:receipt} larger:1M
+  actions: { mark_read: true, move: Receipts }
+- name: boss
+  query: from:boss@example.com -subject:"fyi"
+  actions: { flag: true, forward: me@example.com }
+  stop: true
+- name: old
+  query: older_than:1y
+  actions: { trash: true }
+- name: notify
+  query: urgent
+  actions: { run: notify-send urgent }
+- name: other account
+  query: from:x@example.com
+  accounts: other@example.com
+  actions: { trash: true }
+`)
+  if (rules instanceof Error) throw rules
+
+  const { script, skipped } = generateSieve(rules, { account: 'me@example.com', source: 'rules.yaml' })
+  expect(skipped).toEqual([
+    { rule: 'old', reason: "older_than:1y can't be checked by Sieve" },
+    { rule: 'notify', reason: 'run: commands only run locally (zele mail watch)' },
+  ])
+  expect(script).toMatchInlineSnapshot(`
+    "# Generated by zele from rules.yaml for me@example.com.
+    # Edit the rules there and upload again instead of changing this script.
+    require ["copy", "fileinto", "imap4flags"];
+
+    # receipts: from:billing@example.com {subject:invoice subject:receipt} larger:1M
+    if allof (address :contains "from" "billing@example.com", anyof (header :contains "subject" "invoice", header :contains "subject" "receipt"), size :over 1048576) {
+        addflag "\\\\Seen";
+        fileinto "Receipts";
+        stop;
+    }
+
+    # boss: from:boss@example.com -subject:"fyi"
+    if allof (address :contains "from" "boss@example.com", not header :contains "subject" "fyi") {
+        addflag "\\\\Flagged";
+        redirect :copy "me@example.com";
+        stop;
+    }
+    "
+  `)
+})
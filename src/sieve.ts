@@ -0,0 +1,238 @@
+// Sieve (RFC 5228) for server-side filtering on IMAP hosts (`zele sieve`).
+// parseSieveResponse() reads ManageSieve (RFC 5804) responses for
+// sieve-client.ts; generateSieve() turns the local rules of rules.yaml
+// (mail-rules.ts) into a Sieve script, so the same rules can run on the
+// server with no zele process watching. Pure functions only.
+
+import { ValidationError } from './api-utils.js'
+import { sizeInBytes, type QueryNode } from './gmail-query.js'
+import type { MailRule } from './mail-rules.js'
+
+// ---------------------------------------------------------------------------
+// ManageSieve responses
+// ---------------------------------------------------------------------------
+
+/** An atom or string, or a parenthesized list of them. */
+export type SieveValue = string | SieveValue[]
+
+export interface SieveResponse {
+  /** Data lines before the status line (script names, capabilities, a script) */
+  lines: SieveValue[][]
+  status: 'OK' | 'NO' | 'BYE'
+  /** Response code, e.g. ['QUOTA/MAXSIZE'] or ['SASL', '...'] */
+  code: SieveValue[] | null
+  text: string
+}
+
+const SP = 0x20
+const CR = 0x0d
+const LF = 0x0a
+const QUOTE = 0x22
+const BACKSLASH = 0x5c
+
+/**
+ * Parse one complete response from the start of `buf`: data lines up to
+ * and including the OK/NO/BYE line. Returns null while more bytes are needed,
+ * else the response and how many bytes it used.
+ */
+export function parseSieveResponse(buf: Buffer): { response: SieveResponse; length: number } | null {
+  const lines: SieveValue[][] = []
+  let pos = 0
+  while (pos < buf.length) {
+    const line = readLine(buf, pos)
+    if (!line) return null
+    pos = line.end
+
+    const [first, second, third] = line.tokens
+    const status = line.firstIsAtom && typeof first === 'string' ? first.toUpperCase() : ''
+    if (status === 'OK' || status === 'NO' || status === 'BYE') {
+      const code = Array.isArray(second) ? second : null
+      const text = code ? third : second
+      return {
+        response: { lines, status, code, text: typeof text === 'string' ? text : '' },
+        length: pos,
+      }
+    }
+    if (line.tokens.length > 0) lines.push(line.tokens)
+  }
+  return null
+}
+
+/** Tokens of one line (literals may span several), or null if it isn't complete yet. */
+function readLine(buf: Buffer, start: number): { tokens: SieveValue[]; firstIsAtom: boolean; end: number } | null {
+  const stack: SieveValue[][] = [[]]
+  let firstIsAtom = false
+  let pos = start
+  const push = (value: SieveValue, atom = false) => {
+    if (stack.length === 1 && stack[0]!.length === 0) firstIsAtom = atom
+    stack[stack.length - 1]!.push(value)
+  }
+
+  while (pos < buf.length) {
+    const ch = buf[pos]!
+    if (ch === SP) {
+      pos++
+    } else if (ch === LF || ch === CR) {
+      if (ch === CR && pos + 1 >= buf.length) return null
+      return { tokens: stack[0]!, firstIsAtom, end: pos + (ch === CR && buf[pos + 1] === LF ? 2 : 1) }
+    } else if (ch === QUOTE) {
+      const bytes: number[] = []
+      let i = pos + 1
+      for (; i < buf.length && buf[i] !== QUOTE; i++) {
+        if (buf[i] === BACKSLASH) i++
+        if (i < buf.length) bytes.push(buf[i]!)
+      }
+      if (i >= buf.length) return null
+      push(Buffer.from(bytes).toString('utf-8'))
+      pos = i + 1
+    } else if (ch === 0x7b /* { */) {
+      const close = buf.indexOf(0x7d /* } */, pos)
+      if (close === -1) return null
+      const size = /^\{(\d+)\+?\}$/.exec(buf.toString('latin1', pos, close + 1))
+      if (!size) return null
+      const dataStart = close + 3 // after "}\r\n"
+      const dataEnd = dataStart + Number(size[1])
+      if (dataEnd > buf.length) return null
+      push(buf.toString('utf-8', dataStart, dataEnd))
+      pos = dataEnd
+    } else if (ch === 0x28 /* ( */) {
+      stack.push([])
+      pos++
+    } else if (ch === 0x29 /* ) */) {
+      const list = stack.length > 1 ? stack.pop()! : []
+      push(list)
+      pos++
+    } else {
+      let end = pos
+      while (end < buf.length && ![SP, CR, LF, QUOTE, 0x28, 0x29].includes(buf[end]!)) end++
+      push(buf.toString('utf-8', pos, end), true)
+      pos = end
+    }
+  }
+  return null
+}
+
+/** A ManageSieve/Sieve quoted string. */
+export function sieveString(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`
+}
+
+// ---------------------------------------------------------------------------
+// Generating Sieve from rules
+// ---------------------------------------------------------------------------
+
+export interface GeneratedSieve {
+  script: string
+  /** Rules that can't run on the server, with the reason */
+  skipped: Array<{ rule: string; reason: string }>
+}
+
+/**
+ * A Sieve script doing what `rules` do for `account`, in the same order.
+ * Queries map to address/header/size/body tests and actions to fileinto,
+ * addflag (imap4flags) and redirect :copy. Rules with `run:` or query
+ * operators Sieve can't check (is:, newer_than:, …) are left out and listed
+ * in `skipped`. Folder names are used as given, so write the mailbox name
+ * (Archive, not archive).
+ */
+export function generateSieve(rules: MailRule[], { account, source }: { account: string; source: string }): GeneratedSieve {
+  const requires = new Set<string>()
+  const blocks: string[] = []
+  const skipped: GeneratedSieve['skipped'] = []
+
+  for (const rule of rules) {
+    if (rule.accounts.length > 0 && !rule.accounts.includes(account.toLowerCase())) continue
+
+    const test = sieveTest(rule.match)
+    if (test instanceof Error) {
+      skipped.push({ rule: rule.name, reason: String(test.reason) })
+      continue
+    }
+    if (rule.actions.run) {
+      skipped.push({ rule: rule.name, reason: 'run: commands only run locally (zele mail watch)' })
+      continue
+    }
+
+    const { actions } = rule
+    const commands = [
+      ...(actions.mark_read ? ['addflag "\\\\Seen";'] : []),
+      ...(actions.flag ? ['addflag "\\\\Flagged";'] : []),
+      ...(actions.forward ? [`redirect :copy ${sieveString(actions.forward)};`] : []),
+      ...(actions.move ? [`fileinto ${sieveString(actions.move)};`] : []),
+      ...(actions.trash ? ['fileinto "Trash";'] : []),
+      ...(actions.move || actions.trash || rule.stop ? ['stop;'] : []),
+    ]
+    test.requires.forEach((r) => requires.add(r))
+    if (actions.mark_read || actions.flag) requires.add('imap4flags')
+    if (actions.forward) requires.add('copy')
+    if (actions.move || actions.trash) requires.add('fileinto')
+
+    blocks.push([
+      `# ${rule.name}: ${rule.query.replace(/\s+/g, ' ')}`,
+      `if ${test.test} {`,
+      ...commands.map((c) => `    ${c}`),
+      '}',
+    ].join('\n'))
+  }
+
+  const header = [
+    `# Generated by zele from ${source} for ${account}.`,
+    '# Edit the rules there and upload again instead of changing this script.',
+    ...(requires.size > 0 ? [`require [${[...requires].sort().map(sieveString).join(', ')}];`] : []),
+  ]
+  return { script: [header.join('\n'), ...blocks].join('\n\n') + '\n', skipped }
+}
+
+/** A Sieve test for a parsed Gmail query, plus the extensions it needs. */
+function sieveTest(node: QueryNode): { test: string; requires: string[] } | ValidationError {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      if (node.children.length === 0) return { test: 'true', requires: [] }
+      const children: Array<{ test: string; requires: string[] }> = []
+      for (const child of node.children) {
+        const compiled = sieveTest(child)
+        if (compiled instanceof Error) return compiled
+        children.push(compiled)
+      }
+      return {
+        test: `${node.type === 'and' ? 'allof' : 'anyof'} (${children.map((c) => c.test).join(', ')})`,
+        requires: children.flatMap((c) => c.requires),
+      }
+    }
+    case 'not': {
+      const child = sieveTest(node.child)
+      if (child instanceof Error) return child
+      return { test: `not ${child.test}`, requires: child.requires }
+    }
+  }
+
+  const value = sieveString(node.value)
+  switch (node.operator) {
+    case null:
+      return { test: `anyof (header :contains "subject" ${value}, body :text :contains ${value})`, requires: ['body'] }
+    case 'from':
+    case 'to':
+    case 'cc':
+    case 'bcc':
+      return { test: `address :contains "${node.operator}" ${value}`, requires: [] }
+    case 'subject':
+      return { test: `header :contains "subject" ${value}`, requires: [] }
+    case 'list':
+      return { test: `header :contains "list-id" ${value}`, requires: [] }
+    case 'rfc822msgid':
+      return { test: `header :contains "message-id" ${value}`, requires: [] }
+    case 'has':
+      if (node.value.toLowerCase() === 'attachment') return { test: 'header :contains "content-type" "multipart/mixed"', requires: [] }
+      break
+    case 'larger':
+    case 'size':
+    case 'smaller': {
+      const bytes = sizeInBytes(node.value)
+      if (bytes === null) break
+      return { test: `size ${node.operator === 'smaller' ? ':under' : ':over'} ${bytes}`, requires: [] }
+    }
+  }
+  const term = `${node.operator ? `${node.operator}:` : ''}${node.value}`
+  return new ValidationError({ field: 'query', reason: `${term} can't be checked by Sieve` })
+}
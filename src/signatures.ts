@@ -0,0 +1,67 @@
+// Stored signatures (`zele signature`), appended by the clients' sendMessage,
+// forwardThread and draft builders unless the caller opts out (--no-signature).
+// Each account has an optional default signature (alias "") and optional
+// per-alias signatures keyed by From address; an alias signature wins.
+
+import { getPrisma } from './db.js'
+import type { AccountId } from './auth.js'
+import { appendSignature, type SignatureContent } from './mail-signature.js'
+
+export interface SignatureEntry extends SignatureContent {
+  email: string
+  appId: string
+  /** From address the signature is for; "" means every address of the account */
+  alias: string
+  updatedAt: Date
+}
+
+// ---------------------------------------------------------------------------
+// Table access
+// ---------------------------------------------------------------------------
+
+export async function setSignature(account: AccountId, alias: string, content: SignatureContent): Promise<SignatureEntry> {
+  const prisma = await getPrisma()
+  const data = { text: content.text, html: content.html, updatedAt: new Date() }
+  const row = await prisma.signature.upsert({
+    where: { email_appId_alias: { email: account.email, appId: account.appId, alias } },
+    create: { email: account.email, appId: account.appId, alias, ...data },
+    update: data,
+  })
+  return { ...row, updatedAt: new Date(row.updatedAt) }
+}
+
+export async function listSignatures(accounts?: AccountId[]): Promise<SignatureEntry[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.signature.findMany({
+    where: accounts ? { OR: accounts.map((a) => ({ email: a.email, appId: a.appId })) } : undefined,
+    orderBy: [{ email: 'asc' }, { alias: 'asc' }],
+  })
+  return rows.map((row) => ({ ...row, updatedAt: new Date(row.updatedAt) }))
+}
+
+export async function removeSignature(account: AccountId, alias: string): Promise<boolean> {
+  const prisma = await getPrisma()
+  const { count } = await prisma.signature.deleteMany({ where: { email: account.email, appId: account.appId, alias } })
+  return count > 0
+}
+
+/** The signature for mail sent from `fromEmail` (or the account address). */
+export async function findSignature(account: AccountId, fromEmail?: string): Promise<SignatureContent | null> {
+  const prisma = await getPrisma()
+  const aliases = fromEmail && fromEmail.toLowerCase() !== account.email.toLowerCase() ? [fromEmail.toLowerCase(), ''] : ['']
+  const rows = await prisma.signature.findMany({
+    where: { email: account.email, appId: account.appId, alias: { in: aliases } },
+  })
+  const row = rows.find((r) => r.alias !== '') ?? rows[0]
+  return row ? { text: row.text, html: row.html } : null
+}
+
+/** Append the account's signature to an outgoing body (and HTML part), if it has one. */
+export async function signMessage(
+  account: AccountId | null,
+  message: { body: string; html?: string; fromEmail?: string },
+): Promise<{ body: string; html?: string }> {
+  const signature = account ? await findSignature(account, message.fromEmail) : null
+  if (!signature) return { body: message.body, html: message.html }
+  return appendSignature(message, signature)
+}
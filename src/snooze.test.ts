@@ -0,0 +1,43 @@
+// Tests for picking due snoozes and bringing a snoozed thread back through
+// its client.
+
+import { expect, test } from 'vitest'
+import { dueSnoozes, unsnoozeEntry, type SnoozeEntry } from './snooze.js'
+import type { ClientEntry } from './auth.js'
+
+function snooze(id: number, email: string, until: string): SnoozeEntry {
+  return { id, email, appId: 'app', threadId: `t${id}`, snoozedId: `Snoozed:${id}`, subject: `S${id}`, until: new Date(until) }
+}
+
+test('picks due snoozes of known accounts', () => {
+  const client = {} as ClientEntry['client']
+  const clients = [{ email: 'a@x.com', appId: 'app', client }] as ClientEntry[]
+  const entries = [
+    snooze(1, 'a@x.com', '2024-03-10T08:00:00Z'),
+    snooze(2, 'a@x.com', '2024-03-10T12:00:00Z'),
+    snooze(3, 'a@x.com', '2024-03-11T08:00:00Z'),
+    snooze(4, 'b@x.com', '2024-03-09T08:00:00Z'),
+  ]
+
+  const due = dueSnoozes(entries, clients, new Date('2024-03-10T12:00:00Z'))
+  expect(due.map((d) => d.entry.id)).toEqual([1, 2])
+  expect(due.every((d) => d.client === client)).toBe(true)
+})
+
+test('unsnoozes from where the thread is kept and reports failures', async () => {
+  const calls: string[] = []
+  const client = {
+    unsnooze: async ({ threadId }: { threadId: string }) => {
+      calls.push(threadId)
+      return threadId === 'Snoozed:2' ? new Error('folder is gone') : undefined
+    },
+  } as unknown as Pick<ClientEntry['client'], 'unsnooze'>
+
+  expect(await unsnoozeEntry(client, snooze(1, 'a@x.com', '2024-03-10T08:00:00Z'))).toEqual({
+    account: 'a@x.com', thread_id: 't1', subject: 'S1', status: 'unsnoozed',
+  })
+  expect(await unsnoozeEntry(client, snooze(2, 'a@x.com', '2024-03-10T08:00:00Z'))).toEqual({
+    account: 'a@x.com', thread_id: 't2', subject: 'S2', status: 'failed', error: 'folder is gone',
+  })
+  expect(calls).toEqual(['Snoozed:1', 'Snoozed:2'])
+})
@@ -0,0 +1,117 @@
+// Snoozed threads (`mail snooze --until`). The clients put the thread away
+// (Gmail archives it, IMAP moves it to a Snoozed folder) and the wake-up time
+// is kept in the Snooze table. wakeDueSnoozes() brings due threads back to the
+// inbox, marked unread; it runs from `zele snooze run` and on every `mail watch`
+// tick. Works the same for GmailClient and ImapSmtpClient.
+
+import { getPrisma } from './db.js'
+import type { AccountId, ClientEntry } from './auth.js'
+
+export interface SnoozeEntry {
+  id: number
+  email: string
+  appId: string
+  /** Thread ID the user snoozed */
+  threadId: string
+  /** Where the thread is while snoozed, passed to unsnooze() */
+  snoozedId: string
+  subject: string
+  until: Date
+}
+
+/** Result of bringing one snoozed thread back. */
+export interface WakeResult {
+  account: string
+  thread_id: string
+  subject: string
+  status: 'unsnoozed' | 'failed'
+  error?: string
+}
+
+// ---------------------------------------------------------------------------
+// Table access
+// ---------------------------------------------------------------------------
+
+export async function recordSnooze(
+  account: AccountId,
+  snooze: { threadId: string; snoozedId: string; subject: string; until: Date },
+): Promise<number> {
+  const prisma = await getPrisma()
+  const row = await prisma.snooze.create({
+    data: {
+      email: account.email,
+      appId: account.appId,
+      threadId: snooze.threadId,
+      snoozedId: snooze.snoozedId,
+      subject: snooze.subject,
+      until: snooze.until,
+      createdAt: new Date(),
+    },
+  })
+  return row.id
+}
+
+/** Pending snoozes of the given accounts (all accounts when omitted), soonest first. */
+export async function listSnoozed(accounts?: AccountId[]): Promise<SnoozeEntry[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.snooze.findMany({
+    where: accounts ? { OR: accounts.map((a) => ({ email: a.email, appId: a.appId })) } : undefined,
+    orderBy: { until: 'asc' },
+  })
+  return rows.map((row) => ({
+    id: row.id,
+    email: row.email,
+    appId: row.appId,
+    threadId: row.threadId,
+    snoozedId: row.snoozedId,
+    subject: row.subject,
+    until: new Date(row.until),
+  }))
+}
+
+export async function removeSnooze(id: number): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.snooze.deleteMany({ where: { id } })
+}
+
+// ---------------------------------------------------------------------------
+// Waking
+// ---------------------------------------------------------------------------
+
+/** Snoozes whose time has come, with their account's client. Entries of accounts not in `clients` wait. */
+export function dueSnoozes(
+  entries: SnoozeEntry[],
+  clients: ClientEntry[],
+  now = new Date(),
+): Array<{ entry: SnoozeEntry; client: ClientEntry['client'] }> {
+  return entries.flatMap((entry) => {
+    if (entry.until.getTime() > now.getTime()) return []
+    const owner = clients.find((c) => c.email === entry.email && c.appId === entry.appId)
+    return owner ? [{ entry, client: owner.client }] : []
+  })
+}
+
+/** Put a snoozed thread back in the inbox from where it is kept (snoozedId). Leaves the table alone. */
+export async function unsnoozeEntry(client: Pick<ClientEntry['client'], 'unsnooze'>, entry: SnoozeEntry): Promise<WakeResult> {
+  const result = await client.unsnooze({ threadId: entry.snoozedId })
+  const base = { account: entry.email, thread_id: entry.threadId, subject: entry.subject }
+  if (result instanceof Error) return { ...base, status: 'failed', error: result.message }
+  return { ...base, status: 'unsnoozed' }
+}
+
+/** Bring a snoozed thread back now, whether or not it is due. */
+export async function wakeSnooze(client: ClientEntry['client'], entry: SnoozeEntry): Promise<WakeResult> {
+  const result = await unsnoozeEntry(client, entry)
+  if (result.status === 'unsnoozed') await removeSnooze(entry.id)
+  return result
+}
+
+/** Bring back every snoozed thread of these clients whose time has come.
+ *  Failed ones stay snoozed and are retried on the next tick. */
+export async function wakeDueSnoozes(clients: ClientEntry[], now = new Date()): Promise<WakeResult[]> {
+  const results: WakeResult[] = []
+  for (const { entry, client } of dueSnoozes(await listSnoozed(clients), clients, now)) {
+    results.push(await wakeSnooze(client, entry))
+  }
+  return results
+}
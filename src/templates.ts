@@ -0,0 +1,159 @@
+// Stored mail templates (`zele template`, `--template` on mail send/reply and
+// draft create). Templates live in the Template table and are shared by all
+// accounts. renderStoredTemplate() fills in placeholders (mail-template.ts)
+// and reads the attachment files, ready to hand to the clients.
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { lookup as mimeLookup } from 'mrmime'
+import { getPrisma } from './db.js'
+import { NotFoundError, ValidationError } from './api-utils.js'
+import { renderTemplate, parseVars } from './mail-template.js'
+
+export interface MailTemplate {
+  name: string
+  subject: string
+  body: string
+  cc: string[]
+  bcc: string[]
+  /** File paths, read each time the template is used */
+  attachments: string[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface RenderedTemplate {
+  subject: string
+  body: string
+  cc: Array<{ email: string }>
+  bcc: Array<{ email: string }>
+  attachments: Array<{ filename: string; mimeType: string; content: Buffer }>
+}
+
+const NAME_RE = /^[\w.-]+$/
+
+/** Template names are used on the command line: letters, digits, `_`, `-` and `.`. */
+export function validateTemplateName(name: string): ValidationError | null {
+  return NAME_RE.test(name) ? null : new ValidationError({ field: 'template name', reason: `"${name}" may only contain letters, digits, _, - and .` })
+}
+
+// ---------------------------------------------------------------------------
+// Table access
+// ---------------------------------------------------------------------------
+
+function toTemplate(row: {
+  name: string
+  subject: string
+  body: string
+  cc: string
+  bcc: string
+  attachments: string
+  createdAt: Date | string
+  updatedAt: Date | string
+}): MailTemplate {
+  return {
+    name: row.name,
+    subject: row.subject,
+    body: row.body,
+    cc: row.cc ? row.cc.split(',') : [],
+    bcc: row.bcc ? row.bcc.split(',') : [],
+    attachments: JSON.parse(row.attachments) as string[],
+    createdAt: new Date(row.createdAt),
+    updatedAt: new Date(row.updatedAt),
+  }
+}
+
+export async function listTemplates(): Promise<MailTemplate[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.template.findMany({ orderBy: { name: 'asc' } })
+  return rows.map(toTemplate)
+}
+
+export async function getTemplate(name: string): Promise<MailTemplate | NotFoundError> {
+  const prisma = await getPrisma()
+  const row = await prisma.template.findUnique({ where: { name } })
+  if (!row) return new NotFoundError({ resource: `template ${name}` })
+  return toTemplate(row)
+}
+
+/** Create or replace a template. Attachment paths are stored absolute. */
+export async function saveTemplate(template: Omit<MailTemplate, 'createdAt' | 'updatedAt'>): Promise<MailTemplate> {
+  const prisma = await getPrisma()
+  const now = new Date()
+  const data = {
+    subject: template.subject,
+    body: template.body,
+    cc: template.cc.join(','),
+    bcc: template.bcc.join(','),
+    attachments: JSON.stringify(template.attachments.map((p) => path.resolve(p))),
+    updatedAt: now,
+  }
+  const row = await prisma.template.upsert({
+    where: { name: template.name },
+    create: { name: template.name, ...data, createdAt: now },
+    update: data,
+  })
+  return toTemplate(row)
+}
+
+export async function deleteTemplate(name: string): Promise<boolean> {
+  const prisma = await getPrisma()
+  const { count } = await prisma.template.deleteMany({ where: { name } })
+  return count > 0
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/**
+ * Render a template for `--template`/`--var`: `context` holds the variables
+ * zele knows (the other party's name and address), `--var` flags override them.
+ */
+export async function renderTemplateOption(
+  name: string,
+  varFlags: string[] | undefined,
+  context: Record<string, string> = {},
+): Promise<RenderedTemplate | NotFoundError | ValidationError> {
+  const vars = parseVars(varFlags)
+  if (vars instanceof Error) return vars
+  return renderStoredTemplate(name, { ...context, ...vars })
+}
+
+/** Load a template, fill in its placeholders and read its attachments. */
+export async function renderStoredTemplate(
+  name: string,
+  vars: Record<string, string>,
+): Promise<RenderedTemplate | NotFoundError | ValidationError> {
+  const template = await getTemplate(name)
+  if (template instanceof Error) return template
+
+  // Check subject and body together so the error lists every missing variable
+  const check = renderTemplate(`${template.subject}\n${template.body}`, vars)
+  if (check instanceof Error) return check
+
+  const attachments = readTemplateAttachments(template)
+  if (attachments instanceof Error) return attachments
+
+  return {
+    subject: renderTemplate(template.subject, vars) as string,
+    body: renderTemplate(template.body, vars) as string,
+    cc: template.cc.map((email) => ({ email })),
+    bcc: template.bcc.map((email) => ({ email })),
+    attachments,
+  }
+}
+
+/** Read a template's attachment files. */
+export function readTemplateAttachments(template: MailTemplate): RenderedTemplate['attachments'] | NotFoundError {
+  const attachments: RenderedTemplate['attachments'] = []
+  for (const filePath of template.attachments) {
+    if (!fs.existsSync(filePath)) return new NotFoundError({ resource: `Attachment ${filePath} of template ${template.name}` })
+    attachments.push({
+      filename: path.basename(filePath),
+      mimeType: mimeLookup(filePath) ?? 'application/octet-stream',
+      content: fs.readFileSync(filePath),
+    })
+  }
+  return attachments
+}
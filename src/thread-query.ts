@@ -0,0 +1,23 @@
+// Every thread matching a search, for commands that work through a whole
+// result set (attachment download --query, mail export --query). Pages
+// through listThreads() of either client so large searches never sit in
+// memory at once.
+
+import type { ClientEntry } from './auth.js'
+
+/** Threads per listThreads page. */
+const QUERY_PAGE_SIZE = 100
+
+/** Thread IDs matching `query`, page by page. A failed page is yielded as its error and ends the search. */
+export async function* queryThreadIds({ client }: Pick<ClientEntry, 'client'>, query: string) {
+  for (let pageToken: string | undefined; ;) {
+    const page = await client.listThreads({ query, maxResults: QUERY_PAGE_SIZE, pageToken })
+    if (page instanceof Error) {
+      yield page
+      return
+    }
+    yield* page.threads.map((t) => t.id)
+    if (!page.nextPageToken) return
+    pageToken = page.nextPageToken
+  }
+}
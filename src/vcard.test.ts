@@ -0,0 +1,60 @@
+// Tests for vCard parsing and round-tripping edits.
+
+import { expect, test } from 'vitest'
+import { buildVCard, cardFromVCard } from './vcard.js'
+
+const googleCard = [
+  'BEGIN:VCARD',
+  'VERSION:3.0',
+  'UID:c1a2b3',
+  'N:Lovelace;Ada;;;',
+  'FN:Ada Lovelace',
+  'item1.EMAIL;TYPE=INTERNET:ada@example.com',
+  'item1.X-ABLabel:Work',
+  'EMAIL;TYPE=INTERNET;TYPE=HOME:ada@home.example',
+  'TEL;TYPE=CELL:+44 20 7946 0000',
+  'ORG:Analytical Engines\\, Ltd;Research',
+  'NOTE:Met at the Babbage talk\\nLikes poetry',
+  'PHOTO;VALUE=URI:https://example.com/ada-',
+  ' photo.jpg',
+  'END:VCARD',
+  '',
+].join('\r\n')
+
+test('reads the fields zele uses', () => {
+  expect(cardFromVCard(googleCard)).toEqual({
+    uid: 'c1a2b3',
+    name: 'Ada Lovelace',
+    emails: ['ada@example.com', 'ada@home.example'],
+    phones: ['+44 20 7946 0000'],
+    org: 'Analytical Engines, Ltd, Research',
+    note: 'Met at the Babbage talk\nLikes poetry',
+  })
+  expect(cardFromVCard('BEGIN:VCARD\nVERSION:4.0\nN:Hopper;Grace;;;\nEND:VCARD')).toMatchObject({ name: 'Grace Hopper' })
+  expect(cardFromVCard('not a card')).toBeInstanceOf(Error)
+})
+
+test('rewrites edited fields and keeps everything else', () => {
+  const card = cardFromVCard(googleCard)
+  if (card instanceof Error) throw card
+  const edited = buildVCard({ ...card, emails: ['ada@example.com', 'ada@new.example'], note: '' }, googleCard)
+  expect((edited as string).replace(/\r\n/g, '\n')).toMatchInlineSnapshot(`
+    "BEGIN:VCARD
+    VERSION:3.0
+    UID:c1a2b3
+    FN:Ada Lovelace
+    N:Lovelace;Ada;;;
+    item1.EMAIL;TYPE=INTERNET:ada@example.com
+    EMAIL:ada@new.example
+    TEL;TYPE=CELL:+44 20 7946 0000
+    ORG:Analytical Engines\\, Ltd\\, Research
+    item1.X-ABLABEL:Work
+    PHOTO;VALUE=URI:https://example.com/ada-photo.jpg
+    END:VCARD
+    "
+  `)
+
+  const created = buildVCard({ uid: 'new-1', name: 'Grace Brewster Hopper', emails: ['grace@navy.example'], phones: [], org: '', note: '' })
+  expect(created).toContain('N:Hopper;Grace Brewster;;;\r\n')
+  expect(cardFromVCard(created as string)).toMatchObject({ uid: 'new-1', name: 'Grace Brewster Hopper', emails: ['grace@navy.example'] })
+})
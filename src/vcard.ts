@@ -0,0 +1,181 @@
+// vCard parsing and generation for the CardDAV address book (`zele contacts
+// add/edit`, carddav-client.ts). Handles vCard 3.0 (RFC 2426, what Google
+// serves) and 4.0 (RFC 6350). Only the properties zele shows or edits are
+// interpreted; every other line of a card is kept as-is when it is rewritten,
+// so editing a contact never drops what other clients stored (photos, postal
+// addresses, birthdays). Pure functions.
+
+import { ParseError } from './api-utils.js'
+
+export interface VCardProperty {
+  /** Group prefix ("item1" in "item1.EMAIL"), kept for Apple/Google cards */
+  group?: string
+  /** Uppercased property name */
+  name: string
+  /** Raw parameter string without the leading ";" ("TYPE=INTERNET;TYPE=HOME") */
+  params: string
+  /** Raw (still escaped) value */
+  value: string
+}
+
+/** The fields zele reads and edits. */
+export interface Card {
+  uid: string
+  name: string
+  emails: string[]
+  phones: string[]
+  org: string
+  note: string
+}
+
+/** Properties rewritten from Card fields; everything else is carried over. */
+const EDITED = new Set(['UID', 'FN', 'N', 'EMAIL', 'TEL', 'ORG', 'NOTE', 'REV'])
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Split a vCard into its content lines (unfolded), between BEGIN and END. */
+export function parseVCard(text: string): VCardProperty[] | ParseError {
+  // Unfold: a line starting with a space or tab continues the previous one
+  const lines = text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter((l) => l.trim())
+  if (lines[0]?.toUpperCase() !== 'BEGIN:VCARD' || lines[lines.length - 1]?.toUpperCase() !== 'END:VCARD') {
+    return new ParseError({ what: 'vCard', reason: 'missing BEGIN:VCARD/END:VCARD' })
+  }
+
+  const properties: VCardProperty[] = []
+  for (const line of lines.slice(1, -1)) {
+    const colon = valueStart(line)
+    if (colon < 0) return new ParseError({ what: 'vCard', reason: `line without a value: ${line.slice(0, 40)}` })
+    const head = line.slice(0, colon)
+    const semi = head.indexOf(';')
+    const nameWithGroup = semi < 0 ? head : head.slice(0, semi)
+    const dot = nameWithGroup.lastIndexOf('.')
+    properties.push({
+      ...(dot > 0 ? { group: nameWithGroup.slice(0, dot) } : {}),
+      name: nameWithGroup.slice(dot + 1).toUpperCase(),
+      params: semi < 0 ? '' : head.slice(semi + 1),
+      value: line.slice(colon + 1),
+    })
+  }
+  return properties
+}
+
+/** Index of the ":" separating name and parameters from the value (skipping quoted parameter values). */
+function valueStart(line: string): number {
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted
+    else if (line[i] === ':' && !quoted) return i
+  }
+  return -1
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch))
+}
+
+function escapeText(value: string): string {
+  return value.replace(/[\\,;]/g, (ch) => `\\${ch}`).replace(/\r?\n/g, '\\n')
+}
+
+/** Split a structured value (N, ORG) on unescaped ";" and unescape the components. */
+function components(value: string): string[] {
+  return value.split(/(?<!\\);/).map(unescapeText)
+}
+
+/** Read the fields zele uses from vCard text. */
+export function cardFromVCard(text: string): Card | ParseError {
+  const properties = parseVCard(text)
+  if (properties instanceof ParseError) return properties
+  const first = (name: string) => properties.find((p) => p.name === name)
+
+  let name = unescapeText(first('FN')?.value ?? '').trim()
+  if (!name && first('N')) {
+    // N is family;given;additional;prefix;suffix
+    const [family = '', given = ''] = components(first('N')!.value)
+    name = [given, family].filter(Boolean).join(' ')
+  }
+
+  return {
+    uid: unescapeText(first('UID')?.value ?? ''),
+    name,
+    emails: properties.filter((p) => p.name === 'EMAIL').map((p) => unescapeText(p.value).trim()).filter(Boolean),
+    phones: properties.filter((p) => p.name === 'TEL').map((p) => p.value.replace(/^tel:/i, '').trim()).filter(Boolean),
+    org: components(first('ORG')?.value ?? '').filter(Boolean).join(', '),
+    note: unescapeText(first('NOTE')?.value ?? ''),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Generation
+// ---------------------------------------------------------------------------
+
+/**
+ * vCard text for `card`. With `previous` (the card as stored on the server)
+ * its version, unknown properties and the parameters of unchanged emails and
+ * phones are kept; without it a new vCard 3.0 is written.
+ */
+export function buildVCard(card: Card, previous?: string): string | ParseError {
+  const old = previous ? parseVCard(previous) : []
+  if (old instanceof ParseError) return old
+  const oldCard = previous ? cardFromVCard(previous) : null
+  if (oldCard instanceof ParseError) return oldCard
+
+  const find = (name: string, matches: (p: VCardProperty) => boolean) => old.find((p) => p.name === name && matches(p))
+  const keepParams = (name: string, value: string, matches: (p: VCardProperty) => boolean): VCardProperty =>
+    find(name, matches) ? { ...find(name, matches)!, value } : { name, params: '', value }
+
+  const version = find('VERSION', () => true)?.value ?? '3.0'
+  const unchangedName = oldCard?.name === card.name && find('N', () => true)
+  const [given, family] = splitName(card.name)
+
+  const properties: VCardProperty[] = [
+    { name: 'VERSION', params: '', value: version },
+    { name: 'UID', params: '', value: escapeText(card.uid) },
+    { name: 'FN', params: '', value: escapeText(card.name) },
+    unchangedName || { name: 'N', params: '', value: `${escapeText(family)};${escapeText(given)};;;` },
+    ...card.emails.map((email) =>
+      keepParams('EMAIL', escapeText(email), (p) => unescapeText(p.value).trim().toLowerCase() === email.toLowerCase()),
+    ),
+    ...card.phones.map((phone) =>
+      keepParams('TEL', escapeText(phone), (p) => p.value.replace(/^tel:/i, '').trim() === phone),
+    ),
+    ...(card.org ? [keepParams('ORG', escapeText(card.org), () => true)] : []),
+    ...(card.note ? [{ name: 'NOTE', params: '', value: escapeText(card.note) }] : []),
+    ...old.filter((p) => p.name !== 'VERSION' && !EDITED.has(p.name)),
+  ]
+
+  return ['BEGIN:VCARD', ...properties.map(formatProperty), 'END:VCARD', ''].join('\r\n')
+}
+
+/** "Ada King Lovelace" → given "Ada King", family "Lovelace". */
+function splitName(name: string): [string, string] {
+  const words = name.trim().split(/\s+/).filter(Boolean)
+  if (words.length < 2) return [words[0] ?? '', '']
+  return [words.slice(0, -1).join(' '), words[words.length - 1]!]
+}
+
+function formatProperty(p: VCardProperty): string {
+  const line = `${p.group ? `${p.group}.` : ''}${p.name}${p.params ? `;${p.params}` : ''}:${p.value}`
+  return foldLine(line)
+}
+
+/** Fold at 75 octets (RFC 6350 §3.2), never inside a multi-byte character. */
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  for (const ch of line) {
+    const bytes = Buffer.byteLength(ch)
+    if (size + bytes > 75) {
+      parts.push(current)
+      current = ' '
+      size = 1
+    }
+    current += ch
+    size += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n')
+}